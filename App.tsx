@@ -9,15 +9,27 @@ import { LoaderIcon } from './components/icons/LoaderIcon';
 import * as db from './services/db';
 import { log } from './services/loggingService';
 import { fetchOpenRouterModels } from './services/openrouter';
+import { fetchAllCustomEndpointModels } from './services/customEndpointService';
 import { streamChatResponse } from './services/aiService';
 import * as botOrchestrator from './services/botOrchestrator';
+import type { BotImageGenerator, BotHost } from './services/botOrchestrator';
 import * as telegramService from './services/telegramService';
 import * as proactiveAgentService from './services/proactiveAgentService';
 import { generateImage as generateComfyUIImage } from './services/comfyuiService';
+import { resolveComfyUIWorkflow } from './services/comfyuiWorkflows';
+import { getCharactersInScene, resolveImageAppearance } from './services/characterAppearance';
+import { generateImage as generateSDImage } from './services/sdwebuiService';
+import { generateImage as generateHFImage } from './services/huggingfaceService';
+import { generateImage as generateXAIImage } from './services/xaiImageService';
+import { createGalleryImage, extractInlineImages, getGenerationSettingsSnapshot, importGalleryImages } from './services/imageGallery';
 import { INITIAL_MODELS } from './constants';
-import type { Conversation, Settings, Model, Character, Lorebook, UserPersona, CustomThemeColors, Message, Story, IdentityProfile, IdentityFact, Briefing } from './types';
+import type { Conversation, GalleryImage, Settings, Model, Character, Lorebook, UserPersona, CustomThemeColors, Message, Story, IdentityProfile, IdentityFact, Briefing } from './types';
 import { generateUUID } from './utils/uuid';
-import { deleteCollection } from './services/ragService';
+import { deleteCollection, stampCollectionEngines } from './services/ragService';
+import { getConversationLorebooks } from './services/ai/promptBuilder';
+import { createConversationBranch } from './services/conversationBranchService';
+import { removeLivingLoreProposals } from './services/livingLoreQueue';
+import { getCharacterOverride, getConversationCharacters, updateLocalCharacter, type RevisionInfo } from './services/characterRevisions';
 
 // Lazy load modals and overlays to improve initial load performance
 const SettingsModal = lazy(() => import('./components/SettingsModal'));
@@ -25,6 +37,7 @@ const CharactersModal = lazy(() => import('./components/CharactersModal'));
 const LorebooksModal = lazy(() => import('./components/LorebooksModal'));
 const UpdateKnowledgeModal = lazy(() => import('./components/UpdateKnowledgeModal'));
 const LivingLoreUpdateModal = lazy(() => import('./components/LivingLoreUpdateModal'));
+const LivingLoreReviewModal = lazy(() => import('./components/LivingLoreReviewModal'));
 const MemoryModal = lazy(() => import('./components/MemoryModal'));
 const RadioOverlay = lazy(() => import('./components/RadioOverlay'));
 const StoryView = lazy(() => import('./components/StoryView'));
@@ -124,10 +137,12 @@ const AppContent: React.FC = () => {
     const [isCharactersOpen, setIsCharactersOpen] = useState(false);
     const [isLorebooksOpen, setIsLorebooksOpen] = useState(false);
     const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+    const [messageJumpRequest, setMessageJumpRequest] = useState<{ messageId: string; requestedAt: number } | null>(null);
     const [isAddToIdentityModalOpen, setIsAddToIdentityModalOpen] = useState(false);
     const [isUpdateKnowledgeOpen, setIsUpdateKnowledgeOpen] = useState(false);
     const [isBriefingRoomOpen, setIsBriefingRoomOpen] = useState(false);
     const [livingLoreModalData, setLivingLoreModalData] = useState<{ character: Character, suggestedChange: string } | null>(null);
+    const [isLivingLoreReviewOpen, setIsLivingLoreReviewOpen] = useState(false);
 
     // Data Management States
     const [characters, setCharacters] = useState<Character[]>([]);
@@ -246,11 +261,14 @@ const AppContent: React.FC = () => {
             });
             
             const savedSettings = await db.getSettings();
+            // Memory indexes from before the embedding engine was recorded keep the engine they were built with.
+            stampCollectionEngines(savedSettings.rag.embeddingEngine);
             setSettings(savedSettings);
             applyTheme(savedSettings);
 
             fetchOpenRouterModels().then(orModels => {
-                setModels(prev => [...INITIAL_MODELS, ...orModels]);
+                // Keep any custom endpoint models that may have loaded first.
+                setModels(prev => [...INITIAL_MODELS, ...orModels, ...prev.filter(m => m.provider === 'Custom')]);
             });
             
             // Restore last state from localStorage
@@ -300,6 +318,22 @@ const AppContent: React.FC = () => {
         loadInitialData();
     }, []);
 
+    // Reload custom endpoint models whenever the endpoint configuration changes.
+    const customEndpointsKey = JSON.stringify(settings?.customEndpoints || []);
+    useEffect(() => {
+        if (!settings) return;
+        let cancelled = false;
+        // Debounced: live settings updates fire on every keystroke while a base URL is typed.
+        const timer = setTimeout(() => {
+            fetchAllCustomEndpointModels(settings).then(customModels => {
+                if (cancelled) return;
+                setModels(prev => [...prev.filter(m => m.provider !== 'Custom'), ...customModels]);
+            });
+        }, 600);
+        return () => { cancelled = true; clearTimeout(timer); };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [customEndpointsKey]);
+
     const loadMoreConversations = useCallback(async (page: number) => {
         if (isLoadingConversations) return;
         setIsLoadingConversations(true);
@@ -477,7 +511,8 @@ const AppContent: React.FC = () => {
     const handleDeleteConversation = useCallback(async (id: string) => {
         log('INFO', 'CONVERSATION', 'Deleting conversation', { id });
         const convoToDelete = conversations.find(c => c.id === id);
-        if (convoToDelete?.ragCollectionName) {
+        // Branches forked from this conversation keep reading its memories.
+        if (convoToDelete?.ragCollectionName && !(await db.isRagCollectionInUse(convoToDelete.ragCollectionName, id))) {
             await deleteCollection(convoToDelete.ragCollectionName);
             log('INFO', 'RAG', 'Deleted RAG collection for conversation', { collectionName: convoToDelete.ragCollectionName });
         }
@@ -510,6 +545,54 @@ const AppContent: React.FC = () => {
         });
     }, [conversations, handleConversationUpdate, addNotification]);
 
+    // --- Branches ---
+    const [branchFamily, setBranchFamily] = useState<Conversation[]>([]);
+    const branchRootId = selectedConversation ? (selectedConversation.branch?.rootConversationId || selectedConversation.id) : null;
+
+    useEffect(() => {
+        if (!branchRootId) {
+            setBranchFamily([]);
+            return;
+        }
+        db.getConversationFamily(branchRootId).then(setBranchFamily);
+    }, [branchRootId, conversations.length]);
+
+    const handleForkConversation = useCallback(async (messageId: string) => {
+        if (!selectedConversation) return;
+        const name = window.prompt('Name for the new branch:', `Branch ${branchFamily.length || 1}`);
+        if (name === null) return;
+
+        try {
+            const branch = createConversationBranch(selectedConversation, messageId, name.trim() || `Branch ${branchFamily.length || 1}`);
+            await db.saveConversation(branch);
+            setConversations(prev => [branch, ...prev]);
+            setSelectedConversationId(branch.id);
+            addNotification({
+                title: 'Branch Created',
+                message: `Continuing in "${branch.title}". Switch branches from the chat header.`,
+                type: 'success',
+                duration: 3000
+            });
+        } catch (error: any) {
+            log('ERROR', 'CONVERSATION', 'Failed to create branch', { error: error.message });
+            addNotification({
+                title: 'Branch Failed',
+                message: error.message,
+                type: 'error',
+                duration: 5000
+            });
+        }
+    }, [selectedConversation, branchFamily.length, addNotification]);
+
+    const handleSelectBranch = useCallback((id: string) => {
+        // Branches may not be on the loaded page of the sidebar yet.
+        const branch = branchFamily.find(c => c.id === id);
+        if (branch && !conversations.some(c => c.id === id)) {
+            setConversations(prev => [...prev, branch]);
+        }
+        handleSelectConversation(id);
+    }, [branchFamily, conversations, handleSelectConversation]);
+
     const handleDeleteStory = useCallback(async (id: string) => {
         log('INFO', 'STORY', 'Deleting story', { id });
         await db.deleteStory(id);
@@ -547,7 +630,9 @@ const AppContent: React.FC = () => {
         if (!convo) return;
 
         try {
-            const exportData = JSON.stringify(convo, null, 2);
+            // Messages only reference their images, so the gallery goes into the file too.
+            const images = await db.getConversationImages(convo);
+            const exportData = JSON.stringify({ ...convo, images }, null, 2);
             const blob = new Blob([exportData], { type: 'application/json' });
             const url = URL.createObjectURL(blob);
             const a = document.createElement('a');
@@ -598,24 +683,31 @@ const AppContent: React.FC = () => {
 
             try {
                 const text = await file.text();
-                const importedData = JSON.parse(text) as Conversation;
+                const importedData = JSON.parse(text) as Conversation & { images?: GalleryImage[] };
 
                 if (!importedData.messages || !Array.isArray(importedData.messages)) {
                     throw new Error('Invalid conversation format');
                 }
+                // Older exports keep their images inline in the messages.
+                const { messages, images } = importGalleryImages(convo.id, importedData.messages, importedData.images);
+                const inlined = extractInlineImages({ ...convo, messages });
+                await db.saveGalleryImages([...images, ...inlined.images]);
 
                 const updatedConvo: Conversation = {
                     ...convo,
                     title: importedData.title || convo.title,
-                    messages: importedData.messages,
+                    messages: inlined.conversation.messages,
                     systemPrompt: importedData.systemPrompt || convo.systemPrompt,
                     characterIds: importedData.characterIds || convo.characterIds,
+                    characterOverrides: importedData.characterOverrides ?? convo.characterOverrides,
                     lorebookIds: importedData.lorebookIds || convo.lorebookIds,
                     enableThinking: importedData.enableThinking ?? convo.enableThinking,
                     storyArcsEnabled: importedData.storyArcsEnabled ?? convo.storyArcsEnabled,
                     currentLevel: importedData.currentLevel ?? convo.currentLevel,
                     messageProgress: importedData.messageProgress ?? convo.messageProgress,
                     consciousState: importedData.consciousState ?? convo.consciousState,
+                    // Imported state comes with its own history; snapshots of the replaced state no longer apply.
+                    consciousStateHistory: importedData.consciousState ? importedData.consciousStateHistory : convo.consciousStateHistory,
                     consciousStateSettings: importedData.consciousStateSettings ?? convo.consciousStateSettings,
                     multiCharacterMode: importedData.multiCharacterMode ?? convo.multiCharacterMode,
                     scenario: importedData.scenario ?? convo.scenario,
@@ -652,21 +744,28 @@ const AppContent: React.FC = () => {
         applyTheme(newSettings);
     }, []);
 
-    const getAIResponseForBot = useCallback(async (conversation: Conversation): Promise<string> => {
+    const handleSaveIdentityProfile = useCallback(async (profile: IdentityProfile) => {
+        await db.saveIdentityProfile(profile);
+        setIdentityProfilePage(0);
+        await loadMoreIdentityProfiles(0);
+    }, [loadMoreIdentityProfiles]);
+
+    const getAIResponseForBot = useCallback(async (conversation: Conversation, history: Message[], options?: { prefaceText?: string }): Promise<Message> => {
         const currentSettings = settingsRef.current;
         if (!currentSettings) {
             throw new Error("Settings not available.");
         }
 
         return new Promise((resolve, reject) => {
-            const model = models.find(m => m.id === currentSettings.defaultModelId) || models.find(m => m.id === 'gemini-2.5-flash') || models[0];
-            const charactersForBot = characters.filter(c => conversation.characterIds?.includes(c.id));
-            const lorebooksForBot = lorebooks.filter(lb => conversation.lorebookIds?.includes(lb.id));
-            const personaForBot = userPersonas.find(p => p.id === currentSettings.activeUserPersonaId) || null;
+            const modelId = conversation.model || currentSettings.defaultModelId;
+            const model = models.find(m => m.id === modelId) || models.find(m => m.id === 'gemini-2.5-flash') || models[0];
+            const charactersForBot = getConversationCharacters(conversation, characters);
+            const lorebooksForBot = getConversationLorebooks(conversation, charactersForBot, lorebooks);
+            const personaForBot = userPersonas.find(p => p.id === (conversation.userPersonaId || currentSettings.activeUserPersonaId)) || null;
 
             streamChatResponse(
                 conversation,
-                conversation.messages,
+                history,
                 model,
                 currentSettings,
                 charactersForBot,
@@ -676,29 +775,18 @@ const AppContent: React.FC = () => {
                 identityProfiles,
                 () => {}, // onChunk is handled by onComplete
                 (error) => reject(error),
+                // The bot orchestrator decides where the reply goes (new turn, swipe or continuation) and saves it.
                 async (totalTokens, responseText, modelMessage) => {
-                    const latestConversation = await db.getConversationByTelegramChatId(conversation.telegramChatId!);
-                    if (!latestConversation) {
-                        reject(new Error(`Conversation for chat ID ${conversation.telegramChatId} not found.`));
-                        return;
-                    }
-
-                    const finalModelMessage = { ...modelMessage, content: responseText, tokenCount: totalTokens };
-                    const updatedConversation = {
-                        ...latestConversation,
-                        messages: [...latestConversation.messages, finalModelMessage]
-                    };
-                    await db.saveConversation(updatedConversation);
-                    handleConversationUpdate(updatedConversation);
-                    resolve(responseText);
+                    resolve({ ...modelMessage, content: responseText, tokenCount: totalTokens });
                 },
                 // Fix: Add the missing 'signal' argument to the streamChatResponse call to align with its definition.
                 new AbortController().signal,
                 // @google/genai-codelab-user-troubleshooting: FIX: Add missing onStatusUpdate argument to match the function signature.
-                () => {}
+                () => {},
+                options
             );
         });
-    }, [models, characters, lorebooks, userPersonas, identityProfiles, handleConversationUpdate]);
+    }, [models, characters, lorebooks, userPersonas, identityProfiles]);
 
     const findOrCreateConversationForBot = useCallback(async (chatId: number): Promise<Conversation> => {
         const existingConvo = await db.getConversationByTelegramChatId(chatId);
@@ -752,35 +840,98 @@ const AppContent: React.FC = () => {
         return newConversation;
     }, [findOrCreateConversationForBot, handleConversationUpdate]);
 
-    const handleImageGenerationForBot = useCallback(async (generator: 'comfyui' | 'sdwebui', prompt: string, chatId: number) => {
+    const handleImageGenerationForBot = useCallback(async (generator: BotImageGenerator, prompt: string, chatId: number) => {
         const currentSettings = settingsRef.current;
         if (!currentSettings) return;
 
         const token = currentSettings.telegram.botToken;
+        const conversation = await findOrCreateConversationForBot(chatId);
+        // The scene's appearance, resolved like in the web chat (see getSceneAppearance in useChatHandler).
+        const conversationCharacters = getConversationCharacters(conversation, characters);
+        const recentTexts = conversation.messages.slice(-3).map(m => m.content);
+        const appearance = resolveImageAppearance(getCharactersInScene(conversationCharacters, [prompt, ...recentTexts]));
+        const generators: Record<BotImageGenerator, { name: string; isReady: boolean; generate: () => Promise<{ dataUrl: string; seed?: number; workflowName?: string }> }> = {
+            comfyui: {
+                name: 'ComfyUI',
+                isReady: currentSettings.comfyUI.isConnected,
+                generate: async () => {
+                    const { workflow, character } = resolveComfyUIWorkflow(currentSettings.comfyUI, conversation, conversationCharacters);
+                    const result = await generateComfyUIImage(prompt, currentSettings.comfyUI, () => {}, { workflow, referenceImage: character?.imageUrl, appearance });
+                    return { dataUrl: result.dataUrl, seed: result.seed, workflowName: workflow?.name };
+                },
+            },
+            sdwebui: {
+                name: 'Stable Diffusion WebUI',
+                isReady: currentSettings.stableDiffusion.isConnected,
+                generate: async () => {
+                    const result = await generateSDImage(prompt, currentSettings.stableDiffusion, () => {}, appearance);
+                    return { dataUrl: result.dataUrl, seed: result.seed ?? appearance?.seed };
+                },
+            },
+            huggingface: {
+                name: 'Hugging Face',
+                isReady: currentSettings.huggingFace.isConnected,
+                generate: async () => ({ dataUrl: await generateHFImage(prompt, currentSettings.huggingFace, () => {}, appearance), seed: appearance?.seed }),
+            },
+            xai: {
+                name: 'XAI',
+                isReady: !!currentSettings.xaiApiKey,
+                generate: async () => ({ dataUrl: await generateXAIImage(prompt, currentSettings, () => {}) }),
+            },
+        };
+        const { name, isReady, generate } = generators[generator];
 
-        if (generator === 'comfyui') {
-            if (!currentSettings.comfyUI.isConnected) {
-                await telegramService.sendMessage(token, chatId, "ComfyUI is not connected in the main app settings.");
-                return;
-            }
-            try {
-                await telegramService.sendMessage(token, chatId, `🎨 Generating image for: "${prompt}"...`);
-                await telegramService.sendChatAction(token, chatId, 'upload_photo');
-                
-                const { filename } = await generateComfyUIImage(prompt, currentSettings.comfyUI, (progress) => {});
-                
-                const imageUrl = `${currentSettings.comfyUI.url}/view?filename=${encodeURIComponent(filename)}`;
-                await telegramService.sendPhoto(token, chatId, imageUrl, `*Prompt:* \`${prompt}\``);
-
-            } catch (e: any) {
-                await telegramService.sendMessage(token, chatId, `😥 Error generating image: ${e.message}`);
-            }
+        if (!isReady) {
+            await telegramService.sendMessage(token, chatId, `${name} is not connected in the main app settings.`);
+            return;
         }
-    }, []);
-
+        try {
+            await telegramService.sendMessage(token, chatId, `🎨 Generating image for: "${prompt}"...`);
+            await telegramService.sendChatAction(token, chatId, 'upload_photo');
+
+            const result = await generate();
+            await telegramService.sendPhoto(token, chatId, result.dataUrl, `*Prompt:* \`${prompt}\``);
+
+            // Keep the image in the conversation and its gallery, like an image generated in the web chat.
+            // Reloaded, as the chat may have moved on during generation.
+            const latestConversation = await findOrCreateConversationForBot(chatId);
+            const messageId = generateUUID();
+            const image = createGalleryImage({
+                conversationId: latestConversation.id, messageId, dataUrl: result.dataUrl, prompt, generator, seed: result.seed,
+                settings: getGenerationSettingsSnapshot(generator, currentSettings, result.workflowName), kind: 'generated',
+            });
+            await db.saveGalleryImage(image);
+            const imageMessage: Message = {
+                id: messageId, role: 'model', content: prompt, timestamp: Date.now(),
+                isGeneratingImage: false, imageId: image.id, imageGenerator: generator, imageGenerationProgress: 'Completed',
+            };
+            const updatedConversation = { ...latestConversation, messages: [...latestConversation.messages, imageMessage] };
+            await db.saveConversation(updatedConversation);
+            handleConversationUpdate(updatedConversation);
+        } catch (e: any) {
+            await telegramService.sendMessage(token, chatId, `😥 Error generating image: ${e.message}`);
+        }
+    }, [findOrCreateConversationForBot, handleConversationUpdate, characters]);
+
+    const botHost = useMemo<BotHost>(() => ({
+        findOrCreateConversation: findOrCreateConversationForBot,
+        handleNewConversation: handleNewConversationForBot,
+        saveConversation: db.saveConversation,
+        onConversationUpdate: handleConversationUpdate,
+        getAIResponse: getAIResponseForBot,
+        handleImageGeneration: handleImageGenerationForBot,
+        saveIdentityProfile: handleSaveIdentityProfile,
+        getLorebooks: () => db.getAllLorebooks(),
+        getUserPersonas: () => db.getAllUserPersonas(),
+        getIdentityProfiles: () => db.getAllIdentityProfiles(),
+        getBotConversations: db.getTelegramConversations,
+    }), [findOrCreateConversationForBot, handleNewConversationForBot, handleConversationUpdate, getAIResponseForBot, handleImageGenerationForBot, handleSaveIdentityProfile]);
 
     const handleSaveSettings = useCallback(async (newSettings: Settings) => {
         log('INFO', 'SETTINGS', 'Settings saved');
+        // Live updates already changed the settings in state, so compare with the persisted ones.
+        const previousEngine = (await db.getSettings()).rag.embeddingEngine;
+        if (previousEngine !== newSettings.rag.embeddingEngine) stampCollectionEngines(previousEngine);
         await db.saveSettings(newSettings);
         setSettings(newSettings);
         applyTheme(newSettings);
@@ -788,19 +939,9 @@ const AppContent: React.FC = () => {
         
         botOrchestrator.stop();
         if (newSettings.telegram.enabled && newSettings.telegram.isConnected) {
-            botOrchestrator.start(
-                newSettings,
-                models,
-                characters,
-                findOrCreateConversationForBot, 
-                handleNewConversationForBot,
-                db.saveConversation,
-                handleConversationUpdate,
-                getAIResponseForBot,
-                handleImageGenerationForBot
-            );
+            botOrchestrator.start(newSettings, models, characters, botHost);
         }
-    }, [addNotification, models, characters, findOrCreateConversationForBot, getAIResponseForBot, handleNewConversationForBot, handleConversationUpdate, handleImageGenerationForBot]);
+    }, [addNotification, models, characters, botHost]);
 
     const handleSelectModel = useCallback(async (modelId: string) => {
         if (settings) {
@@ -809,8 +950,8 @@ const AppContent: React.FC = () => {
         }
     }, [settings, handleSaveSettings]);
 
-    const handleSaveCharacter = useCallback(async (character: Character) => {
-        await db.saveCharacter(character);
+    const handleSaveCharacter = useCallback(async (character: Character, info?: Partial<RevisionInfo>) => {
+        await db.saveCharacter(character, info);
         setCharacterPage(0);
         await loadMoreCharacters(0);
     }, [loadMoreCharacters]);
@@ -845,12 +986,6 @@ const AppContent: React.FC = () => {
         await loadMorePersonas(0);
     }, [loadMorePersonas]);
     
-    const handleSaveIdentityProfile = useCallback(async (profile: IdentityProfile) => {
-        await db.saveIdentityProfile(profile);
-        setIdentityProfilePage(0);
-        await loadMoreIdentityProfiles(0);
-    }, [loadMoreIdentityProfiles]);
-
     const handleDeleteIdentityProfile = useCallback(async (id: string) => {
         await db.deleteIdentityProfile(id);
         setIdentityProfilePage(0);
@@ -860,7 +995,7 @@ const AppContent: React.FC = () => {
     const handleUpdateKnowledgeComplete = useCallback(async (updatedCharacters: Character[], newLorebooks: Lorebook[]) => {
         try {
             for (const char of updatedCharacters) {
-                await db.saveCharacter(char);
+                await db.saveCharacter(char, { source: 'knowledgeUpdate', summary: 'Created from conversation history' });
             }
             for (const book of newLorebooks) {
                 await db.saveLorebook(book);
@@ -876,12 +1011,55 @@ const AppContent: React.FC = () => {
         }
     }, [loadMoreCharacters, loadMoreLorebooks, addNotification]);
     
+    // Updates made from a conversation go to its local copy of the character when it has one
+    // (a pinned character becomes one); otherwise the shared character is saved with a revision.
+    const applyConversationCharacterUpdates = useCallback(async (
+        conversation: Conversation | null,
+        updates: { character: Character; info: RevisionInfo }[]
+    ): Promise<Conversation | null> => {
+        let updatedConversation = conversation;
+        const shared: Character[] = [];
+        for (const { character, info } of updates) {
+            if (updatedConversation && getCharacterOverride(updatedConversation, character.id)) {
+                updatedConversation = updateLocalCharacter(updatedConversation, character);
+            } else {
+                await db.saveCharacter(character, info);
+                shared.push(character);
+            }
+        }
+        if (shared.length > 0) setCharacters(prev => prev.map(c => shared.find(u => u.id === c.id) || c));
+        return updatedConversation;
+    }, []);
+
     const handleSaveLivingLoreUpdate = useCallback(async (updatedCharacter: Character) => {
-        await db.saveCharacter(updatedCharacter);
-        setCharacters(prev => prev.map(c => c.id === updatedCharacter.id ? updatedCharacter : c));
+        const summary = livingLoreModalData?.suggestedChange || '';
+        const updatedConversation = await applyConversationCharacterUpdates(selectedConversation, [{ character: updatedCharacter, info: { source: 'livingLore', summary } }]);
+        if (updatedConversation && updatedConversation !== selectedConversation) {
+            handleConversationUpdate(updatedConversation);
+            await db.saveConversation(updatedConversation);
+        }
         addNotification({ title: 'Character Updated', message: `${updatedCharacter.name} has been updated with new information.`, type: 'success', duration: 4000 });
-    }, [addNotification]);
+    }, [livingLoreModalData, selectedConversation, applyConversationCharacterUpdates, handleConversationUpdate, addNotification]);
     
+    const handleResolveLivingLoreProposals = useCallback(async (updates: { character: Character; summary: string }[], resolvedProposalIds: string[]) => {
+        if (!selectedConversation) return;
+        const withUpdates = await applyConversationCharacterUpdates(
+            selectedConversation,
+            updates.map(({ character, summary }) => ({ character, info: { source: 'livingLore', summary } }))
+        );
+        const updatedConversation = removeLivingLoreProposals(withUpdates || selectedConversation, resolvedProposalIds);
+        handleConversationUpdate(updatedConversation);
+        await db.saveConversation(updatedConversation);
+        if (updates.length > 0) {
+            addNotification({ title: 'Characters Updated', message: `Updated ${updates.map(u => u.character.name).join(', ')}.`, type: 'success', duration: 4000 });
+        }
+    }, [selectedConversation, applyConversationCharacterUpdates, handleConversationUpdate, addNotification]);
+
+    const handleSaveConversationOverrides = useCallback(async (updatedConversation: Conversation) => {
+        handleConversationUpdate(updatedConversation);
+        await db.saveConversation(updatedConversation);
+    }, [handleConversationUpdate]);
+
     const handleOpenAddToIdentityModal = () => setIsAddToIdentityModalOpen(true);
 
     const handleAddIdentityFact = async (factContent: string) => {
@@ -963,23 +1141,13 @@ const AppContent: React.FC = () => {
     useEffect(() => {
         if (settings) {
             if (settings.telegram.enabled && settings.telegram.isConnected) {
-                botOrchestrator.start(
-                    settings, 
-                    models, 
-                    characters, 
-                    findOrCreateConversationForBot,
-                    handleNewConversationForBot,
-                    db.saveConversation,
-                    handleConversationUpdate,
-                    getAIResponseForBot,
-                    handleImageGenerationForBot
-                );
+                botOrchestrator.start(settings, models, characters, botHost);
             } else {
                 botOrchestrator.stop();
             }
         }
         return () => botOrchestrator.stop();
-    }, [settings, models, characters, findOrCreateConversationForBot, getAIResponseForBot, handleNewConversationForBot, handleConversationUpdate, handleImageGenerationForBot]);
+    }, [settings, models, characters, botHost]);
     
     useEffect(() => {
         if (settings) {
@@ -1041,8 +1209,14 @@ const AppContent: React.FC = () => {
               onToggleSidebar={() => setIsSidebarOpen(p => !p)}
               onOpenUpdateKnowledgeModal={() => setIsUpdateKnowledgeOpen(true)}
               onOpenLivingLoreModal={(character, suggestedChange) => setLivingLoreModalData({ character, suggestedChange })}
+              onOpenLivingLoreReview={() => setIsLivingLoreReviewOpen(true)}
               onOpenAddToIdentityModal={handleOpenAddToIdentityModal}
               onSettingsUpdate={handleSaveSettings}
+              branchFamily={branchFamily}
+              onForkConversation={handleForkConversation}
+              onSelectConversation={handleSelectBranch}
+              messageJumpRequest={messageJumpRequest}
+              onSaveCharacter={handleSaveCharacter}
             />
         );
     }
@@ -1128,10 +1302,15 @@ const AppContent: React.FC = () => {
                   characters={characters}
                   onSave={handleSaveCharacter}
                   onDelete={handleDeleteCharacter}
+                  lorebooks={lorebooks}
+                  onSaveLorebook={handleSaveLorebook}
                   hasMore={hasMoreCharacters}
                   onLoadMore={() => loadMoreCharacters(characterPage)}
                   onOpen={onCharactersModalOpen}
                   worldLevels={settings.storyArcs.levels}
+                  activeConversation={selectedConversation}
+                  onConversationUpdate={handleSaveConversationOverrides}
+                  comfyUIWorkflows={settings.comfyUI.workflows}
                 />
             )}
             
@@ -1155,6 +1334,7 @@ const AppContent: React.FC = () => {
                     conversation={selectedConversation}
                     settings={settings}
                     onConversationUpdate={handleConversationUpdate}
+                    onJumpToMessage={(messageId) => setMessageJumpRequest({ messageId, requestedAt: Date.now() })}
                 />
             )}
 
@@ -1178,6 +1358,16 @@ const AppContent: React.FC = () => {
               />
             )}
 
+            {isLivingLoreReviewOpen && (
+              <LivingLoreReviewModal
+                isOpen={isLivingLoreReviewOpen}
+                onClose={() => setIsLivingLoreReviewOpen(false)}
+                conversation={selectedConversation}
+                characters={getConversationCharacters(selectedConversation, characters)}
+                onResolve={handleResolveLivingLoreProposals}
+              />
+            )}
+
             {isAddToIdentityModalOpen && (
                 <AddToIdentityModal
                     isOpen={isAddToIdentityModalOpen}
@@ -1,20 +1,23 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { InfoIcon } from './icons/InfoIcon';
-import type { Character, Lorebook, Conversation, NarrativeDirective, ConversationFact, Settings, SmartSystemConfig, MicroPromptCard } from '../types';
+import type { Character, Lorebook, Conversation, NarrativeDirective, ConversationFact, FactProposal, RejectedFactProposal, Settings, SmartSystemConfig, MicroPromptCard } from '../types';
 import { BrainIcon } from './icons/BrainIcon';
 import { SegmentedControl } from './settings/common/SettingsInputComponents';
 import { generateUUID } from '../utils/uuid';
 import { TrashIcon } from './icons/TrashIcon';
 import { PlusIcon } from './icons/PlusIcon';
 import { Icon } from './icons/Icon';
-// @google/genai-codelab-user-troubleshooting: FIX: Correct import path for callGeminiWithRetry.
-import { callGeminiWithRetry } from '../utils/apiHelpers';
+import { callModelWithRetry } from '../services/ai/providers';
 import { SparklesIcon } from './icons/SparklesIcon';
 // @google/genai-codelab-user-troubleshooting: FIX: Import LoaderIcon component.
 import { LoaderIcon } from './icons/LoaderIcon';
 import { KeyFactsIcon } from './icons/KeyFactsIcon';
 import { extractFactFromContext } from '../services/aiService';
+import { DEFAULT_KEY_FACTS_CONFIG, createFactFromProposal, toRejectedFactProposal } from '../services/keyFacts';
+import { BUILTIN_COMFYUI_WORKFLOW_ID } from '../services/comfyuiWorkflows';
 import { useNotifications } from '../contexts/NotificationContext';
+import { DirectiveTimeline } from './DirectiveTimeline';
+import { DirectiveMilestones } from './DirectiveMilestones';
 interface AuthorsNoteProps {
   systemPrompt: string;
   globalSystemPrompt: string;
@@ -37,6 +40,9 @@ interface AuthorsNoteProps {
   narrativeDirectives?: NarrativeDirective[];
   // New: Add props for Key Facts feature
   facts?: ConversationFact[];
+  // New: Facts suggested by the fact miner
+  factProposals?: FactProposal[];
+  rejectedFactProposals?: RejectedFactProposal[];
   conversationMessages: any[]; // For fact extraction context
   settings: Settings; // For AI service access
   // New: Add smart system config to prefill conscious state advanced options
@@ -44,6 +50,10 @@ interface AuthorsNoteProps {
   // New: Micro prompt cards
   microPromptCards?: MicroPromptCard[];
   activeMicroCardIds?: string[];
+  // New: Scrolls the chat to a message from the directive timeline
+  onJumpToMessage?: (messageId: string) => void;
+  // New: ComfyUI workflow picked for this conversation
+  comfyUIWorkflowId?: string;
 }
 // Fix: Add gemini-2.5-flash-lite to the list of models that support toggling the thinking configuration.
 const GEMINI_MODELS_WITH_THINKING_TOGGLE = [
@@ -56,8 +66,8 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
     systemPrompt, globalSystemPrompt, onSave, isStreaming, allCharacters, 
     allLorebooks, conversationCharacterIds, conversationLorebookIds, modelId, 
     enableThinking, onOpenUpdateKnowledgeModal, consciousStateSettings, multiCharacterMode, scenario,
-    narrativeDirectives, facts, conversationMessages, settings, smartSystemConfig,
-    microPromptCards = [], activeMicroCardIds: activeIdsProp = []
+    narrativeDirectives, facts, factProposals = [], rejectedFactProposals = [], conversationMessages, settings, smartSystemConfig,
+    microPromptCards = [], activeMicroCardIds: activeIdsProp = [], onJumpToMessage, comfyUIWorkflowId
 }) => {
   const { addNotification } = useNotifications();
   const [isOpen, setIsOpen] = useState(false);
@@ -83,14 +93,21 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
   const [directives, setDirectives] = useState(narrativeDirectives || []);
   const [editingDirective, setEditingDirective] = useState<NarrativeDirective | null>(null);
   const [isEnhancingGoal, setIsEnhancingGoal] = useState<string | null>(null);
+  const [timelineDirectiveId, setTimelineDirectiveId] = useState<string | null>(null);
   // New: State for Key Facts
   const [conversationFacts, setConversationFacts] = useState<ConversationFact[]>(facts || []);
   const [newFactInput, setNewFactInput] = useState('');
   const [isExtractingFact, setIsExtractingFact] = useState(false);
   const [factCategory, setFactCategory] = useState<ConversationFact['category']>('event');
+  const [resolvedProposalIds, setResolvedProposalIds] = useState<Set<string>>(new Set());
+  const [rejectedProposalIds, setRejectedProposalIds] = useState<Set<string>>(new Set());
+  const [keyFactsConfig, setKeyFactsConfig] = useState({ ...DEFAULT_KEY_FACTS_CONFIG, ...(smartSystemConfig?.keyFacts || {}) });
   // New: Micro Prompt Cards state
   const [microCards, setMicroCards] = useState<MicroPromptCard[]>([]);
   const [activeMicroCardIds, setActiveMicroCardIds] = useState<string[]>([]);
+  // New: ComfyUI workflow for this conversation
+  const [workflowId, setWorkflowId] = useState(comfyUIWorkflowId || '');
+  const comfyUIWorkflows = settings.comfyUI.workflows || [];
   
   const canToggleThinking = GEMINI_MODELS_WITH_THINKING_TOGGLE.includes(modelId);
   const showMultiCharacterModeControl = selectedCharIds.size > 1;
@@ -113,10 +130,15 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
     setScenarioText(scenario ?? '');
     setDirectives(narrativeDirectives?.map(d => ({ ...d, hunger: d.hunger || 0 })) || []);
     setEditingDirective(null);
+    setTimelineDirectiveId(null);
     setConversationFacts(facts || []);
     setNewFactInput('');
+    setResolvedProposalIds(new Set());
+    setRejectedProposalIds(new Set());
+    setKeyFactsConfig({ ...DEFAULT_KEY_FACTS_CONFIG, ...(smartSystemConfig?.keyFacts || {}) });
     setMicroCards(microPromptCards || []);
     setActiveMicroCardIds(activeIdsProp || []);
+    setWorkflowId(comfyUIWorkflowId || '');
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen]);
   
@@ -139,14 +161,22 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
                 engineVersion: csEngineVersion,
                 emotionalChangeThreshold: csMode === 'smart' ? csThreshold : (smartSystemConfig?.consciousState?.emotionalChangeThreshold),
                 frequencyValue: csMode === 'frequency' ? csFrequencyValue : (smartSystemConfig?.consciousState?.frequencyValue),
-            }
+            },
+            keyFacts: keyFactsConfig,
         },
         multiCharacterMode: mode,
         scenario: scenarioText,
         narrativeDirectives: directives,
         facts: conversationFacts,
+        // Proposals the miner added while the panel was open are kept.
+        factProposals: factProposals.filter(p => !resolvedProposalIds.has(p.id)),
+        rejectedFactProposals: [
+            ...rejectedFactProposals,
+            ...factProposals.filter(p => rejectedProposalIds.has(p.id)).map(toRejectedFactProposal),
+        ],
         microPromptCards: microCards,
         activeMicroCardIds,
+        comfyUIWorkflowId: workflowId || undefined,
     });
     setIsOpen(false);
   };
@@ -169,8 +199,10 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
   const multiCharModeChanged = mode !== (multiCharacterMode ?? 'director');
   const scenarioChanged = scenarioText !== (scenario ?? '');
   const directivesChanged = JSON.stringify(directives) !== JSON.stringify(narrativeDirectives || []);
-  const factsChanged = JSON.stringify(conversationFacts) !== JSON.stringify(facts || []);
-  const hasChanges = prompt !== systemPrompt || charsHaveChanged || lorebooksHaveChanged || thinkingHasChanged || stateEngineSettingsChanged || stateEngineAdvancedChanged || multiCharModeChanged || scenarioChanged || directivesChanged || factsChanged;
+  const factsChanged = JSON.stringify(conversationFacts) !== JSON.stringify(facts || []) || resolvedProposalIds.size > 0;
+  const keyFactsConfigChanged = JSON.stringify(keyFactsConfig) !== JSON.stringify({ ...DEFAULT_KEY_FACTS_CONFIG, ...(smartSystemConfig?.keyFacts || {}) });
+  const workflowChanged = workflowId !== (comfyUIWorkflowId || '');
+  const hasChanges = prompt !== systemPrompt || charsHaveChanged || lorebooksHaveChanged || thinkingHasChanged || stateEngineSettingsChanged || stateEngineAdvancedChanged || multiCharModeChanged || scenarioChanged || directivesChanged || factsChanged || keyFactsConfigChanged || workflowChanged;
   const microCardsChanged = JSON.stringify(microCards) !== JSON.stringify(microPromptCards || []) || JSON.stringify(activeMicroCardIds) !== JSON.stringify(activeIdsProp || []);
   const hasAnyChanges = hasChanges || microCardsChanged;
   
@@ -225,6 +257,15 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
       setDirectives(prev => prev.map(d => d.id === id ? { ...d, [field]: value } : d));
   };
   
+  const handleDirectiveReplace = (updated: NarrativeDirective) => {
+      setDirectives(prev => prev.map(d => d.id === updated.id ? updated : d));
+  };
+
+  const handleJumpToMessage = (messageId: string) => {
+      setIsOpen(false);
+      onJumpToMessage?.(messageId);
+  };
+  
   const handleAddDirective = () => {
     const newDirective: NarrativeDirective = {
       id: generateUUID(),
@@ -257,7 +298,7 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
         const cleanSystemPrompt = `You are a goal refiner. Rewrite the user's raw goal into a clear, specific, measurable directive, in the SAME language as the input. Keep it concise (max 20 words). Do NOT add persona/style instructions or meta commentary. Output only the rewritten goal text.`;
         
         const fixedUserPrompt = `Raw goal: "${rawGoal}"`;
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: 'gemini-2.5-flash-lite',
             contents: fixedUserPrompt,
             config: {
@@ -347,6 +388,14 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
     }));
   };
   
+  const handleResolveProposal = (proposal: FactProposal, accept: boolean) => {
+    if (accept) setConversationFacts([...conversationFacts, createFactFromProposal(proposal)]);
+    else setRejectedProposalIds(new Set([...rejectedProposalIds, proposal.id]));
+    setResolvedProposalIds(new Set([...resolvedProposalIds, proposal.id]));
+  };
+
+  const pendingProposals = factProposals.filter(p => !resolvedProposalIds.has(p.id));
+
   // Helper to get category display info
   const getCategoryDisplay = (category?: ConversationFact['category']) => {
     const categoryMap = {
@@ -522,6 +571,24 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
                 </p>
               </div>
             )}
+            {/* ComfyUI Workflow Section */}
+            {comfyUIWorkflows.length > 0 && (
+              <div>
+                <label htmlFor="comfy-workflow" className="block text-xs font-medium text-text-secondary mb-1">ComfyUI Workflow</label>
+                <select
+                  id="comfy-workflow"
+                  value={workflowId}
+                  onChange={(e) => setWorkflowId(e.target.value)}
+                  className="w-full p-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 text-sm modal-input"
+                  disabled={isStreaming}
+                >
+                  <option value="">From characters or settings</option>
+                  <option value={BUILTIN_COMFYUI_WORKFLOW_ID}>Built-in</option>
+                  {comfyUIWorkflows.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                </select>
+                <p className="text-xs text-text-secondary mt-1">Workflow for images generated in this conversation.</p>
+              </div>
+            )}
             {/* Key Facts Section */}
             <div className="p-2 sm:p-3 border rounded-lg border-color bg-tertiary-bg/30 space-y-3">
                 <div className="flex items-center justify-between flex-wrap gap-2">
@@ -574,6 +641,15 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
                                             </span>
                                         ) : null;
                                     })()}
+                                    {!!fact.sourceMessageIds?.length && onJumpToMessage && (
+                                        <button
+                                            onClick={() => onJumpToMessage(fact.sourceMessageIds![fact.sourceMessageIds!.length - 1])}
+                                            className="ml-1 text-[10px] sm:text-xs text-accent-primary hover:underline"
+                                            title="Show the message this fact comes from"
+                                        >
+                                            Source
+                                        </button>
+                                    )}
                                 </div>
                                 <button 
                                     onClick={() => handleToggleInjectMode(fact.id)}
@@ -600,6 +676,41 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
                     </div>
                 )}
                 
+                {/* Facts suggested by the fact miner */}
+                {pendingProposals.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="text-xs font-medium text-text-secondary">Suggested Facts ({pendingProposals.length})</p>
+                        <div className="space-y-2 max-h-48 overflow-y-auto">
+                            {pendingProposals.map(proposal => {
+                                const categoryInfo = getCategoryDisplay(proposal.category);
+                                return (
+                                    <div key={proposal.id} className="flex items-start gap-1.5 sm:gap-2 p-1.5 sm:p-2 rounded-md border border-dashed border-accent-primary/40">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-xs sm:text-sm break-words">{proposal.content}</p>
+                                            {categoryInfo && (
+                                                <span className={`inline-flex items-center gap-1 text-[10px] sm:text-xs px-1.5 py-0.5 rounded-full ${categoryInfo.color} mt-1`}>
+                                                    {categoryInfo.icon} {categoryInfo.label}
+                                                </span>
+                                            )}
+                                            {proposal.sourceMessageIds.length > 0 && onJumpToMessage && (
+                                                <button onClick={() => onJumpToMessage(proposal.sourceMessageIds[0])} className="ml-1 text-[10px] sm:text-xs text-accent-primary hover:underline">
+                                                    Source
+                                                </button>
+                                            )}
+                                        </div>
+                                        <button onClick={() => handleResolveProposal(proposal, false)} disabled={isStreaming} className="px-2 py-1 text-xs rounded-md btn-secondary disabled:opacity-50 flex-shrink-0">
+                                            Reject
+                                        </button>
+                                        <button onClick={() => handleResolveProposal(proposal, true)} disabled={isStreaming} className="px-2 py-1 text-xs rounded-md bg-accent-primary text-white disabled:opacity-50 flex-shrink-0">
+                                            Accept
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
                 {/* Add New Fact Form */}
                 <div className="space-y-2 pt-2 border-t border-color/30">
                     <div className="flex flex-col sm:flex-row gap-2">
@@ -661,6 +772,43 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
                         💡 Tip: "Extract with AI" analyzes the last 20 messages to create a precise fact based on your description.
                     </p>
                 </div>
+
+                {/* Background fact mining and continuity checks */}
+                <div className="space-y-2 pt-2 border-t border-color/30">
+                    <label className="flex items-center gap-2 text-xs sm:text-sm cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={keyFactsConfig.autoExtract}
+                            onChange={e => setKeyFactsConfig({ ...keyFactsConfig, autoExtract: e.target.checked })}
+                            disabled={isStreaming}
+                            className="h-4 w-4 rounded border-color text-accent-primary focus:ring-accent-primary"
+                        />
+                        Suggest new facts automatically
+                    </label>
+                    {keyFactsConfig.autoExtract && (
+                        <div className="pl-6 flex items-center gap-2">
+                            <label className="text-xs text-text-secondary">Every</label>
+                            <input
+                                type="number" min="1" max="20"
+                                value={keyFactsConfig.extractFrequency}
+                                onChange={e => setKeyFactsConfig({ ...keyFactsConfig, extractFrequency: Math.max(1, Number(e.target.value) || 1) })}
+                                className="w-16 p-1 border rounded-md modal-input text-sm"
+                            />
+                            <label className="text-xs text-text-secondary">messages</label>
+                        </div>
+                    )}
+                    <label className="flex items-center gap-2 text-xs sm:text-sm cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={keyFactsConfig.checkContradictions}
+                            onChange={e => setKeyFactsConfig({ ...keyFactsConfig, checkContradictions: e.target.checked })}
+                            disabled={isStreaming}
+                            className="h-4 w-4 rounded border-color text-accent-primary focus:ring-accent-primary"
+                        />
+                        Flag replies that contradict active facts
+                    </label>
+                    <p className="text-xs text-text-secondary pl-6">Each uses an extra API call. A flagged reply can be regenerated with a reminder of the fact, or the fact updated.</p>
+                </div>
             </div>
             <div className="p-3 border rounded-lg border-color bg-tertiary-bg/30">
                 <label className="flex items-center gap-2 text-sm font-medium text-text-primary cursor-pointer">
@@ -790,6 +938,13 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
                                     💡 Tip: Be specific but allow room for natural development.
                                 </p>
                             </div>
+                            <DirectiveMilestones
+                                directive={d}
+                                messages={conversationMessages}
+                                settings={settings}
+                                disabled={isStreaming}
+                                onChange={handleDirectiveReplace}
+                            />
                             <div className="grid grid-cols-2 gap-3">
                                 <div>
                                     <label className="block text-xs font-medium text-text-secondary mb-1">Priority</label>
@@ -857,9 +1012,25 @@ export const AuthorsNote: React.FC<AuthorsNoteProps> = ({
                                             <span className="absolute -top-1 -right-1 text-lg" title="Goal Completed!">✅</span>
                                         )}
                                     </div>
-                                    <p className="text-xs text-text-secondary mt-1 italic">AI-evaluated automatically</p>
+                                    <p className="text-xs text-text-secondary mt-1 italic">{d.progressPinned ? 'Pinned manually' : 'AI-evaluated automatically'}</p>
                                 </div>
                             </div>
+                            <button
+                                onClick={() => setTimelineDirectiveId(timelineDirectiveId === d.id ? null : d.id)}
+                                className="text-xs font-medium text-accent-primary hover:underline"
+                                aria-expanded={timelineDirectiveId === d.id}
+                            >
+                                {timelineDirectiveId === d.id ? '▾ Hide Timeline' : `▸ Timeline (${d.taskMemory?.length || 0} injections, ${d.progressHistory?.length || 0} checks)`}
+                            </button>
+                            {timelineDirectiveId === d.id && (
+                                <DirectiveTimeline
+                                    directive={d}
+                                    messages={conversationMessages}
+                                    disabled={isStreaming}
+                                    onChange={handleDirectiveReplace}
+                                    onJumpToMessage={onJumpToMessage ? handleJumpToMessage : undefined}
+                                />
+                            )}
                         </div>
                         );
                     })
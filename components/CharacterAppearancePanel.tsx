@@ -0,0 +1,209 @@
+import React, { useRef } from 'react';
+import type { CharacterAppearance, LoraConfig } from '../types';
+import { DEFAULT_REFERENCE_STRENGTH } from '../services/characterAppearance';
+import { convertImageToWebP } from '../services/imageUtils';
+import { generateUUID } from '../utils/uuid';
+import { PlusIcon } from './icons/PlusIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface CharacterAppearancePanelProps {
+  appearance?: CharacterAppearance;
+  onChange: (appearance: CharacterAppearance | undefined) => void;
+  // The character's avatar, offered as the reference image.
+  avatarUrl?: string;
+}
+
+const isEmpty = (a: CharacterAppearance) =>
+  a.seed === undefined && !a.loras?.length && !a.referenceImage && !a.negativeTags?.trim();
+
+/**
+ * Appearance profile editor for the Characters modal: the seed, LoRAs, reference image and
+ * negative tags applied to generated images whenever the character is in the scene.
+ */
+export const CharacterAppearancePanel: React.FC<CharacterAppearancePanelProps> = ({ appearance: appearanceProp, onChange, avatarUrl }) => {
+  const appearance: CharacterAppearance = appearanceProp || {};
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const loras = appearance.loras || [];
+
+  const update = (patch: Partial<CharacterAppearance>) => {
+    const next = { ...appearance, ...patch };
+    onChange(isEmpty(next) ? undefined : next);
+  };
+
+  const updateLora = (id: string, patch: Partial<LoraConfig>) => {
+    update({ loras: loras.map(l => l.id === id ? { ...l, ...patch } : l) });
+  };
+
+  const handleReferenceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+    update({ referenceImage: await convertImageToWebP(dataUrl, 0.9) });
+  };
+
+  return (
+    <div className="space-y-3 sm:space-y-4 p-3 sm:p-4 border rounded-lg border-color bg-secondary-bg">
+      <h4 className="text-sm sm:text-base font-semibold">Image Appearance</h4>
+      <p className="text-xs text-text-secondary -mt-2">
+        Applied to generated images whenever this character is in the scene, so they keep looking like the same person.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={appearance.seed !== undefined}
+            onChange={e => update({ seed: e.target.checked ? Math.floor(Math.random() * 1_000_000_000) : undefined })}
+            className="h-4 w-4 rounded border-color text-accent-primary focus:ring-accent-primary"
+          />
+          Lock seed
+        </label>
+        {appearance.seed !== undefined && (
+          <input
+            type="number"
+            value={appearance.seed}
+            onChange={e => update({ seed: parseInt(e.target.value, 10) || 0 })}
+            className="w-40 px-2 py-1 text-sm border rounded-md modal-input"
+          />
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="appearance-negative" className="block text-sm font-medium mb-1">Negative Tags</label>
+        <input
+          id="appearance-negative"
+          value={appearance.negativeTags || ''}
+          onChange={e => update({ negativeTags: e.target.value })}
+          placeholder="e.g., short hair, glasses, beard"
+          className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 text-sm modal-input"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium">Reference Image</label>
+        <div className="flex items-start gap-3">
+          <div className="w-20 h-20 rounded-lg border border-color bg-tertiary-bg/30 overflow-hidden flex-shrink-0 flex items-center justify-center">
+            {appearance.referenceImage
+              ? <img src={appearance.referenceImage} alt="Reference" className="w-full h-full object-cover" />
+              : <span className="text-xs text-text-secondary">None</span>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="px-2 py-1 text-xs rounded-md btn-secondary">
+              Upload...
+            </button>
+            {avatarUrl && (
+              <button type="button" onClick={() => update({ referenceImage: avatarUrl })} className="px-2 py-1 text-xs rounded-md btn-secondary">
+                Use Avatar
+              </button>
+            )}
+            {appearance.referenceImage && (
+              <button type="button" onClick={() => update({ referenceImage: undefined })} className="px-2 py-1 text-xs rounded-md btn-secondary">
+                Remove
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleReferenceFile} className="hidden" />
+          </div>
+        </div>
+        {appearance.referenceImage && (
+          <div>
+            <label htmlFor="appearance-strength" className="block text-xs font-medium text-text-secondary">
+              Reference strength: {(appearance.referenceStrength ?? DEFAULT_REFERENCE_STRENGTH).toFixed(2)}
+            </label>
+            <input
+              id="appearance-strength"
+              type="range"
+              min={0.05}
+              max={0.95}
+              step={0.05}
+              value={appearance.referenceStrength ?? DEFAULT_REFERENCE_STRENGTH}
+              onChange={e => update({ referenceStrength: Number(e.target.value) })}
+              className="w-full"
+            />
+            <p className="text-xs text-text-secondary">
+              How much of the reference is kept in img2img (SD WebUI and the built-in ComfyUI workflow). Imported ComfyUI workflows receive it
+              through their reference image input, e.g. for IP-Adapter.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium">LoRAs</label>
+          <button
+            type="button"
+            onClick={() => update({
+              loras: [...loras, { id: generateUUID(), name: '', displayName: '', weight: 1, clipStrength: 1, triggerPhrases: '', includeTriggerInPrompt: true, enabled: true }],
+            })}
+            className="flex items-center gap-1 text-xs font-semibold text-accent-primary hover:underline"
+          >
+            <PlusIcon className="w-3 h-3" />
+            Add LoRA
+          </button>
+        </div>
+        {loras.length === 0 && <p className="text-xs text-text-secondary">Added on top of the generator's own LoRAs (ComfyUI and SD WebUI).</p>}
+        {loras.map(lora => (
+          <div key={lora.id} className="p-2 border border-color rounded-lg space-y-2 bg-tertiary-bg/20">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={lora.enabled}
+                onChange={e => updateLora(lora.id, { enabled: e.target.checked })}
+                className="h-4 w-4 rounded border-color text-accent-primary focus:ring-accent-primary"
+                title="Enabled"
+              />
+              <input
+                value={lora.name}
+                onChange={e => updateLora(lora.id, { name: e.target.value, displayName: e.target.value })}
+                placeholder="LoRA file name, e.g. mira_v2.safetensors"
+                className="flex-1 min-w-0 px-2 py-1 text-sm border rounded-md modal-input"
+              />
+              <input
+                type="number"
+                step={0.05}
+                value={lora.weight}
+                onChange={e => {
+                  const weight = Number(e.target.value);
+                  updateLora(lora.id, { weight, clipStrength: weight });
+                }}
+                className="w-20 px-2 py-1 text-sm border rounded-md modal-input"
+                title="Strength"
+              />
+              <button
+                type="button"
+                onClick={() => update({ loras: loras.filter(l => l.id !== lora.id) })}
+                className="p-1 text-text-secondary hover:text-red-500"
+                title="Remove LoRA"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <input
+              value={lora.triggerPhrases}
+              onChange={e => updateLora(lora.id, { triggerPhrases: e.target.value })}
+              placeholder="Trigger phrases"
+              className="w-full px-2 py-1 text-sm border rounded-md modal-input"
+            />
+            <label className="flex items-center gap-2 text-xs text-text-secondary">
+              <input
+                type="checkbox"
+                checked={lora.includeTriggerInPrompt}
+                onChange={e => updateLora(lora.id, { includeTriggerInPrompt: e.target.checked })}
+                className="h-3 w-3 rounded border-color"
+              />
+              Add trigger phrases to the prompt
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CharacterAppearancePanel;
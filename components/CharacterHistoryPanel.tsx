@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import type { Character, CharacterRevision, Conversation } from '../types';
+import { getCharacterRevisions } from '../services/db';
+import {
+  CHARACTER_SHEET_FIELDS,
+  REVISION_SOURCE_LABELS,
+  clearCharacterOverride,
+  forkCharacterForConversation,
+  getCharacterOverride,
+  pinCharacterRevision,
+  restoreCharacterRevision,
+  type RevisionInfo,
+} from '../services/characterRevisions';
+import { diffLines } from '../services/livingLoreQueue';
+import { LineDiff } from './LineDiff';
+
+interface CharacterHistoryPanelProps {
+  character: Character;
+  onRestore: (character: Character, info: RevisionInfo) => void;
+  // The open conversation; pin and fork apply to it.
+  activeConversation?: Conversation | null;
+  onConversationUpdate?: (conversation: Conversation) => void;
+}
+
+const fieldLabel = (field: string) => CHARACTER_SHEET_FIELDS.find(f => f.field === field)?.label || field;
+
+/**
+ * Version history of a character for the Characters modal. Any revision can be compared with the
+ * one before it and restored; when the character is in the open conversation, a revision can be
+ * pinned there, or the conversation can get its own copy of the character.
+ */
+export const CharacterHistoryPanel: React.FC<CharacterHistoryPanelProps> = ({ character, onRestore, activeConversation, onConversationUpdate }) => {
+  const [revisions, setRevisions] = useState<CharacterRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Reload after every save; a save replaces the character object.
+  useEffect(() => {
+    let cancelled = false;
+    getCharacterRevisions(character.id).then(list => {
+      if (!cancelled) setRevisions(list);
+    });
+    return () => { cancelled = true; };
+  }, [character]);
+
+  const selected = revisions.find(r => r.id === selectedId) || null;
+  const inConversation = !!activeConversation?.characterIds?.includes(character.id);
+  const override = getCharacterOverride(activeConversation, character.id);
+
+  const handleRestore = (revision: CharacterRevision) => {
+    const date = new Date(revision.createdAt).toLocaleString();
+    if (!window.confirm(`Restore ${character.name} to the version from ${date}? The current version stays in the history.`)) return;
+    onRestore(restoreCharacterRevision(character, revision), { source: 'restore', summary: `Restored the version from ${date}` });
+  };
+
+  const updateConversation = (updated: Conversation) => onConversationUpdate?.(updated);
+
+  const describeOverride = () => {
+    if (!override) return 'Uses the latest version.';
+    const date = new Date(override.createdAt).toLocaleString();
+    if (override.mode === 'local') return `Uses its own copy, forked ${date}. Living Lore updates approved there change only that copy.`;
+    const pinned = revisions.find(r => r.id === override.revisionId);
+    return `Pinned to the version from ${new Date(pinned?.createdAt ?? override.createdAt).toLocaleString()}.`;
+  };
+
+  return (
+    <div className="space-y-3">
+      {inConversation && activeConversation && onConversationUpdate && (
+        <div className="p-3 rounded-lg border border-color bg-tertiary-bg/30 space-y-2">
+          <p className="text-xs">
+            <span className="font-semibold">In "{activeConversation.title}":</span> {describeOverride()}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => selected && updateConversation(pinCharacterRevision(activeConversation, selected))}
+              disabled={!selected}
+              className="px-2 py-1 text-xs rounded-md btn-secondary disabled:opacity-50"
+              title="Select a version below first"
+            >
+              Pin Selected Version
+            </button>
+            <button
+              type="button"
+              onClick={() => updateConversation(forkCharacterForConversation(activeConversation, character))}
+              disabled={override?.mode === 'local'}
+              className="px-2 py-1 text-xs rounded-md btn-secondary disabled:opacity-50"
+            >
+              Fork Local Copy
+            </button>
+            {override && (
+              <button
+                type="button"
+                onClick={() => {
+                  if (override.mode === 'local' && !window.confirm('Discard this conversation\'s copy and use the latest version?')) return;
+                  updateConversation(clearCharacterOverride(activeConversation, character.id));
+                }}
+                className="px-2 py-1 text-xs rounded-md btn-secondary"
+              >
+                Use Latest
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {revisions.length === 0 ? (
+        <p className="text-xs text-text-secondary">No history yet. A version is saved every time this character changes.</p>
+      ) : (
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          {[...revisions].reverse().map((revision, index) => {
+            const isPinned = override?.mode === 'pinned' && override.revisionId === revision.id;
+            return (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+                  className={`w-full text-left px-2 py-1.5 rounded-md text-xs list-item ${revision.id === selectedId ? 'list-item-active' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="px-1.5 py-0.5 rounded bg-tertiary-bg">{REVISION_SOURCE_LABELS[revision.source]}</span>
+                    <span className="text-text-secondary">{new Date(revision.createdAt).toLocaleString()}</span>
+                    {index === 0 && <span className="text-accent-primary">Current</span>}
+                    {isPinned && <span className="text-accent-primary">📌 Pinned</span>}
+                  </div>
+                  <div className="truncate mt-0.5">
+                    {revision.summary || (revision.changes.length > 0 ? revision.changes.map(c => fieldLabel(c.field)).join(', ') : 'No text changes')}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="space-y-2">
+          {selected.changes.length === 0 ? (
+            <p className="text-xs text-text-secondary">No text fields changed in this version.</p>
+          ) : selected.changes.map(change => (
+            <div key={change.field}>
+              <p className="text-xs font-semibold text-text-secondary mb-1">{fieldLabel(change.field)}</p>
+              <LineDiff segments={diffLines(change.before, change.after, change.field)} />
+            </div>
+          ))}
+          <div className="flex justify-end">
+            <button type="button" onClick={() => handleRestore(selected)} className="px-3 py-1 text-xs font-medium rounded-md btn-secondary">
+              Restore This Version
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CharacterHistoryPanel;
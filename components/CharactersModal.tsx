@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import type { Character, CharacterArc, StoryArcLevel } from '../types';
+import type { Character, CharacterArc, ComfyUIWorkflow, Conversation, StoryArcLevel, Lorebook } from '../types';
 import { PlusIcon } from './icons/PlusIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { SparklesIcon } from './icons/SparklesIcon';
@@ -10,20 +10,33 @@ import { DownloadIcon } from './icons/DownloadIcon';
 import { ImageIcon } from './icons/ImageIcon';
 import { generateCharacterSheet, generateCharacterStoryArcs, generateCharacterGroup } from '../services/aiService';
 import { convertImageToWebP } from '../services/imageUtils';
+import { extractCardFromPng, isCharacterCard, cardToCharacter, exportCharacterCardPng } from '../services/characterCardService';
 import { generateUUID } from '../utils/uuid';
+import { CharacterHistoryPanel } from './CharacterHistoryPanel';
+import { CharacterAppearancePanel } from './CharacterAppearancePanel';
+import type { RevisionInfo } from '../services/characterRevisions';
+import { BUILTIN_COMFYUI_WORKFLOW_ID } from '../services/comfyuiWorkflows';
 import { useNotifications } from '../contexts/NotificationContext';
 
 interface CharactersModalProps {
   isOpen: boolean;
   onClose: () => void;
   characters: Character[];
-  onSave: (character: Character) => void;
+  onSave: (character: Character, info?: Partial<RevisionInfo>) => void;
   onDelete: (id: string) => void;
+  // New: Lorebooks that can be linked to a character (and receive a card's embedded book on import).
+  lorebooks: Lorebook[];
+  onSaveLorebook: (lorebook: Lorebook) => Promise<void> | void;
   hasMore: boolean;
   onLoadMore: () => void;
   onOpen: () => void;
   // New: Pass world levels to the modal for consistent AI generation.
   worldLevels: StoryArcLevel[];
+  // New: The open conversation, where characters can be pinned to a version or forked.
+  activeConversation?: Conversation | null;
+  onConversationUpdate?: (conversation: Conversation) => void;
+  // New: Imported ComfyUI workflows a character can use for its images.
+  comfyUIWorkflows?: ComfyUIWorkflow[];
 }
 
 const EMPTY_CHARACTER: Omit<Character, 'id' | 'createdAt' | 'events'> = {
@@ -33,9 +46,10 @@ const EMPTY_CHARACTER: Omit<Character, 'id' | 'createdAt' | 'events'> = {
   authorNote: '',
   visualPrompt: '',
   characterArcs: [],
+  lorebookIds: [],
 };
 
-const FormInput: React.FC<{ label: string; name: keyof Omit<Character, 'id' | 'createdAt' | 'events' | 'characterArcs'>; value: string; onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void; placeholder?: string; isTextArea?: boolean; rows?: number }> = ({ label, name, value, onChange, placeholder, isTextArea, rows }) => (
+const FormInput: React.FC<{ label: string; name: keyof Omit<Character, 'id' | 'createdAt' | 'events' | 'characterArcs' | 'lorebookIds'>; value: string; onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void; placeholder?: string; isTextArea?: boolean; rows?: number }> = ({ label, name, value, onChange, placeholder, isTextArea, rows }) => (
     <div>
         <label htmlFor={name} className="block text-sm font-medium mb-1">{label}</label>
         {isTextArea ? (
@@ -72,7 +86,7 @@ const FormInput: React.FC<{ label: string; name: keyof Omit<Character, 'id' | 'c
 );
 
 
-export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClose, characters, onSave, onDelete, hasMore, onLoadMore, onOpen, worldLevels }) => {
+export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClose, characters, onSave, onDelete, lorebooks, onSaveLorebook, hasMore, onLoadMore, onOpen, worldLevels, activeConversation, onConversationUpdate, comfyUIWorkflows = [] }) => {
   const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null);
   const [formData, setFormData] = useState(EMPTY_CHARACTER);
   
@@ -161,6 +175,9 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
               authorNote: char.authorNote,
               visualPrompt: char.visualPrompt || '',
               characterArcs: char.characterArcs || [],
+              lorebookIds: char.lorebookIds || [],
+              comfyUIWorkflowId: char.comfyUIWorkflowId,
+              appearance: char.appearance,
             });
             // Reset arc concept when switching characters
             setArcConcept('');
@@ -174,12 +191,51 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
     importInputRef.current?.click();
   };
 
+  const readFileAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+  const importCharacterCard = async (card: any, imageUrl?: string) => {
+    const { character, lorebook } = cardToCharacter(card, imageUrl);
+    if (lorebook) {
+      await onSaveLorebook(lorebook);
+    }
+    await onSave(character);
+    setSelectedCharacterId(character.id);
+    if (imageUrl) {
+      setAvatars(prev => ({ ...prev, [character.id]: imageUrl }));
+    }
+    addNotification({
+      title: 'Imported',
+      message: lorebook
+        ? `Character "${character.name}" imported with lorebook "${lorebook.name}" (${lorebook.entries.length} entries).`
+        : `Character "${character.name}" imported successfully.`,
+      type: 'success',
+    });
+  };
+
   const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
+      // PNG character cards (SillyTavern V2/V3): the image itself becomes the avatar.
+      if (file.type === 'image/png' || file.name.toLowerCase().endsWith('.png')) {
+        const card = extractCardFromPng(new Uint8Array(await file.arrayBuffer()));
+        const avatar = await convertImageToWebP(await readFileAsDataUrl(file), 0.85);
+        await importCharacterCard(card, avatar);
+        return;
+      }
+
       const text = await file.text();
       const json = JSON.parse(text);
+      if (isCharacterCard(json)) {
+        await importCharacterCard(json);
+        return;
+      }
+
       // Basic validation
       if (!json || typeof json !== 'object' || typeof json.name !== 'string') {
         throw new Error('Invalid character JSON: missing required name field.');
@@ -207,7 +263,7 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
 
       addNotification({ title: 'Imported', message: `Character "${newCharacter.name || 'Untitled'}" imported successfully.`, type: 'success' });
     } catch (err: any) {
-      addNotification({ title: 'Import Failed', message: err?.message || 'Could not import character JSON.', type: 'error' });
+      addNotification({ title: 'Import Failed', message: err?.message || 'Could not import character file.', type: 'error' });
     } finally {
       // reset input value so same file can be selected again
       if (importInputRef.current) importInputRef.current.value = '';
@@ -245,6 +301,36 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
     }
   };
 
+  const handleExportCard = async () => {
+    if (!selectedCharacter) return;
+    const char: Character = { ...selectedCharacter, imageUrl: selectedCharacter.imageUrl || avatars[selectedCharacter.id] };
+    try {
+      const linked = lorebooks.filter(lb => char.lorebookIds?.includes(lb.id));
+      const blob = await exportCharacterCardPng(char, linked);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      const safeName = (char.name || 'character').replace(/[^\p{L}\p{N}_\- ]/gu, '').trim() || 'character';
+      a.href = url;
+      a.download = `${safeName}.card.png`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      addNotification({ title: 'Export Failed', message: e?.message || 'Could not export character card.', type: 'error' });
+    }
+  };
+
+  const handleToggleLinkedLorebook = (lorebookId: string) => {
+    setFormData(prev => {
+      const current = prev.lorebookIds || [];
+      return {
+        ...prev,
+        lorebookIds: current.includes(lorebookId) ? current.filter(id => id !== lorebookId) : [...current, lorebookId],
+      };
+    });
+  };
+
   const handleTriggerAvatar = () => {
     avatarInputRef.current?.click();
   };
@@ -324,7 +410,7 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
     setFormData(prev => ({ ...prev, [name]: value }));
   };
   
-  const animateFormData = useCallback(async (data: Omit<Character, 'id' | 'createdAt' | 'events' | 'characterArcs'>) => {
+  const animateFormData = useCallback(async (data: Omit<Character, 'id' | 'createdAt' | 'events' | 'characterArcs' | 'lorebookIds' | 'appearance'>) => {
     const fields: (keyof typeof data)[] = ['name', 'description', 'exampleDialogue', 'authorNote', 'visualPrompt'];
     
     setFormData(EMPTY_CHARACTER);
@@ -513,8 +599,8 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
               
               {/* Import/Export buttons - always visible with text */}
               <div className="flex items-center gap-2 flex-wrap">
-                <input ref={importInputRef} type="file" accept="application/json" className="hidden" onChange={handleImportFileChange} aria-label="Import character file" />
-                <button onClick={handleTriggerImport} className="px-3 py-2 text-sm font-medium rounded-md btn-secondary flex items-center gap-2" aria-label="Import character from JSON">
+                <input ref={importInputRef} type="file" accept="application/json,image/png,.json,.png" className="hidden" onChange={handleImportFileChange} aria-label="Import character file" />
+                <button onClick={handleTriggerImport} className="px-3 py-2 text-sm font-medium rounded-md btn-secondary flex items-center gap-2" aria-label="Import character from JSON or character card" title="JSON or SillyTavern character card (PNG/JSON, V1-V3)">
                   <UploadIcon className="w-4 h-4" />
                   <span>Import</span>
                 </button>
@@ -522,6 +608,16 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
                   <DownloadIcon className="w-4 h-4" />
                   <span>Export</span>
                 </button>
+                <button
+                  onClick={handleExportCard}
+                  disabled={!selectedCharacterId || !(selectedCharacter?.imageUrl || (selectedCharacterId && avatars[selectedCharacterId]))}
+                  className="px-3 py-2 text-sm font-medium rounded-md btn-secondary disabled:opacity-50 flex items-center gap-2"
+                  aria-label="Export selected character as a PNG character card"
+                  title="SillyTavern V2 card (PNG). Requires a character picture."
+                >
+                  <ImageIcon className="w-4 h-4" />
+                  <span>Export Card</span>
+                </button>
               </div>
               
               {/* Custom Dropdown for small screens */}
@@ -792,8 +888,53 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
                     <FormInput label="Author's Note (Private)" name="authorNote" value={formData.authorNote} onChange={handleFormChange} placeholder="Always portray him as charming but untrustworthy..." isTextArea rows={2} />
                  </div>
 
+                 {lorebooks.length > 0 && (
+                   <div className="space-y-2 p-3 sm:p-4 border rounded-lg border-color bg-secondary-bg">
+                     <h4 className="text-sm sm:text-base font-semibold">Linked Lorebooks</h4>
+                     <p className="text-xs text-text-secondary">Active in every conversation this character is part of.</p>
+                     <div className="flex flex-wrap gap-2">
+                       {lorebooks.map(lb => {
+                         const isLinked = (formData.lorebookIds || []).includes(lb.id);
+                         return (
+                           <button
+                             key={lb.id}
+                             type="button"
+                             onClick={() => handleToggleLinkedLorebook(lb.id)}
+                             className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${isLinked ? 'bg-accent-primary/15 border-accent-primary text-accent-primary' : 'border-color text-text-secondary hover:text-text-primary'}`}
+                           >
+                             {lb.name}
+                           </button>
+                         );
+                       })}
+                     </div>
+                   </div>
+                 )}
+
                  <FormInput label="Visual Prompt (Image Generation)" name="visualPrompt" value={formData.visualPrompt || ''} onChange={handleFormChange} placeholder="masterpiece, best quality, 1girl, solo, Mira..." isTextArea rows={4} />
 
+                 {comfyUIWorkflows.length > 0 && (
+                   <div>
+                     <label htmlFor="character-comfy-workflow" className="block text-xs sm:text-sm font-medium mb-1">ComfyUI Workflow</label>
+                     <select
+                       id="character-comfy-workflow"
+                       value={formData.comfyUIWorkflowId || ''}
+                       onChange={(e) => setFormData(prev => ({ ...prev, comfyUIWorkflowId: e.target.value || undefined }))}
+                       className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 text-sm modal-input"
+                     >
+                       <option value="">Default from settings</option>
+                       <option value={BUILTIN_COMFYUI_WORKFLOW_ID}>Built-in</option>
+                       {comfyUIWorkflows.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+                     </select>
+                     <p className="text-xs text-text-secondary mt-1">Used for images in this character's conversations unless the conversation picks its own. The appearance reference image, or else the avatar, fills the workflow's reference image.</p>
+                   </div>
+                 )}
+
+                 <CharacterAppearancePanel
+                   appearance={formData.appearance}
+                   onChange={(appearance) => setFormData(prev => ({ ...prev, appearance }))}
+                   avatarUrl={tempAvatar || (selectedCharacterId ? avatars[selectedCharacterId] || selectedCharacter?.imageUrl : undefined)}
+                 />
+
                 <div className="space-y-3 sm:space-y-4 p-3 sm:p-4 border rounded-lg border-color bg-secondary-bg">
                     <h4 className="text-sm sm:text-base font-semibold">Character Arcs (Story Mode)</h4>
                     <p className="text-xs text-text-secondary -mt-3">Define how this character evolves as the story progresses through levels.</p>
@@ -850,6 +991,18 @@ export const CharactersModal: React.FC<CharactersModalProps> = ({ isOpen, onClos
                         <textarea id="events" name="events" value={selectedCharacter.events || 'No events logged.'} readOnly rows={5} className="w-full p-2 border rounded-lg focus:outline-none text-xs modal-input bg-tertiary-bg/30 text-text-secondary whitespace-pre-wrap" />
                     </div>
                  )}
+
+                 {selectedCharacter && (
+                    <div className="space-y-2 p-3 sm:p-4 border rounded-lg border-color bg-secondary-bg">
+                        <h4 className="text-sm sm:text-base font-semibold">Version History</h4>
+                        <CharacterHistoryPanel
+                          character={selectedCharacter}
+                          onRestore={(character, info) => onSave(character, info)}
+                          activeConversation={activeConversation}
+                          onConversationUpdate={onConversationUpdate}
+                        />
+                    </div>
+                 )}
             </main>
         </div>
 
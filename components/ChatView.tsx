@@ -13,6 +13,10 @@ import HeaderStats from './HeaderStats';
 import { SongCard } from './SongCard';
 import ContextSongPrompt from './ContextSongPrompt';
 import { SummarizationDebugger } from './SummarizationDebugger';
+import ImageGalleryModal from './ImageGalleryModal';
+import { getBranchLabel } from '../services/conversationBranchService';
+import { getConversationCharacters } from '../services/characterRevisions';
+import { isImageMessage } from '../services/imageGallery';
 
 interface ChatViewProps {
   conversation: Conversation | null;
@@ -27,8 +31,17 @@ interface ChatViewProps {
   onToggleSidebar: () => void;
   onOpenUpdateKnowledgeModal: () => void;
   onOpenLivingLoreModal: (character: Character, suggestedChange: string) => void;
+  onOpenLivingLoreReview: () => void;
   onOpenAddToIdentityModal: () => void;
   onSettingsUpdate: (updatedSettings: Settings) => void;
+  // New: Branches
+  branchFamily?: Conversation[];
+  onForkConversation?: (messageId: string) => void;
+  onSelectConversation?: (conversationId: string) => void;
+  // Scrolls to a message when set from outside the chat (e.g. evidence links in the Memory modal).
+  messageJumpRequest?: { messageId: string; requestedAt: number } | null;
+  // New: Saves a character, for the gallery's "Set as avatar".
+  onSaveCharacter?: (character: Character) => Promise<void>;
 }
 
 /**
@@ -37,7 +50,7 @@ interface ChatViewProps {
  * All complex logic has been moved to the `useChatHandler` custom hook.
  */
 const ChatView: React.FC<ChatViewProps> = (props) => {
-  const { conversation, onConversationUpdate, allCharacters, allLorebooks, allUserPersonas, allIdentityProfiles, selectedModel, settings, onToggleSidebar, onOpenUpdateKnowledgeModal, onOpenAddToIdentityModal } = props;
+  const { conversation, onConversationUpdate, allCharacters, allLorebooks, allUserPersonas, allIdentityProfiles, selectedModel, settings, onToggleSidebar, onOpenUpdateKnowledgeModal, onOpenLivingLoreReview, onOpenAddToIdentityModal, branchFamily = [], onForkConversation, onSelectConversation, messageJumpRequest, onSaveCharacter } = props;
   
   // The useChatHandler hook encapsulates all chat logic.
   const {
@@ -52,6 +65,7 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
     handleRegenerateResponse,
     handleDeleteMessage,
     handleSaveConversationSettings,
+    handleUpdateStoryArc,
     handleTransformToPrompt,
     handleSuggestionResponse,
     handleManualDirectorAI,
@@ -77,8 +91,11 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
     setAttachedImage,
     handleSwitchResponse,
     handleConfirmResponse,
+    handleSwipeResponse,
     handleGenerateSceneBackground,
     isGeneratingBackground,
+    handleGalleryGenerate,
+    handleGalleryUpscale,
   } = useChatHandler(props);
   
   const parentRef = useRef<HTMLDivElement>(null);
@@ -92,18 +109,19 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
 
   // Summarization Debugger state
   const [isDebuggerOpen, setIsDebuggerOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+
+  const handleSetGalleryAvatar = useCallback(async (character: Character, dataUrl: string) => {
+    await onSaveCharacter?.({ ...character, imageUrl: dataUrl });
+  }, [onSaveCharacter]);
 
   const visibleMessages = useMemo(() => conversation?.messages.filter(m => !m.isTemporary) || [], [conversation?.messages]);
   
-  // Get active character names
-  const activeCharacterNames = useMemo(() => {
-    if (!conversation?.characterIds || conversation.characterIds.length === 0) {
-      return [];
-    }
-    return conversation.characterIds
-      .map(id => allCharacters.find(c => c.id === id)?.name)
-      .filter((name): name is string => !!name);
-  }, [conversation?.characterIds, allCharacters]);
+  // Get active characters and their names
+  const activeCharacters = useMemo(() => {
+    return getConversationCharacters(conversation, allCharacters);
+  }, [conversation?.characterIds, conversation?.characterOverrides, allCharacters]);
+  const activeCharacterNames = useMemo(() => activeCharacters.map(c => c.name), [activeCharacters]);
   
   // Track playing song IDs for special handling
   const playingSongIds = useMemo(() => {
@@ -234,11 +252,29 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
     lockedScrollTopRef.current = parentRef.current.scrollTop;
   }, []);
 
+  // Scrolls to a message (e.g. from the directive timeline) and keeps auto-scroll from pulling the view back down.
+  const handleJumpToMessage = useCallback((messageId: string) => {
+    const index = timeline.findIndex(item => item.type === 'message' && item.data.id === messageId);
+    if (index === -1) return;
+    autoScrollLocked.current = true;
+    userHasScrolledUp.current = true;
+    isProgrammaticScrollRef.current = true;
+    rowVirtualizer.scrollToIndex(index, { align: 'center', behavior: 'auto' });
+    requestAnimationFrame(() => {
+      isProgrammaticScrollRef.current = false;
+      if (parentRef.current) lockedScrollTopRef.current = parentRef.current.scrollTop;
+    });
+  }, [timeline, rowVirtualizer]);
+
+  useEffect(() => {
+    if (messageJumpRequest) handleJumpToMessage(messageJumpRequest.messageId);
+  }, [messageJumpRequest]);
+
   const lastMessageSignature = useMemo(() => {
     if (visibleMessages.length === 0) return '';
     const last = visibleMessages[visibleMessages.length - 1];
     if (!last) return '';
-    return `${last.id ?? 'unknown'}:${last.content?.length ?? 0}:${last.timestamp ?? ''}:${last.imageUrl ?? ''}`;
+    return `${last.id ?? 'unknown'}:${last.content?.length ?? 0}:${last.timestamp ?? ''}:${last.imageId ?? last.imageUrl ?? ''}`;
   }, [visibleMessages]);
 
   // This layout effect handles auto-scrolling when a new message is added.
@@ -318,18 +354,15 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
 
   // Determine the user's name from the active persona.
   const userName = useMemo(() => {
-    const activeUserPersona = allUserPersonas.find(p => p.id === settings.activeUserPersonaId);
+    const activeUserPersona = allUserPersonas.find(p => p.id === (conversation?.userPersonaId || settings.activeUserPersonaId));
     return activeUserPersona?.name || 'You';
-  }, [allUserPersonas, settings.activeUserPersonaId]);
+  }, [allUserPersonas, settings.activeUserPersonaId, conversation?.userPersonaId]);
 
   const characterName = useMemo(() => {
-    if (!conversation?.characterIds) return 'Character';
-    const names = allCharacters
-        .filter(c => conversation.characterIds.includes(c.id))
-        .map(c => c.name);
+    const names = getConversationCharacters(conversation, allCharacters).map(c => c.name);
     if (names.length === 0) return 'Character';
     return names.join(' & ');
-  }, [allCharacters, conversation?.characterIds]);
+  }, [allCharacters, conversation?.characterIds, conversation?.characterOverrides]);
 
   // Find the last user message in the timeline (must be before early return)
   const lastUserMessageIndex = useMemo(() => {
@@ -341,6 +374,12 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
     }
     return -1;
   }, [timeline]);
+
+  // Only the newest response can be swiped, since regenerating drops everything after it.
+  const lastModelMessageId = useMemo(() => {
+    const last = visibleMessages[visibleMessages.length - 1];
+    return last && last.role === 'model' && last.type !== 'event' ? last.id : null;
+  }, [visibleMessages]);
   
   const isDocumentStyle = settings.messageStyle === 'document';
 
@@ -379,8 +418,28 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
             </button>
             <div className="flex-1 flex items-center min-w-0">
                 <h1 className="text-base sm:text-lg font-semibold truncate hidden md:block">{conversation.title}</h1>
+                {branchFamily.length > 1 && onSelectConversation && (
+                    <select
+                        value={conversation.id}
+                        onChange={(e) => onSelectConversation(e.target.value)}
+                        disabled={isStreaming}
+                        className="ml-2 max-w-[10rem] text-xs bg-tertiary-bg border border-color rounded-md px-2 py-1 truncate"
+                        title="Switch branch"
+                    >
+                        {branchFamily.map(c => (
+                            <option key={c.id} value={c.id}>{getBranchLabel(c)}</option>
+                        ))}
+                    </select>
+                )}
             </div>
-            <HeaderStats conversation={conversation} settings={settings} selectedModel={selectedModel} isStreaming={isStreaming} />
+            <HeaderStats
+                conversation={conversation}
+                settings={settings}
+                selectedModel={selectedModel}
+                isStreaming={isStreaming}
+                characters={activeCharacters}
+                onStoryArcUpdate={handleUpdateStoryArc}
+            />
             <RadioPill />
         </header>
 
@@ -402,10 +461,14 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
         scenario={conversation.scenario}
         narrativeDirectives={conversation.narrativeDirectives}
         facts={conversation.facts}
+        factProposals={conversation.factProposals}
+        rejectedFactProposals={conversation.rejectedFactProposals}
         conversationMessages={conversation.messages}
         settings={settings}
         microPromptCards={conversation.microPromptCards}
         activeMicroCardIds={conversation.activeMicroCardIds}
+        onJumpToMessage={handleJumpToMessage}
+        comfyUIWorkflowId={conversation.comfyUIWorkflowId}
       />
 
       <div className="flex-1 flex flex-col min-h-0 chat-view-content-area">
@@ -492,7 +555,7 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
                   
                   const msg = item.data;
                   const isUser = msg.role === 'user';
-                  const isSpecialMessage = isDocumentStyle || msg.suggestion || msg.type === 'event' || msg.isGeneratingImage || msg.imageUrl;
+                  const isSpecialMessage = isDocumentStyle || msg.suggestion || msg.type === 'event' || msg.isGeneratingImage || isImageMessage(msg);
                   const alignmentMargin = isSpecialMessage ? 'mx-auto' : (isUser ? 'ml-auto' : 'mr-auto');
                   const widthClass = isSpecialMessage ? 'w-full' : 'max-w-xl lg:max-w-3xl';
                   
@@ -531,6 +594,9 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
                                       onGenerateSong={handleGenerateSongClick}
                                       onSwitchResponse={handleSwitchResponse}
                                       onConfirmResponse={handleConfirmResponse}
+                                      isLastModelMessage={msg.id === lastModelMessageId}
+                                      onSwipe={handleSwipeResponse}
+                                      onBranch={onForkConversation}
                                       showSenderNames={settings.showSenderNames}
                                       messageStyle={settings.messageStyle}
                                       highlightDialogue={settings.highlightDialogue}
@@ -586,6 +652,8 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
           handleSend={handleSend}
           handleManualDirectorAI={handleManualDirectorAI}
           handleManualLoreScan={handleManualLoreScan}
+          onOpenLivingLoreReview={onOpenLivingLoreReview}
+          pendingLoreUpdates={conversation?.livingLoreQueue?.length || 0}
           isStreaming={isStreaming}
           isTransforming={isTransforming}
           isEnhancing={isEnhancing}
@@ -606,6 +674,7 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
           handleGenerateSceneBackground={handleGenerateSceneBackground}
           isGeneratingBackground={isGeneratingBackground}
           onOpenDebugger={() => setIsDebuggerOpen(true)}
+          onOpenGallery={conversation ? () => setIsGalleryOpen(true) : undefined}
         />
       </div>
       
@@ -657,6 +726,23 @@ const ChatView: React.FC<ChatViewProps> = (props) => {
         document.body
       )}
 
+      {/* Image Gallery via Portal */}
+      {conversation && isGalleryOpen && createPortal(
+        <ImageGalleryModal
+          isOpen={isGalleryOpen}
+          onClose={() => setIsGalleryOpen(false)}
+          conversation={conversation}
+          characters={onSaveCharacter ? allCharacters.filter(c => conversation.characterIds?.includes(c.id)) : []}
+          settings={settings}
+          onGenerate={handleGalleryGenerate}
+          onUpscale={handleGalleryUpscale}
+          onSetAvatar={handleSetGalleryAvatar}
+          onSetBackground={(dataUrl) => props.onSettingsUpdate({ ...settings, chatBackground: dataUrl })}
+          onJumpToMessage={handleJumpToMessage}
+        />,
+        document.body
+      )}
+
     </main>
   );
 };
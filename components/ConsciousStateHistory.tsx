@@ -0,0 +1,118 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ConsciousStateSnapshot, Conversation } from '../types';
+import { diffConsciousStates, restoreStateSnapshot, type StateChange } from '../services/consciousStateHistory';
+
+interface ConsciousStateHistoryProps {
+  conversation: Conversation;
+  onRestore: (conversation: Conversation) => void;
+}
+
+const SOURCE_LABELS: Record<ConsciousStateSnapshot['source'], string> = {
+  baseline: 'Initial',
+  engine: 'Engine',
+  manual: 'Manual edit',
+  restore: 'Restored',
+};
+
+const CATEGORY_ICONS: Record<StateChange['category'], string> = {
+  mood: '🎭',
+  location: '📍',
+  relationship: '🤝',
+  metric: '📊',
+  commitment: '📜',
+  world: '🌍',
+};
+
+/**
+ * Snapshot list and diff view for the Conscious State tab of the Memory modal. Any two snapshots
+ * can be compared; the newer one can be restored as the current state.
+ */
+export const ConsciousStateHistory: React.FC<ConsciousStateHistoryProps> = ({ conversation, onRestore }) => {
+  const history = conversation.consciousStateHistory || [];
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  // Compare the two newest snapshots whenever a new one arrives.
+  useEffect(() => {
+    setToId(history[history.length - 1]?.id || '');
+    setFromId(history[history.length - 2]?.id || '');
+  }, [history.length]);
+
+  const messageIds = useMemo(() => new Set(conversation.messages.map(m => m.id)), [conversation.messages]);
+  const from = history.find(s => s.id === fromId) || null;
+  const to = history.find(s => s.id === toId) || null;
+  const changes = useMemo(() => to ? diffConsciousStates(from?.state || null, to.state) : [], [from, to]);
+
+  if (history.length === 0) {
+    return <p className="text-xs text-text-secondary">No state history yet. Every state update from now on is saved as a snapshot.</p>;
+  }
+
+  const describe = (s: ConsciousStateSnapshot) => {
+    const orphaned = s.messageId && !messageIds.has(s.messageId) ? ' (message deleted)' : '';
+    const position = s.source === 'baseline' ? '' : `#${s.messageNumber} · `;
+    return `${position}${SOURCE_LABELS[s.source]}${s.engineVersion ? ` ${s.engineVersion.toUpperCase()}` : ''} · ${new Date(s.createdAt).toLocaleString()}${orphaned}`;
+  };
+
+  const handleRestore = () => {
+    if (!to || !window.confirm('Make this snapshot the current state? The current state stays in the history.')) return;
+    onRestore(restoreStateSnapshot(conversation, to.id));
+  };
+
+  const isCurrent = to?.id === history[history.length - 1].id;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">From</label>
+          <select value={fromId} onChange={e => setFromId(e.target.value)} className="w-full p-2 border rounded-lg text-sm modal-input">
+            <option value="">No state</option>
+            {[...history].reverse().map(s => <option key={s.id} value={s.id}>{describe(s)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">To</label>
+          <select value={toId} onChange={e => setToId(e.target.value)} className="w-full p-2 border rounded-lg text-sm modal-input">
+            {[...history].reverse().map(s => <option key={s.id} value={s.id}>{describe(s)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-xs text-text-secondary">No differences between these snapshots.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto space-y-1 text-xs">
+          {changes.map((c, index) => (
+            <li key={index} className="p-2 rounded border border-color flex flex-wrap items-baseline gap-x-2">
+              <span>{CATEGORY_ICONS[c.category]}</span>
+              <span className="font-semibold text-text-primary">{c.subject}</span>
+              <span className="text-text-secondary">{c.field}:</span>
+              <span className="line-through text-red-500/80">{c.before ?? '—'}</span>
+              <span className="text-text-secondary">→</span>
+              <span className="text-green-600 dark:text-green-400">{c.after ?? '—'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {to?.state.conflicts && to.state.conflicts.length > 0 && (
+        <div className="text-xs">
+          <p className="font-medium text-text-secondary mb-1">Conflicts resolved in this update</p>
+          <ul className="list-disc pl-4 space-y-0.5">
+            {to.state.conflicts.map((c, index) => (
+              <li key={index}>{c.field}: {JSON.stringify(c.oldValue)} → {JSON.stringify(c.newValue)}{c.reason ? ` (${c.reason})` : ''}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        onClick={handleRestore}
+        disabled={!to || isCurrent}
+        className="px-3 py-1.5 text-xs font-semibold rounded-md bg-accent-primary/10 text-accent-primary hover:bg-accent-primary/20 disabled:opacity-50"
+      >
+        {isCurrent ? 'This is the current state' : 'Restore "To" Snapshot'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import type { DirectiveMilestone, Message, NarrativeDirective, Settings } from '../types';
+import { decomposeDirectiveGoal } from '../services/aiService';
+import {
+  applyMilestoneVerification,
+  getCurrentMilestone,
+  getOpenMilestones,
+  removeMilestone,
+  setDirectiveMilestones,
+} from '../services/directiveMilestones';
+import { generateUUID } from '../utils/uuid';
+import { useNotifications } from '../contexts/NotificationContext';
+import { TrashIcon } from './icons/TrashIcon';
+import { PlusIcon } from './icons/PlusIcon';
+import { SparklesIcon } from './icons/SparklesIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+
+interface DirectiveMilestonesProps {
+  directive: NarrativeDirective;
+  messages: Message[];
+  settings: Settings;
+  disabled: boolean;
+  onChange: (directive: NarrativeDirective) => void;
+}
+
+/**
+ * Milestone editor for a Will Engine directive in the Author's Note. A milestone can only depend
+ * on milestones above it, which keeps the dependencies free of cycles.
+ */
+export const DirectiveMilestones: React.FC<DirectiveMilestonesProps> = ({ directive, messages, settings, disabled, onChange }) => {
+  const { addNotification } = useNotifications();
+  const [isDecomposing, setIsDecomposing] = useState(false);
+  const milestones = directive.milestones || [];
+  const current = getCurrentMilestone(directive);
+  const openIds = new Set(getOpenMilestones(directive).map(m => m.id));
+
+  const update = (next: DirectiveMilestone[]) => onChange(setDirectiveMilestones(directive, next));
+  const updateMilestone = (id: string, changes: Partial<DirectiveMilestone>) =>
+    update(milestones.map(m => m.id === id ? { ...m, ...changes } : m));
+
+  const handleAdd = () => {
+    const previous = milestones[milestones.length - 1];
+    update([...milestones, {
+      id: generateUUID(), title: '', completionCriteria: '', dependsOn: previous ? [previous.id] : [], progress: 0, isCompleted: false,
+    }]);
+  };
+
+  const handleToggleDependency = (milestone: DirectiveMilestone, dependencyId: string) => {
+    const dependsOn = milestone.dependsOn || [];
+    updateMilestone(milestone.id, {
+      dependsOn: dependsOn.includes(dependencyId) ? dependsOn.filter(id => id !== dependencyId) : [...dependsOn, dependencyId],
+    });
+  };
+
+  const handleDecompose = async () => {
+    if (!directive.goal.trim()) return;
+    if (milestones.length > 0 && !window.confirm('Replace the current milestones with a new breakdown?')) return;
+    setIsDecomposing(true);
+    try {
+      const decomposed = await decomposeDirectiveGoal(directive, messages.slice(-10), settings);
+      update(decomposed);
+    } catch (error: any) {
+      addNotification({ title: 'Breakdown Failed', message: error.message, type: 'error' });
+    } finally {
+      setIsDecomposing(false);
+    }
+  };
+
+  const statusOf = (m: DirectiveMilestone) => {
+    if (m.isCompleted) return { icon: '✅', label: 'Reached' };
+    if (m.id === current?.id) return { icon: '▶️', label: 'Current' };
+    if (openIds.has(m.id)) return { icon: '⚪', label: 'Open' };
+    return { icon: '🔒', label: 'Waiting' };
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="block text-xs font-medium text-text-secondary">
+          Milestones {milestones.length > 0 && `(${milestones.filter(m => m.isCompleted).length}/${milestones.length})`}
+        </label>
+        <button
+          onClick={handleDecompose}
+          disabled={disabled || isDecomposing || !directive.goal.trim()}
+          className="px-2 py-1 text-xs font-semibold rounded-md flex items-center gap-1.5 bg-accent-primary/10 text-accent-primary hover:bg-accent-primary/20 disabled:opacity-50"
+          title="Break the goal into intermediate beats"
+        >
+          {isDecomposing ? <LoaderIcon className="w-3.5 h-3.5" /> : <SparklesIcon className="w-3.5 h-3.5" />}
+          {isDecomposing ? 'Breaking Down...' : 'Break Down'}
+        </button>
+      </div>
+      {milestones.length === 0 && (
+        <p className="text-xs text-text-secondary italic">No milestones: the goal is pursued and verified as a whole. Long arcs work better in steps.</p>
+      )}
+      {milestones.map((m, index) => {
+        const status = statusOf(m);
+        const earlier = milestones.slice(0, index);
+        return (
+          <div key={m.id} className={`p-2 rounded-md border border-color space-y-1.5 ${m.id === current?.id ? 'bg-accent-primary/5' : 'bg-tertiary-bg/30'}`}>
+            <div className="flex items-center gap-2">
+              <span className="text-xs" title={status.label}>{status.icon}</span>
+              <span className="text-xs font-semibold text-text-secondary">{index + 1}.</span>
+              <input
+                value={m.title}
+                onChange={e => updateMilestone(m.id, { title: e.target.value })}
+                placeholder="e.g., The rival admits a grudging respect"
+                className="flex-1 p-1.5 border rounded-md modal-input text-xs font-medium"
+                disabled={disabled}
+              />
+              <span className="text-xs text-text-secondary w-9 text-right">{m.progress || 0}%</span>
+              <input
+                type="checkbox"
+                checked={!!m.isCompleted}
+                onChange={e => onChange(applyMilestoneVerification(directive, m.id, { progress: e.target.checked ? 100 : 0, isCompleted: e.target.checked }))}
+                disabled={disabled}
+                title="Mark as reached"
+              />
+              <button
+                onClick={() => update(removeMilestone(milestones, m.id))}
+                className="p-1 rounded hover:bg-red-500/10"
+                disabled={disabled}
+                title="Delete Milestone"
+              >
+                <TrashIcon className="w-3.5 h-3.5 text-text-secondary hover:text-red-500" />
+              </button>
+            </div>
+            <textarea
+              value={m.completionCriteria}
+              onChange={e => updateMilestone(m.id, { completionCriteria: e.target.value })}
+              placeholder="Reached when... (what must happen in the story)"
+              rows={2}
+              className="w-full p-1.5 border rounded-md modal-input text-xs resize-none"
+              disabled={disabled}
+            />
+            {earlier.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-text-secondary">
+                <span>After:</span>
+                {earlier.map((dependency, dependencyIndex) => {
+                  const selected = (m.dependsOn || []).includes(dependency.id);
+                  return (
+                    <button
+                      key={dependency.id}
+                      onClick={() => handleToggleDependency(m, dependency.id)}
+                      disabled={disabled}
+                      className={`px-1.5 py-0.5 rounded-full border ${selected ? 'border-accent-primary bg-accent-primary/15 text-accent-primary' : 'border-color hover:bg-tertiary-bg'}`}
+                      title={dependency.title}
+                    >
+                      {dependencyIndex + 1}
+                    </button>
+                  );
+                })}
+                {(m.dependsOn || []).length === 0 && <span className="italic">open from the start</span>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={handleAdd}
+        disabled={disabled}
+        className="w-full flex items-center justify-center gap-1.5 py-1 text-xs font-semibold text-accent-primary bg-accent-primary/5 rounded-md hover:bg-accent-primary/15 disabled:opacity-50"
+      >
+        <PlusIcon className="w-3.5 h-3.5" /> Add Milestone
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import type { Message, NarrativeDirective } from '../types';
+import {
+  buildDirectiveTimeline,
+  forceGoalSlip,
+  pinDirectiveProgress,
+  setInjectionRetracted,
+  unpinDirectiveProgress,
+  type DirectiveTimelineEvent,
+} from '../services/directiveTimeline';
+
+interface DirectiveTimelineProps {
+  directive: NarrativeDirective;
+  messages: Message[];
+  disabled: boolean;
+  onChange: (directive: NarrativeDirective) => void;
+  onJumpToMessage?: (messageId: string) => void;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 90;
+const CHART_PADDING = 6;
+
+const EVENT_LABELS: Record<DirectiveTimelineEvent['kind'], string> = {
+  injection: '💉 Injection',
+  verification: '✔️ Verification',
+  context: '🧭 Context',
+  manual: '📌 Pinned',
+};
+
+/**
+ * Per-directive history for the Will Engine section of the Author's Note: injections,
+ * verification scores and activation scores against message numbers, with manual overrides.
+ * Changes go through `onChange` and are saved with the rest of the Author's Note.
+ */
+export const DirectiveTimeline: React.FC<DirectiveTimelineProps> = ({ directive, messages, disabled, onChange, onJumpToMessage }) => {
+  const events = useMemo(() => buildDirectiveTimeline(directive, messages), [directive, messages]);
+  const [pinValue, setPinValue] = useState(directive.progress || 0);
+  const [slipStrategy, setSlipStrategy] = useState<'hint' | 'scene'>('hint');
+
+  const placed = events.filter(e => e.messageNumber !== undefined);
+  const lastNumber = Math.max(messages.length, ...placed.map(e => e.messageNumber!), 2);
+  const x = (messageNumber: number) => CHART_PADDING + ((messageNumber - 1) / (lastNumber - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (score: number) => CHART_PADDING + (1 - score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const linePoints = (kind: DirectiveTimelineEvent['kind'], value: (e: DirectiveTimelineEvent) => number | undefined) =>
+    placed.filter(e => e.kind === kind && value(e) !== undefined).map(e => `${x(e.messageNumber!)},${y(value(e)!)}`).join(' ');
+
+  const jump = (event: DirectiveTimelineEvent) => {
+    if (event.messageId && onJumpToMessage) onJumpToMessage(event.messageId);
+  };
+
+  return (
+    <div className="space-y-3 p-2 rounded-md bg-tertiary-bg/40 border border-color">
+      {placed.length === 0 ? (
+        <p className="text-xs text-text-secondary text-center py-2">Nothing recorded yet. Injections and progress checks will appear here.</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24" role="img" aria-label="Directive timeline chart">
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(0)} y2={y(0)} className="stroke-current text-text-secondary/30" strokeWidth={0.5} />
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(100)} y2={y(100)} className="stroke-current text-text-secondary/20" strokeWidth={0.5} strokeDasharray="2 2" />
+            {placed.filter(e => e.kind === 'injection').map(e => (
+              <line
+                key={`injection-${e.timestamp}`}
+                x1={x(e.messageNumber!)} x2={x(e.messageNumber!)} y1={y(100)} y2={y(0)}
+                className={`stroke-current ${e.injection?.retracted ? 'text-text-secondary/30' : 'text-purple-500/60'} ${e.messageId ? 'cursor-pointer' : ''}`}
+                strokeWidth={1.5}
+                strokeDasharray={e.injection?.retracted ? '2 2' : undefined}
+                onClick={() => jump(e)}
+              >
+                <title>{`#${e.messageNumber} ${e.injection?.intentContent || ''}`}</title>
+              </line>
+            ))}
+            <polyline points={linePoints('verification', e => e.progress)} fill="none" className="stroke-current text-blue-500" strokeWidth={1.5} />
+            <polyline points={linePoints('context', e => e.activationScore)} fill="none" className="stroke-current text-amber-500" strokeWidth={1} strokeDasharray="3 2" />
+            {placed.filter(e => e.kind !== 'injection').map(e => {
+              const score = e.kind === 'context' ? e.activationScore : e.progress;
+              if (score === undefined) return null;
+              const color = e.kind === 'context' ? 'text-amber-500' : e.kind === 'manual' ? 'text-green-500' : 'text-blue-500';
+              return (
+                <circle
+                  key={`${e.kind}-${e.timestamp}`}
+                  cx={x(e.messageNumber!)} cy={y(score)} r={e.kind === 'manual' ? 3 : 2}
+                  className={`fill-current ${color} ${e.messageId ? 'cursor-pointer' : ''}`}
+                  onClick={() => jump(e)}
+                >
+                  <title>{`#${e.messageNumber} ${EVENT_LABELS[e.kind]}: ${score}%`}</title>
+                </circle>
+              );
+            })}
+          </svg>
+          <div className="flex flex-wrap gap-3 text-[11px] text-text-secondary">
+            <span><span className="text-blue-500">━</span> Verified progress</span>
+            <span><span className="text-amber-500">┅</span> Activation score</span>
+            <span><span className="text-purple-500">┃</span> Injection</span>
+            <span><span className="text-green-500">●</span> Pinned</span>
+            <span className="ml-auto">Messages 1–{lastNumber}</span>
+          </div>
+        </>
+      )}
+
+      {events.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto space-y-1.5 text-xs">
+          {[...events].reverse().map(e => (
+            <li key={`${e.kind}-${e.timestamp}`} className={`p-2 rounded border border-color ${e.injection?.retracted ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-text-primary">{EVENT_LABELS[e.kind]}</span>
+                <span className="text-text-secondary">{e.messageNumber !== undefined ? `#${e.messageNumber}` : 'earlier'}</span>
+                {e.progress !== undefined && <span className="text-text-secondary">{e.progress}%</span>}
+                {e.activationScore !== undefined && <span className="text-text-secondary">activation {e.activationScore}</span>}
+                {e.milestoneId && (
+                  <span className="text-text-secondary truncate" title="Milestone verified">
+                    🪜 {directive.milestones?.find(m => m.id === e.milestoneId)?.title || 'removed milestone'}
+                  </span>
+                )}
+                <div className="ml-auto flex gap-1">
+                  {e.messageId && onJumpToMessage && (
+                    <button onClick={() => jump(e)} className="px-2 py-0.5 rounded bg-accent-primary/10 text-accent-primary hover:bg-accent-primary/20">
+                      Jump
+                    </button>
+                  )}
+                  {e.injection && (
+                    <button
+                      onClick={() => onChange(setInjectionRetracted(directive, e.injection!.injectedAt, !e.injection!.retracted))}
+                      disabled={disabled}
+                      className="px-2 py-0.5 rounded bg-tertiary-bg hover:bg-red-500/10 text-text-secondary disabled:opacity-50"
+                      title={e.injection.retracted ? 'Count this injection as an attempt again' : 'Stop counting this injection as an attempt when planning the next one'}
+                    >
+                      {e.injection.retracted ? 'Restore' : 'Retract'}
+                    </button>
+                  )}
+                </div>
+              </div>
+              {e.injection && (
+                <p className="mt-1 text-text-secondary break-words">
+                  {e.injection.intentContent}
+                  {e.injection.reasoning && <span className="italic"> — {e.injection.reasoning}</span>}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">Manual Progress</label>
+          <div className="flex gap-1">
+            <input
+              type="number" min={0} max={100}
+              value={pinValue}
+              onChange={e => setPinValue(Number(e.target.value))}
+              className="w-16 p-1.5 border rounded-md modal-input text-xs"
+              disabled={disabled}
+            />
+            <button
+              onClick={() => onChange(pinDirectiveProgress(directive, pinValue, messages))}
+              disabled={disabled}
+              className="flex-1 px-2 py-1 text-xs font-semibold rounded-md bg-accent-primary/10 text-accent-primary hover:bg-accent-primary/20 disabled:opacity-50"
+            >
+              Pin
+            </button>
+            {directive.progressPinned && (
+              <button
+                onClick={() => onChange(unpinDirectiveProgress(directive))}
+                disabled={disabled}
+                className="px-2 py-1 text-xs rounded-md bg-tertiary-bg text-text-secondary hover:bg-tertiary-bg/70 disabled:opacity-50"
+              >
+                Unpin
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-text-secondary mt-1 italic">
+            {directive.progressPinned ? 'Pinned: verification only records its score' : 'Overrides the verified progress'}
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-text-secondary mb-1">Force Goal Slip</label>
+          {directive.forcedSlip ? (
+            <div className="flex gap-1 items-center">
+              <span className="flex-1 text-xs text-text-primary">Queued ({directive.forcedSlip}) for the next response</span>
+              <button
+                onClick={() => onChange(forceGoalSlip(directive, undefined))}
+                disabled={disabled}
+                className="px-2 py-1 text-xs rounded-md bg-tertiary-bg text-text-secondary hover:bg-tertiary-bg/70 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-1">
+              <select
+                value={slipStrategy}
+                onChange={e => setSlipStrategy(e.target.value as 'hint' | 'scene')}
+                className="flex-1 p-1.5 border rounded-md modal-input text-xs"
+                disabled={disabled}
+              >
+                <option value="hint">Hint</option>
+                <option value="scene">Scene</option>
+              </select>
+              <button
+                onClick={() => onChange(forceGoalSlip(directive, slipStrategy))}
+                disabled={disabled || directive.isCompleted}
+                className="px-2 py-1 text-xs font-semibold rounded-md bg-accent-primary/10 text-accent-primary hover:bg-accent-primary/20 disabled:opacity-50"
+              >
+                Force
+              </button>
+            </div>
+          )}
+          <p className="text-xs text-text-secondary mt-1 italic">Skips scoring and the slip gate once</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,24 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import type { Conversation, Settings, Model } from '../types';
+import type { Character, Conversation, Settings, Model } from '../types';
 import { BarChartIcon } from './icons/BarChartIcon';
 import { TrendingUpIcon } from './icons/TrendingUpIcon';
 import { TokenIcon } from './icons/TokenIcon';
 import { countTokens } from '../services/ai/contextManager';
+import { confirmLevelUp, describeMilestone, dismissLevelUp, evaluateLevelMilestones, getStoryArcLevel, setStoryArcLevel, usesMilestones } from '../services/storyArcProgress';
 
 interface HeaderStatsProps {
     conversation: Conversation;
     settings: Settings;
     selectedModel: Model;
     isStreaming: boolean;
+    // Characters of the conversation, for relationship milestones.
+    characters?: Character[];
+    // Changes the Story Arc level; without it the level is shown read-only.
+    onStoryArcUpdate?: (update: (conversation: Conversation) => Conversation) => void;
 }
 
-const HeaderStats: React.FC<HeaderStatsProps> = ({ conversation, settings, selectedModel, isStreaming }) => {
+const HeaderStats: React.FC<HeaderStatsProps> = ({ conversation, settings, selectedModel, isStreaming, characters = [], onStoryArcUpdate }) => {
     const [isOpen, setIsOpen] = useState(false);
     const popoverRef = useRef<HTMLDivElement>(null);
     const buttonRef = useRef<HTMLButtonElement>(null);
@@ -78,18 +83,23 @@ const HeaderStats: React.FC<HeaderStatsProps> = ({ conversation, settings, selec
         if (!conversation.storyArcsEnabled) return null;
         const currentLevel = conversation.currentLevel || 1;
         const progress = conversation.messageProgress || 0;
-        const levelDef = settings.storyArcs.levels.find(l => l.level === currentLevel);
+        const levelDef = getStoryArcLevel(settings.storyArcs.levels, currentLevel);
         const messagesToNext = levelDef?.messagesToNext || 1;
         const percentage = Math.min((progress / messagesToNext) * 100, 100);
-        return { currentLevel, progress, messagesToNext, percentage };
-    }, [conversation.storyArcsEnabled, conversation.currentLevel, conversation.messageProgress, settings.storyArcs.levels]);
+        // Levels with milestones show them instead of the message count.
+        const milestones = usesMilestones(levelDef) ? evaluateLevelMilestones(levelDef, conversation, characters).results : null;
+        return { currentLevel, progress, messagesToNext, percentage, milestones, milestoneMode: levelDef?.milestoneMode || 'all' };
+    }, [conversation, characters, settings.storyArcs.levels]);
+
+    const proposal = conversation.storyArcLevelUpProposal;
+    const levelButtonClass = 'px-1.5 rounded-md btn-secondary text-xs disabled:opacity-40';
 
     const tokenBarColor = tokenStats.tokenUsagePercentage > 90 ? 'bg-red-500' : (tokenStats.tokenUsagePercentage > 70 ? 'bg-yellow-500' : 'bg-accent-primary');
 
     const popoverContent = (
         <div
             ref={popoverRef}
-            className="fixed w-48 bg-secondary-bg/80 backdrop-blur-md border border-color/50 rounded-xl shadow-2xl z-[9999] p-3 space-y-3"
+            className={`fixed ${storyArcStats ? 'w-72' : 'w-48'} bg-secondary-bg/80 backdrop-blur-md border border-color/50 rounded-xl shadow-2xl z-[9999] p-3 space-y-3`}
             style={{ 
                 top: `${position.top}px`, 
                 right: `${position.right}px`,
@@ -101,12 +111,62 @@ const HeaderStats: React.FC<HeaderStatsProps> = ({ conversation, settings, selec
                         <div className="flex items-center gap-2 font-semibold">
                             <TrendingUpIcon className="w-4 h-4 text-accent-primary" />
                             <span>Level {storyArcStats.currentLevel}</span>
+                            {onStoryArcUpdate && (
+                                <span className="flex gap-1 font-normal">
+                                    <button
+                                        onClick={() => onStoryArcUpdate(c => setStoryArcLevel(c, storyArcStats.currentLevel - 1))}
+                                        disabled={storyArcStats.currentLevel <= 1}
+                                        className={levelButtonClass}
+                                        title="Go back one level"
+                                    >
+                                        −
+                                    </button>
+                                    <button
+                                        onClick={() => onStoryArcUpdate(c => setStoryArcLevel(c, storyArcStats.currentLevel + 1))}
+                                        className={levelButtonClass}
+                                        title="Skip to the next level"
+                                    >
+                                        +
+                                    </button>
+                                </span>
+                            )}
                         </div>
-                        <span className="font-mono text-xs">{storyArcStats.progress}/{storyArcStats.messagesToNext}</span>
-                    </div>
-                    <div className="w-full bg-tertiary-bg rounded-full h-1.5">
-                        <div className="bg-accent-primary h-1.5 rounded-full" style={{ width: `${storyArcStats.percentage}%` }}></div>
+                        {!storyArcStats.milestones && (
+                            <span className="font-mono text-xs">{storyArcStats.progress}/{storyArcStats.messagesToNext}</span>
+                        )}
                     </div>
+                    {storyArcStats.milestones ? (
+                        <div className="space-y-1">
+                            <p className="text-[10px] text-text-secondary">
+                                Next level when {storyArcStats.milestoneMode === 'any' ? 'any milestone is' : 'all milestones are'} reached:
+                            </p>
+                            <ul className="space-y-0.5">
+                                {storyArcStats.milestones.map(result => (
+                                    <li key={result.milestone.id} className="flex gap-1.5 text-xs" title={result.detail}>
+                                        <span className={result.reached ? 'text-green-500' : 'text-text-secondary'}>{result.reached ? '✓' : '○'}</span>
+                                        <span className={result.reached ? '' : 'text-text-secondary'}>{describeMilestone(result.milestone)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ) : (
+                        <div className="w-full bg-tertiary-bg rounded-full h-1.5">
+                            <div className="bg-accent-primary h-1.5 rounded-full" style={{ width: `${storyArcStats.percentage}%` }}></div>
+                        </div>
+                    )}
+                    {proposal && onStoryArcUpdate && (
+                        <div className="p-2 rounded-lg border border-accent-primary/30 bg-accent-primary/10 space-y-1.5">
+                            <p className="text-xs font-semibold">Ready for Level {proposal.toLevel}</p>
+                            <div className="flex gap-2">
+                                <button onClick={() => onStoryArcUpdate(confirmLevelUp)} className="px-2 py-0.5 text-xs rounded-md new-chat-btn">
+                                    Advance
+                                </button>
+                                <button onClick={() => onStoryArcUpdate(dismissLevelUp)} className="px-2 py-0.5 text-xs rounded-md btn-secondary">
+                                    Not yet
+                                </button>
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
             <div className="space-y-1.5">
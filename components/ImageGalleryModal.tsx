@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Character, Conversation, GalleryImage, Settings } from '../types';
+import { deleteGalleryImage, getConversationImages } from '../services/db';
+import { GALLERY_KIND_LABELS, GENERATOR_LABELS, getUpscaler, isGeneratorReady, randomSeed } from '../services/imageGallery';
+import { convertImageToWebP } from '../services/imageUtils';
+import { useNotifications } from '../contexts/NotificationContext';
+import { XIcon } from './icons/XIcon';
+import { ImageIcon } from './icons/ImageIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+import { RegenerateIcon } from './icons/RegenerateIcon';
+import { SparklesIcon } from './icons/SparklesIcon';
+import { TrendingUpIcon } from './icons/TrendingUpIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface ImageGalleryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversation: Conversation;
+  // The conversation's characters, offered for "Set as avatar".
+  characters: Character[];
+  settings: Settings;
+  onGenerate: (
+    source: GalleryImage,
+    mode: 'regenerate' | 'variation',
+    edits: { prompt: string; seed?: number },
+    onProgress: (progress: string) => void
+  ) => Promise<GalleryImage | null>;
+  onUpscale: (source: GalleryImage, onProgress: (progress: string) => void) => Promise<GalleryImage | null>;
+  onSetAvatar: (character: Character, dataUrl: string) => Promise<void>;
+  onSetBackground: (dataUrl: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+/**
+ * The conversation's image gallery: every generated image with its prompt, seed and settings,
+ * and actions to regenerate, vary or upscale it, or use it as an avatar or the chat background.
+ */
+const ImageGalleryModal: React.FC<ImageGalleryModalProps> = ({
+  isOpen, onClose, conversation, characters, settings, onGenerate, onUpscale, onSetAvatar, onSetBackground, onJumpToMessage,
+}) => {
+  const [images, setImages] = useState<GalleryImage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [prompt, setPrompt] = useState('');
+  const [seed, setSeed] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [avatarCharacterId, setAvatarCharacterId] = useState('');
+  const { addNotification } = useNotifications();
+
+  const selected = images.find(i => i.id === selectedId) || null;
+  const imageCount = conversation.messages.filter(m => m.imageId).length;
+
+  const loadImages = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setImages(await getConversationImages(conversation));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversation.id, imageCount]);
+
+  useEffect(() => {
+    if (isOpen) loadImages();
+  }, [isOpen, loadImages]);
+
+  useEffect(() => {
+    setPrompt(selected?.prompt || '');
+    setSeed(selected?.seed !== undefined ? String(selected.seed) : '');
+  }, [selectedId, selected?.prompt, selected?.seed]);
+
+  useEffect(() => {
+    if (!avatarCharacterId && characters.length > 0) setAvatarCharacterId(characters[0].id);
+  }, [characters, avatarCharacterId]);
+
+  if (!isOpen) return null;
+
+  const addImage = (image: GalleryImage | null) => {
+    if (!image) return;
+    setImages(prev => [image, ...prev]);
+    setSelectedId(image.id);
+  };
+
+  const runAction = async (action: () => Promise<GalleryImage | null>) => {
+    setProgress('Starting...');
+    try {
+      addImage(await action());
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleGenerate = (mode: 'regenerate' | 'variation') => {
+    if (!selected) return;
+    const parsedSeed = parseInt(seed, 10);
+    runAction(() => onGenerate(selected, mode, { prompt: prompt.trim() || selected.prompt, seed: Number.isNaN(parsedSeed) ? undefined : parsedSeed }, setProgress));
+  };
+
+  const handleSetAvatar = async () => {
+    const character = characters.find(c => c.id === avatarCharacterId);
+    if (!selected || !character) return;
+    await onSetAvatar(character, await convertImageToWebP(selected.dataUrl, 0.85));
+    addNotification({ title: 'Avatar Updated', message: `The image is now ${character.name}'s picture.`, type: 'success' });
+  };
+
+  const handleSetBackground = () => {
+    if (!selected) return;
+    onSetBackground(selected.dataUrl);
+    addNotification({ title: 'Background Updated', message: 'The image is now the chat background.', type: 'success' });
+  };
+
+  const handleDownload = () => {
+    if (!selected) return;
+    const extension = selected.dataUrl.match(/^data:image\/(\w+)/)?.[1] || 'png';
+    const a = document.createElement('a');
+    a.href = selected.dataUrl;
+    a.download = `image_${new Date(selected.createdAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${extension}`;
+    a.click();
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    const usedInChat = !!selected.messageId && conversation.messages.some(m => m.imageId === selected.id);
+    const warning = usedInChat ? ' Its message in the chat will show it as deleted, here and in any branch that shares it.' : '';
+    if (!window.confirm(`Delete this image from the gallery?${warning}`)) return;
+    await deleteGalleryImage(selected.id);
+    setImages(prev => prev.filter(i => i.id !== selected.id));
+    setSelectedId(null);
+  };
+
+  const isBusy = progress !== null;
+  const canGenerate = !!selected && isGeneratorReady(selected.generator, settings);
+  const upscaler = selected ? getUpscaler(selected, settings) : null;
+  const messageInChat = selected?.messageId && conversation.messages.some(m => m.id === selected.messageId) ? selected.messageId : null;
+
+  const actionButton = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg btn-secondary transition-all disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-[200] flex items-center justify-center" onClick={onClose}>
+      <div className="modal-panel rounded-2xl shadow-2xl w-full max-w-5xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-color modal-header-bg rounded-t-2xl flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <ImageIcon className="w-5 h-5 text-accent-primary" />
+            <h2 className="text-xl font-bold">Image Gallery</h2>
+            <span className="text-sm text-text-secondary">({images.length})</span>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-text-secondary hover:bg-tertiary-bg transition-all hover:rotate-90">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
+          <div className="md:w-1/2 p-4 overflow-y-auto bg-primary-bg">
+            {isLoading && images.length === 0 ? (
+              <div className="flex justify-center py-10"><LoaderIcon className="w-6 h-6 animate-spin text-text-secondary" /></div>
+            ) : images.length === 0 ? (
+              <p className="text-sm text-text-secondary text-center py-10">
+                No images yet. Generate one with /imagine, /sd, /hf or /xai, or with Generate Scene Background.
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {images.map(image => (
+                  <button
+                    key={image.id}
+                    onClick={() => setSelectedId(image.id)}
+                    className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-all ${image.id === selectedId ? 'border-accent-primary' : 'border-transparent hover:border-color'}`}
+                    title={image.prompt}
+                  >
+                    <img src={image.dataUrl} alt={image.prompt} className="w-full h-full object-cover" loading="lazy" />
+                    {image.kind !== 'generated' && (
+                      <span className="absolute bottom-1 left-1 px-1.5 py-0.5 text-[10px] rounded bg-black/60 text-white">{GALLERY_KIND_LABELS[image.kind]}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="md:w-1/2 p-4 overflow-y-auto border-t md:border-t-0 md:border-l border-color space-y-4">
+            {!selected ? (
+              <p className="text-sm text-text-secondary text-center py-10">Select an image to see its details.</p>
+            ) : (
+              <>
+                <img src={selected.dataUrl} alt={selected.prompt} className="w-full rounded-lg border border-color" />
+
+                <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+                  <dt className="text-text-secondary">Generator</dt><dd>{GENERATOR_LABELS[selected.generator]}</dd>
+                  <dt className="text-text-secondary">Type</dt><dd>{GALLERY_KIND_LABELS[selected.kind]}</dd>
+                  <dt className="text-text-secondary">Created</dt><dd>{formatDate(selected.createdAt)}</dd>
+                  {Object.entries(selected.settings || {}).map(([key, value]) => (
+                    <React.Fragment key={key}>
+                      <dt className="text-text-secondary">{key}</dt><dd className="break-all">{String(value)}</dd>
+                    </React.Fragment>
+                  ))}
+                  {selected.parentId && (
+                    <>
+                      <dt className="text-text-secondary">Made from</dt>
+                      <dd>
+                        {images.some(i => i.id === selected.parentId)
+                          ? <button onClick={() => setSelectedId(selected.parentId!)} className="text-accent-primary hover:underline">Source image</button>
+                          : 'A deleted image'}
+                      </dd>
+                    </>
+                  )}
+                </dl>
+
+                <div className="space-y-2">
+                  <label htmlFor="gallery-prompt" className="block text-sm font-medium">Prompt</label>
+                  <textarea
+                    id="gallery-prompt"
+                    value={prompt}
+                    onChange={e => setPrompt(e.target.value)}
+                    rows={4}
+                    className="block w-full px-3 py-2 text-sm border rounded-lg modal-input"
+                  />
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="gallery-seed" className="text-sm font-medium">Seed</label>
+                    <input
+                      id="gallery-seed"
+                      type="number"
+                      value={seed}
+                      onChange={e => setSeed(e.target.value)}
+                      placeholder="Generator default"
+                      className="w-44 px-2 py-1 text-sm border rounded-md modal-input"
+                    />
+                    <button type="button" onClick={() => setSeed(String(randomSeed()))} className="px-2 py-1 text-xs rounded-md btn-secondary">
+                      Random
+                    </button>
+                  </div>
+                  {selected.generator === 'xai' && <p className="text-xs text-text-secondary">XAI does not take a seed; every run is new.</p>}
+                </div>
+
+                {progress && (
+                  <div className="flex items-center gap-2 text-sm text-indigo-500 dark:text-indigo-400">
+                    <LoaderIcon className="w-4 h-4 animate-spin" />
+                    <span className="font-mono">{progress}</span>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={() => handleGenerate('regenerate')} disabled={isBusy || !canGenerate} className={actionButton}
+                    title={canGenerate ? 'Generate again with the prompt and seed above' : `${GENERATOR_LABELS[selected.generator]} is not connected`}>
+                    <RegenerateIcon className="w-3.5 h-3.5" /> Regenerate
+                  </button>
+                  <button onClick={() => handleGenerate('variation')} disabled={isBusy || !canGenerate} className={actionButton}
+                    title="A new take on this image: img2img from it on ComfyUI and SD WebUI, a new seed elsewhere">
+                    <SparklesIcon className="w-3.5 h-3.5" /> Variation
+                  </button>
+                  <button onClick={() => runAction(() => onUpscale(selected, setProgress))} disabled={isBusy || !upscaler} className={actionButton}
+                    title={upscaler ? `Upscale with ${GENERATOR_LABELS[upscaler]}` : 'Needs ComfyUI with an upscale model, or SD WebUI'}>
+                    <TrendingUpIcon className="w-3.5 h-3.5" /> Upscale
+                  </button>
+                  <button onClick={handleDownload} className={actionButton}>
+                    <DownloadIcon className="w-3.5 h-3.5" /> Download
+                  </button>
+                  <button onClick={handleSetBackground} className={actionButton}>
+                    <ImageIcon className="w-3.5 h-3.5" /> Set as Chat Background
+                  </button>
+                  {messageInChat && (
+                    <button onClick={() => { onJumpToMessage(messageInChat); onClose(); }} className={actionButton}>
+                      Show in Chat
+                    </button>
+                  )}
+                  <button onClick={handleDelete} disabled={isBusy} className={`${actionButton} hover:text-red-500`}>
+                    <TrashIcon className="w-3.5 h-3.5" /> Delete
+                  </button>
+                </div>
+
+                {characters.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={avatarCharacterId}
+                      onChange={e => setAvatarCharacterId(e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1.5 text-sm border rounded-md modal-input"
+                    >
+                      {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                    <button onClick={handleSetAvatar} disabled={!avatarCharacterId} className={actionButton}>
+                      Set as Avatar
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageGalleryModal;
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { DiffSegment } from '../services/livingLoreQueue';
+
+// Unchanged runs longer than this are folded to their first and last lines.
+const CONTEXT_LINES = 2;
+
+/**
+ * Line diff with folded unchanged runs. With `onToggleHunk`, each changed block gets a checkbox.
+ */
+export const LineDiff: React.FC<{
+  segments: DiffSegment[];
+  isAccepted?: (hunkId: string) => boolean;
+  onToggleHunk?: (hunkId: string) => void;
+}> = ({ segments, isAccepted, onToggleHunk }) => (
+  <div className="font-mono text-xs rounded border border-color overflow-hidden">
+    {segments.map((segment, index) => {
+      if (segment.type === 'equal') {
+        const { lines } = segment;
+        const folded = lines.length > CONTEXT_LINES * 2 + 1;
+        const shown = folded ? [...lines.slice(0, CONTEXT_LINES), null, ...lines.slice(-CONTEXT_LINES)] : lines;
+        return (
+          <div key={index} className="text-text-secondary">
+            {shown.map((line, i) => line === null
+              ? <div key={i} className="px-2 italic opacity-70">⋯ {lines.length - CONTEXT_LINES * 2} unchanged lines</div>
+              : <div key={i} className="px-2 whitespace-pre-wrap">{line || ' '}</div>)}
+          </div>
+        );
+      }
+      const { hunk } = segment;
+      const accepted = isAccepted ? isAccepted(hunk.id) : true;
+      return (
+        <div key={hunk.id} className={`flex gap-2 border-y border-color/50 ${accepted ? '' : 'opacity-50'}`}>
+          {onToggleHunk && (
+            <input
+              type="checkbox"
+              checked={accepted}
+              onChange={() => onToggleHunk(hunk.id)}
+              className="mt-1 ml-1 h-3.5 w-3.5 flex-shrink-0"
+              title={accepted ? 'Keep the current text for this block' : 'Take the new text for this block'}
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            {hunk.removed.map((line, i) => <div key={`r${i}`} className="px-2 diff-del whitespace-pre-wrap">- {line}</div>)}
+            {hunk.added.map((line, i) => <div key={`a${i}`} className="px-2 diff-ins whitespace-pre-wrap">+ {line}</div>)}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
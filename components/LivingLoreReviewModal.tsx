@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import type { Character, Conversation, LivingLoreProposal } from '../types';
+import {
+  LIVING_LORE_FIELDS,
+  applyLivingLoreProposal,
+  diffProposal,
+  getHunks,
+  getProposalHunkIds,
+  getReviewableProposals,
+} from '../services/livingLoreQueue';
+import { LineDiff } from './LineDiff';
+import { SparklesIcon } from './icons/SparklesIcon';
+import { XIcon } from './icons/XIcon';
+
+interface LivingLoreReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversation: Conversation | null;
+  characters: Character[];
+  // Saves the updated characters and removes the resolved proposals from the queue.
+  onResolve: (updates: { character: Character; summary: string }[], resolvedProposalIds: string[]) => Promise<void>;
+}
+
+const fieldLabel = (field: string) => LIVING_LORE_FIELDS.find(f => f.field === field)?.label || field;
+
+/**
+ * Review queue for Living Lore updates. Each proposal is shown as a line diff against the
+ * character's current sheet; changed blocks can be accepted one by one, and proposals can be
+ * approved or rejected in batches. `characters` are the conversation's own versions (see
+ * getConversationCharacters), so pinned and local copies are diffed as this conversation sees them.
+ */
+export const LivingLoreReviewModal: React.FC<LivingLoreReviewModalProps> = ({ isOpen, onClose, conversation, characters, onResolve }) => {
+  // Hunks the user unticked, per proposal; everything else is accepted.
+  const [rejectedHunks, setRejectedHunks] = useState<Record<string, Set<string>>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const queue = conversation?.livingLoreQueue || [];
+  const reviewable = useMemo(() => getReviewableProposals(queue), [queue]);
+  const characterOf = (proposal: LivingLoreProposal) => characters.find(c => c.id === proposal.characterId);
+
+  if (!isOpen || !conversation) return null;
+
+  const isHunkAccepted = (proposalId: string, hunkId: string) => !rejectedHunks[proposalId]?.has(hunkId);
+  const toggleHunk = (proposalId: string, hunkId: string) => {
+    setRejectedHunks(prev => {
+      const next = new Set(prev[proposalId] || []);
+      if (next.has(hunkId)) next.delete(hunkId); else next.add(hunkId);
+      return { ...prev, [proposalId]: next };
+    });
+  };
+  const setAllHunks = (proposal: LivingLoreProposal, hunkIds: string[], accepted: boolean) => {
+    setRejectedHunks(prev => {
+      const next = new Set(prev[proposal.id] || []);
+      hunkIds.forEach(id => accepted ? next.delete(id) : next.add(id));
+      return { ...prev, [proposal.id]: next };
+    });
+  };
+  const toggleSelected = (proposalId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(proposalId)) next.delete(proposalId); else next.add(proposalId);
+      return next;
+    });
+  };
+
+  const resolve = async (proposals: LivingLoreProposal[], approve: boolean) => {
+    if (proposals.length === 0) return;
+    setIsSaving(true);
+    try {
+      const updated: { character: Character; summary: string }[] = [];
+      if (approve) {
+        for (const proposal of proposals) {
+          const character = characterOf(proposal);
+          if (!character) continue;
+          const accepted = new Set(getProposalHunkIds(character, proposal).filter(id => isHunkAccepted(proposal.id, id)));
+          const result = applyLivingLoreProposal(character, proposal, accepted);
+          if (result !== character) updated.push({ character: result, summary: proposal.summaryOfChange });
+        }
+      }
+      await onResolve(updated, proposals.map(p => p.id));
+      setSelected(prev => new Set([...prev].filter(id => !proposals.some(p => p.id === id))));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedProposals = reviewable.filter(p => selected.has(p.id));
+  const allSelected = reviewable.length > 0 && selectedProposals.length === reviewable.length;
+
+  const renderProposal = (proposal: LivingLoreProposal) => {
+    const character = characterOf(proposal);
+    const waiting = queue.filter(p => p.characterId === proposal.characterId).length - 1;
+    const diffs = character ? diffProposal(character, proposal) : [];
+    return (
+      <div key={proposal.id} className="p-3 border border-color rounded-lg space-y-3">
+        <div className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={selected.has(proposal.id)}
+            onChange={() => toggleSelected(proposal.id)}
+            className="mt-1 h-4 w-4"
+            aria-label={`Select update for ${proposal.characterName}`}
+          />
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold">{character?.name || proposal.characterName}</p>
+            <p className="text-sm italic text-text-secondary">"{proposal.summaryOfChange}"</p>
+            <p className="text-xs text-text-secondary mt-0.5">
+              {new Date(proposal.createdAt).toLocaleString()}
+              {waiting > 0 && ` · ${waiting} more update(s) for this character after this one`}
+            </p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <button onClick={() => resolve([proposal], false)} disabled={isSaving} className="px-3 py-1 text-xs font-medium rounded-md btn-secondary disabled:opacity-50">
+              Reject
+            </button>
+            <button onClick={() => resolve([proposal], true)} disabled={isSaving || !character} className="px-3 py-1 text-xs font-medium rounded-md new-chat-btn disabled:opacity-50">
+              Approve
+            </button>
+          </div>
+        </div>
+
+        {!character && <p className="text-xs text-red-500">This character no longer exists. The update can only be rejected.</p>}
+        {character && diffs.length === 0 && <p className="text-xs text-text-secondary">No differences from the current sheet.</p>}
+        {diffs.map(({ field, segments }) => {
+          const hunkIds = getHunks(segments).map(h => h.id);
+          return (
+            <div key={field}>
+              <div className="flex items-center gap-2 mb-1">
+                <h4 className="text-xs font-semibold text-text-secondary">{fieldLabel(field)}</h4>
+                <span className="text-xs text-text-secondary">
+                  {hunkIds.filter(id => isHunkAccepted(proposal.id, id)).length}/{hunkIds.length} changes
+                </span>
+                <button onClick={() => setAllHunks(proposal, hunkIds, true)} className="ml-auto text-xs text-accent-primary hover:underline">All</button>
+                <button onClick={() => setAllHunks(proposal, hunkIds, false)} className="text-xs text-accent-primary hover:underline">None</button>
+              </div>
+              <LineDiff
+                segments={segments}
+                isAccepted={(hunkId) => isHunkAccepted(proposal.id, hunkId)}
+                onToggleHunk={(hunkId) => toggleHunk(proposal.id, hunkId)}
+              />
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center transition-opacity" onClick={onClose}>
+      <div className="modal-panel rounded-2xl shadow-2xl w-full max-w-4xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-color modal-header-bg rounded-t-2xl">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold flex items-center gap-3">
+              <SparklesIcon className="w-6 h-6 text-accent-primary" />
+              Living Lore Review
+            </h2>
+            <button onClick={onClose} className="p-1.5 rounded-full hover:bg-tertiary-bg" aria-label="Close">
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="text-sm text-text-secondary mt-1">Applied updates are saved as character revisions and can be restored from Characters → Version History.</p>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-4">
+          {reviewable.length === 0 ? (
+            <p className="text-sm text-text-secondary text-center py-10">No pending updates. Living Lore queues character updates here as the story goes on.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelected(allSelected ? new Set() : new Set(reviewable.map(p => p.id)))}
+                    className="h-4 w-4"
+                  />
+                  Select all
+                </label>
+                <span className="text-xs text-text-secondary">{selectedProposals.length} selected</span>
+                <button
+                  onClick={() => resolve(selectedProposals, false)}
+                  disabled={isSaving || selectedProposals.length === 0}
+                  className="ml-auto px-3 py-1 text-xs font-medium rounded-md btn-secondary disabled:opacity-50"
+                >
+                  Reject Selected
+                </button>
+                <button
+                  onClick={() => resolve(selectedProposals, true)}
+                  disabled={isSaving || selectedProposals.length === 0}
+                  className="px-3 py-1 text-xs font-medium rounded-md new-chat-btn disabled:opacity-50"
+                >
+                  Approve Selected
+                </button>
+              </div>
+              {reviewable.map(renderProposal)}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LivingLoreReviewModal;
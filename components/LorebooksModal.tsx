@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { Lorebook, LorebookEntry } from '../types';
+import type { Lorebook, LorebookEntry, LoreSecondaryLogic } from '../types';
 import { PlusIcon } from './icons/PlusIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { BookIcon } from './icons/BookIcon';
@@ -8,6 +8,8 @@ import { XIcon } from './icons/XIcon';
 import { LoaderIcon } from './icons/LoaderIcon';
 import { generateLorebook } from '../services/aiService';
 import { generateUUID } from '../utils/uuid';
+import { splitLoreKeys } from '../services/ai/promptBuilder';
+import { parseLorebookFile } from '../services/lorebookImportService';
 
 interface LorebooksModalProps {
   isOpen: boolean;
@@ -26,15 +28,28 @@ const EMPTY_LOREBOOK: Omit<Lorebook, 'id' | 'createdAt'> = {
   entries: [],
 };
 
+const SECONDARY_LOGIC_OPTIONS: { value: LoreSecondaryLogic; label: string }[] = [
+  { value: 'AND_ANY', label: 'AND ANY (one must also appear)' },
+  { value: 'AND_ALL', label: 'AND ALL (all must also appear)' },
+  { value: 'NOT_ANY', label: 'NOT ANY (none may appear)' },
+  { value: 'NOT_ALL', label: 'NOT ALL (not all may appear)' },
+];
+
+// Empty number inputs clear the field so the book/global default applies.
+const parseOptionalNumber = (value: string): number | undefined => value.trim() === '' ? undefined : Number(value);
+
 const TagInput: React.FC<{
   keywords: string;
   onKeywordsChange: (newKeywords: string) => void;
-}> = ({ keywords, onKeywordsChange }) => {
+  placeholder?: string;
+}> = ({ keywords, onKeywordsChange, placeholder = 'Add a keyword or /regex/i...' }) => {
   const [inputValue, setInputValue] = useState('');
-  const tags = keywords.split(',').map(k => k.trim()).filter(Boolean);
+  const tags = splitLoreKeys(keywords);
+  const isRegexInput = inputValue.trim().startsWith('/');
 
   const handleAddTag = () => {
-    const newTag = inputValue.trim().replace(/,/g, ''); // Remove commas from input
+    // Regex keys may contain commas; plain keywords may not.
+    const newTag = isRegexInput ? inputValue.trim() : inputValue.trim().replace(/,/g, '');
     if (newTag && !tags.includes(newTag)) {
       onKeywordsChange([...tags, newTag].join(', '));
     }
@@ -46,7 +61,7 @@ const TagInput: React.FC<{
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' || e.key === ',') {
+    if (e.key === 'Enter' || (e.key === ',' && !isRegexInput)) {
       e.preventDefault();
       handleAddTag();
     }
@@ -69,7 +84,7 @@ const TagInput: React.FC<{
                 onChange={e => setInputValue(e.target.value)}
                 onKeyDown={handleKeyDown}
                 onBlur={handleAddTag} // Add tag when input loses focus
-                placeholder="Add a keyword..."
+                placeholder={placeholder}
                 className="flex-1 bg-transparent focus:outline-none min-w-[120px]"
             />
         </div>
@@ -86,6 +101,7 @@ export const LorebooksModal: React.FC<LorebooksModalProps> = ({ isOpen, onClose,
   const [generationError, setGenerationError] = useState<string | null>(null);
   
   const loaderRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
   // Fix: Simplified useEffect to call onOpen when the modal becomes visible.
@@ -120,6 +136,8 @@ export const LorebooksModal: React.FC<LorebooksModalProps> = ({ isOpen, onClose,
               name: book.name, 
               description: book.description, 
               entries: book.entries,
+              scanDepth: book.scanDepth,
+              tokenBudget: book.tokenBudget,
             });
         }
     } else {
@@ -141,7 +159,7 @@ export const LorebooksModal: React.FC<LorebooksModalProps> = ({ isOpen, onClose,
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
-  const handleEntryChange = (entryId: string, field: 'keywords' | 'content', value: string) => {
+  const handleEntryChange = <K extends keyof LorebookEntry>(entryId: string, field: K, value: LorebookEntry[K]) => {
     setFormData(prev => ({
         ...prev,
         entries: prev.entries.map(entry => 
@@ -236,6 +254,22 @@ export const LorebooksModal: React.FC<LorebooksModalProps> = ({ isOpen, onClose,
     }
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        const { lorebook, skippedEntries } = parseLorebookFile(await file.text(), file.name);
+        onSave(lorebook);
+        setSelectedLorebookId(lorebook.id);
+        if (skippedEntries > 0) {
+            alert(`Imported "${lorebook.name}". ${skippedEntries} empty entr${skippedEntries === 1 ? 'y was' : 'ies were'} skipped.`);
+        }
+    } catch (error: any) {
+        alert(`Import failed: ${error.message}`);
+    }
+  };
+
   const handleDelete = () => {
     if (selectedLorebookId && window.confirm("Are you sure you want to delete this lorebook? This will also remove it from any conversations it's active in.")) {
         onDelete(selectedLorebookId);
@@ -265,7 +299,17 @@ export const LorebooksModal: React.FC<LorebooksModalProps> = ({ isOpen, onClose,
             </button>
             
             <div className="flex flex-col gap-3 pr-10">
-              <h2 id="lorebooks-title" className="text-lg sm:text-2xl font-bold">Lorebooks</h2>
+              <div className="flex items-center justify-between gap-3">
+                <h2 id="lorebooks-title" className="text-lg sm:text-2xl font-bold">Lorebooks</h2>
+                <input ref={importInputRef} type="file" accept="application/json,.json,.lorebook" className="hidden" onChange={handleImportFile} />
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg btn-secondary"
+                  title="Import SillyTavern World Info, NovelAI lorebooks or Character Card books"
+                >
+                  Import
+                </button>
+              </div>
               
               {/* Custom Dropdown for small screens */}
               <div className="md:hidden w-full relative">
@@ -385,11 +429,21 @@ export const LorebooksModal: React.FC<LorebooksModalProps> = ({ isOpen, onClose,
                         <label htmlFor="description" className="block text-sm font-medium mb-1">Description</label>
                         <textarea id="description" name="description" value={formData.description} onChange={handleFormChange} placeholder="Information about the main kingdoms, magic system, and key historical events." rows={2} className="w-full p-2 border rounded-lg focus:outline-none focus:ring-2 text-sm modal-input" />
                     </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="scanDepth" className="block text-sm font-medium mb-1">Scan Depth</label>
+                            <input type="number" id="scanDepth" min={0} value={formData.scanDepth ?? ''} onChange={e => setFormData(prev => ({ ...prev, scanDepth: parseOptionalNumber(e.target.value) }))} placeholder="6 messages" className="w-full p-2 border rounded-lg focus:outline-none focus:ring-2 text-sm modal-input" />
+                        </div>
+                        <div>
+                            <label htmlFor="tokenBudget" className="block text-sm font-medium mb-1">Token Budget</label>
+                            <input type="number" id="tokenBudget" min={0} value={formData.tokenBudget ?? ''} onChange={e => setFormData(prev => ({ ...prev, tokenBudget: parseOptionalNumber(e.target.value) }))} placeholder="Unlimited" className="w-full p-2 border rounded-lg focus:outline-none focus:ring-2 text-sm modal-input" />
+                        </div>
+                    </div>
 
                      <div className="space-y-3 sm:space-y-4">
                         <h4 className="text-base sm:text-lg font-semibold">Entries</h4>
                         {formData.entries.map((entry, index) => (
-                            <div key={entry.id} className="p-3 sm:p-4 border border-color rounded-lg space-y-2 sm:space-y-3 relative">
+                            <div key={entry.id} className={`p-3 sm:p-4 border border-color rounded-lg space-y-2 sm:space-y-3 relative ${entry.enabled === false ? 'opacity-60' : ''}`}>
                                 <button onClick={() => handleRemoveEntry(entry.id)} className="absolute top-2 right-2 p-1 text-gray-400 hover:text-red-500"><TrashIcon className="w-4 h-4" /></button>
                                 <div>
                                     <label className="block text-xs font-medium text-text-secondary mb-1">Keywords</label>
@@ -408,6 +462,52 @@ export const LorebooksModal: React.FC<LorebooksModalProps> = ({ isOpen, onClose,
                                         placeholder="King Thror rules the kingdom under the mountain..."
                                         className="w-full p-2 border rounded-lg text-sm modal-input" />
                                 </div>
+                                <details className="text-sm">
+                                    <summary className="cursor-pointer text-xs font-medium text-text-secondary select-none">
+                                        Advanced{entry.name ? ` · ${entry.name}` : ''}{entry.constant ? ' · Always on' : ''}{entry.enabled === false ? ' · Disabled' : ''}
+                                    </summary>
+                                    <div className="mt-3 space-y-3">
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                            <div>
+                                                <label className="block text-xs font-medium text-text-secondary mb-1">Name / Memo</label>
+                                                <input type="text" value={entry.name || ''} onChange={e => handleEntryChange(entry.id, 'name', e.target.value || undefined)} className="w-full p-2 border rounded-lg text-sm modal-input" />
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div>
+                                                    <label className="block text-xs font-medium text-text-secondary mb-1" title="Higher order wins when the token budget is tight and is inserted closer to the chat">Order</label>
+                                                    <input type="number" value={entry.order ?? ''} onChange={e => handleEntryChange(entry.id, 'order', parseOptionalNumber(e.target.value))} placeholder="0" className="w-full p-2 border rounded-lg text-sm modal-input" />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs font-medium text-text-secondary mb-1">Scan Depth</label>
+                                                    <input type="number" min={0} value={entry.scanDepth ?? ''} onChange={e => handleEntryChange(entry.id, 'scanDepth', parseOptionalNumber(e.target.value))} placeholder="Book" className="w-full p-2 border rounded-lg text-sm modal-input" />
+                                                </div>
+                                            </div>
+                                        </div>
+                                        <div className="flex flex-wrap gap-x-4 gap-y-2 text-xs">
+                                            <label className="flex items-center gap-1.5"><input type="checkbox" checked={entry.enabled !== false} onChange={e => handleEntryChange(entry.id, 'enabled', e.target.checked ? undefined : false)} /> Enabled</label>
+                                            <label className="flex items-center gap-1.5"><input type="checkbox" checked={!!entry.constant} onChange={e => handleEntryChange(entry.id, 'constant', e.target.checked || undefined)} /> Always on</label>
+                                            <label className="flex items-center gap-1.5"><input type="checkbox" checked={!!entry.caseSensitive} onChange={e => handleEntryChange(entry.id, 'caseSensitive', e.target.checked || undefined)} /> Case sensitive</label>
+                                            <label className="flex items-center gap-1.5"><input type="checkbox" checked={!!entry.matchWholeWords} onChange={e => handleEntryChange(entry.id, 'matchWholeWords', e.target.checked || undefined)} /> Whole words</label>
+                                            <label className="flex items-center gap-1.5" title="Only the chat can trigger this entry, not the text of other entries"><input type="checkbox" checked={!!entry.excludeRecursion} onChange={e => handleEntryChange(entry.id, 'excludeRecursion', e.target.checked || undefined)} /> No recursive trigger</label>
+                                            <label className="flex items-center gap-1.5" title="This entry's text never triggers other entries"><input type="checkbox" checked={!!entry.preventRecursion} onChange={e => handleEntryChange(entry.id, 'preventRecursion', e.target.checked || undefined)} /> Don't trigger others</label>
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-medium text-text-secondary mb-1">Secondary Keywords</label>
+                                            <TagInput
+                                              keywords={entry.secondaryKeywords || ''}
+                                              onKeywordsChange={(newKeywords) => handleEntryChange(entry.id, 'secondaryKeywords', newKeywords || undefined)}
+                                              placeholder="Optional filter keywords..."
+                                            />
+                                            <select
+                                                value={entry.secondaryLogic || 'AND_ANY'}
+                                                onChange={e => handleEntryChange(entry.id, 'secondaryLogic', e.target.value as LoreSecondaryLogic)}
+                                                className="mt-2 w-full p-2 border rounded-lg text-xs modal-input"
+                                            >
+                                                {SECONDARY_LOGIC_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                            </select>
+                                        </div>
+                                    </div>
+                                </details>
                             </div>
                         ))}
                         <button onClick={handleAddEntry} className="w-full flex items-center justify-center gap-1.5 sm:gap-2 px-2 py-1.5 sm:px-3 sm:py-2 text-xs sm:text-sm font-semibold text-accent-primary bg-accent-primary/10 rounded-lg hover:bg-accent-primary/20 transition-colors">
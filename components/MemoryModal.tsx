@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useMemo, lazy, Suspense } from 'react';
 import type { Conversation, RagMemory, RagMemoryTag, ConversationState, CharacterState, WorldState, Settings, Character } from '../types';
-import { getAllMemories, deleteMemories, addMemory } from '../services/ragService';
+import { getAllMemories, deleteMemories, addMemory, getCollectionEmbeddingEngine } from '../services/ragService';
+import { startReembedJob, cancelReembedJob, getReembedProgress, subscribeToReembedProgress, type ReembedProgress } from '../services/ragReembedService';
 import { generateEmbedding } from '../services/koboldcppService';
 import { XIcon } from './icons/XIcon';
 import { TrashIcon } from './icons/TrashIcon';
@@ -9,7 +10,10 @@ import { LoaderIcon } from './icons/LoaderIcon';
 import { SaveIcon } from './icons/SaveIcon';
 import { SegmentedControl } from './settings/common/SettingsInputComponents';
 import { getAllCharacters } from '../services/db';
+import { recordStateSnapshot } from '../services/consciousStateHistory';
+import { ConsciousStateHistory } from './ConsciousStateHistory';
 const MemoryGraphView = lazy(() => import('./MemoryGraphView'));
+const RelationshipGraphView = lazy(() => import('./RelationshipGraphView'));
 
 
 interface MemoryModalProps {
@@ -18,6 +22,7 @@ interface MemoryModalProps {
   conversation: Conversation | null;
   settings: Settings;
   onConversationUpdate: (updatedConversation: Conversation) => void;
+  onJumpToMessage?: (messageId: string) => void;
 }
 
 const TagPill: React.FC<{ tag: RagMemoryTag }> = ({ tag }) => {
@@ -34,6 +39,13 @@ const TagPill: React.FC<{ tag: RagMemoryTag }> = ({ tag }) => {
   );
 };
 
+const EMBEDDING_ENGINE_LABELS: Record<Settings['rag']['embeddingEngine'], string> = {
+  koboldcpp: 'KoboldCPP',
+  gemini: 'Gemini',
+  'openai-small': 'OpenAI (small)',
+  'openai-large': 'OpenAI (large)',
+};
+
 const MoodPill: React.FC<{ mood: string }> = ({ mood }) => (
     <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200">
       {mood}
@@ -45,9 +57,10 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
   onClose,
   conversation,
   settings,
-  onConversationUpdate
+  onConversationUpdate,
+  onJumpToMessage
 }) => {
-  const [activeTab, setActiveTab] = useState<'rag' | 'state'>('rag');
+  const [activeTab, setActiveTab] = useState<'rag' | 'state' | 'relationships'>('rag');
   const [ragView, setRagView] = useState<'list' | 'graph'>('list');
   const [memories, setMemories] = useState<RagMemory[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -106,6 +119,19 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
     }
   }, [isOpen, activeTab, fetchMemories]);
 
+  // Re-embedding keeps running in the background when the modal is closed; pick its progress back up on open.
+  const [reembedProgress, setReembedProgress] = useState<ReembedProgress | null>(null);
+  const collectionEngine = conversation?.ragCollectionName ? getCollectionEmbeddingEngine(conversation.ragCollectionName) : undefined;
+
+  useEffect(() => {
+    const collectionName = conversation?.ragCollectionName;
+    if (!isOpen || !collectionName) return;
+    getReembedProgress(collectionName).then(setReembedProgress);
+    return subscribeToReembedProgress(progress => {
+      if (progress.collectionName === collectionName) setReembedProgress(progress);
+    });
+  }, [isOpen, conversation?.ragCollectionName]);
+
   const uniqueTagsAndMoods = useMemo(() => {
     const tagsByType: Record<string, Set<string>> = {
       character: new Set(),
@@ -236,6 +262,18 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
     }
   };
 
+  const handleStartReembed = () => {
+    if (!conversation?.ragCollectionName) return;
+    // Not awaited: the job reports through the progress subscription.
+    startReembedJob(conversation.ragCollectionName, settings);
+  };
+
+  const handleCancelReembed = async () => {
+    if (!conversation?.ragCollectionName) return;
+    if (!window.confirm('Stop re-embedding? Progress is discarded and the memories keep their current embeddings.')) return;
+    await cancelReembedJob(conversation.ragCollectionName);
+  };
+
   const handleStateChange = (field: keyof ConversationState, value: any) => {
     setEditableState(prev => prev ? { ...prev, [field]: value } : null);
   };
@@ -267,7 +305,7 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
 
   const handleSaveState = () => {
     if (conversation) {
-        onConversationUpdate({ ...conversation, consciousState: editableState });
+        onConversationUpdate(editableState ? recordStateSnapshot(conversation, editableState, 'manual') : { ...conversation, consciousState: editableState });
         onClose(); // Close after saving to prevent stale data display
     }
   };
@@ -399,9 +437,55 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
       </div>
   );
 
+  const renderReembedBanner = () => {
+    const status = reembedProgress?.status ?? 'idle';
+    const engineMismatch = !!collectionEngine && collectionEngine !== settings.rag.embeddingEngine;
+    const percent = reembedProgress && reembedProgress.total > 0 ? Math.round((reembedProgress.processed / reembedProgress.total) * 100) : 0;
+
+    if (status === 'running' || status === 'paused' || status === 'failed') {
+      return (
+        <div className="px-4 py-3 border-b border-color bg-tertiary-bg/50 space-y-2">
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <span className="flex items-center gap-2">
+              {status === 'running' && <LoaderIcon className="w-4 h-4" />}
+              {status === 'running' && `Re-embedding with ${EMBEDDING_ENGINE_LABELS[reembedProgress!.targetEngine || settings.rag.embeddingEngine]}: ${reembedProgress!.processed}/${reembedProgress!.total}`}
+              {status === 'paused' && `Re-embedding paused at ${reembedProgress!.processed}/${reembedProgress!.total}.`}
+              {status === 'failed' && <span className="text-red-500">Re-embedding failed: {reembedProgress!.error}</span>}
+            </span>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {status !== 'running' && (
+                <button onClick={handleStartReembed} className="px-3 py-1 text-xs font-medium new-chat-btn rounded-lg">
+                  {status === 'failed' ? 'Retry' : 'Resume'}
+                </button>
+              )}
+              <button onClick={handleCancelReembed} className="px-3 py-1 text-xs font-medium btn-secondary rounded-lg">Cancel</button>
+            </div>
+          </div>
+          <div className="h-1.5 w-full bg-tertiary-bg rounded-full overflow-hidden">
+            <div className="h-full bg-accent-primary transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-text-secondary">Memories keep being recalled with the previous embeddings until re-embedding finishes.</p>
+        </div>
+      );
+    }
+
+    if (engineMismatch && memories.length > 0) {
+      return (
+        <div className="px-4 py-3 border-b border-color flex items-center justify-between gap-3 text-sm text-yellow-700 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/30">
+          <span>
+            These memories were embedded with {EMBEDDING_ENGINE_LABELS[collectionEngine!]}. They are still recalled with it until you re-embed them with {EMBEDDING_ENGINE_LABELS[settings.rag.embeddingEngine]}.
+          </span>
+          <button onClick={handleStartReembed} className="px-3 py-1 text-xs font-medium new-chat-btn rounded-lg flex-shrink-0">Re-embed</button>
+        </div>
+      );
+    }
+
+    return null;
+  };
+
   const renderRagTab = () => (
     <>
-      <div className="p-3 border-b border-color">
+      <div className="p-3 border-b border-color flex items-center justify-between gap-3">
         <SegmentedControl
             name="ragView"
             value={ragView}
@@ -411,7 +495,17 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
                 { label: 'Graph', value: 'graph' },
             ]}
         />
+        {!collectionEngine && memories.length > 0 && reembedProgress?.status === 'idle' && (
+          <button
+            onClick={handleStartReembed}
+            className="text-xs text-accent-primary hover:underline flex-shrink-0"
+            title="Rebuild the memory index with the current embedding model"
+          >
+            Re-embed with {EMBEDDING_ENGINE_LABELS[settings.rag.embeddingEngine]}
+          </button>
+        )}
       </div>
+      {renderReembedBanner()}
       {ragView === 'list' ? (
         renderRagList()
       ) : (
@@ -445,6 +539,20 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
     </>
   );
 
+  const renderRelationshipsTab = () => (
+    <div className="p-6 overflow-y-auto flex-1">
+      {!conversation ? null : (
+        <Suspense fallback={<div className="flex items-center justify-center h-full"><LoaderIcon className="w-8 h-8"/></div>}>
+          <RelationshipGraphView
+            conversation={conversation}
+            characters={allCharacters}
+            onJumpToMessage={onJumpToMessage && ((messageId) => { onJumpToMessage(messageId); onClose(); })}
+          />
+        </Suspense>
+      )}
+    </div>
+  );
+
   const renderStateTab = () => (
     <>
       <div className="p-6 overflow-y-auto flex-1 space-y-4">
@@ -595,6 +703,12 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
                 </div>
             </>
         )}
+        {conversation?.consciousStateSettings?.enabled && (
+            <div className="p-3 border rounded-lg border-color bg-secondary-bg">
+                <h3 className="text-lg font-semibold mb-2">State History</h3>
+                <ConsciousStateHistory conversation={conversation} onRestore={onConversationUpdate} />
+            </div>
+        )}
       </div>
       <div className="p-4 border-t border-color modal-footer-bg">
         <button onClick={handleSaveState} disabled={!editableState} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold new-chat-btn rounded-lg disabled:opacity-50">
@@ -628,9 +742,10 @@ export const MemoryModal: React.FC<MemoryModalProps> = ({
         <div className="border-b border-color flex modal-header-bg">
             <button onClick={() => setActiveTab('rag')} className={`px-4 py-3 text-sm font-medium whitespace-nowrap ${activeTab === 'rag' ? 'text-accent-primary border-b-2 border-accent-primary' : 'text-text-secondary hover:text-text-primary'}`}>RAG Memories</button>
             <button onClick={() => setActiveTab('state')} className={`px-4 py-3 text-sm font-medium whitespace-nowrap ${activeTab === 'state' ? 'text-accent-primary border-b-2 border-accent-primary' : 'text-text-secondary hover:text-text-primary'}`}>Current State</button>
+            <button onClick={() => setActiveTab('relationships')} className={`px-4 py-3 text-sm font-medium whitespace-nowrap ${activeTab === 'relationships' ? 'text-accent-primary border-b-2 border-accent-primary' : 'text-text-secondary hover:text-text-primary'}`}>Relationships</button>
         </div>
 
-        {activeTab === 'rag' ? renderRagTab() : renderStateTab()}
+        {activeTab === 'rag' ? renderRagTab() : activeTab === 'state' ? renderStateTab() : renderRelationshipsTab()}
 
       </div>
     </div>
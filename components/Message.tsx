@@ -18,7 +18,10 @@ import { SummarizeIcon } from './icons/SummarizeIcon';
 import { EyeIcon } from './icons/EyeIcon';
 import { FileTextIcon } from './icons/FileTextIcon';
 import { FeatherIcon } from './icons/FeatherIcon';
+import { GitBranchIcon } from './icons/GitBranchIcon';
 import { copyToClipboard } from '../utils/clipboard';
+import { isImageMessage } from '../services/imageGallery';
+import { useGalleryImage } from '../hooks/useGalleryImage';
 import { PulsingDots, PulsingWave, PulsingCircle } from './PulsingDots';
 
 
@@ -78,7 +81,7 @@ interface MessageProps {
   onApplyCustomEditInstructions?: (messageId: string, instruction: string) => void;
   onUndoLastEdit?: (messageId: string) => void;
   onGenerateSong?: (messageId: string) => void;
-  onSuggestionResponse?: (messageId: string, action: 'accept' | 'reject' | 'customize' | 'update' | 'ignore', customPrompt?: string) => void;
+  onSuggestionResponse?: (messageId: string, action: 'accept' | 'reject' | 'customize' | 'update' | 'ignore' | 'regenerate', customPrompt?: string) => void;
   onSwitchResponse?: (messageId: string, targetResponse: 'primary' | 'alternative') => void;
   onConfirmResponse?: (messageId: string) => void;
   modelProvider: Model['provider'];
@@ -87,10 +90,17 @@ interface MessageProps {
   messageIndex?: number;
   // New: open Full Context in a global modal (outside the message component)
   onOpenContext?: (payload: string) => void;
+  // New: Swipes & Branches
+  isLastModelMessage?: boolean;
+  onSwipe?: (messageId: string, direction: -1 | 1) => void;
+  onBranch?: (messageId: string) => void;
 }
 
-const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLastUserMessage, showSenderNames, messageStyle, highlightDialogue, showFullContextButton, userName, activeCharacterNames = [], onDelete, onRegenerate, onEdit, onTransformToPrompt, onSummarize, onRemoveFiller, onApplyCustomEditInstructions, onUndoLastEdit, onSuggestionResponse, onSwitchResponse, onConfirmResponse, modelProvider, modelId, onContentResize, messageIndex, onOpenContext, onGenerateSong }) => {
+const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLastUserMessage, showSenderNames, messageStyle, highlightDialogue, showFullContextButton, userName, activeCharacterNames = [], onDelete, onRegenerate, onEdit, onTransformToPrompt, onSummarize, onRemoveFiller, onApplyCustomEditInstructions, onUndoLastEdit, onSuggestionResponse, onSwitchResponse, onConfirmResponse, modelProvider, modelId, onContentResize, messageIndex, onOpenContext, onGenerateSong, isLastModelMessage, onSwipe, onBranch }) => {
   const [isEditing, setIsEditing] = useState(false);
+  const galleryImageUrl = useGalleryImage(message.imageId);
+  const imageUrl = message.imageUrl || galleryImageUrl;
+  const isImage = isImageMessage(message);
   const [editedContent, setEditedContent] = useState(message.content);
   const [copied, setCopied] = useState(false);
   const [contextCopied, setContextCopied] = useState(false);
@@ -111,6 +121,8 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
 
   const isUser = message.role === 'user';
   const isEvent = message.type === 'event';
+  const swipeCount = message.swipes?.length || 1;
+  const activeSwipeIndex = message.activeSwipeIndex ?? swipeCount - 1;
   
   // Determine sender name for bot messages based on active characters
   const getSenderName = () => {
@@ -153,8 +165,9 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
     const { suggestion } = message;
     const isManual = suggestion.type === 'manualDirectorAI';
     const isLivingLore = suggestion.type === 'livingLore';
+    const contradiction = suggestion.type === 'factContradiction' ? suggestion.factContradiction : undefined;
 
-  const handleReject = () => onSuggestionResponse(message.id, isLivingLore ? 'ignore' : 'reject');
+  const handleReject = () => onSuggestionResponse(message.id, isLivingLore || contradiction ? 'ignore' : 'reject');
 
     const handleCustomPromptKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
       if (e.key === 'Enter' && !e.shiftKey) {
@@ -197,6 +210,30 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
             </div>
           )}
           
+          {contradiction && (
+            <div className="mt-3 space-y-2">
+              <p className="text-sm text-text-secondary">Fact: <span className="italic">"{contradiction.factContent}"</span></p>
+              <textarea
+                value={customPrompt}
+                onChange={(e) => setCustomPrompt(e.target.value)}
+                placeholder={contradiction.correctedFact || 'If the story changed this fact, write the new version...'}
+                rows={2}
+                className="w-full p-3 border-2 rounded-lg text-sm modal-input"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => onSuggestionResponse(message.id, 'ignore')} className="px-4 py-2 text-sm font-medium rounded-lg btn-secondary transition-all hover:scale-105 active:scale-95">Ignore</button>
+                <button
+                  onClick={() => onSuggestionResponse(message.id, 'update', customPrompt.trim() || contradiction.correctedFact)}
+                  disabled={!customPrompt.trim() && !contradiction.correctedFact}
+                  className="px-4 py-2 text-sm font-medium rounded-lg btn-secondary disabled:opacity-50 transition-all hover:scale-105 active:scale-95"
+                >
+                  Update Fact
+                </button>
+                <button onClick={() => onSuggestionResponse(message.id, 'regenerate')} className="px-4 py-2 text-sm font-medium rounded-lg message-button-primary">Regenerate with Reminder</button>
+              </div>
+            </div>
+          )}
+
           {isLivingLore && (
             <div className="mt-3 flex justify-end gap-2">
                 <button onClick={() => onSuggestionResponse(message.id, 'ignore')} className="px-4 py-2 text-sm font-medium rounded-lg btn-secondary transition-all hover:scale-105 active:scale-95">Ignore</button>
@@ -294,11 +331,15 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
                 </div>
             )}
 
-            {message.imageUrl && (
+            {message.imageId && galleryImageUrl === null && (
+                <p className="text-sm italic text-text-secondary">This image was deleted from the gallery.</p>
+            )}
+
+            {imageUrl && (
                 <div className="relative group/image">
                     <div className="rounded-xl overflow-hidden border-2 border-color shadow-lg hover:shadow-2xl transition-shadow duration-300">
                         <img 
-                          src={message.imageUrl} 
+                          src={imageUrl} 
                           alt={message.content} 
                           className="block w-full h-auto"
                           onLoad={handleImageLoad} 
@@ -387,7 +428,7 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
                 </button>
               </div>
             </div>
-          ) : message.isGeneratingImage || message.imageUrl ? (
+          ) : message.isGeneratingImage || isImage ? (
               <ImageGenerationContent />
           ) : message.isThinking ? (
             <div className="flex items-center gap-3 text-text-primary bg-indigo-50/50 dark:bg-indigo-900/20 px-4 py-3 rounded-lg">
@@ -530,7 +571,7 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
               )}
 
               {/* Inline, always-visible undo banner for Remove Filler edits */}
-              {!isUser && !message.imageUrl && message.lastEditedBackup && (
+              {!isUser && !isImage && message.lastEditedBackup && (
                 <div className="mt-2 mb-2 px-3 py-2 rounded-lg border-2 border-color bg-tertiary-bg/60 flex items-center justify-between gap-3">
                   <span className="text-xs text-text-secondary">{message.lastEditedReason === 'remove_filler' ? 'Remove filler was applied to this message.' : 'This message was edited.'}</span>
                   <button
@@ -615,6 +656,25 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
               )}
 
               <div className="flex items-center gap-3 mt-3">
+                  {/* Swipes - earlier variants can only be swiped on the latest response */}
+                  {onSwipe && !isUser && !isImage && !message.isDualResponse && (swipeCount > 1 || isLastModelMessage) && (
+                    <div className="flex items-center gap-1 text-xs text-text-secondary">
+                      <button
+                        onClick={() => onSwipe(message.id, -1)}
+                        disabled={!isLastModelMessage || isStreaming || activeSwipeIndex === 0}
+                        className="px-1.5 py-0.5 rounded-md hover:bg-tertiary-bg/50 hover:text-accent-primary disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-text-secondary"
+                        aria-label="Previous response"
+                      >‹</button>
+                      <span className="font-medium tabular-nums">{activeSwipeIndex + 1}/{swipeCount}</span>
+                      <button
+                        onClick={() => onSwipe(message.id, 1)}
+                        disabled={!isLastModelMessage || isStreaming}
+                        className="px-1.5 py-0.5 rounded-md hover:bg-tertiary-bg/50 hover:text-accent-primary disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-text-secondary"
+                        aria-label={activeSwipeIndex === swipeCount - 1 ? 'Generate another response' : 'Next response'}
+                        title={activeSwipeIndex === swipeCount - 1 ? 'Generate another response' : 'Next response'}
+                      >›</button>
+                    </div>
+                  )}
                   {message.summary && (
                     <button onClick={() => setShowOriginal(p => !p)} className="flex items-center gap-1.5 text-xs font-medium text-text-secondary hover:text-accent-primary transition-all hover:scale-105 active:scale-95 px-2 py-1 rounded-md hover:bg-tertiary-bg/50">
                       <EyeIcon className="w-3.5 h-3.5" />
@@ -633,40 +693,45 @@ const MessageComponent: React.FC<MessageProps> = ({ message, isStreaming, isLast
         </div>
 
         <div className="absolute top-2 right-3 group-[.rtl]:left-3 group-[.rtl]:right-auto flex items-center gap-0.5 rounded-lg p-1 opacity-0 group-hover:opacity-100 transition-all duration-200 action-buttons-container">
-          {onGenerateSong && !message.imageUrl && !message.isGeneratingImage && (
+          {onGenerateSong && !isImage && !message.isGeneratingImage && (
               <ActionButton onClick={() => onGenerateSong(message.id)} label="Generate Song">
                 <SparklesIcon className="w-4 h-4 text-purple-500" />
               </ActionButton>
           )}
-          {!isUser && !message.imageUrl && (
+          {!isUser && !isImage && (
               <ActionButton onClick={() => setShowCustomEditor(v => !v)} label="Remove filler" disabled={message.isSummarizing}>
                 <FeatherIcon className="w-4 h-4" />
               </ActionButton>
           )}
-          {!isUser && !message.imageUrl && (
+          {!isUser && !isImage && (
               <ActionButton onClick={() => onSummarize(message.id)} label="Summarize message" disabled={!!message.summary || message.isSummarizing}>
                 <SummarizeIcon className="w-4 h-4" />
               </ActionButton>
           )}
-          {!message.imageUrl && !message.isGeneratingImage && (
+          {!isImage && !message.isGeneratingImage && (
               <ActionButton onClick={() => onTransformToPrompt(message.id)} label="Generate image prompt">
                 <SparklesIcon className="w-4 h-4" />
               </ActionButton>
           )}
           {(isLastUserMessage || !isUser) && !message.isGeneratingImage && (
               <ActionButton 
-                  onClick={() => message.imageUrl ? onTransformToPrompt(message.id) : onRegenerate(message.id)} 
-                  label={message.imageUrl ? "Regenerate image" : "Regenerate response"}
+                  onClick={() => isImage ? onTransformToPrompt(message.id) : onRegenerate(message.id)} 
+                  label={isImage ? "Regenerate image" : "Regenerate response"}
               >
                   <RegenerateIcon className="w-4 h-4" />
               </ActionButton>
           )}
-          {!message.isGeneratingImage && !message.imageUrl && (
+          {onBranch && !message.isGeneratingImage && (
+              <ActionButton onClick={() => onBranch(message.id)} label="Branch from here" disabled={isStreaming}>
+                <GitBranchIcon className="w-4 h-4" />
+              </ActionButton>
+          )}
+          {!message.isGeneratingImage && !isImage && (
               <ActionButton onClick={() => setIsEditing(true)} label="Edit message">
                 <EditIcon className="w-4 h-4" />
               </ActionButton>
           )}
-          {!isUser && !message.imageUrl && (
+          {!isUser && !isImage && (
             <ActionButton onClick={handleCopy} label="Copy content">
               {copied ? <CheckIcon className="w-4 h-4 text-green-500" /> : <CopyIcon className="w-4 h-4" />}
             </ActionButton>
@@ -56,8 +56,10 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ models, selectedMo
 
   const currentModel = models.find(m => m.id === selectedModel) || models[0];
   
+  // Custom endpoint models are grouped per endpoint so two local servers don't blur together.
   const modelsByProvider = useMemo(() => models.reduce((acc, model) => {
-    (acc[model.provider] = acc[model.provider] || []).push(model);
+    const group = model.provider === 'Custom' ? (model.endpointName || 'Custom') : model.provider;
+    (acc[group] = acc[group] || []).push(model);
     return acc;
   }, {} as Record<string, Model[]>), [models]);
 
@@ -185,7 +187,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ models, selectedMo
                             {formatContextWindow(model.contextLengthTokens)}
                           </span>
                         )}
-                        {!model.name.toLowerCase().includes('free') && (
+                        {model.provider !== 'Custom' && !model.name.toLowerCase().includes('free') && (
                           <span className="text-[10px] text-yellow-600 opacity-80 flex-shrink-0">$</span>
                         )}
                         <div className="flex items-center gap-1 flex-shrink-0">
@@ -262,7 +264,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ models, selectedMo
                                             {formatContextWindow(model.contextLengthTokens)}
                                           </span>
                                         )}
-                                        {!model.name.toLowerCase().includes('free') && (
+                                        {model.provider !== 'Custom' && !model.name.toLowerCase().includes('free') && (
                                           <span className="text-[10px] text-yellow-600 opacity-80 flex-shrink-0">$</span>
                                         )}
                                         <div className="flex items-center gap-1 flex-shrink-0">
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Character, Conversation, Message } from '../types';
+import {
+  getMetricColor,
+  getRelationshipFrames,
+  layoutRelationshipGraph,
+  normalizeMetric,
+  type RelationshipEdge,
+  type RelationshipMetric,
+  type RelationshipNode,
+} from '../services/relationshipGraph';
+import { SegmentedControl } from './settings/common/SettingsInputComponents';
+
+const GRAPH_WIDTH = 800;
+const GRAPH_HEIGHT = 500;
+const NODE_RADIUS = 22;
+
+type Selection = { type: 'node'; id: string } | { type: 'edge'; id: string } | null;
+
+interface RelationshipGraphViewProps {
+  conversation: Conversation;
+  characters: Character[];
+  onJumpToMessage?: (messageId: string) => void;
+}
+
+const METRICS: RelationshipMetric[] = ['trust', 'affinity', 'forgiveness'];
+
+const EvidenceList: React.FC<{ ids: string[]; messages: Message[]; onJumpToMessage?: (messageId: string) => void }> = ({ ids, messages, onJumpToMessage }) => {
+  if (ids.length === 0) return <p className="text-xs text-text-secondary italic">No evidence messages recorded.</p>;
+  return (
+    <ul className="space-y-1.5">
+      {ids.map(id => {
+        const index = messages.findIndex(m => m.id === id);
+        const message = messages[index];
+        return (
+          <li key={id} className="p-2 rounded border border-color text-xs">
+            {message ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">#{index + 1} {message.role === 'user' ? 'User' : 'Model'}</span>
+                  {onJumpToMessage && (
+                    <button onClick={() => onJumpToMessage(id)} className="ml-auto px-2 py-0.5 rounded bg-accent-primary/10 text-accent-primary hover:bg-accent-primary/20">
+                      Show in chat
+                    </button>
+                  )}
+                </div>
+                <p className="mt-1 text-text-secondary line-clamp-3">{message.content}</p>
+              </>
+            ) : (
+              <span className="text-text-secondary italic">Message no longer in this conversation</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+/**
+ * Force-directed graph of the Conscious State relationships, with a slider over the state history.
+ * Edges point from the character who holds the feeling to its target and are coloured by the
+ * selected metric.
+ */
+const RelationshipGraphView: React.FC<RelationshipGraphViewProps> = ({ conversation, characters, onJumpToMessage }) => {
+  const nameOf = useMemo(() => {
+    const names = new Map(characters.map(c => [c.id, c.name]));
+    return (id: string) => names.get(id);
+  }, [characters]);
+  const frames = useMemo(
+    () => getRelationshipFrames(conversation, nameOf),
+    [conversation.consciousState, conversation.consciousStateHistory, conversation.messages.length, nameOf]
+  );
+  const positions = useMemo(() => layoutRelationshipGraph(frames, GRAPH_WIDTH, GRAPH_HEIGHT), [frames]);
+
+  const [frameIndex, setFrameIndex] = useState(frames.length - 1);
+  const [metric, setMetric] = useState<RelationshipMetric>('trust');
+  const [selection, setSelection] = useState<Selection>(null);
+
+  // Follow the newest state as it arrives.
+  useEffect(() => setFrameIndex(frames.length - 1), [frames.length]);
+
+  const frame = frames[Math.min(frameIndex, frames.length - 1)];
+  if (!frame || frame.graph.nodes.length === 0) {
+    return (
+      <div className="text-center py-10 text-text-secondary">
+        <p>No relationships tracked yet.</p>
+        <p className="text-xs mt-1">Relationships come from the Conscious State Engine V2 (Author's Note → Conscious State → Engine Version).</p>
+      </div>
+    );
+  }
+
+  const { nodes, edges } = frame.graph;
+  const edgeIds = new Set(edges.map(e => e.id));
+  const selectedNode = selection?.type === 'node' ? nodes.find(n => n.id === selection.id) : undefined;
+  const selectedEdge = selection?.type === 'edge' ? edges.find(e => e.id === selection.id) : undefined;
+  const nodeName = (id: string) => nodes.find(n => n.id === id)?.name || id;
+
+  // Two characters with feelings toward each other get two curved edges instead of overlapping lines.
+  const edgePath = (edge: RelationshipEdge) => {
+    const s = positions.get(edge.source)!;
+    const t = positions.get(edge.target)!;
+    const dx = t.x - s.x;
+    const dy = t.y - s.y;
+    const length = Math.max(1, Math.hypot(dx, dy));
+    const ux = dx / length;
+    const uy = dy / length;
+    const bend = edgeIds.has(`${edge.target}->${edge.source}`) ? 28 : 0;
+    const start = { x: s.x + ux * NODE_RADIUS, y: s.y + uy * NODE_RADIUS };
+    const end = { x: t.x - ux * (NODE_RADIUS + 4), y: t.y - uy * (NODE_RADIUS + 4) };
+    const control = { x: (start.x + end.x) / 2 - uy * bend, y: (start.y + end.y) / 2 + ux * bend };
+    return `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`;
+  };
+
+  const renderNode = (node: RelationshipNode) => {
+    const p = positions.get(node.id);
+    if (!p) return null;
+    const isSelected = selection?.type === 'node' && selection.id === node.id;
+    return (
+      <g key={node.id} transform={`translate(${p.x}, ${p.y})`} className="cursor-pointer" onClick={() => setSelection({ type: 'node', id: node.id })}>
+        <circle r={NODE_RADIUS} fill="var(--tertiary-bg)" stroke={isSelected ? 'var(--accent-primary)' : 'var(--border-color)'} strokeWidth={isSelected ? 3 : 1.5} />
+        <text textAnchor="middle" dy="0.35em" fontSize={12} fontWeight={600} fill="var(--text-primary)">
+          {node.name.slice(0, 2).toUpperCase()}
+        </text>
+        <text textAnchor="middle" y={NODE_RADIUS + 14} fontSize={12} fill="var(--text-primary)">{node.name}</text>
+        {node.mood && <text textAnchor="middle" y={NODE_RADIUS + 28} fontSize={10} fill="var(--text-secondary)">{node.mood}</text>}
+      </g>
+    );
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4 h-full">
+      <div className="flex-1 min-w-0 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="w-72">
+            <SegmentedControl
+              name="relationshipMetric"
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as RelationshipMetric)}
+              options={METRICS.map(m => ({ label: m[0].toUpperCase() + m.slice(1), value: m }))}
+            />
+          </div>
+          <div className="flex items-center gap-1 text-[11px] text-text-secondary">
+            <span className="inline-block w-3 h-1 rounded" style={{ background: getMetricColor(-1) }} /> Low
+            <span className="inline-block w-3 h-1 rounded ml-2" style={{ background: getMetricColor(0) }} /> Neutral
+            <span className="inline-block w-3 h-1 rounded ml-2" style={{ background: getMetricColor(1) }} /> High
+          </div>
+        </div>
+
+        <svg viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} className="w-full rounded-lg border border-color bg-primary-bg" role="img" aria-label="Relationship graph">
+          <defs>
+            {edges.map((edge, index) => (
+              <marker key={edge.id} id={`relationship-arrow-${index}`} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={getMetricColor(edge.metrics[metric])} />
+              </marker>
+            ))}
+          </defs>
+          {edges.map((edge, index) => {
+            if (!positions.has(edge.source) || !positions.has(edge.target)) return null;
+            const value = normalizeMetric(edge.metrics[metric]);
+            const isSelected = selection?.type === 'edge' && selection.id === edge.id;
+            return (
+              <path
+                key={edge.id}
+                d={edgePath(edge)}
+                fill="none"
+                stroke={getMetricColor(edge.metrics[metric])}
+                strokeWidth={(isSelected ? 2 : 0) + 1.5 + Math.abs(value ?? 0) * 3}
+                strokeDasharray={value === undefined ? '4 3' : undefined}
+                markerEnd={`url(#relationship-arrow-${index})`}
+                className="cursor-pointer"
+                onClick={() => setSelection({ type: 'edge', id: edge.id })}
+              >
+                <title>{`${nodeName(edge.source)} → ${nodeName(edge.target)}: ${metric} ${edge.metrics[metric] ?? 'unknown'}`}</title>
+              </path>
+            );
+          })}
+          {nodes.map(renderNode)}
+        </svg>
+
+        {frames.length > 1 && (
+          <div>
+            <input
+              type="range"
+              min={0}
+              max={frames.length - 1}
+              value={frameIndex}
+              onChange={e => setFrameIndex(Number(e.target.value))}
+              className="w-full"
+              aria-label="State history"
+            />
+            <p className="text-xs text-text-secondary">
+              Snapshot {frameIndex + 1} of {frames.length} · message #{frame.messageNumber}
+              {frame.createdAt ? ` · ${new Date(frame.createdAt).toLocaleString()}` : ''}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="md:w-72 flex-shrink-0 space-y-2 overflow-y-auto">
+        {selectedNode ? (
+          <>
+            <h4 className="font-bold text-accent-primary">{selectedNode.name}</h4>
+            {selectedNode.mood && <p className="text-xs text-text-secondary">Mood: {selectedNode.mood}</p>}
+            <ul className="text-xs space-y-0.5">
+              {edges.filter(e => e.source === selectedNode.id).map(e => (
+                <li key={e.id}>
+                  → {nodeName(e.target)}: {METRICS.map(m => `${m} ${e.metrics[m] ?? '–'}`).join(', ')}
+                </li>
+              ))}
+            </ul>
+            <h5 className="text-xs font-semibold text-text-secondary pt-2">Evidence</h5>
+            <EvidenceList ids={selectedNode.evidenceMessageIds} messages={conversation.messages} onJumpToMessage={onJumpToMessage} />
+          </>
+        ) : selectedEdge ? (
+          <>
+            <h4 className="font-bold text-accent-primary">{nodeName(selectedEdge.source)} → {nodeName(selectedEdge.target)}</h4>
+            <ul className="text-xs space-y-0.5">
+              {METRICS.map(m => <li key={m}>{m[0].toUpperCase() + m.slice(1)}: {selectedEdge.metrics[m] ?? 'unknown'}</li>)}
+            </ul>
+            {selectedEdge.tags.length > 0 && <p className="text-xs text-text-secondary">Tags: {selectedEdge.tags.join(', ')}</p>}
+            <h5 className="text-xs font-semibold text-text-secondary pt-2">Evidence</h5>
+            <EvidenceList
+              ids={Array.from(new Set([
+                ...(selectedEdge.lastEventId && conversation.messages.some(m => m.id === selectedEdge.lastEventId) ? [selectedEdge.lastEventId] : []),
+                ...(nodes.find(n => n.id === selectedEdge.source)?.evidenceMessageIds || []),
+              ]))}
+              messages={conversation.messages}
+              onJumpToMessage={onJumpToMessage}
+            />
+          </>
+        ) : (
+          <p className="text-xs text-text-secondary">Select a character or a relationship to see its details and the messages behind it.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RelationshipGraphView;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import type { Settings, UserPersona, Model, GetMeResponse, StoryArcLevel, IdentityProfile } from '../types';
-import { verifyToken as verifyTelegramToken, sendMessage as sendTelegramMessage } from '../services/telegramService';
+import { verifyToken as verifyTelegramToken, sendMessage as sendTelegramMessage, setApiBaseUrl as setTelegramApiBaseUrl } from '../services/telegramService';
 import { checkKoboldConnection, checkKoboldEmbeddingConnection } from '../services/koboldcppService';
 import { fetchAvailableComfyUIModels } from '../services/comfyuiService';
 import { fetchAvailableSDModels } from '../services/sdwebuiService';
@@ -25,6 +25,7 @@ import WritingStyleTab from './settings/tabs/WritingStyleTab';
 import ProactiveAgentTab from './settings/tabs/ProactiveAgentTab';
 import DualResponseTab from './settings/tabs/DualResponseTab';
 import LogsTab from './settings/tabs/LogsTab';
+import DataTab from './settings/tabs/DataTab';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -250,6 +251,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     setTelegramConnectionStatus('loading');
     setTelegramConnectionError(null);
     try {
+        // With the relay, the token is checked through it, which also shows whether the relay is running.
+        const { transport, relayUrl } = currentSettings.telegram;
+        setTelegramApiBaseUrl(transport === 'relay' ? relayUrl : undefined);
         const response = await verifyTelegramToken(currentSettings.telegram.botToken);
         if (response.ok === false) {
             setTelegramConnectionError(response.description);
@@ -289,6 +293,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     { id: 'storyarcs', label: 'Story Arcs' },
     { id: 'imageGeneration', label: 'Image Generation' },
     { id: 'telegram', label: 'Telegram' },
+    { id: 'data', label: 'Backup & Restore' },
     { id: 'logs', label: 'Logs' },
   ];
   
@@ -326,7 +331,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       case 'proactive':
         return <ProactiveAgentTab {...props} />;
       case 'prompts':
-        return <PromptsTab {...props} />;
+        return <PromptsTab {...props} models={models.length > 0 ? models : [selectedModel]} />;
       case 'context':
         return <ContextTab 
                   {...props} 
@@ -374,6 +379,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   onConnect={handleConnectTelegram}
                   addNotification={addNotification}
                 />;
+      case 'data':
+        return <DataTab />;
       case 'logs':
         return <LogsTab />;
       default:
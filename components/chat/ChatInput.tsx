@@ -23,6 +23,9 @@ interface ChatInputProps {
   handleSend: (override?: string, oneTimeOverride?: string) => void;
   handleManualDirectorAI: () => void;
   handleManualLoreScan: () => void;
+  // New: Living Lore review queue
+  onOpenLivingLoreReview: () => void;
+  pendingLoreUpdates: number;
   isStreaming: boolean;
   isTransforming: boolean;
   isEnhancing: boolean;
@@ -48,6 +51,8 @@ interface ChatInputProps {
   isGeneratingBackground: boolean;
   // New: Debug mode
   onOpenDebugger?: () => void;
+  // New: Image gallery
+  onOpenGallery?: () => void;
 }
 
 const ControlSlider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (e: React.ChangeEvent<HTMLInputElement>) => void; helpText: string; }> = ({ label, value, min, max, step, onChange, helpText }) => (
@@ -80,6 +85,8 @@ const ChatInput: React.FC<ChatInputProps> = ({
   handleSend,
   handleManualDirectorAI,
   handleManualLoreScan,
+  onOpenLivingLoreReview,
+  pendingLoreUpdates,
   isStreaming,
   isTransforming,
   isEnhancing,
@@ -100,6 +107,7 @@ const ChatInput: React.FC<ChatInputProps> = ({
   handleGenerateSceneBackground,
   isGeneratingBackground,
   onOpenDebugger,
+  onOpenGallery,
 }) => {
   const [isToolsMenuOpen, setIsToolsMenuOpen] = useState(false);
   const [showControlsPanel, setShowControlsPanel] = useState(false);
@@ -209,9 +217,11 @@ const ChatInput: React.FC<ChatInputProps> = ({
     { id: 'polish', label: 'Instant Prompt Enhancer', icon: SparklesIcon, action: handlePolishPrompt, disabled: allDisabled || !input.trim(), visible: true },
     { id: 'impersonate', label: 'Scene Impersonation', icon: DramaIcon, action: handleImpersonateScene, disabled: allDisabled, visible: true },
     { id: 'sceneBackground', label: 'Generate Scene Background', icon: ImageIcon, action: handleGenerateSceneBackground, disabled: allDisabled || isGeneratingBackground, visible: true },
+    { id: 'gallery', label: 'Image Gallery', icon: ImageIcon, action: () => onOpenGallery?.(), disabled: false, visible: !!onOpenGallery },
     { id: 'addToIdentity', label: 'Add to Identity', icon: BrainPlusIcon, action: onOpenAddToIdentityModal, disabled: allDisabled, visible: true },
     { id: 'director', label: 'Director Intervention (Manual)', icon: DramaIcon, action: handleManualDirectorAI, disabled: allDisabled, visible: settings.directorAI.enabled },
     { id: 'lore', label: 'Check Character Updates', icon: BrainIcon, action: handleManualLoreScan, disabled: allDisabled, visible: settings.livingLore.enabled },
+    { id: 'loreReview', label: `Review Character Updates${pendingLoreUpdates > 0 ? ` (${pendingLoreUpdates})` : ''}`, icon: BrainIcon, action: onOpenLivingLoreReview, disabled: false, visible: settings.livingLore.enabled || pendingLoreUpdates > 0 },
     { id: 'debugger', label: 'Summarization Debug', icon: TrendingUpIcon, action: () => onOpenDebugger?.(), disabled: false, visible: settings.contextManagement.debugMode }
   ].filter(item => item.visible);
 
@@ -0,0 +1,11 @@
+import React from 'react';
+import { Icon } from './Icon';
+
+export const GitBranchIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <Icon {...props}>
+    <line x1="6" y1="3" x2="6" y2="15"></line>
+    <circle cx="18" cy="6" r="3"></circle>
+    <circle cx="6" cy="18" r="3"></circle>
+    <path d="M18 9a9 9 0 0 1-9 9"></path>
+  </Icon>
+);
@@ -2,6 +2,7 @@ import React from 'react';
 import type { Settings } from '../../../types';
 import { CheckboxInput, SliderInput, SegmentedControl } from '../common/SettingsInputComponents';
 import { CollapsibleNotice } from '../../common/CollapsibleNotice';
+import DirectorEventLibraryPanel from './DirectorEventLibraryPanel';
 
 interface AgentsTabProps {
   settings: Settings;
@@ -97,6 +98,7 @@ const AgentsTab: React.FC<AgentsTabProps> = ({ settings, onLiveUpdate }) => {
                     helpText="How many recent messages to analyze for context (applies to both smart and frequency modes)." 
                     dataType="integer" 
                 />
+                <DirectorEventLibraryPanel settings={settings} onLiveUpdate={onLiveUpdate} />
             </div>
         </div>
          <div className="space-y-4 p-4 border rounded-lg border-color">
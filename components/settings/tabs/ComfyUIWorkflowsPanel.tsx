@@ -0,0 +1,241 @@
+import React, { useRef, useState } from 'react';
+import type { Settings, ComfyUIPlaceholder, ComfyUIWorkflow, ComfyUIWorkflowBinding } from '../../../types';
+import {
+  BUILTIN_COMFYUI_WORKFLOW_ID,
+  COMFYUI_PLACEHOLDERS,
+  createComfyUIWorkflow,
+  getBindableInputs,
+  getDefaultOutputNodeId,
+  getNodeLabel,
+  validateComfyUIWorkflow,
+} from '../../../services/comfyuiWorkflows';
+import { PlusIcon } from '../../icons/PlusIcon';
+import { TrashIcon } from '../../icons/TrashIcon';
+import { generateUUID } from '../../../utils/uuid';
+
+interface ComfyUIWorkflowsPanelProps {
+  settings: Settings;
+  onLiveUpdate: (newSettings: Settings) => void;
+}
+
+/**
+ * Imported ComfyUI workflows (API format) and the bindings from the app's placeholders to node
+ * inputs. Characters and conversations pick a workflow in their own settings; the default here
+ * applies when they don't.
+ */
+const ComfyUIWorkflowsPanel: React.FC<ComfyUIWorkflowsPanelProps> = ({ settings, onLiveUpdate }) => {
+  const workflows = settings.comfyUI.workflows || [];
+  const [name, setName] = useState('');
+  const [json, setJson] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateComfyUI = (patch: Partial<Settings['comfyUI']>) => {
+    onLiveUpdate({ ...settings, comfyUI: { ...settings.comfyUI, ...patch } });
+  };
+
+  const updateWorkflow = (id: string, patch: Partial<ComfyUIWorkflow>) => {
+    updateComfyUI({ workflows: workflows.map(w => w.id === id ? { ...w, ...patch } : w) });
+  };
+
+  const updateBinding = (workflow: ComfyUIWorkflow, bindingId: string, patch: Partial<ComfyUIWorkflowBinding>) => {
+    updateWorkflow(workflow.id, { bindings: workflow.bindings.map(b => b.id === bindingId ? { ...b, ...patch } : b) });
+  };
+
+  const handleImport = () => {
+    try {
+      const workflow = createComfyUIWorkflow(name, json);
+      updateComfyUI({ workflows: [...workflows, workflow] });
+      setName('');
+      setJson('');
+      setError(null);
+      setExpandedId(workflow.id);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setJson(await file.text());
+    if (!name.trim()) setName(file.name.replace(/\.json$/i, ''));
+  };
+
+  const removeWorkflow = (workflow: ComfyUIWorkflow) => {
+    if (!window.confirm(`Delete the workflow "${workflow.name}"? Characters and conversations using it fall back to the default.`)) return;
+    updateComfyUI({
+      workflows: workflows.filter(w => w.id !== workflow.id),
+      defaultWorkflowId: settings.comfyUI.defaultWorkflowId === workflow.id ? undefined : settings.comfyUI.defaultWorkflowId,
+    });
+  };
+
+  const renderBindings = (workflow: ComfyUIWorkflow) => {
+    const nodeIds = Object.keys(workflow.graph);
+    return (
+      <div className="space-y-2">
+        {workflow.bindings.map(binding => {
+          const node = workflow.graph[binding.nodeId];
+          const inputs = node ? getBindableInputs(node) : [];
+          return (
+            <div key={binding.id} className="flex items-center gap-2">
+              <select
+                value={binding.placeholder}
+                onChange={e => updateBinding(workflow, binding.id, { placeholder: e.target.value as ComfyUIPlaceholder })}
+                className="px-2 py-1 text-xs border rounded-md modal-input"
+              >
+                {COMFYUI_PLACEHOLDERS.map(p => <option key={p.placeholder} value={p.placeholder}>{p.label}</option>)}
+              </select>
+              <span className="text-xs text-text-secondary">→</span>
+              <select
+                value={binding.nodeId}
+                onChange={e => {
+                  const nextNode = workflow.graph[e.target.value];
+                  updateBinding(workflow, binding.id, { nodeId: e.target.value, input: nextNode ? getBindableInputs(nextNode)[0] || '' : '' });
+                }}
+                className="flex-1 min-w-0 px-2 py-1 text-xs border rounded-md modal-input"
+              >
+                {nodeIds.map(id => <option key={id} value={id}>{getNodeLabel(id, workflow.graph[id])}</option>)}
+              </select>
+              <select
+                value={binding.input}
+                onChange={e => updateBinding(workflow, binding.id, { input: e.target.value })}
+                className="px-2 py-1 text-xs border rounded-md modal-input"
+              >
+                {inputs.map(input => <option key={input} value={input}>{input}</option>)}
+              </select>
+              <button
+                type="button"
+                onClick={() => updateWorkflow(workflow.id, { bindings: workflow.bindings.filter(b => b.id !== binding.id) })}
+                className="p-1 text-text-secondary hover:text-red-500"
+                title="Remove binding"
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+        <button
+          type="button"
+          onClick={() => {
+            const nodeId = nodeIds[0];
+            updateWorkflow(workflow.id, {
+              bindings: [...workflow.bindings, { id: generateUUID(), placeholder: 'prompt', nodeId, input: getBindableInputs(workflow.graph[nodeId])[0] || '' }],
+            });
+          }}
+          className="flex items-center gap-1 text-xs font-semibold text-accent-primary hover:underline"
+        >
+          <PlusIcon className="w-3 h-3" />
+          Add Binding
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="pt-4 border-t border-color space-y-4">
+      <h4 className="font-semibold text-sm">Custom Workflows</h4>
+      <p className="text-xs text-text-secondary">
+        Import a workflow exported from ComfyUI with <strong>Workflow → Export (API)</strong>. Bind the prompt, negative prompt, seed, size,
+        steps, CFG, checkpoint and character reference image to node inputs; a text input containing a token like <code>{'{{prompt}}'}</code> has
+        just the token replaced. The settings above fill the bound inputs; LoRAs and the upscaler only apply to the built-in workflow.
+      </p>
+
+      <div>
+        <label htmlFor="comfy-default-workflow" className="block text-sm font-medium">Default Workflow</label>
+        <select
+          id="comfy-default-workflow"
+          value={settings.comfyUI.defaultWorkflowId || BUILTIN_COMFYUI_WORKFLOW_ID}
+          onChange={e => updateComfyUI({ defaultWorkflowId: e.target.value === BUILTIN_COMFYUI_WORKFLOW_ID ? undefined : e.target.value })}
+          className="mt-1 block w-full pl-3 pr-10 py-2 text-base border rounded-md focus:outline-none focus:ring-2 sm:text-sm modal-input"
+        >
+          <option value={BUILTIN_COMFYUI_WORKFLOW_ID}>Built-in (settings above)</option>
+          {workflows.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+        </select>
+        <p className="text-xs text-text-secondary mt-1">Used unless the conversation or one of its characters picks another workflow.</p>
+      </div>
+
+      {workflows.map(workflow => {
+        const problems = validateComfyUIWorkflow(workflow);
+        const isExpanded = expandedId === workflow.id;
+        const outputNodeIds = Object.keys(workflow.graph).filter(id => workflow.graph[id].class_type.startsWith('Save') || workflow.graph[id].class_type.startsWith('Preview'));
+        return (
+          <div key={workflow.id} className="p-3 border rounded-lg border-color space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                value={workflow.name}
+                onChange={e => updateWorkflow(workflow.id, { name: e.target.value })}
+                className="flex-1 px-2 py-1 text-sm border rounded-md modal-input"
+              />
+              <button type="button" onClick={() => setExpandedId(isExpanded ? null : workflow.id)} className="px-2 py-1 text-xs rounded-md btn-secondary">
+                {isExpanded ? 'Hide' : `Bindings (${workflow.bindings.length})`}
+              </button>
+              <button type="button" onClick={() => removeWorkflow(workflow)} className="p-1 text-text-secondary hover:text-red-500" title="Delete workflow">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {problems.length > 0 && (
+              <ul className="text-xs text-yellow-600 dark:text-yellow-400 list-disc pl-5">
+                {problems.map(p => <li key={p}>{p}</li>)}
+              </ul>
+            )}
+            {isExpanded && (
+              <>
+                {renderBindings(workflow)}
+                <div>
+                  <label className="block text-xs font-medium mb-1">Output Node</label>
+                  <select
+                    value={workflow.outputNodeId || getDefaultOutputNodeId(workflow.graph) || ''}
+                    onChange={e => updateWorkflow(workflow.id, { outputNodeId: e.target.value || undefined })}
+                    className="block w-full px-2 py-1 text-xs border rounded-md modal-input"
+                  >
+                    {outputNodeIds.length === 0 && <option value="">No SaveImage node</option>}
+                    {outputNodeIds.map(id => <option key={id} value={id}>{getNodeLabel(id, workflow.graph[id])}</option>)}
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="p-3 border rounded-lg border-color border-dashed space-y-2">
+        <div className="flex items-center gap-2">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Workflow name"
+            className="flex-1 px-2 py-1 text-sm border rounded-md modal-input"
+          />
+          <button type="button" onClick={() => fileInputRef.current?.click()} className="px-2 py-1 text-xs rounded-md btn-secondary">
+            Load File...
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </div>
+        <textarea
+          value={json}
+          onChange={e => setJson(e.target.value)}
+          rows={4}
+          placeholder="Paste the API-format workflow JSON here"
+          className="block w-full px-2 py-1 text-xs font-mono border rounded-md modal-input"
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!json.trim()}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-primary hover:bg-primary-hover text-white transition-colors disabled:opacity-50"
+          >
+            <PlusIcon className="w-3 h-3" />
+            Import Workflow
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComfyUIWorkflowsPanel;
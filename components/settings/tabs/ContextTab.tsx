@@ -1,8 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { CollapsibleNotice } from '../../common/CollapsibleNotice';
-import type { Settings, Model } from '../../../types';
+import type { Settings, Model, CustomTokenizer, TokenizerFamily } from '../../../types';
 import { NumberInput, SegmentedControl, CheckboxInput, getStatusIndicator, SelectInput } from '../common/SettingsInputComponents';
 import { testOpenRouterConnection, fetchOpenRouterModels } from '../../../services/ai/openRouterSummarizer';
+import { BUILTIN_TOKENIZERS, TOKENIZER_FAMILIES, getModelFamily, parseTokenizerFile, clearTokenizerCache } from '../../../services/ai/tokenizers';
+import { getAllTokenizers, saveTokenizer, deleteTokenizer } from '../../../services/db';
+import { DEFAULT_SETTINGS } from '../../../constants';
+import { TrashIcon } from '../../icons/TrashIcon';
 
 interface ContextTabProps {
   settings: Settings;
@@ -31,6 +35,13 @@ const ContextTab: React.FC<ContextTabProps> = ({
   const [openRouterTestMessage, setOpenRouterTestMessage] = useState<string>('');
   const [openRouterModels, setOpenRouterModels] = useState<any[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [customTokenizers, setCustomTokenizers] = useState<CustomTokenizer[]>([]);
+  const [tokenizerError, setTokenizerError] = useState<string | null>(null);
+  const tokenizerInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getAllTokenizers().then(setCustomTokenizers);
+  }, []);
 
   // Fetch OpenRouter models when OpenRouter is selected
   useEffect(() => {
@@ -107,6 +118,60 @@ const ContextTab: React.FC<ContextTabProps> = ({
     // This component only cares about showing the current status.
   };
   
+  const handleLoreInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    const parsed = value === '' ? null : parseInt(value, 10);
+    onLiveUpdate({
+      ...settings,
+      lore: {
+        ...settings.lore,
+        // Recursion depth is always a number; an empty budget means unlimited.
+        [name]: name === 'recursionDepth' ? Math.max(0, parsed ?? 0) : parsed,
+      },
+    });
+  };
+
+  const handleTokenizerAssignmentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    onLiveUpdate({
+      ...settings,
+      tokenizerAssignments: { ...settings.tokenizerAssignments, [name]: value },
+    });
+  };
+
+  const handleTokenizerFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setTokenizerError(null);
+    try {
+      const tokenizer = parseTokenizerFile(file.name, new Uint8Array(await file.arrayBuffer()));
+      await saveTokenizer(tokenizer);
+      setCustomTokenizers(await getAllTokenizers());
+    } catch (err: any) {
+      setTokenizerError(err.message);
+    }
+  };
+
+  const handleDeleteTokenizer = async (tokenizer: CustomTokenizer) => {
+    if (!window.confirm(`Delete the tokenizer "${tokenizer.name}"? Families using it go back to their default tokenizer.`)) return;
+    await deleteTokenizer(tokenizer.id);
+    clearTokenizerCache(tokenizer.id);
+    setCustomTokenizers(await getAllTokenizers());
+    const assignments = { ...settings.tokenizerAssignments };
+    for (const family of Object.keys(assignments) as TokenizerFamily[]) {
+      if (assignments[family] === tokenizer.id) assignments[family] = DEFAULT_SETTINGS.tokenizerAssignments[family];
+    }
+    onLiveUpdate({ ...settings, tokenizerAssignments: assignments });
+  };
+
+  const tokenizerOptions = [
+    ...BUILTIN_TOKENIZERS.map(t => ({ value: t.id, label: t.name })),
+    ...customTokenizers.map(t => ({ value: t.id, label: `${t.name} (imported)` })),
+  ];
+  const currentFamily = getModelFamily(selectedModel);
+  const currentTokenizerLabel = tokenizerOptions.find(o => o.value === settings.tokenizerAssignments[currentFamily])?.label || 'cl100k_base';
+
   const modelDefaultTokens = selectedModel.contextLengthTokens;
   const userOverrideTokens = settings.contextManagement.maxContextTokens;
   const effectiveMaxTokens = userOverrideTokens ?? modelDefaultTokens;
@@ -144,6 +209,11 @@ const ContextTab: React.FC<ContextTabProps> = ({
                 Effective Limit (used in chat): 
                 <span className="font-mono ml-2 font-bold">{effectiveMaxTokens ? effectiveMaxTokens.toLocaleString() : 'N/A'} tokens</span>
             </p>
+            <p className="text-sm text-text-secondary">
+                Tokenizer: 
+                <span className="ml-2 font-semibold">{currentTokenizerLabel}</span>
+                <span className="text-xs"> ({TOKENIZER_FAMILIES.find(f => f.family === currentFamily)?.label})</span>
+            </p>
          </div>
          <div className="space-y-4">
              <NumberInput
@@ -524,6 +594,83 @@ const ContextTab: React.FC<ContextTabProps> = ({
                 )}
             </div>
          )}
+
+         <div className="pt-6 border-t border-color space-y-4">
+            <h3 className="text-lg font-semibold">Lorebook Activation</h3>
+            <NumberInput
+                label="Recursion Depth"
+                name="recursionDepth"
+                value={settings.lore.recursionDepth}
+                onChange={handleLoreInputChange}
+                placeholder="2"
+            />
+            <p className="text-xs text-text-secondary -mt-2">
+              How many times the text of activated entries may trigger further entries. 0 turns recursion off.
+            </p>
+            <NumberInput
+                label="Lore Token Budget"
+                name="tokenBudget"
+                value={settings.lore.tokenBudget ?? ''}
+                onChange={handleLoreInputChange}
+                placeholder="Unlimited"
+            />
+            <p className="text-xs text-text-secondary -mt-2">
+              Maximum lore tokens per response across all lorebooks. Lowest-order entries are dropped first. The "View Full Context" view lists which entries fired and why.
+            </p>
+         </div>
+
+         <div className="pt-6 border-t border-color space-y-4">
+            <h3 className="text-lg font-semibold">Tokenizers</h3>
+            <p className="text-xs text-text-secondary">
+              Token counts decide when history is trimmed or summarized. Each model family is counted with its own tokenizer.
+              For exact counts on Llama, Mistral, Qwen, DeepSeek or Grok models, import the model's <code>tokenizer.json</code> or SentencePiece <code>.model</code> file and assign it below.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {TOKENIZER_FAMILIES.map(({ family, label }) => (
+                <div key={family}>
+                  <SelectInput
+                    label={label}
+                    name={family}
+                    value={settings.tokenizerAssignments[family]}
+                    onChange={handleTokenizerAssignmentChange}
+                    options={tokenizerOptions}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-semibold text-accent-primary">Imported Tokenizers</h4>
+              {customTokenizers.length === 0 ? (
+                <p className="text-xs text-text-secondary">No tokenizers imported yet.</p>
+              ) : (
+                customTokenizers.map(tokenizer => (
+                  <div key={tokenizer.id} className="flex items-center justify-between p-2 bg-secondary-bg rounded-lg">
+                    <div className="text-sm">
+                      <span className="font-medium">{tokenizer.name}</span>
+                      <span className="text-xs text-text-secondary ml-2">{tokenizer.format === 'sentencepiece' ? 'SentencePiece' : 'tokenizer.json'}</span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteTokenizer(tokenizer)}
+                      className="p-2 rounded-md hover:bg-red-500/10 text-red-500"
+                      title="Delete tokenizer"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+              <input ref={tokenizerInputRef} type="file" accept=".json,.model" className="hidden" onChange={handleTokenizerFileSelected} />
+              <button
+                onClick={() => tokenizerInputRef.current?.click()}
+                className="px-4 py-2 text-sm font-medium rounded-lg btn-secondary"
+              >
+                Import Tokenizer File...
+              </button>
+              {tokenizerError && <p className="text-xs text-red-500">{tokenizerError}</p>}
+            </div>
+         </div>
     </div>
   );
 };
@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import type { Settings, CustomEndpoint } from '../../../types';
+import { PROMPT_FORMATS } from '../../../constants';
+import { checkCustomEndpointConnection } from '../../../services/customEndpointService';
+import { getStatusIndicator } from '../common/SettingsInputComponents';
+import { PlusIcon } from '../../icons/PlusIcon';
+import { TrashIcon } from '../../icons/TrashIcon';
+import { generateUUID } from '../../../utils/uuid';
+
+interface CustomEndpointsPanelProps {
+  settings: Settings;
+  onLiveUpdate: (newSettings: Settings) => void;
+}
+
+type ConnectionState = { status: 'idle' | 'loading' | 'success' | 'error'; message?: string };
+
+/**
+ * Editor for user-defined OpenAI-compatible endpoints (llama.cpp, Ollama, vLLM, KoboldCpp...).
+ * Models are listed from each endpoint's /v1/models route and appear in the model selector
+ * grouped under the endpoint name.
+ */
+const CustomEndpointsPanel: React.FC<CustomEndpointsPanelProps> = ({ settings, onLiveUpdate }) => {
+  const endpoints = settings.customEndpoints || [];
+  const [connection, setConnection] = useState<Record<string, ConnectionState>>({});
+
+  const updateEndpoints = (next: CustomEndpoint[]) => {
+    onLiveUpdate({ ...settings, customEndpoints: next });
+  };
+
+  const updateEndpoint = (id: string, patch: Partial<CustomEndpoint>) => {
+    updateEndpoints(endpoints.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  const addEndpoint = () => {
+    updateEndpoints([
+      ...endpoints,
+      { id: generateUUID(), name: `Local Server ${endpoints.length + 1}`, baseUrl: 'http://localhost:8080/v1', apiKey: '', enabled: true },
+    ]);
+  };
+
+  const removeEndpoint = (id: string) => {
+    updateEndpoints(endpoints.filter(e => e.id !== id));
+  };
+
+  const testEndpoint = async (endpoint: CustomEndpoint) => {
+    setConnection(prev => ({ ...prev, [endpoint.id]: { status: 'loading' } }));
+    const result = await checkCustomEndpointConnection(endpoint);
+    setConnection(prev => ({
+      ...prev,
+      [endpoint.id]: result.isConnected
+        ? { status: 'success', message: `Connected - ${result.modelCount} model(s)` }
+        : { status: 'error', message: result.error },
+    }));
+  };
+
+  const parseOptionalNumber = (value: string, isFloat: boolean): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = isFloat ? parseFloat(value) : parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium">Custom OpenAI-Compatible Endpoints</h3>
+        <button
+          type="button"
+          onClick={addEndpoint}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-primary hover:bg-primary-hover text-white transition-colors"
+        >
+          <PlusIcon className="w-3 h-3" />
+          Add Endpoint
+        </button>
+      </div>
+
+      {endpoints.length === 0 && (
+        <p className="text-xs text-text-secondary py-3 text-center">No custom endpoints yet. Add one to use a local or self-hosted model.</p>
+      )}
+
+      <div className="space-y-4">
+        {endpoints.map(endpoint => {
+          const state = connection[endpoint.id] || { status: 'idle' };
+          return (
+            <div key={endpoint.id} className="p-3 border border-color rounded-lg space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={endpoint.enabled}
+                  onChange={(e) => updateEndpoint(endpoint.id, { enabled: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  title="Enabled"
+                />
+                <input
+                  type="text"
+                  value={endpoint.name}
+                  onChange={(e) => updateEndpoint(endpoint.id, { name: e.target.value })}
+                  className="flex-1 px-3 py-1.5 border rounded-md text-sm modal-input"
+                  placeholder="Endpoint name"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeEndpoint(endpoint.id)}
+                  className="p-2 rounded-md hover:bg-red-500/10 text-red-500"
+                  title="Remove endpoint"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium">Base URL</label>
+                  <input
+                    type="text"
+                    value={endpoint.baseUrl}
+                    onChange={(e) => updateEndpoint(endpoint.id, { baseUrl: e.target.value })}
+                    className="mt-1 block w-full px-3 py-1.5 border rounded-md text-sm modal-input"
+                    placeholder="http://localhost:11434/v1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium">API Key (optional)</label>
+                  <input
+                    type="password"
+                    value={endpoint.apiKey}
+                    onChange={(e) => updateEndpoint(endpoint.id, { apiKey: e.target.value })}
+                    className="mt-1 block w-full px-3 py-1.5 border rounded-md text-sm modal-input"
+                    placeholder="Leave empty for most local servers"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium">Extra Model IDs (optional)</label>
+                <input
+                  type="text"
+                  value={endpoint.manualModels || ''}
+                  onChange={(e) => updateEndpoint(endpoint.id, { manualModels: e.target.value })}
+                  className="mt-1 block w-full px-3 py-1.5 border rounded-md text-sm modal-input"
+                  placeholder="e.g. llama3.1:8b, mistral-nemo"
+                />
+                <p className="text-xs text-text-secondary mt-1">Comma-separated. Used in addition to /v1/models, or instead of it when the server has no listing.</p>
+              </div>
+
+              <details className="text-sm">
+                <summary className="cursor-pointer text-xs font-medium text-text-secondary">Per-endpoint overrides</summary>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3">
+                  <div>
+                    <label className="block text-xs font-medium">Temperature</label>
+                    <input
+                      type="number"
+                      step="0.05"
+                      value={endpoint.temperature ?? ''}
+                      onChange={(e) => updateEndpoint(endpoint.id, { temperature: parseOptionalNumber(e.target.value, true) })}
+                      className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                      placeholder={String(settings.temperature)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium">Top-P</label>
+                    <input
+                      type="number"
+                      step="0.05"
+                      value={endpoint.topP ?? ''}
+                      onChange={(e) => updateEndpoint(endpoint.id, { topP: parseOptionalNumber(e.target.value, true) })}
+                      className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                      placeholder={String(settings.topP)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium">Max Tokens</label>
+                    <input
+                      type="number"
+                      value={endpoint.maxResponseTokens ?? ''}
+                      onChange={(e) => updateEndpoint(endpoint.id, { maxResponseTokens: parseOptionalNumber(e.target.value, false) })}
+                      className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                      placeholder={settings.maxResponseTokens ? String(settings.maxResponseTokens) : 'Global'}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium">Context (tokens)</label>
+                    <input
+                      type="number"
+                      value={endpoint.contextLengthTokens ?? ''}
+                      onChange={(e) => updateEndpoint(endpoint.id, { contextLengthTokens: parseOptionalNumber(e.target.value, false) })}
+                      className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                      placeholder="Auto"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-3 items-end">
+                  <div>
+                    <label className="block text-xs font-medium">Prompt Format</label>
+                    <select
+                      value={endpoint.promptFormat || 'Default'}
+                      onChange={(e) => updateEndpoint(endpoint.id, { promptFormat: e.target.value })}
+                      className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                    >
+                      {PROMPT_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                    </select>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs font-medium cursor-pointer pb-2">
+                    <input
+                      type="checkbox"
+                      checked={endpoint.supportsImageInput === true}
+                      onChange={(e) => updateEndpoint(endpoint.id, { supportsImageInput: e.target.checked })}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span>Models accept image input (vision)</span>
+                  </label>
+                </div>
+                <p className="text-xs text-text-secondary mt-2">Leave a field empty to use the global value from Model Configuration.</p>
+              </details>
+
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => testEndpoint(endpoint)}
+                  disabled={state.status === 'loading'}
+                  className="px-3 py-1.5 text-xs font-medium rounded-md btn-secondary disabled:opacity-50"
+                >
+                  Test & List Models
+                </button>
+                {getStatusIndicator(state.status, state.message, state.message)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 space-y-1.5">
+        <p className="text-xs text-text-secondary">
+          💡 Works with any server that speaks the OpenAI chat completions API: llama.cpp, Ollama, vLLM, KoboldCpp, LM Studio, text-generation-webui.
+        </p>
+        <p className="text-xs text-text-secondary italic">
+          🌐 The server must allow requests from this page (CORS). For Ollama set OLLAMA_ORIGINS, for llama.cpp CORS is on by default.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CustomEndpointsPanel;
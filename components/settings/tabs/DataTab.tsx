@@ -0,0 +1,181 @@
+import React, { useState, useRef } from 'react';
+import { createBackup, parseBackup, restoreBackup, summarizeBackup, type BackupArchive, type RestoreMode } from '../../../services/backupService';
+import { CheckboxInput, SegmentedControl } from '../common/SettingsInputComponents';
+import { LoaderIcon } from '../../icons/LoaderIcon';
+
+const TABLE_LABELS: Record<string, string> = {
+  settings: 'Settings',
+  conversations: 'Conversations',
+  characters: 'Characters',
+  lorebooks: 'Lorebooks',
+  userPersonas: 'Personas',
+  identityProfiles: 'Identity Profiles',
+  ragMetadata: 'RAG Memories',
+  stories: 'Stories',
+  briefings: 'Briefings',
+  tokenizers: 'Tokenizers',
+};
+
+/**
+ * Full backup & restore of the local database, including RAG index files.
+ * Restoring reloads the app so every view picks up the new data.
+ */
+const DataTab: React.FC = () => {
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<BackupArchive | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const archive = await createBackup(includeSecrets);
+      const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `rolygem_backup_${new Date().toISOString().slice(0, 10)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setError(`Export failed: ${e.message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      setPendingArchive(parseBackup(await file.text()));
+    } catch (err: any) {
+      setPendingArchive(null);
+      setError(err.message);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingArchive) return;
+    if (restoreMode === 'replace' && !window.confirm('Replace will delete ALL current conversations, characters, lorebooks and memories before restoring. Continue?')) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await restoreBackup(pendingArchive, restoreMode);
+      window.location.reload();
+    } catch (e: any) {
+      setError(`Restore failed: ${e.message}`);
+      setIsRestoring(false);
+    }
+  };
+
+  const summary = pendingArchive ? summarizeBackup(pendingArchive) : null;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Backup</h3>
+        <p className="text-sm text-text-secondary mt-1">
+          Exports every conversation, character, lorebook, persona, identity profile, story, briefing, your settings and all RAG memories (including their vector indexes) into one file.
+        </p>
+        <div className="mt-4 space-y-4">
+          <CheckboxInput
+            label="Include API keys and bot tokens"
+            name="includeSecrets"
+            checked={includeSecrets}
+            onChange={(e) => setIncludeSecrets(e.target.checked)}
+            helpText="Leave off if you share the file. When restoring a backup without keys, your current keys are kept."
+          />
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg bg-primary hover:bg-primary-hover text-white disabled:opacity-50"
+          >
+            {isExporting && <LoaderIcon className="w-4 h-4" />}
+            Download Backup
+          </button>
+        </div>
+      </div>
+
+      <div className="pt-6 border-t border-color">
+        <h3 className="text-lg font-semibold">Restore</h3>
+        <p className="text-sm text-text-secondary mt-1">
+          Accepts full backups and single-conversation exports. Older backup formats are upgraded automatically.
+        </p>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileSelected} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRestoring}
+          className="mt-4 px-4 py-2 text-sm font-medium rounded-lg btn-secondary disabled:opacity-50"
+        >
+          Choose Backup File...
+        </button>
+
+        {pendingArchive && summary && (
+          <div className="mt-4 p-4 border border-color rounded-lg space-y-4">
+            <div>
+              <p className="text-sm font-medium">
+                Backup from {new Date(pendingArchive.createdAt).toLocaleString()}
+              </p>
+              <ul className="mt-2 grid grid-cols-2 gap-x-6 gap-y-1 text-xs text-text-secondary">
+                {Object.entries(summary).map(([table, count]) => (
+                  <li key={table}>{TABLE_LABELS[table] || table}: {count}</li>
+                ))}
+                <li>Vector Indexes: {pendingArchive.ragIndexes.length}</li>
+              </ul>
+              {!pendingArchive.includesSecrets && (
+                <p className="text-xs text-text-secondary mt-2">This backup has no API keys; your current keys will be kept.</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Restore Mode</label>
+              <SegmentedControl
+                name="restoreMode"
+                value={restoreMode}
+                options={[
+                  { value: 'merge', label: 'Merge' },
+                  { value: 'replace', label: 'Replace' },
+                ]}
+                onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+              />
+              <p className="text-xs text-text-secondary mt-1">
+                {restoreMode === 'merge'
+                  ? 'Adds items that do not exist yet. Existing items, settings and memory collections are left untouched.'
+                  : 'Deletes all current data and memories, then restores the backup exactly.'}
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleRestore}
+                disabled={isRestoring}
+                className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg text-white disabled:opacity-50 ${restoreMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary hover:bg-primary-hover'}`}
+              >
+                {isRestoring && <LoaderIcon className="w-4 h-4" />}
+                Restore &amp; Reload
+              </button>
+              <button
+                onClick={() => setPendingArchive(null)}
+                disabled={isRestoring}
+                className="px-4 py-2 text-sm font-medium rounded-lg btn-secondary disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="mt-3 text-sm text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default DataTab;
@@ -0,0 +1,218 @@
+import React from 'react';
+import type { Settings, DirectorEventTemplate } from '../../../types';
+import { DEFAULT_DIRECTOR_EVENT_TEMPLATES } from '../../../constants';
+import { PlusIcon } from '../../icons/PlusIcon';
+import { TrashIcon } from '../../icons/TrashIcon';
+import { generateUUID } from '../../../utils/uuid';
+
+interface DirectorEventLibraryPanelProps {
+  settings: Settings;
+  onLiveUpdate: (newSettings: Settings) => void;
+}
+
+type Prerequisites = NonNullable<DirectorEventTemplate['prerequisites']>;
+
+const splitList = (value: string): string[] => value.split(',').map(s => s.trim()).filter(Boolean);
+
+/**
+ * Editor for the Director AI event library. The Director picks one of these templates (weighted,
+ * skipping templates on cooldown or whose prerequisites don't match the scene) and writes an event of that kind.
+ */
+const DirectorEventLibraryPanel: React.FC<DirectorEventLibraryPanelProps> = ({ settings, onLiveUpdate }) => {
+  const templates = settings.directorAI.eventLibrary || [];
+
+  const updateTemplates = (next: DirectorEventTemplate[]) => {
+    onLiveUpdate({ ...settings, directorAI: { ...settings.directorAI, eventLibrary: next } });
+  };
+
+  const updateTemplate = (id: string, patch: Partial<DirectorEventTemplate>) => {
+    updateTemplates(templates.map(t => t.id === id ? { ...t, ...patch } : t));
+  };
+
+  const updatePrerequisites = (template: DirectorEventTemplate, patch: Partial<Prerequisites>) => {
+    updateTemplate(template.id, { prerequisites: { ...(template.prerequisites || {}), ...patch } });
+  };
+
+  const addTemplate = () => {
+    updateTemplates([
+      ...templates,
+      { id: generateUUID(), name: `Event ${templates.length + 1}`, description: '', tags: [], weight: 1, cooldown: 15, enabled: true },
+    ]);
+  };
+
+  const restoreDefaults = () => {
+    if (!window.confirm('Add back any built-in templates that were deleted? Your own templates are kept.')) return;
+    const existing = new Set(templates.map(t => t.id));
+    updateTemplates([...templates, ...DEFAULT_DIRECTOR_EVENT_TEMPLATES.filter(t => !existing.has(t.id))]);
+  };
+
+  const parseOptionalTension = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : Math.max(0, Math.min(1, parsed));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium">Event Library</h4>
+        <div className="flex gap-2">
+          <button type="button" onClick={restoreDefaults} className="px-2 py-1 text-xs rounded-md btn-secondary">
+            Restore Built-ins
+          </button>
+          <button
+            type="button"
+            onClick={addTemplate}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-primary hover:bg-primary-hover text-white transition-colors"
+          >
+            <PlusIcon className="w-3 h-3" />
+            Add Template
+          </button>
+        </div>
+      </div>
+
+      {templates.length === 0 && (
+        <p className="text-xs text-text-secondary py-3 text-center">No templates. The Director writes free-form events.</p>
+      )}
+
+      <div className="space-y-3">
+        {templates.map(template => (
+          <div key={template.id} className={`p-3 border border-color rounded-lg space-y-3 ${template.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={template.enabled}
+                onChange={(e) => updateTemplate(template.id, { enabled: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                title="Enabled"
+              />
+              <input
+                type="text"
+                value={template.name}
+                onChange={(e) => updateTemplate(template.id, { name: e.target.value })}
+                className="flex-1 px-3 py-1.5 border rounded-md text-sm modal-input"
+                placeholder="Template name"
+              />
+              <button
+                type="button"
+                onClick={() => updateTemplates(templates.filter(t => t.id !== template.id))}
+                className="p-2 rounded-md hover:bg-red-500/10 text-red-500"
+                title="Remove template"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+
+            <textarea
+              value={template.description}
+              onChange={(e) => updateTemplate(template.id, { description: e.target.value })}
+              rows={2}
+              className="block w-full px-3 py-1.5 border rounded-md text-sm modal-input resize-none"
+              placeholder="What happens in this kind of event"
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium">Tags</label>
+                <input
+                  type="text"
+                  value={template.tags.join(', ')}
+                  onChange={(e) => updateTemplate(template.id, { tags: splitList(e.target.value) })}
+                  className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                  placeholder="danger, combat"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium">Weight</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={template.weight}
+                  onChange={(e) => updateTemplate(template.id, { weight: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium">Cooldown (messages)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={template.cooldown}
+                  onChange={(e) => updateTemplate(template.id, { cooldown: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                />
+              </div>
+            </div>
+
+            <details className="text-sm">
+              <summary className="cursor-pointer text-xs font-medium text-text-secondary">Prerequisites (Conscious State world state)</summary>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3">
+                <div>
+                  <label className="block text-xs font-medium">Min Tension</label>
+                  <input
+                    type="number" min={0} max={1} step={0.05}
+                    value={template.prerequisites?.minTension ?? ''}
+                    onChange={(e) => updatePrerequisites(template, { minTension: parseOptionalTension(e.target.value) })}
+                    className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                    placeholder="Any"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium">Max Tension</label>
+                  <input
+                    type="number" min={0} max={1} step={0.05}
+                    value={template.prerequisites?.maxTension ?? ''}
+                    onChange={(e) => updatePrerequisites(template, { maxTension: parseOptionalTension(e.target.value) })}
+                    className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                    placeholder="Any"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium">Time of Day</label>
+                  <input
+                    type="text"
+                    value={(template.prerequisites?.timeOfDay || []).join(', ')}
+                    onChange={(e) => updatePrerequisites(template, { timeOfDay: splitList(e.target.value) })}
+                    className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                    placeholder="night, dusk"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium">Weather</label>
+                  <input
+                    type="text"
+                    value={(template.prerequisites?.weather || []).join(', ')}
+                    onChange={(e) => updatePrerequisites(template, { weather: splitList(e.target.value) })}
+                    className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                    placeholder="rain, storm"
+                  />
+                </div>
+              </div>
+              <div className="mt-3">
+                <label className="block text-xs font-medium">Scene Keywords</label>
+                <input
+                  type="text"
+                  value={(template.prerequisites?.keywords || []).join(', ')}
+                  onChange={(e) => updatePrerequisites(template, { keywords: splitList(e.target.value) })}
+                  className="mt-1 block w-full px-2 py-1.5 border rounded-md text-sm modal-input"
+                  placeholder="forest, road, tavern"
+                />
+              </div>
+              <p className="text-xs text-text-secondary mt-2">
+                Checked against the Conscious State world state. A template with prerequisites is skipped in conversations without a Conscious State.
+              </p>
+            </details>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-text-secondary mt-3">
+        💡 The Director picks an eligible template at random (higher weight = more often), then writes the event. It also sees its last few events so it does not repeat them.
+      </p>
+    </div>
+  );
+};
+
+export default DirectorEventLibraryPanel;
@@ -124,7 +124,7 @@ const DualResponseTab: React.FC<DualResponseTabProps> = ({ settings, onLiveUpdat
                     <option value="">Use default model</option>
                     {models.map(model => (
                       <option key={model.id} value={model.id}>
-                        {model.name} ({model.provider})
+                        {model.name} ({model.endpointName || model.provider})
                       </option>
                     ))}
                   </select>
@@ -145,7 +145,7 @@ const DualResponseTab: React.FC<DualResponseTabProps> = ({ settings, onLiveUpdat
                     <option value="">Use default model</option>
                     {models.map(model => (
                       <option key={model.id} value={model.id}>
-                        {model.name} ({model.provider})
+                        {model.name} ({model.endpointName || model.provider})
                       </option>
                     ))}
                   </select>
@@ -5,6 +5,7 @@ import { SliderInput, SelectInput, NumberInput, CheckboxInput } from '../common/
 import { PlusIcon } from '../../icons/PlusIcon';
 import { TrashIcon } from '../../icons/TrashIcon';
 import { EyeIcon } from '../../icons/EyeIcon';
+import CustomEndpointsPanel from './CustomEndpointsPanel';
 
 interface GeneralTabProps {
   settings: Settings;
@@ -13,7 +14,7 @@ interface GeneralTabProps {
 
 const GeneralTab: React.FC<GeneralTabProps> = ({ settings, onLiveUpdate }) => {
   const [showAllKeys, setShowAllKeys] = useState(false);
-  const [activeApiTab, setActiveApiTab] = useState<'gemini' | 'openrouter' | 'xai'>('gemini');
+  const [activeApiTab, setActiveApiTab] = useState<'gemini' | 'openrouter' | 'xai' | 'custom'>('gemini');
   
   // Parse keys - keep empty strings to maintain UI state
   const getKeys = () => {
@@ -108,6 +109,20 @@ const GeneralTab: React.FC<GeneralTabProps> = ({ settings, onLiveUpdate }) => {
                         <span className="text-xs">XAI</span>
                     </span>
                 </button>
+                <button
+                    type="button"
+                    onClick={() => setActiveApiTab('custom')}
+                    className={`flex-1 px-2 sm:px-4 py-2.5 sm:py-3 text-xs font-medium transition-colors ${
+                        activeApiTab === 'custom'
+                            ? 'bg-primary text-white border-b-2 border-primary'
+                            : 'text-text-secondary hover:text-text-primary hover:bg-bg-tertiary'
+                    }`}
+                >
+                    <span className="flex items-center justify-center gap-1">
+                        <span className="text-sm">🖥️</span>
+                        <span className="text-xs">Custom</span>
+                    </span>
+                </button>
             </div>
 
             {/* Tab Content */}
@@ -232,6 +247,11 @@ const GeneralTab: React.FC<GeneralTabProps> = ({ settings, onLiveUpdate }) => {
                         </div>
                     </div>
                 )}
+
+                {/* Custom Endpoints Tab */}
+                {activeApiTab === 'custom' && (
+                    <CustomEndpointsPanel settings={settings} onLiveUpdate={onLiveUpdate} />
+                )}
             </div>
         </div>
 
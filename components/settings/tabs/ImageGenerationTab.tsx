@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import type { Settings, ADetailerUnit, LoraConfig } from '../../../types';
 import { SelectInput, NumberInput, CheckboxInput, SliderInput, TextInput, TextareaInput, getStatusIndicator } from '../common/SettingsInputComponents';
 import { generateUUID } from '../../../utils/uuid';
+import ComfyUIWorkflowsPanel from './ComfyUIWorkflowsPanel';
 
 interface ImageGenerationTabProps {
   settings: Settings;
@@ -464,6 +465,7 @@ const ImageGenerationTab: React.FC<ImageGenerationTabProps> = ({
                              </div>
                         </div>
                     )}
+                    <ComfyUIWorkflowsPanel settings={settings} onLiveUpdate={onLiveUpdate} />
                 </div>
             )}
             
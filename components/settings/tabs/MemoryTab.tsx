@@ -62,7 +62,7 @@ const MemoryTab: React.FC<MemoryTabProps> = ({
     
     const newRagSettings = {
         ...settings.rag,
-        [name]: isCheckbox ? isChecked : (type === 'number' ? parseInt(value, 10) : value),
+        [name]: isCheckbox ? isChecked : (type === 'number' ? parseInt(value, 10) : type === 'range' ? parseFloat(value) : value),
     };
     const newSettings = { ...settings, rag: newRagSettings };
     onLiveUpdate(newSettings);
@@ -418,6 +418,29 @@ const MemoryTab: React.FC<MemoryTabProps> = ({
             name="topK" helpText="Number of relevant text chunks to retrieve from memory."
             dataType="integer"
           />
+          <CheckboxInput
+            label="Hybrid Search (Keywords + Vectors)"
+            name="hybridSearch"
+            checked={settings.rag.hybridSearch}
+            onChange={(e) => handleRagInputChange(e)}
+            helpText="Also matches exact words like names, places and invented terms, which embeddings often miss. Keeps recalling memories by keyword while no embedding engine is connected."
+          />
+          {settings.rag.hybridSearch && (
+            <div className="space-y-4 pl-4 border-l-2 border-color">
+              <SliderInput
+                label="Vector Weight"
+                value={settings.rag.vectorWeight} min={0} max={2} step={0.1}
+                onChange={(e) => handleRagInputChange(e as React.ChangeEvent<HTMLInputElement>)}
+                name="vectorWeight" helpText="How much semantic similarity counts when both rankings are combined."
+              />
+              <SliderInput
+                label="Keyword Weight"
+                value={settings.rag.keywordWeight} min={0} max={2} step={0.1}
+                onChange={(e) => handleRagInputChange(e as React.ChangeEvent<HTMLInputElement>)}
+                name="keywordWeight" helpText="How much exact word matches count. Raise it if memories about specific characters are missed."
+              />
+            </div>
+          )}
           <NumberInput
             label="Chunk Size (characters)"
             name="chunkSize"
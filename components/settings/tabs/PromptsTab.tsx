@@ -1,20 +1,31 @@
 import React, { useState, useMemo } from 'react';
-import type { Settings, Prompt } from '../../../types';
+import type { Settings, Prompt, Model } from '../../../types';
 import { DEFAULT_PROMPTS } from '../../../constants';
-import { SegmentedControl } from '../common/SettingsInputComponents';
 
 interface PromptsTabProps {
   settings: Settings;
   onLiveUpdate: (newSettings: Settings) => void;
+  models: Model[];
 }
 
-const PromptsTab: React.FC<PromptsTabProps> = ({ settings, onLiveUpdate }) => {
+const PromptsTab: React.FC<PromptsTabProps> = ({ settings, onLiveUpdate, models }) => {
   const [selectedPromptId, setSelectedPromptId] = useState<string | null>(settings.prompts[0]?.id || null);
 
   const selectedPrompt = useMemo(() => {
     return settings.prompts.find(p => p.id === selectedPromptId);
   }, [selectedPromptId, settings.prompts]);
 
+  // Group models like the model selector does, with custom endpoints listed under their own name.
+  const groupedModels = useMemo(() => {
+    return models.reduce((acc, model) => {
+      const group = model.provider === 'Custom' ? (model.endpointName || 'Custom') : model.provider;
+      (acc[group] = acc[group] || []).push(model);
+      return acc;
+    }, {} as Record<string, Model[]>);
+  }, [models]);
+
+  const isKnownModel = selectedPrompt ? models.some(m => m.id === selectedPrompt.model) : true;
+
   const handlePromptChange = (field: keyof Omit<Prompt, 'id' | 'name' | 'description'>, value: string) => {
     if (!selectedPromptId) return;
     const updatedPrompts = settings.prompts.map(p => 
@@ -61,17 +72,24 @@ const PromptsTab: React.FC<PromptsTabProps> = ({ settings, onLiveUpdate }) => {
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium mb-1">Model</label>
-                <SegmentedControl 
-                    name="model"
+                <select
                     value={selectedPrompt.model}
-                    options={[
-                        { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
-                        { value: 'gemini-2.5-flash-lite', label: 'Flash Lite' }
-                    ]}
                     onChange={(e) => handlePromptChange('model', e.target.value)}
-                />
+                    className="w-full px-3 py-2 border rounded-lg text-sm modal-input"
+                >
+                    {!isKnownModel && (
+                        <option value={selectedPrompt.model}>{selectedPrompt.model} (not loaded)</option>
+                    )}
+                    {(Object.entries(groupedModels) as [string, Model[]][]).map(([group, groupModels]) => (
+                        <optgroup key={group} label={group}>
+                            {groupModels.map(model => (
+                                <option key={model.id} value={model.id}>{model.name}</option>
+                            ))}
+                        </optgroup>
+                    ))}
+                </select>
                  <p className="text-xs text-text-secondary mt-1">
-                    'Flash' provides higher quality, while 'Flash Lite' is faster and cheaper.
+                    Any configured model can run this prompt. 'Flash Lite' or a small local model is fastest; if the chosen provider has no key, your default chat model is used instead.
                  </p>
               </div>
               <div>
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import type { Settings, StoryArcLevel } from '../../../types';
+import type { Settings, StoryArcLevel, StoryArcMilestone } from '../../../types';
+import { STORY_ARC_MILESTONE_TYPES } from '../../../services/storyArcProgress';
 import { generateWorldStoryArcs } from '../../../services/aiService';
 import { useNotifications } from '../../../contexts/NotificationContext';
 import { generateUUID } from '../../../utils/uuid';
@@ -32,6 +33,69 @@ const StoryArcsTab: React.FC<StoryArcsTabProps> = ({ settings, onLiveUpdate }) =
     onLiveUpdate({ ...settings, storyArcs: { ...settings.storyArcs, levels: updatedLevels } });
   };
 
+  const updateLevel = (id: string, patch: Partial<StoryArcLevel>) => {
+    const updatedLevels = settings.storyArcs.levels.map(level => level.id === id ? { ...level, ...patch } : level);
+    onLiveUpdate({ ...settings, storyArcs: { ...settings.storyArcs, levels: updatedLevels } });
+  };
+
+  const updateMilestone = (level: StoryArcLevel, milestoneId: string, patch: Partial<StoryArcMilestone>) => {
+    updateLevel(level.id, { milestones: (level.milestones || []).map(m => m.id === milestoneId ? { ...m, ...patch } : m) });
+  };
+
+  const handleAddMilestone = (level: StoryArcLevel) => {
+    updateLevel(level.id, { milestones: [...(level.milestones || []), { id: generateUUID(), type: 'event', text: '' }] });
+  };
+
+  const handleRemoveMilestone = (level: StoryArcLevel, milestoneId: string) => {
+    updateLevel(level.id, { milestones: (level.milestones || []).filter(m => m.id !== milestoneId) });
+  };
+
+  const renderMilestoneFields = (level: StoryArcLevel, milestone: StoryArcMilestone) => {
+    const inputClass = 'p-1 border rounded-md modal-input text-sm';
+    const comparison = (
+      <select value={milestone.comparison || 'atLeast'} onChange={e => updateMilestone(level, milestone.id, { comparison: e.target.value as StoryArcMilestone['comparison'] })} className={inputClass}>
+        <option value="atLeast">at least</option>
+        <option value="atMost">at most</option>
+      </select>
+    );
+    const value = (min: number) => (
+      <input
+        type="number" min={min} max={1} step={0.05}
+        value={milestone.value ?? 0}
+        onChange={e => updateMilestone(level, milestone.id, { value: Math.max(min, Math.min(1, parseFloat(e.target.value) || 0)) })}
+        className={`w-20 ${inputClass}`}
+      />
+    );
+    switch (milestone.type) {
+      case 'sceneTension':
+        return <>{comparison}{value(0)}</>;
+      case 'relationship':
+        return (
+          <>
+            <input type="text" value={milestone.fromCharacter || ''} onChange={e => updateMilestone(level, milestone.id, { fromCharacter: e.target.value })} className={`w-28 ${inputClass}`} placeholder="Character" />
+            <select value={milestone.metric || 'trust'} onChange={e => updateMilestone(level, milestone.id, { metric: e.target.value as StoryArcMilestone['metric'] })} className={inputClass}>
+              <option value="trust">trust</option>
+              <option value="affinity">affinity</option>
+              <option value="forgiveness">forgiveness</option>
+            </select>
+            <span className="text-xs text-text-secondary">toward</span>
+            <input type="text" value={milestone.toCharacter || ''} onChange={e => updateMilestone(level, milestone.id, { toCharacter: e.target.value })} className={`w-28 ${inputClass}`} placeholder="Character" />
+            {comparison}{value(-1)}
+          </>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={milestone.text || ''}
+            onChange={e => updateMilestone(level, milestone.id, { text: e.target.value })}
+            className={`flex-1 min-w-[12rem] ${inputClass}`}
+            placeholder={milestone.type === 'event' ? 'e.g., The crew discovers the ship is alive' : milestone.type === 'fact' ? 'Text of the fact' : 'Text of the directive goal'}
+          />
+        );
+    }
+  };
+
   const handleAddStoryArc = () => {
     const levels = settings.storyArcs.levels;
     const newLevel: StoryArcLevel = {
@@ -85,7 +149,8 @@ const StoryArcsTab: React.FC<StoryArcsTabProps> = ({ settings, onLiveUpdate }) =
                 <li><strong>Option 2 - Manual Creation:</strong> Click "Add Level" to manually create each story progression level</li>
                 <li><strong>Configure Levels:</strong> Each level has a system prompt that defines the narrative at that stage</li>
                 <li><strong>Set Transitions:</strong> "Messages to reach NEXT level" controls when the story advances</li>
-                <li><strong>Apply:</strong> Story arcs automatically progress as your conversation grows, creating dynamic narrative evolution</li>
+                <li><strong>Milestones (optional):</strong> Advance on story events instead - facts established, directives completed, scene tension or relationship thresholds. You confirm each level-up</li>
+                <li><strong>Apply:</strong> Story arcs automatically progress as your conversation grows, creating dynamic narrative evolution. Change the level by hand in the conversation statistics</li>
             </ol>
          </div>
 
@@ -129,12 +194,42 @@ const StoryArcsTab: React.FC<StoryArcsTabProps> = ({ settings, onLiveUpdate }) =
                     <h4 className="font-bold text-accent-primary">Level {level.level}</h4>
                     <div>
                         <label className="block text-xs font-medium text-text-secondary mb-1">Messages to reach NEXT level</label>
-                        <input type="number" value={level.messagesToNext} onChange={e => handleStoryArcChange(level.id, 'messagesToNext', Number(e.target.value))} className="w-32 p-1 border rounded-md modal-input text-sm" />
+                        <input type="number" value={level.messagesToNext} onChange={e => handleStoryArcChange(level.id, 'messagesToNext', Number(e.target.value))} disabled={!!level.milestones?.length} className="w-32 p-1 border rounded-md modal-input text-sm disabled:opacity-50" />
+                        {!!level.milestones?.length && <p className="text-xs text-text-secondary mt-1">Not used: this level advances on its milestones.</p>}
                     </div>
                     <div>
                         <label className="block text-xs font-medium text-text-secondary mb-1">System Prompt for this Level</label>
                         <textarea value={level.systemPrompt} onChange={e => handleStoryArcChange(level.id, 'systemPrompt', e.target.value)} rows={3} className="w-full p-2 border rounded-lg text-sm modal-input" placeholder="e.g., The world has grown darker..."/>
                     </div>
+                    <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                            <label className="text-xs font-medium text-text-secondary">Milestones to reach NEXT level</label>
+                            {(level.milestones?.length || 0) > 1 && (
+                                <select value={level.milestoneMode || 'all'} onChange={e => updateLevel(level.id, { milestoneMode: e.target.value as StoryArcLevel['milestoneMode'] })} className="p-1 border rounded-md modal-input text-xs">
+                                    <option value="all">All of them</option>
+                                    <option value="any">Any one</option>
+                                </select>
+                            )}
+                        </div>
+                        {(level.milestones || []).map(milestone => (
+                            <div key={milestone.id} className="flex flex-wrap items-center gap-2">
+                                <select
+                                    value={milestone.type}
+                                    onChange={e => updateMilestone(level, milestone.id, { type: e.target.value as StoryArcMilestone['type'] })}
+                                    className="p-1 border rounded-md modal-input text-sm"
+                                >
+                                    {STORY_ARC_MILESTONE_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                                </select>
+                                {renderMilestoneFields(level, milestone)}
+                                <button onClick={() => handleRemoveMilestone(level, milestone.id)} className="p-1 text-text-secondary hover:text-red-500" title="Remove milestone">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        <button onClick={() => handleAddMilestone(level)} className="flex items-center gap-1 text-xs text-accent-primary hover:underline">
+                            <PlusIcon className="w-3 h-3" /> Add Milestone
+                        </button>
+                    </div>
                 </div>
             ))}
              <button onClick={handleAddStoryArc} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-semibold text-accent-primary bg-accent-primary/10 rounded-lg hover:bg-accent-primary/20 transition-colors">
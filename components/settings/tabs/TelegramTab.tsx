@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import type { Settings } from '../../../types';
 import * as db from '../../../services/db';
 import { sendMessage as sendTelegramMessage } from '../../../services/telegramService';
-import { CheckboxInput, getStatusIndicator } from '../common/SettingsInputComponents';
+import { CheckboxInput, SelectInput, getStatusIndicator } from '../common/SettingsInputComponents';
 import { LoaderIcon } from '../../icons/LoaderIcon';
 
 interface TelegramTabProps {
@@ -30,7 +30,7 @@ const TelegramTab: React.FC<TelegramTabProps> = ({
   const [broadcastMessage, setBroadcastMessage] = useState('');
   const [isBroadcasting, setIsBroadcasting] = useState(false);
 
-  const handleTelegramInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleTelegramInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     const isCheckbox = type === 'checkbox';
     const isChecked = isCheckbox ? (e.target as HTMLInputElement).checked : undefined;
@@ -85,7 +85,7 @@ const TelegramTab: React.FC<TelegramTabProps> = ({
           <span className="px-2 py-0.5 text-xs font-bold bg-yellow-500/20 text-yellow-600 dark:text-yellow-400 rounded-full">BETA</span>
         </div>
         <p className="text-sm text-text-secondary -mt-4">
-            Connect a Telegram bot to chat with your setup from anywhere. The browser tab must remain open for the bot to function.
+            Connect a Telegram bot to chat with your setup from anywhere. With polling, the browser tab must remain open for the bot to function; the local relay keeps receiving messages while it is closed.
         </p>
         <div className="p-3 bg-yellow-50/50 dark:bg-yellow-900/10 border border-yellow-200 dark:border-yellow-800 rounded-lg">
           <p className="text-sm text-yellow-800 dark:text-yellow-200">
@@ -99,7 +99,7 @@ const TelegramTab: React.FC<TelegramTabProps> = ({
                 name="enabled"
                 checked={settings.telegram.enabled}
                 onChange={handleTelegramInputChange}
-                helpText="Allows the application to poll for messages from your Telegram bot."
+                helpText="Allows the application to receive and answer messages sent to your Telegram bot."
             />
             <div className={`space-y-4 ${!settings.telegram.enabled ? 'opacity-50 pointer-events-none' : ''}`}>
                 <div>
@@ -140,6 +140,34 @@ const TelegramTab: React.FC<TelegramTabProps> = ({
                         Comma-separated list of Telegram Chat IDs to respond to. Leave empty to respond to all chats. Find your ID by talking to <a href="https://t.me/userinfobot" target="_blank" rel="noopener noreferrer" className="text-accent-primary hover:underline">@userinfobot</a>.
                     </p>
                 </div>
+                <SelectInput
+                    label="Receive Messages Via"
+                    name="transport"
+                    value={settings.telegram.transport}
+                    onChange={handleTelegramInputChange}
+                    options={[
+                        { value: 'polling', label: 'Polling from this tab' },
+                        { value: 'relay', label: 'Local webhook relay' },
+                    ]}
+                    helpText="Polling needs no setup but stops when the tab sleeps or closes. The relay receives Telegram webhooks, queues them while the tab is away and can answer on its own (npm run relay, see relay/README.md)."
+                />
+                {settings.telegram.transport === 'relay' && (
+                    <div>
+                        <label htmlFor="relayUrl" className="block text-sm font-medium">Relay URL</label>
+                        <input
+                            type="text"
+                            id="relayUrl"
+                            name="relayUrl"
+                            value={settings.telegram.relayUrl}
+                            onChange={handleTelegramInputChange}
+                            className="mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 modal-input"
+                            placeholder="http://localhost:8787"
+                        />
+                        <p className="text-xs text-text-secondary mt-1">
+                            Address of the relay process. Bot API calls from this app are sent through it as well.
+                        </p>
+                    </div>
+                )}
             </div>
         </div>
          <div className="space-y-4 p-4 border rounded-lg border-color">
@@ -1,4 +1,4 @@
-import type { Model, Settings, ADetailerUnit, Prompt } from './types';
+import type { Model, Settings, ADetailerUnit, Prompt, DirectorEventTemplate } from './types';
 import { generateUUID } from './utils/uuid';
 
 export const INITIAL_MODELS: Model[] = [
@@ -63,6 +63,8 @@ export const PROMPT_IDS = {
   NARRATIVE_DIRECTIVE_INTENT: 'narrative_directive_intent',
   // New: Goal-slip decision gate
   GOAL_SLIP_DECISION: 'goal_slip_decision',
+  // New: Splits a directive's goal into milestones
+  DIRECTIVE_DECOMPOSITION: 'directive_decomposition',
   // chatEnhancers.ts
   AUTOPILOT_RESPONSE: 'autopilot_response',
   PROMPT_POLISH: 'prompt_polish',
@@ -233,6 +235,29 @@ If the goal is: "To discover their father's true identity"
 Analyze the goal, context, and previous actions. Generate a JSON object describing the most impactful and logical internal intent that drives '{{charName}}' **directly** toward their goal. Your analysis must be precise and goal-oriented.
 
 **CRITICAL: Your entire response must be in the same language as the user's input.** If the conversation is in Arabic, respond in Arabic. If in English, respond in English. Match the language exactly.`
+  },
+  {
+    id: PROMPT_IDS.DIRECTIVE_DECOMPOSITION,
+    name: "Directive Decomposition",
+    description: "Breaks a Will Engine goal into ordered milestones with completion criteria.",
+    model: 'gemini-2.5-flash',
+    template: `You are the planner of the "Will Engine", which steers a role-play character toward a long-term goal. Long arcs cannot happen in one step: a rival does not become an ally in a single scene. Break the goal into the intermediate beats the story has to pass through.
+
+Rules:
+- 3 to 6 milestones, from the first believable step to the goal itself. The last milestone is the goal being reached.
+- Each milestone is a story beat that can be observed in the conversation, not an inner feeling nobody can see.
+- "completionCriteria" says concretely what must happen in the story for the beat to count as reached. Verification will judge the conversation against it.
+- Milestones are in order. "after" lists the numbers (1-based) of the milestones that must be reached first. Use an empty list only for the first milestone, or for beats that can genuinely happen in any order.
+- Build on what already happened in the recent conversation, if anything.
+- Never plan actions, words or feelings of the user's character.
+- Write in the same language as the goal.
+
+Return JSON only:
+{
+  "milestones": [
+    { "title": "<short beat>", "completionCriteria": "<observable condition>", "after": [<numbers>] }
+  ]
+}`
   },
   {
     id: PROMPT_IDS.AUTOPILOT_RESPONSE,
@@ -1557,6 +1582,59 @@ Return ONLY the prompt text in English. No preamble, no explanations, no JSON, n
 ];
 
 
+// Starting Director AI event library. IDs are fixed so cooldowns survive edits to the text.
+export const DEFAULT_DIRECTOR_EVENT_TEMPLATES: DirectorEventTemplate[] = [
+  {
+    id: 'director-ambush', name: 'Ambush', enabled: true, weight: 2, cooldown: 20,
+    description: 'Hostile forces strike without warning, forcing an immediate reaction.',
+    tags: ['danger', 'combat'],
+    prerequisites: { maxTension: 0.7 },
+  },
+  {
+    id: 'director-betrayal', name: 'Betrayal', enabled: true, weight: 1, cooldown: 40,
+    description: 'Someone the characters rely on reveals divided loyalties or acts against them.',
+    tags: ['drama', 'relationships'],
+    prerequisites: { minTension: 0.3 },
+  },
+  {
+    id: 'director-weather', name: 'Weather Change', enabled: true, weight: 3, cooldown: 12,
+    description: 'The weather turns in a way that changes what the characters can do or where they can go.',
+    tags: ['environment'],
+  },
+  {
+    id: 'director-arrival', name: 'Arrival', enabled: true, weight: 3, cooldown: 15,
+    description: 'A new or long-absent character arrives with news, a request or an agenda.',
+    tags: ['character', 'social'],
+  },
+  {
+    id: 'director-discovery', name: 'Discovery', enabled: true, weight: 3, cooldown: 15,
+    description: 'The characters find an object, clue or place that opens a new thread.',
+    tags: ['mystery', 'exploration'],
+  },
+  {
+    id: 'director-complication', name: 'Complication', enabled: true, weight: 2, cooldown: 10,
+    description: 'The current plan runs into an obstacle: something breaks, is missing or goes wrong.',
+    tags: ['obstacle'],
+  },
+  {
+    id: 'director-quiet-moment', name: 'Quiet Moment', enabled: true, weight: 2, cooldown: 15,
+    description: 'A pause in the action invites reflection, a confession or a small kindness.',
+    tags: ['calm', 'relationships'],
+    prerequisites: { maxTension: 0.4 },
+  },
+  {
+    id: 'director-rumor', name: 'Rumor', enabled: true, weight: 2, cooldown: 20,
+    description: 'A rumor or overheard conversation hints at danger or opportunity elsewhere.',
+    tags: ['hook', 'social'],
+  },
+];
+
+// Lore limits for settings saved before recursion and the global budget existed, so their lore is not cut until the user sets them.
+export const UNBOUNDED_LORE_SETTINGS: Settings['lore'] = {
+  recursionDepth: 0,
+  tokenBudget: null,
+};
+
 export const DEFAULT_SETTINGS: Settings = {
   theme: 'dark',
   customThemeColors: {
@@ -1611,6 +1689,7 @@ export const DEFAULT_SETTINGS: Settings = {
   geminiApiKeys: '',
   openRouterApiKey: '',
   xaiApiKey: '',
+  customEndpoints: [],
   temperature: 0.85,
   topK: 40,
   topP: 0.95,
@@ -1720,6 +1799,9 @@ This is narrative art. Your purpose is to create compelling, psychologically rea
     topK: 8,
     chunkSize: 400,
     injectMode: 'user_message',
+    hybridSearch: true,
+    vectorWeight: 1,
+    keywordWeight: 1,
   },
   comfyUI: {
     url: 'http://127.0.0.1:8188',
@@ -1781,6 +1863,23 @@ This is narrative art. Your purpose is to create compelling, psychologically rea
     automatic: true,
     frequency: 3, // every 3 user/model pairs
     scanDepth: 12,
+    eventLibrary: DEFAULT_DIRECTOR_EVENT_TEMPLATES,
+  },
+  tokenizerAssignments: {
+    'openai': 'o200k_base',
+    'openai-legacy': 'cl100k_base',
+    'gemini': 'gemini-estimate',
+    'claude': 'cl100k_base',
+    'llama': 'cl100k_base',
+    'mistral': 'cl100k_base',
+    'qwen': 'cl100k_base',
+    'grok': 'cl100k_base',
+    'deepseek': 'cl100k_base',
+    'other': 'cl100k_base',
+  },
+  lore: {
+    recursionDepth: 2,
+    tokenBudget: 2000,
   },
   livingLore: {
     enabled: false,
@@ -1793,6 +1892,8 @@ This is narrative art. Your purpose is to create compelling, psychologically rea
     isConnected: false,
     botUsername: '',
     chatWhitelist: '',
+    transport: 'polling',
+    relayUrl: 'http://localhost:8787',
   },
   // New: Add default for the Story Arcs feature.
   storyArcs: {
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { Conversation, Message, Model, Settings, Character, UserPersona, Lorebook, RagMemory, IdentityProfile, NarrativeDirective, SongGenerationData } from '../types';
+import type { Conversation, Message, MessageSwipe, Model, Settings, Character, UserPersona, Lorebook, RagMemory, IdentityProfile, NarrativeDirective, SongGenerationData, GalleryImage, ImageGenerator } from '../types';
 import { 
     streamChatResponse, 
     streamDualChatResponse,
@@ -7,33 +7,39 @@ import {
     generateSceneBackgroundPrompt,
     getDirectorSuggestion, 
     getLivingLoreSuggestion, 
+    getLiveCharacterUpdateAsJson,
     getCustomDirectorSuggestion,
     streamAutopilotResponse,
     streamPromptPolish,
     summarizeMessageContent,
-    generateConversationTitle,
-    updateConversationState,
-    updateConversationStateV2,
     streamForeshadowingMessages,
     impersonateScene,
     removeFiller,
     editMessageWithInstruction,
-    verifyDirectiveProgress,
-    analyzeDirectiveContext,
-    analyzeDirectorNeed,
-    analyzeLivingLoreSignificance,
-    analyzeEmotionalDynamics,
     generateSongFromContext
 } from '../services/aiService';
-import { generateImage as generateComfyUIImage } from '../services/comfyuiService';
-import { generateImage as generateSDImage } from '../services/sdwebuiService';
+import { generateImage as generateComfyUIImage, upscaleImage as upscaleComfyUIImage } from '../services/comfyuiService';
+import { resolveComfyUIWorkflow } from '../services/comfyuiWorkflows';
+import { getCharactersInScene, resolveImageAppearance, type ImageAppearance } from '../services/characterAppearance';
+import { generateImage as generateSDImage, upscaleImage as upscaleSDImage } from '../services/sdwebuiService';
 import { generateImage as generateHFImage } from '../services/huggingfaceService';
 import { generateImage as generateXAIImage } from '../services/xaiImageService';
-import { getRagMetadataForCollection, saveConversation } from '../services/db';
+import { getRagMetadataForCollection, saveConversation, saveGalleryImage } from '../services/db';
+import { GENERATOR_LABELS, createGalleryImage, getGenerationSettingsSnapshot, getUpscaler, isGeneratorReady, isImageMessage, randomSeed, withImageOverrides } from '../services/imageGallery';
 import { deleteMemories, addMessagesToCollection } from '../services/ragService';
+import { getConversationLorebooks } from '../services/ai/promptBuilder';
+import { getMessageSwipes, selectMessageSwipe, appendMessageSwipe, updateActiveSwipeContent } from '../services/conversationBranchService';
 import { generateUUID } from '../utils/uuid';
 import { useNotifications } from '../contexts/NotificationContext';
 import { DEFAULT_RESPONSE_CONTROLS } from '../constants';
+import { createAgentScheduler, type AgentScheduler } from '../services/agentScheduler';
+import { POST_RESPONSE_AGENTS } from '../services/postResponseAgents';
+import { rollBackStateToMessages } from '../services/consciousStateHistory';
+import { getRecentDirectorEvents, pickEventTemplate, recordDirectorEvent } from '../services/directorEvents';
+import { queueLivingLoreProposal } from '../services/livingLoreQueue';
+import { getConversationCharacters } from '../services/characterRevisions';
+import { getStoryArcLevel, usesMilestones } from '../services/storyArcProgress';
+import { buildFactReminder, updateFactContent } from '../services/keyFacts';
 
 /**
  * Interface for the temporary, per-response control settings.
@@ -53,6 +59,9 @@ export interface ResponseControlSettings {
   styleBalance?: 'more_narration' | 'balanced' | 'more_dialogue'; // narration vs dialogue balance
 }
 
+// Scene backgrounds try the image generators in this order.
+const BACKGROUND_GENERATORS: ImageGenerator[] = ['comfyui', 'sdwebui', 'huggingface', 'xai'];
+
 /**
  * Props for the useChatHandler hook.
  * This includes all dependencies needed from the parent component.
@@ -95,7 +104,6 @@ export const useChatHandler = (props: ChatHandlerProps) => {
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [isSceneImpersonating, setIsSceneImpersonating] = useState(false);
   const [isImpersonatedInput, setIsImpersonatedInput] = useState(false);
-  const [directorAICounter, setDirectorAICounter] = useState(0);
   // New: State for the Response Control Panel (default: pin enabled)
   const [responseControls, setResponseControls] = useState<ResponseControlSettings>(DEFAULT_RESPONSE_CONTROLS);
   // New: State for generation timer and abort controller.
@@ -111,16 +119,55 @@ export const useChatHandler = (props: ChatHandlerProps) => {
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { addNotification } = useNotifications();
+  const addNotificationRef = useRef(addNotification);
+  addNotificationRef.current = addNotification;
   
   // Use a ref to hold the latest conversation state to avoid stale closures in async callbacks.
   const conversationRef = useRef(conversation);
-  // Ref to track if Director AI is currently generating a suggestion (prevents duplicate calls)
-  const isDirectorAIGenerating = useRef(false);
+  const onConversationUpdateRef = useRef(onConversationUpdate);
+  onConversationUpdateRef.current = onConversationUpdate;
   
   useEffect(() => {
     conversationRef.current = conversation;
   }, [conversation]);
 
+  // Post-response agents (title, Conscious State, Living Lore, Will Engine, Story Arcs, Director AI).
+  // Their changes are applied to conversationRef one at a time, so concurrent agents don't overwrite each other.
+  const agentSchedulerRef = useRef<AgentScheduler | null>(null);
+  if (!agentSchedulerRef.current) {
+    const commitToConversation = async (conversationId: string, update: (conversation: Conversation) => Conversation) => {
+      const current = conversationRef.current;
+      if (!current || current.id !== conversationId) return null;
+      const updated = update(current);
+      conversationRef.current = updated;
+      onConversationUpdateRef.current(updated);
+      await saveConversation(updated);
+      return updated;
+    };
+    agentSchedulerRef.current = createAgentScheduler({
+      getConversation: (conversationId) => conversationRef.current?.id === conversationId ? conversationRef.current : null,
+      commit: commitToConversation,
+      // Actions only apply while their conversation is open.
+      notify: (notification, conversationId) => addNotificationRef.current({
+        ...notification,
+        actions: notification.actions?.map(action => ({
+          label: action.label,
+          onClick: () => { commitToConversation(conversationId, action.update); },
+        })),
+      }),
+    });
+    POST_RESPONSE_AGENTS.forEach(agent => agentSchedulerRef.current!.register(agent));
+  }
+  const agentScheduler = agentSchedulerRef.current;
+
+  // Agents still working on a conversation the user left are cancelled.
+  useEffect(() => {
+    const convId = conversation?.id;
+    return () => {
+      if (convId) agentScheduler.cancel(convId);
+    };
+  }, [conversation?.id, agentScheduler]);
+
   // Persist Response Controls per-conversation (localStorage)
   useEffect(() => {
     const convId = conversation?.id;
@@ -166,6 +213,55 @@ export const useChatHandler = (props: ChatHandlerProps) => {
 
   // --- Core Logic Callbacks (memoized for performance) ---
 
+  // Appearance profiles of the characters in an image's scene: named in the prompt or the last messages.
+  const getSceneAppearance = useCallback((prompt: string, currentConversation: Conversation) => {
+    const characters = getConversationCharacters(currentConversation, allCharacters);
+    const recentTexts = currentConversation.messages.slice(-3).map(m => m.content);
+    return resolveImageAppearance(getCharactersInScene(characters, [prompt, ...recentTexts]));
+  }, [allCharacters]);
+
+  // Runs one image generator for a conversation, with the scene's appearance unless the gallery passes its own.
+  const generateImageWith = useCallback(async (
+    generator: ImageGenerator,
+    prompt: string,
+    currentConversation: Conversation,
+    onProgress: (progress: string) => void,
+    appearance: ImageAppearance | null = getSceneAppearance(prompt, currentConversation)
+  ): Promise<{ dataUrl: string; seed?: number; workflowName?: string }> => {
+    switch (generator) {
+      case 'comfyui': {
+        const { workflow, character } = resolveComfyUIWorkflow(settings.comfyUI, currentConversation, getConversationCharacters(currentConversation, allCharacters));
+        const result = await generateComfyUIImage(prompt, settings.comfyUI, onProgress, { workflow, referenceImage: character?.imageUrl, appearance });
+        return { dataUrl: result.dataUrl, seed: result.seed, workflowName: workflow?.name };
+      }
+      case 'sdwebui': {
+        const result = await generateSDImage(prompt, settings.stableDiffusion, onProgress, appearance);
+        return { dataUrl: result.dataUrl, seed: result.seed ?? appearance?.seed };
+      }
+      case 'huggingface':
+        return { dataUrl: await generateHFImage(prompt, settings.huggingFace, onProgress, appearance), seed: appearance?.seed };
+      case 'xai':
+        return { dataUrl: await generateXAIImage(prompt, settings, onProgress) };
+    }
+  }, [settings, allCharacters, getSceneAppearance]);
+
+  // Stores a generated image in the conversation's gallery with the prompt, seed and settings it was made with.
+  const saveToGallery = useCallback(async (
+    generator: ImageGenerator,
+    result: { dataUrl: string; seed?: number; workflowName?: string },
+    fields: Pick<GalleryImage, 'conversationId' | 'prompt' | 'kind' | 'messageId' | 'parentId'>
+  ): Promise<GalleryImage> => {
+    const image = createGalleryImage({
+      ...fields,
+      dataUrl: result.dataUrl,
+      generator,
+      seed: result.seed,
+      settings: getGenerationSettingsSnapshot(generator, settings, result.workflowName),
+    });
+    await saveGalleryImage(image);
+    return image;
+  }, [settings]);
+
   const runComfyUIImageGeneration = useCallback(async (prompt: string, currentConversation: Conversation) => {
     if (!settings.comfyUI.isConnected) {
         addNotification({ title: 'ComfyUI Not Connected', message: 'Please configure and connect to ComfyUI in the settings.', type: 'error' });
@@ -182,14 +278,15 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     onConversationUpdate(updatedConversation);
     
     try {
-        const { dataUrl } = await generateComfyUIImage(prompt, settings.comfyUI, (progress) => {
+        const result = await generateImageWith('comfyui', prompt, currentConversation, (progress) => {
             onConversationUpdate({ 
                 ...updatedConversation, 
                 messages: updatedConversation.messages.map(m => m.id === modelMessage.id ? { ...m, imageGenerationProgress: progress } : m)
             });
         });
+        const image = await saveToGallery('comfyui', result, { conversationId: currentConversation.id, messageId: modelMessage.id, prompt, kind: 'generated' });
         
-        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageUrl: dataUrl, imageGenerationProgress: 'Completed' };
+        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageId: image.id, imageGenerationProgress: 'Completed' };
         updatedConversation.messages[updatedConversation.messages.length - 1] = finalModelMessage;
 
     } catch (err: any) {
@@ -201,7 +298,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
         setIsStreaming(false);
         await saveConversation(updatedConversation);
     }
-  }, [settings.comfyUI, onConversationUpdate]);
+  }, [settings.comfyUI, onConversationUpdate, generateImageWith, saveToGallery]);
 
   const runSDImageGeneration = useCallback(async (prompt: string, currentConversation: Conversation) => {
     if (!settings.stableDiffusion.isConnected) {
@@ -219,14 +316,15 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     onConversationUpdate(updatedConversation);
     
     try {
-        const imageUrl = await generateSDImage(prompt, settings.stableDiffusion, (progress) => {
+        const result = await generateImageWith('sdwebui', prompt, currentConversation, (progress) => {
             onConversationUpdate({ 
                 ...updatedConversation, 
                 messages: updatedConversation.messages.map(m => m.id === modelMessage.id ? { ...m, imageGenerationProgress: progress } : m)
             });
         });
+        const image = await saveToGallery('sdwebui', result, { conversationId: currentConversation.id, messageId: modelMessage.id, prompt, kind: 'generated' });
         
-        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageUrl: imageUrl, imageGenerationProgress: 'Completed' };
+        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageId: image.id, imageGenerationProgress: 'Completed' };
         updatedConversation.messages[updatedConversation.messages.length - 1] = finalModelMessage;
 
     } catch (err: any) {
@@ -238,7 +336,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
         setIsStreaming(false);
         await saveConversation(updatedConversation);
     }
-  }, [settings.stableDiffusion, onConversationUpdate]);
+  }, [settings.stableDiffusion, onConversationUpdate, generateImageWith, saveToGallery]);
   
   const runHFImageGeneration = useCallback(async (prompt: string, currentConversation: Conversation) => {
     if (!settings.huggingFace.isConnected) {
@@ -256,14 +354,15 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     onConversationUpdate(updatedConversation);
     
     try {
-        const imageUrl = await generateHFImage(prompt, settings.huggingFace, (progress) => {
+        const result = await generateImageWith('huggingface', prompt, currentConversation, (progress) => {
             onConversationUpdate({ 
                 ...updatedConversation, 
                 messages: updatedConversation.messages.map(m => m.id === modelMessage.id ? { ...m, imageGenerationProgress: progress } : m)
             });
         });
+        const image = await saveToGallery('huggingface', result, { conversationId: currentConversation.id, messageId: modelMessage.id, prompt, kind: 'generated' });
         
-        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageUrl: imageUrl, imageGenerationProgress: 'Completed' };
+        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageId: image.id, imageGenerationProgress: 'Completed' };
         updatedConversation.messages[updatedConversation.messages.length - 1] = finalModelMessage;
 
     } catch (err: any) {
@@ -275,7 +374,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
         setIsStreaming(false);
         await saveConversation(updatedConversation);
     }
-  }, [settings.huggingFace, onConversationUpdate]);
+  }, [settings.huggingFace, onConversationUpdate, generateImageWith, saveToGallery]);
 
   const runXAIImageGeneration = useCallback(async (prompt: string, currentConversation: Conversation) => {
     if (!settings.xaiApiKey) {
@@ -293,14 +392,15 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     onConversationUpdate(updatedConversation);
     
     try {
-        const imageUrl = await generateXAIImage(prompt, settings, (progress) => {
+        const result = await generateImageWith('xai', prompt, currentConversation, (progress) => {
             onConversationUpdate({ 
                 ...updatedConversation, 
                 messages: updatedConversation.messages.map(m => m.id === modelMessage.id ? { ...m, imageGenerationProgress: progress } : m)
             });
         });
+        const image = await saveToGallery('xai', result, { conversationId: currentConversation.id, messageId: modelMessage.id, prompt, kind: 'generated' });
         
-        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageUrl: imageUrl, imageGenerationProgress: 'Completed' };
+        const finalModelMessage: Message = { ...modelMessage, isGeneratingImage: false, imageId: image.id, imageGenerationProgress: 'Completed' };
         updatedConversation.messages[updatedConversation.messages.length - 1] = finalModelMessage;
 
     } catch (err: any) {
@@ -312,7 +412,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
         setIsStreaming(false);
         await saveConversation(updatedConversation);
     }
-  }, [settings, onConversationUpdate]);
+  }, [settings, onConversationUpdate, generateImageWith, saveToGallery]);
 
   const handleInjectMessage = useCallback((message: Message) => {
       const conv = conversationRef.current;
@@ -324,7 +424,9 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     history: Message[], 
     currentConversation: Conversation,
     overrideSettings?: Partial<Pick<Settings, 'temperature' | 'topP'>>,
-    oneTimeInstruction?: string
+    oneTimeInstruction?: string,
+    // Variants of the turn being regenerated; the new response is added as the next swipe.
+    previousSwipes?: MessageSwipe[]
   ) => {
       const modelForThisConversation = selectedModel;
       const finalSettings = { ...settings, ...overrideSettings };
@@ -391,7 +493,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
       const foreshadowController = new AbortController();
       if (modelForThisConversation.id === 'gemini-2.5-pro' && finalSettings.geminiProThinkingMessages) {
           // Get active characters for context
-          const conversationCharactersForForeshadow = allCharacters.filter(char => currentConversation.characterIds?.includes(char.id));
+          const conversationCharactersForForeshadow = getConversationCharacters(currentConversation, allCharacters);
           
           streamForeshadowingMessages(
               historyForAI,
@@ -413,9 +515,9 @@ export const useChatHandler = (props: ChatHandlerProps) => {
           });
       }
 
-      const conversationCharacters = allCharacters.filter(char => currentConversation.characterIds?.includes(char.id));
-      const activeUserPersona = allUserPersonas.find(p => p.id === settings.activeUserPersonaId) || null;
-      const activeLorebooks = allLorebooks.filter(lb => currentConversation.lorebookIds?.includes(lb.id));
+      const conversationCharacters = getConversationCharacters(currentConversation, allCharacters);
+      const activeUserPersona = allUserPersonas.find(p => p.id === (currentConversation.userPersonaId || settings.activeUserPersonaId)) || null;
+      const activeLorebooks = getConversationLorebooks(currentConversation, conversationCharacters, allLorebooks);
       
       const onStatusUpdate = (status: string) => {
           const conv = conversationRef.current;
@@ -468,8 +570,13 @@ export const useChatHandler = (props: ChatHandlerProps) => {
                 const messages = [...currentConv.messages];
                 const lastMessage = messages[messages.length - 1];
                 if(lastMessage && lastMessage.id === thinkingMessage.id) {
-                    lastMessage.isThinking = false;
-                    lastMessage.content = `Sorry, I encountered an error. Please try again. \n\n**Details:** ${err.message}`;
+                    if (previousSwipes && previousSwipes.length > 0) {
+                        // Keep the earlier variants instead of replacing them with the error.
+                        messages[messages.length - 1] = selectMessageSwipe({ ...lastMessage, isThinking: false, swipes: previousSwipes }, previousSwipes.length - 1);
+                    } else {
+                        lastMessage.isThinking = false;
+                        lastMessage.content = `Sorry, I encountered an error. Please try again. \n\n**Details:** ${err.message}`;
+                    }
                     onConversationUpdate({ ...currentConv, messages });
                 }
               }
@@ -480,7 +587,14 @@ export const useChatHandler = (props: ChatHandlerProps) => {
             const latestConversation = conversationRef.current;
             if (!latestConversation) return;
 
-            const finalModelMessage: Message = { ...modelMessage, isThinking: false, content: fullResponseText.trim(), tokenCount: totalTokens };
+            let finalModelMessage: Message = { ...modelMessage, isThinking: false, content: fullResponseText.trim(), tokenCount: totalTokens };
+            if (previousSwipes && previousSwipes.length > 0) {
+                finalModelMessage = appendMessageSwipe(finalModelMessage, previousSwipes);
+            }
+            const willSyncToRag = settings.rag.enabled && !!latestConversation.ragCollectionName && !!fullResponseText.trim();
+            if (willSyncToRag && finalModelMessage.swipes) {
+                finalModelMessage.ragSyncedSwipeIndex = finalModelMessage.activeSwipeIndex;
+            }
             const finalMessages = latestConversation.messages.map(m => m.id === thinkingMessage.id ? finalModelMessage : m);
 
             let finalConversationState: Conversation = { ...latestConversation, messages: finalMessages };
@@ -489,26 +603,12 @@ export const useChatHandler = (props: ChatHandlerProps) => {
                 finalConversationState.narrativeDirectives = directivesToUpdate;
             }
             
+            conversationRef.current = finalConversationState;
             onConversationUpdate(finalConversationState);
-            
-            if (finalConversationState.messages.length === 2 && finalConversationState.title === 'New Conversation') {
-                generateConversationTitle(
-                    finalConversationState.messages[0].content,
-                    finalConversationState.messages[1].content
-                ).then(newTitle => {
-                    const conversationForTitleUpdate = conversationRef.current;
-                    if (conversationForTitleUpdate && conversationForTitleUpdate.id === finalConversationState.id) {
-                         const updatedConvWithTitle = { ...conversationForTitleUpdate, title: newTitle };
-                         onConversationUpdate(updatedConvWithTitle);
-                         saveConversation(updatedConvWithTitle);
-                    }
-                });
-            } else {
-                 await saveConversation(finalConversationState);
-            }
+            await saveConversation(finalConversationState);
             
             // Await RAG memory creation to prevent race conditions before next action.
-            if (settings.rag.enabled && finalConversationState.ragCollectionName && fullResponseText.trim()) {
+            if (willSyncToRag && finalConversationState.ragCollectionName) {
                 const lastUserMessage = historyForAI[historyForAI.length - 1];
                 await addMessagesToCollection(
                     finalConversationState.ragCollectionName,
@@ -522,324 +622,11 @@ export const useChatHandler = (props: ChatHandlerProps) => {
             setGenerationTime(0);
             setIsStreaming(false);
 
-            // Conscious State - Smart or Frequency Mode (Engine v1/v2/shadow)
-            const activeCharsForState = allCharacters.filter(char => finalConversationState.characterIds?.includes(char.id));
-            if (finalConversationState.consciousStateSettings?.enabled && activeCharsForState.length > 0) {
-                const { updateFrequency, scanDepth } = finalConversationState.consciousStateSettings;
-                const smartConfig = finalConversationState.smartSystemConfig?.consciousState;
-                const engineVersion = smartConfig?.engineVersion || 'v1';
-                const useSmartMode = smartConfig?.mode === 'smart';
-                
-                let shouldUpdate = false;
-                
-                if (useSmartMode) {
-                    // Smart Mode: Check emotional dynamics
-                    const recentMessages = finalConversationState.messages.slice(-8);
-                    try {
-                        const analysis = await analyzeEmotionalDynamics(
-                            recentMessages,
-                            finalConversationState.consciousState,
-                            activeCharsForState,
-                            settings
-                        );
-                        
-                        const threshold = smartConfig.emotionalChangeThreshold || 50;
-                        shouldUpdate = analysis.changeScore >= threshold;
-                        
-                        if (analysis.shouldUpdate && analysis.reason) {
-                            console.log(`[Conscious State] Emotional dynamics changed (score: ${analysis.changeScore}): ${analysis.reason}`);
-                        }
-                    } catch (err) {
-                        console.error("Failed to analyze emotional dynamics:", err);
-                    }
-                } else {
-                    // Frequency Mode: Traditional check every N messages
-                    const freq = smartConfig?.frequencyValue || updateFrequency;
-                    shouldUpdate = finalConversationState.messages.filter(m => m.role === 'user').length % freq === 0;
-                }
-                
-                if (shouldUpdate) {
-                    const recentMessages = finalConversationState.messages.slice(-scanDepth);
-
-                    if (engineVersion === 'v2') {
-                        // Use the new delta-based engine
-                        updateConversationStateV2(finalConversationState.consciousState || null, recentMessages, activeCharsForState, settings).then(newState => {
-                            const convToUpdate = conversationRef.current;
-                            if (convToUpdate && convToUpdate.id === finalConversationState.id) {
-                                const updatedConv = { ...convToUpdate, consciousState: newState };
-                                onConversationUpdate(updatedConv);
-                                saveConversation(updatedConv);
-                            }
-                        }).catch(err => {
-                            console.error("Failed to update conscious state (v2):", err);
-                        });
-                    } else if (engineVersion === 'shadow') {
-                        // Run V2 in shadow for logging only
-                        updateConversationStateV2(finalConversationState.consciousState || null, recentMessages, activeCharsForState, settings)
-                          .then(newStateV2 => {
-                              console.log('[Conscious State][Shadow] V2 result:', newStateV2);
-                          })
-                          .catch(err => console.warn('Shadow V2 failed:', err));
-
-                        // Commit V1 as the authoritative state
-                        updateConversationState(finalConversationState.consciousState || null, recentMessages, activeCharsForState).then(newState => {
-                            const convToUpdate = conversationRef.current;
-                            if (convToUpdate && convToUpdate.id === finalConversationState.id) {
-                                const updatedConv = { ...convToUpdate, consciousState: newState };
-                                onConversationUpdate(updatedConv);
-                                saveConversation(updatedConv);
-                            }
-                        }).catch(err => {
-                            console.error("Failed to update conscious state (v1):", err);
-                        });
-                    } else {
-                        // Default: legacy v1 behavior
-                        updateConversationState(finalConversationState.consciousState || null, recentMessages, activeCharsForState).then(newState => {
-                            const convToUpdate = conversationRef.current;
-                            if (convToUpdate && convToUpdate.id === finalConversationState.id) {
-                                const updatedConv = { ...convToUpdate, consciousState: newState };
-                                onConversationUpdate(updatedConv);
-                                saveConversation(updatedConv);
-                            }
-                        }).catch(err => {
-                            console.error("Failed to update conscious state (v1):", err);
-                        });
-                    }
-                }
-            }
-            
-            // Living Lore - Smart or Frequency Mode
-            if (settings.livingLore.enabled && settings.livingLore.automatic && finalModelMessage) {
-                const activeChars = allCharacters.filter(char => finalConversationState.characterIds?.includes(char.id));
-                console.log('[Living Lore] Active characters:', activeChars.length, activeChars.map(c => c.name));
-                
-                if (activeChars.length > 0) {
-                    const smartConfig = finalConversationState.smartSystemConfig?.livingLore;
-                    // FIX: Default to checking if smartConfig is not set (traditional behavior)
-                    const useSmartMode = smartConfig?.mode === 'smart';
-                    
-                    console.log('[Living Lore] Mode:', useSmartMode ? 'Smart' : 'Always Check', 'SmartConfig:', smartConfig);
-                    
-                    let shouldCheck = false;
-                    
-                    if (useSmartMode) {
-                        // Smart Mode: Intelligent event detection
-                        const recentMessages = finalConversationState.messages.slice(-8);
-                        try {
-                            const analysis = await analyzeLivingLoreSignificance(
-                                recentMessages,
-                                activeChars,
-                                settings
-                            );
-                            
-                            const threshold = smartConfig.significanceThreshold || 60;
-                            shouldCheck = analysis.score >= threshold && analysis.isSignificant;
-                            
-                            console.log(`[Living Lore] Analysis score: ${analysis.score}, threshold: ${threshold}, shouldCheck: ${shouldCheck}`);
-                            
-                            if (analysis.isSignificant && analysis.characterName) {
-                                console.log(`[Living Lore] Significant event detected (score: ${analysis.score}): ${analysis.changeDescription}`);
-                            }
-                        } catch (err) {
-                            console.error("Failed to analyze living lore significance:", err);
-                        }
-                    } else {
-                        // Traditional mode: always check
-                        shouldCheck = true;
-                        console.log('[Living Lore] Traditional mode - always checking');
-                    }
-                    
-                    if (shouldCheck) {
-                        console.log('[Living Lore] Calling getLivingLoreSuggestion...');
-                        const suggestion = await getLivingLoreSuggestion(finalConversationState.messages, activeChars, settings.livingLore.scanDepth);
-                        console.log('[Living Lore] Suggestion received:', suggestion);
-                        
-                        if (suggestion?.updateSuggested && suggestion.targetId) {
-                             // FIX: Handle 'all' targetId case - pick the first active character
-                             let targetChar = activeChars.find(c => c.id === suggestion.targetId);
-                             
-                             if (!targetChar && suggestion.targetId === 'all' && activeChars.length > 0) {
-                                 // If targetId is 'all', use the first active character
-                                 targetChar = activeChars[0];
-                                 console.log('[Living Lore] targetId is "all", using first character:', targetChar.name);
-                             }
-                             
-                             if(targetChar) {
-                                console.log('[Living Lore] Creating suggestion message for:', targetChar.name);
-                                const suggestionMessage: Message = {
-                                    id: generateUUID(), role: 'model', content: '', timestamp: Date.now(),
-                                    suggestion: {
-                                        type: 'livingLore', title: `Living Lore Suggestion for ${targetChar.name}`,
-                                        text: `Detected a significant change: "${suggestion.summaryOfChange}". Would you like to update the character sheet?`,
-                                        targetId: targetChar.id, // Use actual character ID, not 'all'
-                                        targetName: targetChar.name, 
-                                        summaryOfChange: suggestion.summaryOfChange,
-                                    }
-                                };
-                                const updatedConvWithSuggestion = {...finalConversationState, messages: [...finalConversationState.messages, suggestionMessage]};
-                                onConversationUpdate(updatedConvWithSuggestion);
-                                await saveConversation(updatedConvWithSuggestion);
-                             } else {
-                                console.log('[Living Lore] Target character not found:', suggestion.targetId);
-                             }
-                        } else {
-                            console.log('[Living Lore] No update suggested or targetId missing');
-                        }
-                    } else {
-                        console.log('[Living Lore] Skipping check - shouldCheck is false');
-                    }
-                }
-            }
-            // New: Smart Will Engine - Verify and Update Directives
-            if (finalConversationState.narrativeDirectives && finalConversationState.narrativeDirectives.length > 0) {
-                const activeDirectives = finalConversationState.narrativeDirectives.filter(d => !d.isCompleted);
-                if (activeDirectives.length > 0) {
-                    const messageCount = finalConversationState.messageProgress || 0;
-                    
-                    // Run verification every 5 messages, or when directive should be checked
-                    const shouldVerify = messageCount % 5 === 0;
-                    
-                    if (shouldVerify) {
-                        const recentMessages = finalConversationState.messages.slice(-10);
-                        const updatedDirectives = await Promise.all(
-                            finalConversationState.narrativeDirectives.map(async (directive) => {
-                                if (directive.isCompleted) return directive;
-                                
-                                // System 1: Smart Verification
-                                const verification = await verifyDirectiveProgress(
-                                    directive,
-                                    recentMessages,
-                                    settings
-                                );
-                                
-                                // System 4: Context Analysis (every 3 messages)
-                                let contextUpdate = { activationScore: (directive as any).activationScore, suggestedTriggers: directive.contextTriggers };
-                                if (messageCount % 3 === 0) {
-                                    const context = await analyzeDirectiveContext(
-                                        directive,
-                                        recentMessages,
-                                        settings
-                                    );
-                                    (contextUpdate as any).activationScore = context.activationScore;
-                                    // Merge suggested triggers with existing ones
-                                    if (context.suggestedTriggers.length > 0) {
-                                        const existingTriggers = new Set(directive.contextTriggers || []);
-                                        context.suggestedTriggers.forEach(t => existingTriggers.add(t));
-                                        contextUpdate.suggestedTriggers = Array.from(existingTriggers).slice(0, 10); // Max 10 triggers
-                                    }
-                                }
-                                
-                                return {
-                                    ...directive,
-                                    progress: verification.progress,
-                                    isCompleted: verification.isCompleted,
-                                    lastChecked: Date.now(),
-                                    activationScore: (contextUpdate as any).activationScore,
-                                    contextTriggers: contextUpdate.suggestedTriggers
-                                };
-                            })
-                        );
-                        
-                        // Update conversation with new directive states
-                        const convToUpdate = conversationRef.current;
-                        if (convToUpdate && convToUpdate.id === finalConversationState.id) {
-                            const updatedConv = { ...convToUpdate, narrativeDirectives: updatedDirectives };
-                            onConversationUpdate(updatedConv);
-                            await saveConversation(updatedConv);
-                            
-                            // Notify user of completed goals
-                            const newlyCompleted = updatedDirectives.filter((d, i) => 
-                                d.isCompleted && !finalConversationState.narrativeDirectives![i].isCompleted
-                            );
-                            newlyCompleted.forEach(d => {
-                                addNotification({
-                                    title: '🎯 Goal Achieved!',
-                                    message: `"${d.goal}" for ${d.targetCharacterName} has been completed!`,
-                                    type: 'success'
-                                });
-                            });
-                        }
-                    }
-                }
-            }
-            
-            // Director AI - Smart or Frequency Mode
-            if (settings.directorAI.enabled && settings.directorAI.automatic) {
-                const smartConfig = finalConversationState.smartSystemConfig?.directorAI;
-                // FIX: Default to 'frequency' mode if smartConfig is not set
-                const useSmartMode = smartConfig?.mode === 'smart';
-                const useFrequencyMode = !useSmartMode; // If not smart mode, use frequency mode
-                
-                console.log('[Director AI] Mode:', useSmartMode ? 'Smart' : 'Frequency', 'SmartConfig:', smartConfig);
-                
-                setDirectorAICounter(prevCount => {
-                    const newCount = prevCount + 1;
-                    
-                    let shouldIntervene = false;
-                    
-                    if (useSmartMode) {
-                        // Smart Mode: Context-aware intervention
-                        if (!isDirectorAIGenerating.current) {
-                            // FIX: Set flag IMMEDIATELY to prevent duplicate calls
-                            isDirectorAIGenerating.current = true;
-                            
-                            const recentMessages = finalConversationState.messages.slice(-10);
-                            analyzeDirectorNeed(recentMessages, settings).then(async (analysis) => {
-                                if (analysis.needsIntervention) {
-                                    console.log(`[Director AI] Intervention needed (score: ${analysis.score}): ${analysis.reason}`);
-                                    
-                                    const suggestion = await getDirectorSuggestion(finalConversationState.messages, settings.directorAI.scanDepth);
-                                    if (suggestion) {
-                                        const suggestionMessage: Message = {
-                                            id: generateUUID(), role: 'model', content: '', timestamp: Date.now(),
-                                            suggestion: { type: 'directorAI', title: 'Director AI Intervention', text: `"${suggestion}"` }
-                                        };
-                                        const convWithSuggestion = conversationRef.current;
-                                        if(convWithSuggestion) {
-                                            const updatedConv = {...convWithSuggestion, messages: [...convWithSuggestion.messages, suggestionMessage]};
-                                            onConversationUpdate(updatedConv);
-                                            await saveConversation(updatedConv);
-                                        }
-                                    }
-                                } else {
-                                    console.log(`[Director AI] No intervention needed (score: ${analysis.score})`);
-                                }
-                                isDirectorAIGenerating.current = false;
-                            }).catch(err => {
-                                console.error("Failed to analyze director need:", err);
-                                isDirectorAIGenerating.current = false;
-                            });
-                        }
-                        return 0; // Reset counter in smart mode
-                    } else {
-                        // Frequency Mode: Traditional every X messages
-                        const freq = smartConfig?.frequencyValue || settings.directorAI.frequency;
-                        console.log('[Director AI - Frequency] Counter:', newCount, '/', freq, 'Generating:', isDirectorAIGenerating.current);
-                        if (newCount >= freq && !isDirectorAIGenerating.current) {
-                            console.log('[Director AI - Frequency] Triggering intervention!');
-                            isDirectorAIGenerating.current = true;
-                            getDirectorSuggestion(finalConversationState.messages, settings.directorAI.scanDepth).then(async (suggestion) => {
-                                if (suggestion) {
-                                    const suggestionMessage: Message = {
-                                        id: generateUUID(), role: 'model', content: '', timestamp: Date.now(),
-                                        suggestion: { type: 'directorAI', title: 'Director AI Intervention', text: `"${suggestion}"` }
-                                    };
-                                    const convWithSuggestion = conversationRef.current;
-                                    if(convWithSuggestion) {
-                                        const updatedConv = {...convWithSuggestion, messages: [...convWithSuggestion.messages, suggestionMessage]};
-                                        onConversationUpdate(updatedConv);
-                                        await saveConversation(updatedConv);
-                                    }
-                                }
-                            }).finally(() => {
-                                isDirectorAIGenerating.current = false;
-                            });
-                            return 0;
-                        }
-                        return newCount;
-                    }
-                });
-            }
+            void agentScheduler.runAfterResponse({
+                conversation: finalConversationState,
+                settings,
+                characters: getConversationCharacters(finalConversationState, allCharacters),
+            });
           }, // End of onComplete callback
           abortControllerRef.current.signal,
           onStatusUpdate
@@ -851,16 +638,20 @@ export const useChatHandler = (props: ChatHandlerProps) => {
 
     const handleDirectorAIIntervention = useCallback(async (baseConversation: Conversation, customPrompt?: string) => {
     try {
+        const template = customPrompt ? null : pickEventTemplate(settings.directorAI.eventLibrary || [], baseConversation);
         const suggestion = customPrompt 
             ? await getCustomDirectorSuggestion(baseConversation.messages, customPrompt, settings.directorAI.scanDepth)
-            : await getDirectorSuggestion(baseConversation.messages, settings.directorAI.scanDepth);
+            : await getDirectorSuggestion(baseConversation.messages, settings.directorAI.scanDepth, settings, {
+                template,
+                recentEvents: getRecentDirectorEvents(baseConversation),
+            });
         
         if (suggestion) {
             const eventMessage: Message = {
                 id: generateUUID(), role: 'user', content: suggestion, timestamp: Date.now(), type: 'event',
             };
             const updatedHistory = [...baseConversation.messages, eventMessage];
-            const updatedConversationWithEvent = { ...baseConversation, messages: updatedHistory };
+            const updatedConversationWithEvent = { ...recordDirectorEvent(baseConversation, suggestion, template), messages: updatedHistory };
             
             onConversationUpdate(updatedConversationWithEvent);
             await runStreamingResponse(updatedHistory, updatedConversationWithEvent);
@@ -868,7 +659,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     } catch (e: any) {
         addNotification({ title: 'Director AI Failed', message: e.message, type: 'error' });
     }
-    }, [runStreamingResponse, onConversationUpdate, settings.directorAI.scanDepth]);
+    }, [runStreamingResponse, onConversationUpdate, settings]);
 
   // --- Dual Response Streaming ---
   
@@ -951,9 +742,9 @@ export const useChatHandler = (props: ChatHandlerProps) => {
       updatedConversation.messages.push(primaryThinkingMessage);
       onConversationUpdate({ ...updatedConversation });
 
-      const conversationCharacters = allCharacters.filter(char => currentConversation.characterIds?.includes(char.id));
-      const activeUserPersona = allUserPersonas.find(p => p.id === settings.activeUserPersonaId) || null;
-      const activeLorebooks = allLorebooks.filter(lb => currentConversation.lorebookIds?.includes(lb.id));
+      const conversationCharacters = getConversationCharacters(currentConversation, allCharacters);
+      const activeUserPersona = allUserPersonas.find(p => p.id === (currentConversation.userPersonaId || settings.activeUserPersonaId)) || null;
+      const activeLorebooks = getConversationLorebooks(currentConversation, conversationCharacters, allLorebooks);
       
       const onStatusUpdate = (status: string, source: 'primary' | 'alternative') => {
           const conv = conversationRef.current;
@@ -1060,26 +851,15 @@ export const useChatHandler = (props: ChatHandlerProps) => {
               }
             }
             
+            conversationRef.current = finalConversationState;
             onConversationUpdate(finalConversationState);
-            
-            if (finalConversationState.messages.length === 2 && finalConversationState.title === 'New Conversation') {
-                generateConversationTitle(
-                    finalConversationState.messages[0].content,
-                    finalConversationState.messages[1].content
-                ).then(newTitle => {
-                    const conversationForTitleUpdate = conversationRef.current;
-                    if (conversationForTitleUpdate && conversationForTitleUpdate.id === finalConversationState.id) {
-                         const updatedConvWithTitle = { ...conversationForTitleUpdate, title: newTitle };
-                         onConversationUpdate(updatedConvWithTitle);
-                         saveConversation(updatedConvWithTitle);
-                    }
-                });
-            } else {
-                 await saveConversation(finalConversationState);
-            }
+            await saveConversation(finalConversationState);
             
             setGenerationTime(0);
             setIsStreaming(false);
+
+            // Only the title; the other agents expect a single response to react to.
+            void agentScheduler.runAfterResponse({ conversation: finalConversationState, settings, characters: [] }, ['title']);
           },
           abortControllerRef.current!.signal,
           onStatusUpdate
@@ -1096,7 +876,9 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     // Auto-confirm last dual response if not confirmed yet
     if (conversation.messages.length > 0) {
       const lastMessage = conversation.messages[conversation.messages.length - 1];
-      if (lastMessage.role === 'model' && lastMessage.isDualResponse && lastMessage.alternativeResponse && !lastMessage.ragSyncedResponse) {
+      const dualNeedsSync = lastMessage.isDualResponse && lastMessage.alternativeResponse && !lastMessage.ragSyncedResponse;
+      const swipeNeedsSync = !!lastMessage.swipes && lastMessage.ragSyncedSwipeIndex !== lastMessage.activeSwipeIndex;
+      if (lastMessage.role === 'model' && (dualNeedsSync || swipeNeedsSync)) {
         // Confirm the currently selected response to RAG before sending new message
         // Only do this if NOT already synced to avoid duplicate RAG operations
         if (settings.rag.enabled && conversation.ragCollectionName) {
@@ -1127,7 +909,8 @@ export const useChatHandler = (props: ChatHandlerProps) => {
             ).catch(e => console.error("Failed to add RAG memory on auto-confirm:", e));
             
             // Mark current selected response as synced
-            lastMessage.ragSyncedResponse = lastMessage.selectedResponse || 'primary';
+            if (dualNeedsSync) lastMessage.ragSyncedResponse = lastMessage.selectedResponse || 'primary';
+            if (swipeNeedsSync) lastMessage.ragSyncedSwipeIndex = lastMessage.activeSwipeIndex;
             const updatedMessages = conversation.messages.map(m => m.id === lastMessage.id ? lastMessage : m);
             const updatedConv = { ...conversation, messages: updatedMessages };
             onConversationUpdate(updatedConv);
@@ -1233,8 +1016,9 @@ export const useChatHandler = (props: ChatHandlerProps) => {
       
       if (updatedConversationWithMsg.storyArcsEnabled) {
           const currentLevel = updatedConversationWithMsg.currentLevel || 1;
-          const levelDef = settings.storyArcs.levels.find(l => l.level === currentLevel);
-          if (levelDef && currentProgress >= levelDef.messagesToNext) {
+          const levelDef = getStoryArcLevel(settings.storyArcs.levels, currentLevel);
+          // Levels with milestones wait for the Story Arc evaluator instead of the message count.
+          if (levelDef && !usesMilestones(levelDef) && currentProgress >= levelDef.messagesToNext) {
               updatedConversationWithMsg = { ...updatedConversationWithMsg, currentLevel: currentLevel + 1, messageProgress: 0 };
               addNotification({ title: `Story Arc Progressed!`, message: `You have reached Level ${currentLevel + 1}.`, type: 'info' });
           } else {
@@ -1301,7 +1085,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     if (messageIndex === -1) return;
 
     const originalMessage = currentConversation.messages[messageIndex];
-    if (originalMessage.isGeneratingImage || originalMessage.imageUrl) return;
+    if (originalMessage.isGeneratingImage || isImageMessage(originalMessage)) return;
 
     const memoriesToDelete = await findMemoriesForMessage(originalMessage, currentConversation.messages, currentConversation.ragCollectionName);
     if (memoriesToDelete.length > 0) {
@@ -1313,12 +1097,13 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     if (originalMessage.role === 'user') {
         const updatedUserMessage: Message = { ...originalMessage, content: newContent, timestamp: Date.now() };
         const history = [...currentConversation.messages.slice(0, messageIndex), updatedUserMessage];
-        onConversationUpdate({ ...currentConversation, messages: history });
-        await runStreamingResponse(history, { ...currentConversation, messages: history });
+        const truncatedConversation = rollBackStateToMessages({ ...currentConversation, messages: history });
+        onConversationUpdate(truncatedConversation);
+        await runStreamingResponse(history, truncatedConversation);
 
     } else { // Role is 'model'
         const userMessagePartner = messageIndex > 0 ? currentConversation.messages[messageIndex - 1] : null;
-        const updatedModelMessage: Message = { ...originalMessage, content: newContent, timestamp: Date.now() };
+        const updatedModelMessage: Message = { ...updateActiveSwipeContent(originalMessage, newContent), timestamp: Date.now() };
         const updatedMessages = currentConversation.messages.map(m => m.id === messageId ? updatedModelMessage : m);
         const updatedConversation = { ...currentConversation, messages: updatedMessages };
         
@@ -1337,7 +1122,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     }
   }, [conversationRef, settings, onConversationUpdate, runStreamingResponse]);
 
-  const handleRegenerateResponse = useCallback(async (messageId: string) => {
+  const handleRegenerateResponse = useCallback(async (messageId: string, oneTimeInstruction?: string) => {
     const currentConversation = conversationRef.current;
     if (!currentConversation) return;
 
@@ -1356,16 +1141,54 @@ export const useChatHandler = (props: ChatHandlerProps) => {
         ? currentConversation.messages.slice(0, messageIndex) 
         : currentConversation.messages.slice(0, messageIndex + 1);
 
-    onConversationUpdate({ ...currentConversation, messages: history });
+    // The reply being replaced (the target itself, or the reply to a regenerated user message) keeps its variants as swipes.
+    const replacedReply = targetMessage.role === 'model' ? targetMessage : currentConversation.messages[messageIndex + 1];
+    const previousSwipes = replacedReply?.role === 'model' && !replacedReply.isDualResponse && !isImageMessage(replacedReply)
+        ? getMessageSwipes(replacedReply)
+        : [];
+
+    // State computed after the replaced reply would otherwise carry over into the new one.
+    const truncatedConversation = rollBackStateToMessages({ ...currentConversation, messages: history });
+    onConversationUpdate(truncatedConversation);
     
     // Check if dual response is enabled
     if (settings.dualResponse.enabled) {
-      await runDualStreamingResponse(history, { ...currentConversation, messages: history });
+      await runDualStreamingResponse(history, truncatedConversation, undefined, oneTimeInstruction);
     } else {
-      await runStreamingResponse(history, { ...currentConversation, messages: history });
+      await runStreamingResponse(history, truncatedConversation, undefined, oneTimeInstruction, previousSwipes);
     }
   }, [onConversationUpdate, runStreamingResponse, runDualStreamingResponse, conversationRef, settings.rag.enabled, settings.dualResponse.enabled]);
 
+  /**
+   * Shows the previous/next variant of the last model response. Swiping right past the newest
+   * variant generates a new one. RAG memory is re-synced to the shown variant before the next send.
+   */
+  const handleSwipeResponse = useCallback(async (messageId: string, direction: -1 | 1) => {
+    const currentConversation = conversationRef.current;
+    if (!currentConversation || isStreaming) return;
+
+    const message = currentConversation.messages.find(m => m.id === messageId);
+    if (!message || message.role !== 'model') return;
+
+    const swipes = getMessageSwipes(message);
+    const currentIndex = message.activeSwipeIndex ?? swipes.length - 1;
+    const targetIndex = currentIndex + direction;
+
+    if (targetIndex >= swipes.length) {
+      await handleRegenerateResponse(messageId);
+      return;
+    }
+    if (targetIndex < 0) return;
+
+    const updatedMessage = selectMessageSwipe(message, targetIndex);
+    const updatedConversation = {
+      ...currentConversation,
+      messages: currentConversation.messages.map(m => m.id === messageId ? updatedMessage : m),
+    };
+    onConversationUpdate(updatedConversation);
+    await saveConversation(updatedConversation);
+  }, [conversationRef, isStreaming, onConversationUpdate, handleRegenerateResponse]);
+
   const handleDeleteMessage = useCallback(async (messageId: string) => {
     const currentConversation = conversationRef.current;
     if (!currentConversation) return;
@@ -1394,7 +1217,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     }
 
     const updatedMessages = currentConversation.messages.filter(msg => !idsToDelete.has(msg.id));
-    const updatedConversation = { ...currentConversation, messages: updatedMessages };
+    const updatedConversation = rollBackStateToMessages({ ...currentConversation, messages: updatedMessages });
     onConversationUpdate(updatedConversation);
     await saveConversation(updatedConversation);
   }, [onConversationUpdate, conversationRef, settings.rag.enabled]);
@@ -1406,6 +1229,16 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     await saveConversation(updatedConversation);
   }, [conversation, onConversationUpdate]);
 
+  // Manual level changes and answers to level-up proposals (see storyArcProgress.ts).
+  const handleUpdateStoryArc = useCallback(async (update: (conversation: Conversation) => Conversation) => {
+    const currentConversation = conversationRef.current;
+    if (!currentConversation) return;
+    const updatedConversation = update(currentConversation);
+    conversationRef.current = updatedConversation;
+    onConversationUpdate(updatedConversation);
+    await saveConversation(updatedConversation);
+  }, [onConversationUpdate]);
+
   const handleTransformToPrompt = useCallback(async (messageId: string) => {
     if (isTransforming || isStreaming || !conversation) return;
     const message = conversation.messages.find(m => m.id === messageId);
@@ -1415,7 +1248,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     setInput('✨ Generating professional prompt with Gemini 2.5 Flash...');
 
     try {
-        const activeCharacters = allCharacters.filter(c => conversation.characterIds?.includes(c.id));
+        const activeCharacters = getConversationCharacters(conversation, allCharacters);
         const professionalPrompt = await transformToImagePrompt(message.content, conversation.messages, activeCharacters);
         
         setInput('');
@@ -1462,7 +1295,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     }
   }, [isTransforming, isStreaming, conversation, settings, allCharacters, runSDImageGeneration, runComfyUIImageGeneration, runXAIImageGeneration, runHFImageGeneration]);
 
-  const handleSuggestionResponse = useCallback(async (messageId: string, action: 'accept' | 'reject' | 'customize' | 'update' | 'ignore', customPrompt?: string) => {
+  const handleSuggestionResponse = useCallback(async (messageId: string, action: 'accept' | 'reject' | 'customize' | 'update' | 'ignore' | 'regenerate', customPrompt?: string) => {
     const currentConversation = conversationRef.current;
     if (!currentConversation) return;
 
@@ -1472,7 +1305,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     const messagesWithoutSuggestion = currentConversation.messages.filter(m => m.id !== messageId);
     const updatedConv = { ...currentConversation, messages: messagesWithoutSuggestion };
     
-    setDirectorAICounter(0);
+    agentScheduler.resetCounter('directorAI', currentConversation.id);
 
     switch (suggestionMessage.suggestion.type) {
         case 'directorAI':
@@ -1495,7 +1328,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
                     return; // Don't remove message if we can't process it
                 }
                 
-                const targetChar = allCharacters.find(c => c.id === suggestionMessage.suggestion.targetId);
+                const targetChar = getConversationCharacters(currentConversation, allCharacters).find(c => c.id === suggestionMessage.suggestion.targetId);
                 if (!targetChar) {
                     console.error('Character not found:', suggestionMessage.suggestion.targetId);
                     addNotification({ title: 'Update Failed', message: 'Cannot update character: character not found', type: 'error' });
@@ -1510,8 +1343,23 @@ export const useChatHandler = (props: ChatHandlerProps) => {
             onConversationUpdate(updatedConv); 
             await saveConversation(updatedConv);
             break;
+        case 'factContradiction': {
+            const contradiction = suggestionMessage.suggestion.factContradiction;
+            const replyId = suggestionMessage.suggestion.targetId;
+            if (action === 'regenerate' && contradiction && replyId && updatedConv.messages.some(m => m.id === replyId)) {
+                // Regenerating drops everything after the reply, this card included.
+                await handleRegenerateResponse(replyId, buildFactReminder(contradiction));
+                break;
+            }
+            const finalConv = action === 'update' && contradiction && customPrompt?.trim()
+                ? updateFactContent(updatedConv, contradiction.factId, customPrompt.trim(), replyId)
+                : updatedConv;
+            onConversationUpdate(finalConv);
+            await saveConversation(finalConv);
+            break;
+        }
     }
-  }, [allCharacters, onConversationUpdate, handleDirectorAIIntervention, onOpenLivingLoreModal, addNotification]);
+  }, [allCharacters, onConversationUpdate, handleDirectorAIIntervention, onOpenLivingLoreModal, addNotification, handleRegenerateResponse]);
 
   const handleManualDirectorAI = useCallback(() => {
     if (!conversation) return;
@@ -1527,7 +1375,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     const currentConversation = conversationRef.current;
     if (!currentConversation) return;
     
-    const activeChars = allCharacters.filter(char => currentConversation.characterIds?.includes(char.id));
+    const activeChars = getConversationCharacters(currentConversation, allCharacters);
     if (activeChars.length === 0) {
         addNotification({ title: "Scan Info", message: "No active characters in this conversation to scan.", type: 'info' });
         return;
@@ -1554,29 +1402,58 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     });
     
     if (validSuggestions.length > 0) {
-        const suggestionMessages: Message[] = validSuggestions
-            .filter(suggestion => {
-                // Extra validation: ensure we have targetName
-                if (!suggestion!.targetName) {
-                    console.warn('Skipping suggestion without targetName:', suggestion);
-                    return false;
-                }
-                return true;
-            })
-            .map(suggestion => ({
-                id: generateUUID(), role: 'model', content: '', timestamp: Date.now(),
-                suggestion: {
-                    type: 'livingLore', title: `Living Lore Suggestion for ${suggestion!.targetName}`,
-                    text: `Detected a significant change: "${suggestion!.summaryOfChange}". Would you like to update the character sheet?`,
-                    targetId: suggestion!.targetId, targetName: suggestion!.targetName, summaryOfChange: suggestion!.summaryOfChange,
-                }
-            }));
-        
-        if (suggestionMessages.length > 0) {
-            const updatedConv = { ...currentConversation, messages: [...currentConversation.messages, ...suggestionMessages] };
+        const namedSuggestions = validSuggestions.filter(suggestion => {
+            // Extra validation: ensure we have targetName
+            if (!suggestion!.targetName) {
+                console.warn('Skipping suggestion without targetName:', suggestion);
+                return false;
+            }
+            return true;
+        });
+
+        // Rewrites go to the review queue; a suggestion message is the fallback when one can't be generated.
+        const results = await Promise.all(namedSuggestions.map(async suggestion => {
+            const character = activeChars.find(c => c.id === suggestion!.targetId);
+            if (!character) return { suggestion: suggestion!, update: null };
+            try {
+                return { suggestion: suggestion!, character, update: await getLiveCharacterUpdateAsJson(character, suggestion!.summaryOfChange || '', undefined, settings) };
+            } catch (error) {
+                console.warn('[Living Lore] Could not generate the update for', character.name, error);
+                return { suggestion: suggestion!, update: null };
+            }
+        }));
+
+        let updatedConv: Conversation = conversationRef.current || currentConversation;
+        let queuedCount = 0;
+        const suggestionMessages: Message[] = [];
+        for (const result of results) {
+            if (result.update && result.character) {
+                updatedConv = queueLivingLoreProposal(updatedConv, result.character, result.suggestion.summaryOfChange || '', result.update);
+                queuedCount++;
+            } else {
+                suggestionMessages.push({
+                    id: generateUUID(), role: 'model', content: '', timestamp: Date.now(),
+                    suggestion: {
+                        type: 'livingLore', title: `Living Lore Suggestion for ${result.suggestion.targetName}`,
+                        text: `Detected a significant change: "${result.suggestion.summaryOfChange}". Would you like to update the character sheet?`,
+                        targetId: result.suggestion.targetId, targetName: result.suggestion.targetName, summaryOfChange: result.suggestion.summaryOfChange,
+                    }
+                });
+            }
+        }
+
+        if (queuedCount > 0 || suggestionMessages.length > 0) {
+            updatedConv = { ...updatedConv, messages: [...updatedConv.messages, ...suggestionMessages] };
             onConversationUpdate(updatedConv);
             await saveConversation(updatedConv);
-            addNotification({ title: "Scan Complete", message: `Found ${suggestionMessages.length} update(s) from manual scan.`, type: 'success' });
+            const found = queuedCount + suggestionMessages.length;
+            addNotification({
+                title: "Scan Complete",
+                message: queuedCount > 0
+                    ? `Found ${found} update(s) from manual scan. ${queuedCount} queued for review.`
+                    : `Found ${found} update(s) from manual scan.`,
+                type: 'success'
+            });
         } else {
             addNotification({ title: "Scan Complete", message: "No valid character updates found (missing character data).", type: 'error' });
         }
@@ -1585,7 +1462,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     }
   }, [settings, allCharacters, onConversationUpdate, addNotification]);
 
-  const activeUserPersona = allUserPersonas.find(p => p.id === settings.activeUserPersonaId) || null;
+  const activeUserPersona = allUserPersonas.find(p => p.id === (conversation?.userPersonaId || settings.activeUserPersonaId)) || null;
 
   const handleAutopilot = useCallback(async () => {
     const currentConversation = conversationRef.current;
@@ -1603,8 +1480,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
         }
         const lastTenModelMessages = modelMessages.map(m => m.content).join('\n');
         const userName = activeUserPersona?.name || 'User';
-        const characterNames = allCharacters
-            .filter(c => currentConversation.characterIds?.includes(c.id))
+        const characterNames = getConversationCharacters(currentConversation, allCharacters)
             .map(c => c.name)
             .join(', ');
 
@@ -1696,9 +1572,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
       setIsGeneratingSong(true);
 
       // Get active characters for context
-      const activeCharacters = currentConversation.characterIds
-        ? allCharacters.filter(c => currentConversation.characterIds!.includes(c.id))
-        : [];
+      const activeCharacters = getConversationCharacters(currentConversation, allCharacters);
 
       // Generate song from conversation context
       const songData = await generateSongFromContext(
@@ -1809,9 +1683,7 @@ export const useChatHandler = (props: ChatHandlerProps) => {
       });
 
       // Get active characters and their states
-      const activeCharacters = currentConversation.characterIds
-        ? allCharacters.filter(c => currentConversation.characterIds!.includes(c.id))
-        : [];
+      const activeCharacters = getConversationCharacters(currentConversation, allCharacters);
 
       // Character states may be available for additional context
       const characterStates = (currentConversation as any).characterStates as any[] | undefined;
@@ -1833,62 +1705,28 @@ export const useChatHandler = (props: ChatHandlerProps) => {
         duration: 2000
       });
 
-      // Determine which image generator to use based on availability
-      let imageDataUrl: string | null = null;
-      let generatorUsed = '';
-
-      // Try ComfyUI first
-      if (settings.comfyUI?.isConnected) {
+      // Use the first image generator that is available and succeeds, in order of preference
+      let background: { generator: ImageGenerator; result: { dataUrl: string; seed?: number; workflowName?: string } } | null = null;
+      for (const generator of BACKGROUND_GENERATORS) {
+        if (!isGeneratorReady(generator, settings)) continue;
         try {
-          const result = await generateComfyUIImage(scenePrompt, settings.comfyUI, (progress) => {
-            console.log(`ComfyUI progress: ${progress}`);
-          });
-          imageDataUrl = result.dataUrl;
-          generatorUsed = 'ComfyUI';
-        } catch (err) {
-          console.warn('ComfyUI generation failed, trying next provider:', err);
-        }
-      }
-
-      // Fallback to SD WebUI
-      if (!imageDataUrl && settings.stableDiffusion?.isConnected) {
-        try {
-          imageDataUrl = await generateSDImage(scenePrompt, settings.stableDiffusion, (progress) => {
-            console.log(`SD WebUI progress: ${progress}`);
-          });
-          generatorUsed = 'Stable Diffusion WebUI';
-        } catch (err) {
-          console.warn('SD WebUI generation failed, trying next provider:', err);
-        }
-      }
-
-      // Fallback to Hugging Face
-      if (!imageDataUrl && settings.huggingFace?.isConnected) {
-        try {
-          imageDataUrl = await generateHFImage(scenePrompt, settings.huggingFace, (progress) => {
-            console.log(`Hugging Face progress: ${progress}`);
-          });
-          generatorUsed = 'Hugging Face';
-        } catch (err) {
-          console.warn('Hugging Face generation failed, trying next provider:', err);
-        }
-      }
-
-      // Fallback to XAI
-      if (!imageDataUrl && settings.xaiApiKey) {
-        try {
-          imageDataUrl = await generateXAIImage(scenePrompt, settings, (progress) => {
-            console.log(`XAI progress: ${progress}`);
-          });
-          generatorUsed = 'XAI (Grok)';
+          // Backgrounds show the place, not the characters, so their appearance profiles are left out.
+          const result = await generateImageWith(generator, scenePrompt, currentConversation, (progress) => {
+            console.log(`${GENERATOR_LABELS[generator]} progress: ${progress}`);
+          }, null);
+          background = { generator, result };
+          break;
         } catch (err) {
-          console.warn('XAI generation failed:', err);
+          console.warn(`${GENERATOR_LABELS[generator]} generation failed, trying next provider:`, err);
         }
       }
 
-      if (!imageDataUrl) {
+      if (!background) {
         throw new Error('No image generation service is available. Please configure at least one provider in settings.');
       }
+      const imageDataUrl = background.result.dataUrl;
+      const generatorUsed = GENERATOR_LABELS[background.generator];
+      await saveToGallery(background.generator, background.result, { conversationId: currentConversation.id, prompt: scenePrompt, kind: 'background' });
 
       // Update settings with new background
       const updatedSettings: Settings = {
@@ -1916,8 +1754,65 @@ export const useChatHandler = (props: ChatHandlerProps) => {
     } finally {
       setIsGeneratingBackground(false);
     }
-  }, [conversationRef, allCharacters, settings, isGeneratingBackground, isStreaming, addNotification, onSettingsUpdate]);
+  }, [conversationRef, allCharacters, settings, isGeneratingBackground, isStreaming, addNotification, onSettingsUpdate, generateImageWith, saveToGallery]);
   
+  // New: Gallery actions. Each makes a new image linked to its source; errors are reported here and return null.
+  const handleGalleryGenerate = useCallback(async (
+    source: GalleryImage,
+    mode: 'regenerate' | 'variation',
+    edits: { prompt: string; seed?: number },
+    onProgress: (progress: string) => void
+  ): Promise<GalleryImage | null> => {
+    const currentConversation = conversationRef.current;
+    if (!currentConversation) return null;
+    try {
+      if (!isGeneratorReady(source.generator, settings)) {
+        throw new Error(`${GENERATOR_LABELS[source.generator]} is not connected.`);
+      }
+      // Variations start from the source image where the generator takes one (img2img), always with a new seed.
+      const appearance = withImageOverrides(getSceneAppearance(edits.prompt, currentConversation), mode === 'variation'
+        ? { seed: randomSeed(), referenceImage: source.generator === 'comfyui' || source.generator === 'sdwebui' ? source.dataUrl : undefined }
+        : { seed: edits.seed });
+      const result = await generateImageWith(source.generator, edits.prompt, currentConversation, onProgress, appearance);
+      return await saveToGallery(source.generator, result, {
+        conversationId: currentConversation.id,
+        prompt: edits.prompt,
+        kind: mode === 'variation' ? 'variation' : 'regenerated',
+        parentId: source.id,
+      });
+    } catch (err: any) {
+      addNotification({ title: 'Image Generation Failed', message: err.message, type: 'error' });
+      return null;
+    }
+  }, [settings, getSceneAppearance, generateImageWith, saveToGallery, addNotification]);
+
+  const handleGalleryUpscale = useCallback(async (source: GalleryImage, onProgress: (progress: string) => void): Promise<GalleryImage | null> => {
+    const currentConversation = conversationRef.current;
+    if (!currentConversation) return null;
+    try {
+      const upscaler = getUpscaler(source, settings);
+      if (!upscaler) throw new Error('Upscaling needs ComfyUI with an upscale model selected, or SD WebUI.');
+      const dataUrl = upscaler === 'comfyui'
+        ? (await upscaleComfyUIImage(source.dataUrl, settings.comfyUI, onProgress)).dataUrl
+        : await upscaleSDImage(source.dataUrl, settings.stableDiffusion, onProgress);
+      const image = createGalleryImage({
+        conversationId: currentConversation.id,
+        dataUrl,
+        prompt: source.prompt,
+        generator: source.generator,
+        seed: source.seed,
+        settings: { ...source.settings, upscaledWith: GENERATOR_LABELS[upscaler] },
+        kind: 'upscaled',
+        parentId: source.id,
+      });
+      await saveGalleryImage(image);
+      return image;
+    } catch (err: any) {
+      addNotification({ title: 'Upscale Failed', message: err.message, type: 'error' });
+      return null;
+    }
+  }, [settings, addNotification]);
+
   const handleImpersonateScene = useCallback(async () => {
     const currentConversation = conversationRef.current;
     if (isStreaming || isEnhancing || isTransforming || isSceneImpersonating || !currentConversation) return;
@@ -2212,6 +2107,7 @@ const handleRemoveFiller = useCallback(async (messageId: string) => {
     handleRegenerateResponse,
     handleDeleteMessage,
     handleSaveConversationSettings,
+    handleUpdateStoryArc,
     handleTransformToPrompt,
     handleSuggestionResponse,
     handleManualDirectorAI,
@@ -2233,6 +2129,9 @@ const handleRemoveFiller = useCallback(async (messageId: string) => {
     // New: Scene background generation
     handleGenerateSceneBackground,
     isGeneratingBackground,
+    // New: Image gallery actions
+    handleGalleryGenerate,
+    handleGalleryUpscale,
     // New: Expose response control state
     responseControls,
     setResponseControls,
@@ -2244,5 +2143,7 @@ const handleRemoveFiller = useCallback(async (messageId: string) => {
     // New: Dual Response feature
     handleSwitchResponse,
     handleConfirmResponse,
+    // New: Swipes
+    handleSwipeResponse,
   };
 };
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { getGalleryImage } from '../services/db';
+
+/**
+ * Loads the data URL of a gallery image for display. Returns undefined while loading and null
+ * when the image has been deleted from the gallery.
+ */
+export const useGalleryImage = (imageId: string | undefined): string | null | undefined => {
+  const [dataUrl, setDataUrl] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    setDataUrl(undefined);
+    if (!imageId) return;
+    let cancelled = false;
+    getGalleryImage(imageId)
+      .then(image => { if (!cancelled) setDataUrl(image?.dataUrl ?? null); })
+      .catch(() => { if (!cancelled) setDataUrl(null); });
+    return () => { cancelled = true; };
+  }, [imageId]);
+
+  return dataUrl;
+};
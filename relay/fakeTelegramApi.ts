@@ -0,0 +1,162 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { TelegramUpdate } from '../types';
+
+/**
+ * A stand-in for the Telegram Bot API, to try the relay and the bot without a real bot.
+ *
+ * Bot API calls (/bot<token>/<method>) are recorded and answered with plausible results.
+ * Test drivers use three extra routes:
+ * - POST /__inject pushes an update to the registered webhook, or keeps it for getUpdates if none is set.
+ *   The body is an update without update_id, or the shorthand { "chatId": 1, "text": "Hi" }.
+ * - GET /__calls lists the recorded calls, DELETE /__calls clears them.
+ * - PUT /__files/<file_id> stores the bytes getFile/file downloads return for that ID.
+ */
+
+interface RecordedCall {
+    method: string;
+    params: Record<string, any>;
+    timestamp: number;
+}
+
+// 1x1 PNG, returned for files that were never uploaded with PUT /__files.
+const PLACEHOLDER_FILE = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+
+const readBody = (request: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+});
+
+const sendJson = (response: ServerResponse, status: number, body: any) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    response.end(JSON.stringify(body));
+};
+
+// Bot API methods accept JSON, form-encoded and multipart bodies. Uploaded files are recorded by size.
+const parseParams = async (request: IncomingMessage, url: URL): Promise<Record<string, any>> => {
+    const params: Record<string, any> = Object.fromEntries(url.searchParams);
+    const body = await readBody(request);
+    const contentType = request.headers['content-type'] || '';
+    if (body.length === 0) return params;
+    if (contentType.includes('application/json')) return { ...params, ...JSON.parse(body.toString('utf8')) };
+
+    const form = await new Response(new Uint8Array(body), { headers: { 'Content-Type': contentType } }).formData();
+    form.forEach((value, key) => {
+        params[key] = typeof value === 'string' ? value : { fileName: value.name, size: value.size };
+    });
+    return params;
+};
+
+export const createFakeTelegramApi = (): Server => {
+    const calls: RecordedCall[] = [];
+    const files = new Map<string, Buffer>();
+    const pendingUpdates: TelegramUpdate[] = [];
+    let webhook: { url: string; secret?: string } | null = null;
+    let nextUpdateId = 1;
+    let nextMessageId = 1;
+
+    const sentMessage = (params: Record<string, any>) => ({
+        message_id: params.message_id ? Number(params.message_id) : nextMessageId++,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: Number(params.chat_id), type: 'private' },
+        text: params.text,
+        caption: params.caption,
+    });
+
+    const callMethod = (method: string, params: Record<string, any>): any => {
+        switch (method) {
+            case 'getMe':
+                return { id: 1, is_bot: true, first_name: 'Fake Bot', username: 'fake_bot' };
+            case 'sendMessage':
+            case 'sendPhoto':
+            case 'editMessageText':
+            case 'editMessageReplyMarkup':
+                return sentMessage(params);
+            case 'getFile':
+                return { file_id: params.file_id, file_unique_id: params.file_id, file_path: `files/${params.file_id}` };
+            case 'getUpdates':
+                if (webhook) throw Object.assign(new Error("Conflict: can't use getUpdates method while webhook is active"), { code: 409 });
+                return pendingUpdates.splice(0, pendingUpdates.length);
+            case 'setWebhook':
+                webhook = { url: params.url, secret: params.secret_token };
+                return true;
+            case 'deleteWebhook':
+                webhook = null;
+                return true;
+            default:
+                return true;
+        }
+    };
+
+    const inject = async (body: any): Promise<TelegramUpdate> => {
+        const update: TelegramUpdate = body.chatId !== undefined
+            ? {
+                update_id: nextUpdateId++,
+                message: {
+                    message_id: nextMessageId++,
+                    date: Math.floor(Date.now() / 1000),
+                    chat: { id: body.chatId, type: 'private' },
+                    from: { id: body.chatId, is_bot: false, first_name: 'Tester' },
+                    text: body.text,
+                },
+            } as TelegramUpdate
+            : { ...body, update_id: nextUpdateId++ };
+
+        if (!webhook) {
+            pendingUpdates.push(update);
+            return update;
+        }
+        await fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(webhook.secret ? { 'X-Telegram-Bot-Api-Secret-Token': webhook.secret } : {}),
+            },
+            body: JSON.stringify(update),
+        });
+        return update;
+    };
+
+    return createServer(async (request, response) => {
+        const url = new URL(request.url || '/', 'http://fake-telegram');
+        try {
+            if (url.pathname === '/__inject' && request.method === 'POST') {
+                const update = await inject(JSON.parse((await readBody(request)).toString('utf8')));
+                sendJson(response, 200, { ok: true, result: update, deliveredTo: webhook?.url || 'getUpdates' });
+                return;
+            }
+            if (url.pathname === '/__calls') {
+                if (request.method === 'DELETE') calls.length = 0;
+                sendJson(response, 200, calls);
+                return;
+            }
+            if (url.pathname.startsWith('/__files/') && request.method === 'PUT') {
+                files.set(decodeURIComponent(url.pathname.slice('/__files/'.length)), await readBody(request));
+                sendJson(response, 200, { ok: true });
+                return;
+            }
+
+            const fileMatch = url.pathname.match(/^\/file\/bot[^/]+\/files\/(.+)$/);
+            if (fileMatch) {
+                response.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Access-Control-Allow-Origin': '*' });
+                response.end(files.get(decodeURIComponent(fileMatch[1])) || PLACEHOLDER_FILE);
+                return;
+            }
+
+            const methodMatch = url.pathname.match(/^\/bot[^/]+\/(\w+)$/);
+            if (!methodMatch) {
+                sendJson(response, 404, { ok: false, error_code: 404, description: 'Not Found' });
+                return;
+            }
+            const [, method] = methodMatch;
+            const params = await parseParams(request, url);
+            calls.push({ method, params, timestamp: Date.now() });
+            console.log(`${method} ${JSON.stringify(params).slice(0, 200)}`);
+            sendJson(response, 200, { ok: true, result: callMethod(method, params) });
+        } catch (error: any) {
+            const code = error.code === 409 ? 409 : 400;
+            sendJson(response, code, { ok: false, error_code: code, description: error.message });
+        }
+    });
+};
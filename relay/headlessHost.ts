@@ -0,0 +1,207 @@
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'node:fs';
+import type { Character, Conversation, IdentityProfile, Lorebook, Message, Model, Settings, UserPersona } from '../types';
+import type { BotHost } from '../services/botOrchestrator';
+import { DEFAULT_SETTINGS, INITIAL_MODELS, UNBOUNDED_LORE_SETTINGS } from '../constants';
+import { parseBackup } from '../services/backupService';
+import { streamChatResponse } from '../services/aiService';
+import { getConversationLorebooks } from '../services/ai/promptBuilder';
+import { getConversationCharacters } from '../services/characterRevisions';
+import { resolveModelById } from '../services/ai/providers';
+import { fetchOpenRouterModels } from '../services/openrouter';
+import { fetchAllCustomEndpointModels } from '../services/customEndpointService';
+import { sendMessage } from '../services/telegramService';
+import { generateUUID } from '../utils/uuid';
+import { log } from '../services/loggingService';
+
+/**
+ * Runs the bot without the app. Settings, characters, lorebooks, personas and identity profiles
+ * come from a RolyGem backup file; bot conversations are kept in the relay's data directory and
+ * handed to the app when it connects again.
+ */
+
+export interface HeadlessBot {
+    settings: Settings;
+    models: Model[];
+    characters: Character[];
+    host: BotHost;
+    // Conversations changed here that the app has not received yet.
+    getUnsyncedConversations: () => Conversation[];
+    markSynced: (conversationId: string) => void;
+    // Stores the app's copy of a conversation, which is newer than the relay's.
+    storeFromApp: (conversation: Conversation) => void;
+}
+
+interface ConversationStore {
+    conversations: Conversation[];
+    unsynced: string[];
+}
+
+const loadStore = (filePath: string): ConversationStore => {
+    if (!existsSync(filePath)) return { conversations: [], unsynced: [] };
+    return JSON.parse(readFileSync(filePath, 'utf8'));
+};
+
+// Same shape as the conversations the app creates for a new Telegram chat.
+const createBotConversation = (chatId: number, settings: Settings): Conversation => {
+    const id = generateUUID();
+    return {
+        id,
+        title: `Telegram Chat: ${chatId}`,
+        messages: [],
+        createdAt: Date.now(),
+        systemPrompt: settings.systemPrompt,
+        enableThinking: true,
+        ragCollectionName: `rag_${id.replace(/-/g, '')}`,
+        telegramChatId: chatId,
+        consciousState: null,
+        consciousStateSettings: {
+            enabled: false,
+            updateFrequency: 2,
+            scanDepth: 4,
+        },
+        multiCharacterMode: 'director',
+        scenario: '',
+        narrativeDirectives: [],
+    };
+};
+
+/**
+ * Loads the headless bot's data.
+ * @param backupPath - A backup created under Settings > Data, with API keys included.
+ * @param conversationsPath - Where bot conversations are kept between runs.
+ * @param botToken - Overrides the token from the backup.
+ * @throws Error if the backup cannot be read.
+ */
+export const createHeadlessBot = async (backupPath: string, conversationsPath: string, botToken?: string): Promise<HeadlessBot> => {
+    const archive = parseBackup(readFileSync(backupPath, 'utf8'));
+    const { key, ...savedSettings } = archive.tables.settings?.[0] || {};
+    const settings: Settings = {
+        ...DEFAULT_SETTINGS,
+        ...savedSettings,
+        // Memory search needs the RAG index, which lives in the app's IndexedDB.
+        rag: { ...DEFAULT_SETTINGS.rag, ...savedSettings.rag, enabled: false },
+        lore: { ...UNBOUNDED_LORE_SETTINGS, ...savedSettings.lore },
+        telegram: { ...DEFAULT_SETTINGS.telegram, ...savedSettings.telegram, ...(botToken ? { botToken } : {}) },
+    };
+    if (!settings.telegram.botToken) {
+        throw new Error('No bot token: set TELEGRAM_BOT_TOKEN or use a backup that includes API keys.');
+    }
+
+    const characters: Character[] = archive.tables.characters || [];
+    const lorebooks: Lorebook[] = archive.tables.lorebooks || [];
+    const userPersonas: UserPersona[] = archive.tables.userPersonas || [];
+    const identityProfiles: IdentityProfile[] = archive.tables.identityProfiles || [];
+
+    const [openRouterModels, customModels] = await Promise.all([
+        fetchOpenRouterModels().catch(() => [] as Model[]),
+        fetchAllCustomEndpointModels(settings).catch(() => [] as Model[]),
+    ]);
+    const models = [...INITIAL_MODELS, ...openRouterModels, ...customModels];
+
+    const store = loadStore(conversationsPath);
+    const unsynced = new Set(store.unsynced);
+    const persist = () => {
+        writeFileSync(`${conversationsPath}.tmp`, JSON.stringify({ conversations: store.conversations, unsynced: [...unsynced] }));
+        renameSync(`${conversationsPath}.tmp`, conversationsPath);
+    };
+    const putConversation = (conversation: Conversation) => {
+        const index = store.conversations.findIndex(c => c.id === conversation.id);
+        if (index === -1) store.conversations.push(conversation);
+        else store.conversations[index] = conversation;
+    };
+
+    const saveConversation = async (conversation: Conversation) => {
+        putConversation(conversation);
+        unsynced.add(conversation.id);
+        persist();
+    };
+
+    const findOrCreateConversation = async (chatId: number): Promise<Conversation> => {
+        const existing = store.conversations.find(c => c.telegramChatId === chatId);
+        if (existing) return existing;
+        const conversation = createBotConversation(chatId, settings);
+        await saveConversation(conversation);
+        return conversation;
+    };
+
+    const getAIResponse = (conversation: Conversation, history: Message[], options?: { prefaceText?: string }): Promise<Message> =>
+        new Promise((resolve, reject) => {
+            const modelId = conversation.model || settings.defaultModelId;
+            const model = models.find(m => m.id === modelId) || resolveModelById(modelId, settings);
+            const conversationCharacters = getConversationCharacters(conversation, characters);
+            const persona = userPersonas.find(p => p.id === (conversation.userPersonaId || settings.activeUserPersonaId)) || null;
+
+            streamChatResponse(
+                conversation,
+                history,
+                model,
+                settings,
+                conversationCharacters,
+                getConversationLorebooks(conversation, conversationCharacters, lorebooks),
+                persona,
+                identityProfiles,
+                () => {},
+                (error) => reject(error),
+                async (totalTokens, responseText, modelMessage) => {
+                    resolve({ ...modelMessage, content: responseText, tokenCount: totalTokens });
+                },
+                new AbortController().signal,
+                () => {},
+                options
+            );
+        });
+
+    const host: BotHost = {
+        findOrCreateConversation,
+        handleNewConversation: async (chatId) => {
+            const current = store.conversations.find(c => c.telegramChatId === chatId);
+            if (current) {
+                await saveConversation({ ...current, title: `[Archived] ${current.title}`, telegramChatId: undefined });
+            }
+            return findOrCreateConversation(chatId);
+        },
+        saveConversation,
+        onConversationUpdate: () => {},
+        getAIResponse,
+        handleImageGeneration: async (_generator, _prompt, chatId) => {
+            // The image generators run in the app (local ComfyUI/SD servers, browser-side API keys).
+            await sendMessage(settings.telegram.botToken, chatId, '🎨 Image generation is available while the app is open.');
+        },
+        saveIdentityProfile: async (profile) => {
+            const index = identityProfiles.findIndex(p => p.id === profile.id);
+            if (index === -1) identityProfiles.push(profile);
+            else identityProfiles[index] = profile;
+            log('WARN', 'TELEGRAM', 'Identity profile changed headless; the change is not sent to the app', { profileId: profile.id });
+        },
+        getLorebooks: async () => lorebooks,
+        getUserPersonas: async () => userPersonas,
+        getIdentityProfiles: async () => identityProfiles,
+        getBotConversations: async () => store.conversations.filter(c => c.telegramChatId),
+    };
+
+    log('INFO', 'TELEGRAM', 'Headless bot loaded', {
+        characters: characters.length,
+        lorebooks: lorebooks.length,
+        conversations: store.conversations.length,
+        models: models.length,
+    });
+
+    return {
+        settings,
+        models,
+        characters,
+        host,
+        getUnsyncedConversations: () => store.conversations.filter(c => unsynced.has(c.id)),
+        markSynced: (conversationId) => {
+            if (unsynced.delete(conversationId)) persist();
+        },
+        storeFromApp: (conversation) => {
+            // The app's copy replaces any conversation the relay started for the same chat meanwhile.
+            store.conversations = store.conversations.filter(c =>
+                c.id === conversation.id || !conversation.telegramChatId || c.telegramChatId !== conversation.telegramChatId);
+            putConversation(conversation);
+            unsynced.delete(conversation.id);
+            persist();
+        },
+    };
+};
@@ -0,0 +1,83 @@
+import { mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { createRelayServer, type RelayOptions } from './relayServer';
+import { openUpdateQueue } from './updateQueue';
+import { createFakeTelegramApi } from './fakeTelegramApi';
+import * as telegram from '../services/telegramService';
+
+/**
+ * Entry point of the Telegram relay. See relay/README.md.
+ *
+ *   npm run relay                      Queue webhooks for the app
+ *   npm run relay -- --headless        Answer on its own while the app is not connected
+ *   npm run relay -- fake-telegram     Run the fake Bot API for testing
+ */
+
+const env = (name: string, fallback = ''): string => process.env[name] || fallback;
+
+const runFakeTelegram = () => {
+    const port = Number(env('FAKE_TELEGRAM_PORT', '8788'));
+    createFakeTelegramApi().listen(port, '127.0.0.1', () => {
+        console.log(`Fake Telegram Bot API listening on http://127.0.0.1:${port}`);
+    });
+};
+
+const runRelay = async (isHeadless: boolean) => {
+    const port = Number(env('RELAY_PORT', '8787'));
+    const host = env('RELAY_HOST', '127.0.0.1');
+    const apiBaseUrl = env('TELEGRAM_API_BASE', 'https://api.telegram.org').replace(/\/+$/, '');
+    const dataDir = env('RELAY_DATA_DIR', 'relay-data');
+    const publicUrl = env('RELAY_PUBLIC_URL').replace(/\/+$/, '');
+    mkdirSync(dataDir, { recursive: true });
+    telegram.setApiBaseUrl(apiBaseUrl);
+
+    let botToken = env('TELEGRAM_BOT_TOKEN');
+    let headless: RelayOptions['headless'];
+    if (isHeadless) {
+        const backupPath = env('RELAY_BACKUP');
+        if (!backupPath) throw new Error('--headless needs RELAY_BACKUP, the path of a RolyGem backup file.');
+        // Loaded on demand: the headless bot pulls in the whole chat pipeline.
+        const { setLogPersistence } = await import('../services/loggingService');
+        setLogPersistence(false);
+        const { createHeadlessBot } = await import('./headlessHost');
+        const botOrchestrator = await import('../services/botOrchestrator');
+        const bot = await createHeadlessBot(backupPath, join(dataDir, 'conversations.json'), botToken || undefined);
+        botToken = bot.settings.telegram.botToken;
+        await botOrchestrator.start(bot.settings, bot.models, bot.characters, bot.host, { manualUpdates: true });
+        headless = { bot, handleUpdate: botOrchestrator.handleUpdate };
+    }
+    if (!botToken) throw new Error('Set TELEGRAM_BOT_TOKEN to the token from BotFather.');
+
+    // Generated per run unless fixed, which works because the webhook is registered on every start.
+    const webhookSecret = env('RELAY_WEBHOOK_SECRET') || (publicUrl ? randomBytes(24).toString('hex') : undefined);
+    // One queue per bot: update IDs of different bots are unrelated.
+    const queue = openUpdateQueue(join(dataDir, `updates-${botToken.split(':')[0]}.json`));
+    const server = createRelayServer({ botToken, apiBaseUrl, queue, webhookSecret, headless });
+
+    server.listen(port, host, async () => {
+        console.log(`Telegram relay listening on http://${host}:${port} (${headless ? 'headless' : 'queue only'}, ${queue.size()} queued)`);
+        if (!publicUrl) {
+            console.log('RELAY_PUBLIC_URL is not set; register the webhook yourself or updates will not arrive.');
+            return;
+        }
+        const response = await telegram.setWebhook(botToken, `${publicUrl}/webhook`, webhookSecret);
+        console.log(response.ok ? `Webhook set to ${publicUrl}/webhook` : `Could not set the webhook: ${response.description}`);
+    });
+
+    process.on('SIGINT', () => {
+        console.log('Stopping the relay.');
+        server.close();
+        process.exit(0);
+    });
+};
+
+const args = process.argv.slice(2);
+if (args[0] === 'fake-telegram') {
+    runFakeTelegram();
+} else {
+    runRelay(args.includes('--headless')).catch(error => {
+        console.error(error.message);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,215 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { TelegramRelayClientMessage, TelegramRelayServerMessage, TelegramUpdate } from '../types';
+import type { UpdateQueue } from './updateQueue';
+import type { HeadlessBot } from './headlessHost';
+import { acceptWebSocket, type RelaySocket } from './webSocket';
+
+/**
+ * The relay's HTTP server.
+ *
+ * - POST /webhook receives updates from Telegram and queues them.
+ * - /bot<token>/updates is the app's WebSocket. Queued updates are delivered in order and removed
+ *   when the app acknowledges them. Only one app is connected at a time; a new connection replaces the old one.
+ * - /bot<token>/<method> and /file/bot<token>/<path> forward Bot API calls to `apiBaseUrl`, so the
+ *   app and the headless bot talk to the same Telegram (or fake) API.
+ *
+ * While no app is connected, a headless bot processes the queue itself, if one was given.
+ */
+
+export interface RelayOptions {
+    botToken: string;
+    apiBaseUrl: string;
+    queue: UpdateQueue;
+    // Compared with the X-Telegram-Bot-Api-Secret-Token header of every webhook call.
+    webhookSecret?: string;
+    headless?: {
+        bot: HeadlessBot;
+        handleUpdate: (update: TelegramUpdate) => Promise<void>;
+    };
+}
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const readBody = (request: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+});
+
+const sendJson = (response: ServerResponse, status: number, body: object) => {
+    response.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+    response.end(JSON.stringify(body));
+};
+
+export const createRelayServer = (options: RelayOptions): Server => {
+    const { botToken, apiBaseUrl, queue, webhookSecret, headless } = options;
+    const botPath = `/bot${botToken}`;
+
+    let client: RelaySocket | null = null;
+    // Updates sent to the current client and not acknowledged yet.
+    const delivered = new Set<number>();
+    let headlessBusy = false;
+    let headlessUpdateId: number | null = null;
+
+    const sendToClient = (message: TelegramRelayServerMessage) => client?.send(JSON.stringify(message));
+
+    const deliverToClient = () => {
+        for (const update of queue.all()) {
+            if (delivered.has(update.update_id) || update.update_id === headlessUpdateId) continue;
+            delivered.add(update.update_id);
+            sendToClient({ type: 'update', update });
+        }
+    };
+
+    const processHeadless = async () => {
+        if (!headless || headlessBusy) return;
+        headlessBusy = true;
+        try {
+            // Stops as soon as the app connects; it receives the rest.
+            while (!client?.isOpen()) {
+                const update = queue.peek();
+                if (!update) break;
+                headlessUpdateId = update.update_id;
+                try {
+                    await headless.handleUpdate(update);
+                } catch (error: any) {
+                    console.error(`Headless processing of update ${update.update_id} failed:`, error.message);
+                }
+                headlessUpdateId = null;
+                queue.ack(update.update_id);
+            }
+        } finally {
+            headlessBusy = false;
+        }
+        if (client?.isOpen()) deliverToClient();
+    };
+
+    const dispatch = () => {
+        if (client?.isOpen()) deliverToClient();
+        else void processHeadless();
+    };
+
+    const handleClientMessage = (text: string) => {
+        let message: TelegramRelayClientMessage;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            return;
+        }
+        switch (message.type) {
+            case 'ack':
+                delivered.delete(message.updateId);
+                queue.ack(message.updateId);
+                break;
+            case 'conversation':
+                headless?.bot.storeFromApp(message.conversation);
+                break;
+            case 'synced':
+                headless?.bot.markSynced(message.conversationId);
+                break;
+        }
+    };
+
+    const connectClient = (request: IncomingMessage, connection: Duplex) => {
+        const socket = acceptWebSocket(request, connection, {
+            onMessage: handleClientMessage,
+            onClose: () => {
+                if (client !== socket) return;
+                client = null;
+                console.log('App disconnected.');
+                dispatch();
+            },
+        });
+        if (!socket) return;
+
+        const previous = client;
+        client = socket;
+        delivered.clear();
+        previous?.close();
+        console.log('App connected.');
+
+        for (const conversation of headless?.bot.getUnsyncedConversations() || []) {
+            sendToClient({ type: 'conversation', conversation });
+        }
+        sendToClient({ type: 'hello', queued: queue.size() });
+        deliverToClient();
+    };
+
+    const proxyToTelegram = async (request: IncomingMessage, response: ServerResponse, path: string) => {
+        const body = request.method === 'GET' || request.method === 'HEAD' ? undefined : await readBody(request);
+        try {
+            const upstream = await fetch(`${apiBaseUrl}${path}`, {
+                method: request.method,
+                headers: request.headers['content-type'] ? { 'Content-Type': request.headers['content-type'] } : {},
+                body: body && new Uint8Array(body),
+            });
+            response.writeHead(upstream.status, {
+                'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream',
+                ...CORS_HEADERS,
+            });
+            response.end(Buffer.from(await upstream.arrayBuffer()));
+        } catch (error: any) {
+            sendJson(response, 502, { ok: false, error_code: 502, description: `Relay could not reach the Bot API: ${error.message}` });
+        }
+    };
+
+    const server = createServer(async (request, response) => {
+        const url = new URL(request.url || '/', 'http://relay');
+
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204, CORS_HEADERS);
+            response.end();
+            return;
+        }
+
+        if (url.pathname === '/health') {
+            sendJson(response, 200, { ok: true, queued: queue.size(), appConnected: !!client?.isOpen(), headless: !!headless });
+            return;
+        }
+
+        if (url.pathname === '/webhook' && request.method === 'POST') {
+            if (webhookSecret && request.headers['x-telegram-bot-api-secret-token'] !== webhookSecret) {
+                sendJson(response, 401, { ok: false });
+                return;
+            }
+            let update: TelegramUpdate;
+            try {
+                update = JSON.parse((await readBody(request)).toString('utf8'));
+            } catch {
+                sendJson(response, 400, { ok: false });
+                return;
+            }
+            // Answer right away: Telegram resends updates whose webhook call does not return quickly.
+            sendJson(response, 200, { ok: true });
+            if (typeof update.update_id === 'number' && queue.push(update)) dispatch();
+            return;
+        }
+
+        if (url.pathname.startsWith(`${botPath}/`) || url.pathname.startsWith(`/file${botPath}/`)) {
+            await proxyToTelegram(request, response, url.pathname + url.search);
+            return;
+        }
+
+        sendJson(response, 404, { ok: false, description: 'Not found' });
+    });
+
+    server.on('upgrade', (request, connection) => {
+        const url = new URL(request.url || '/', 'http://relay');
+        if (url.pathname !== `${botPath}/updates`) {
+            connection.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+            return;
+        }
+        connectClient(request, connection);
+    });
+
+    // Updates queued before a restart.
+    server.on('listening', dispatch);
+
+    return server;
+};
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { openUpdateQueue } from './updateQueue';
+import type { TelegramUpdate } from '../types';
+
+// Run with `npm test`. Every test gets its own queue file in a temporary directory.
+const withQueueFile = (run: (filePath: string) => void) => {
+    const dir = mkdtempSync(join(tmpdir(), 'rolygem-queue-'));
+    try {
+        run(join(dir, 'updates.json'));
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+};
+
+const update = (updateId: number): TelegramUpdate => ({ update_id: updateId });
+
+test('a resent update is dropped, also after it was acknowledged', () => withQueueFile(filePath => {
+    const queue = openUpdateQueue(filePath);
+    assert.equal(queue.push(update(10)), true);
+    assert.equal(queue.push(update(10)), false);
+    queue.ack(10);
+    assert.equal(queue.push(update(10)), false);
+    assert.equal(queue.size(), 0);
+}));
+
+test('an update with a lower ID than the ones before it is accepted', () => withQueueFile(filePath => {
+    const queue = openUpdateQueue(filePath);
+    queue.push(update(500));
+    queue.ack(500);
+    assert.equal(queue.push(update(7)), true);
+    assert.equal(queue.push(update(8)), true);
+    assert.deepEqual(queue.all().map(u => u.update_id), [7, 8]);
+}));
+
+test('seen IDs and queued updates survive reopening the queue', () => withQueueFile(filePath => {
+    const queue = openUpdateQueue(filePath);
+    queue.push(update(1));
+    queue.push(update(2));
+    queue.ack(1);
+
+    const reopened = openUpdateQueue(filePath);
+    assert.deepEqual(reopened.all().map(u => u.update_id), [2]);
+    assert.equal(reopened.push(update(1)), false);
+    assert.equal(reopened.push(update(3)), true);
+}));
+
+test('a queue stored with a high lastUpdateId accepts lower IDs', () => withQueueFile(filePath => {
+    writeFileSync(filePath, JSON.stringify({ lastUpdateId: 900000, updates: [] }));
+    const queue = openUpdateQueue(filePath);
+    assert.equal(queue.push(update(42)), true);
+}));
@@ -0,0 +1,71 @@
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'node:fs';
+import type { TelegramUpdate } from '../types';
+
+/**
+ * Telegram updates that were received but not yet processed. The queue is written to disk on every
+ * change, so updates survive a restart of the relay. Telegram retries webhooks that time out, so
+ * updates are deduplicated by the update_ids seen recently. Telegram increments update_id with every
+ * update, but starts over at a random value after a week without updates, so the IDs are not compared.
+ */
+
+// Beyond this the oldest updates are dropped; nobody wants to read a week of backlog replies.
+const MAX_QUEUED_UPDATES = 1000;
+// Telegram resends a webhook within minutes, so remembering this many IDs is plenty.
+const MAX_SEEN_UPDATE_IDS = 1000;
+
+export interface UpdateQueue {
+    push: (update: TelegramUpdate) => boolean;
+    peek: () => TelegramUpdate | undefined;
+    all: () => TelegramUpdate[];
+    ack: (updateId: number) => void;
+    size: () => number;
+}
+
+/**
+ * Opens the queue stored in `filePath`, creating it on the first write.
+ */
+export const openUpdateQueue = (filePath: string): UpdateQueue => {
+    let updates: TelegramUpdate[] = [];
+    // Kept after the update is acknowledged, to recognize webhooks Telegram resends after a slow response.
+    let seenUpdateIds: number[] = [];
+    if (existsSync(filePath)) {
+        try {
+            const stored = JSON.parse(readFileSync(filePath, 'utf8'));
+            updates = stored.updates || [];
+            seenUpdateIds = stored.seenUpdateIds || updates.map((u: TelegramUpdate) => u.update_id);
+        } catch (error: any) {
+            console.error(`Could not read the update queue at ${filePath}, starting empty:`, error.message);
+        }
+    }
+
+    const persist = () => {
+        // Write and rename, so a crash never leaves a half-written queue behind.
+        writeFileSync(`${filePath}.tmp`, JSON.stringify({ seenUpdateIds, updates }));
+        renameSync(`${filePath}.tmp`, filePath);
+    };
+
+    return {
+        push: (update) => {
+            if (seenUpdateIds.includes(update.update_id)) return false;
+            seenUpdateIds.push(update.update_id);
+            if (seenUpdateIds.length > MAX_SEEN_UPDATE_IDS) {
+                seenUpdateIds = seenUpdateIds.slice(-MAX_SEEN_UPDATE_IDS);
+            }
+            updates.push(update);
+            if (updates.length > MAX_QUEUED_UPDATES) {
+                updates = updates.slice(-MAX_QUEUED_UPDATES);
+            }
+            persist();
+            return true;
+        },
+        peek: () => updates[0],
+        all: () => [...updates],
+        ack: (updateId) => {
+            const remaining = updates.filter(u => u.update_id !== updateId);
+            if (remaining.length === updates.length) return;
+            updates = remaining;
+            persist();
+        },
+        size: () => updates.length,
+    };
+};
@@ -0,0 +1,149 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+/**
+ * Minimal WebSocket server side (RFC 6455): handshake, text frames, ping/pong and close.
+ * The relay only talks to one local client, so this avoids shipping a dependency for it.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Updates carry at most a few kilobytes, conversations a few megabytes.
+const MAX_MESSAGE_SIZE = 64 * 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface RelaySocket {
+    send: (text: string) => void;
+    close: () => void;
+    isOpen: () => boolean;
+}
+
+export interface RelaySocketHandlers {
+    onMessage: (text: string) => void;
+    onClose: () => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+/**
+ * Completes the upgrade handshake of an HTTP request and wraps the connection.
+ * @returns null if the request is not a valid WebSocket upgrade; the connection is then closed.
+ */
+export const acceptWebSocket = (request: IncomingMessage, connection: Duplex, handlers: RelaySocketHandlers): RelaySocket | null => {
+    const key = request.headers['sec-websocket-key'];
+    if (typeof key !== 'string' || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+        connection.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return null;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    connection.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+    ].join('\r\n'));
+
+    let open = true;
+    let buffered = Buffer.alloc(0);
+    let fragments: Buffer[] = [];
+
+    const close = () => {
+        if (!open) return;
+        open = false;
+        connection.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        handlers.onClose();
+    };
+
+    const handleFrame = (opcode: number, isFinal: boolean, payload: Buffer) => {
+        switch (opcode) {
+            case OPCODE_TEXT:
+            case OPCODE_CONTINUATION:
+                fragments.push(payload);
+                if (isFinal) {
+                    const text = Buffer.concat(fragments).toString('utf8');
+                    fragments = [];
+                    handlers.onMessage(text);
+                }
+                break;
+            case OPCODE_PING:
+                connection.write(encodeFrame(OPCODE_PONG, payload));
+                break;
+            case OPCODE_CLOSE:
+                close();
+                break;
+            // Pongs and binary frames are ignored.
+        }
+    };
+
+    connection.on('data', (chunk: Buffer) => {
+        buffered = Buffer.concat([buffered, chunk]);
+        while (buffered.length >= 2) {
+            const isFinal = (buffered[0] & 0x80) !== 0;
+            const opcode = buffered[0] & 0x0f;
+            const isMasked = (buffered[1] & 0x80) !== 0;
+            let length = buffered[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (buffered.length < 4) return;
+                length = buffered.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffered.length < 10) return;
+                length = Number(buffered.readBigUInt64BE(2));
+                offset = 10;
+            }
+            if (length > MAX_MESSAGE_SIZE || !isMasked) {
+                // Client frames must be masked; anything else is a protocol error.
+                close();
+                return;
+            }
+            if (buffered.length < offset + 4 + length) return; // Wait for the rest of the frame
+
+            const mask = buffered.subarray(offset, offset + 4);
+            const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) {
+                payload[i] ^= mask[i % 4];
+            }
+            buffered = buffered.subarray(offset + 4 + length);
+            handleFrame(opcode, isFinal, payload);
+            if (!open) return;
+        }
+    });
+    connection.on('close', () => {
+        if (!open) return;
+        open = false;
+        handlers.onClose();
+    });
+    connection.on('error', () => connection.destroy());
+
+    return {
+        send: (text: string) => {
+            if (open) connection.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+        },
+        close,
+        isOpen: () => open,
+    };
+};
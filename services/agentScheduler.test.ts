@@ -0,0 +1,204 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAgentScheduler, type AgentDefinition, type AgentInput, type AgentSchedulerHost } from './agentScheduler';
+import { setLogPersistence } from './loggingService';
+import type { Conversation, Message, Settings } from '../types';
+
+// Run with `npm test`. Node has no IndexedDB, so logs only go to the console.
+setLogPersistence(false);
+
+const createInput = (userTurns: number, conversationId: string = 'c1'): AgentInput => {
+    const messages = Array.from({ length: userTurns }, (_, i) => ({ id: `m${i}`, role: 'user', content: '' }) as Message);
+    return {
+        conversation: { id: conversationId, messages } as unknown as Conversation,
+        settings: {} as Settings,
+        characters: [],
+    };
+};
+
+const createHost = (): AgentSchedulerHost & { commits: number } => {
+    const host = {
+        commits: 0,
+        getConversation: () => null,
+        commit: async () => { host.commits++; return null; },
+        notify: () => {},
+    };
+    return host;
+};
+
+// A promise that the test resolves by hand, to hold an agent run open.
+const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(r => { resolve = r; });
+    return { promise, resolve };
+};
+
+const tick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const agent = (id: string, overrides: Partial<AgentDefinition> = {}): AgentDefinition => ({
+    id,
+    name: id,
+    trigger: () => ({ type: 'everyTurn' }),
+    run: async () => {},
+    ...overrides,
+});
+
+test('everyTurn agents run on each pass', async () => {
+    const scheduler = createAgentScheduler(createHost());
+    let runs = 0;
+    scheduler.register(agent('a', { run: async () => { runs++; } }));
+
+    await scheduler.runAfterResponse(createInput(1));
+    const results = await scheduler.runAfterResponse(createInput(2));
+
+    assert.equal(runs, 2);
+    assert.deepEqual(results, [{ agentId: 'a', status: 'completed' }]);
+});
+
+test('everyNTurns agents run once per interval and restart their count', async () => {
+    const scheduler = createAgentScheduler(createHost());
+    let runs = 0;
+    scheduler.register(agent('a', { trigger: () => ({ type: 'everyNTurns', interval: 3 }), run: async () => { runs++; } }));
+
+    for (let turn = 1; turn <= 6; turn++) await scheduler.runAfterResponse(createInput(turn));
+    assert.equal(runs, 2);
+
+    scheduler.resetCounter('a', 'c1');
+    await scheduler.runAfterResponse(createInput(7));
+    await scheduler.runAfterResponse(createInput(8));
+    assert.equal(runs, 2);
+});
+
+test('smartGate agents run only when the gate passes', async () => {
+    const scheduler = createAgentScheduler(createHost());
+    let open = false;
+    let runs = 0;
+    scheduler.register(agent('a', { trigger: () => ({ type: 'smartGate', gate: async () => open }), run: async () => { runs++; } }));
+
+    assert.deepEqual(await scheduler.runAfterResponse(createInput(1)), [{ agentId: 'a', status: 'skipped', reason: 'gate' }]);
+    open = true;
+    assert.deepEqual(await scheduler.runAfterResponse(createInput(2)), [{ agentId: 'a', status: 'completed' }]);
+    assert.equal(runs, 1);
+});
+
+test('manual and disabled agents only run through runAgent', async () => {
+    const scheduler = createAgentScheduler(createHost());
+    let runs = 0;
+    scheduler.register(agent('manual', { trigger: () => ({ type: 'manual' }), run: async () => { runs++; } }));
+    scheduler.register(agent('disabled', { trigger: () => null, run: async () => { runs++; } }));
+
+    assert.deepEqual(await scheduler.runAfterResponse(createInput(1)), []);
+    assert.equal(runs, 0);
+
+    assert.deepEqual(await scheduler.runAgent('manual', createInput(1)), { agentId: 'manual', status: 'completed' });
+    assert.equal(runs, 1);
+    await assert.rejects(scheduler.runAgent('unknown', createInput(1)), /Unknown agent/);
+});
+
+test('dependsOn waits for the dependencies of the same pass', async () => {
+    const scheduler = createAgentScheduler(createHost(), 4);
+    const order: string[] = [];
+    const first = deferred();
+    scheduler.register(agent('a', { run: async () => { await first.promise; order.push('a'); } }));
+    scheduler.register(agent('b', { dependsOn: ['a'], run: async () => { order.push('b'); } }));
+    scheduler.register(agent('c', { run: async () => { order.push('c'); } }));
+
+    const pass = scheduler.runAfterResponse(createInput(1));
+    await tick();
+    assert.deepEqual(order, ['c']);
+    first.resolve();
+    await pass;
+    assert.deepEqual(order, ['c', 'a', 'b']);
+
+    assert.throws(() => scheduler.register(agent('d', { dependsOn: ['missing'] })), /unregistered/);
+});
+
+test('a dependency that is not due does not block its dependents', async () => {
+    const scheduler = createAgentScheduler(createHost());
+    let runs = 0;
+    scheduler.register(agent('a', { trigger: () => null }));
+    scheduler.register(agent('b', { dependsOn: ['a'], run: async () => { runs++; } }));
+
+    await scheduler.runAfterResponse(createInput(1));
+    assert.equal(runs, 1);
+});
+
+test('maxConcurrentRuns limits runs across conversations', async () => {
+    const scheduler = createAgentScheduler(createHost(), 2);
+    const release = deferred();
+    let running = 0;
+    let peak = 0;
+    for (const id of ['a', 'b', 'c']) {
+        scheduler.register(agent(id, {
+            run: async () => {
+                running++;
+                peak = Math.max(peak, running);
+                await release.promise;
+                running--;
+            },
+        }));
+    }
+
+    const passes = [scheduler.runAfterResponse(createInput(1, 'c1')), scheduler.runAfterResponse(createInput(1, 'c2'))];
+    await tick();
+    assert.equal(running, 2);
+    release.resolve();
+    const results = (await Promise.all(passes)).flat();
+
+    assert.equal(peak, 2);
+    assert.equal(results.filter(r => r.status === 'completed').length, 6);
+});
+
+test('maxConcurrent skips further runs of a busy agent', async () => {
+    const scheduler = createAgentScheduler(createHost());
+    const release = deferred();
+    scheduler.register(agent('a', { run: () => release.promise }));
+
+    const pass = scheduler.runAfterResponse(createInput(1));
+    assert.deepEqual(await scheduler.runAfterResponse(createInput(2)), [{ agentId: 'a', status: 'skipped', reason: 'busy' }]);
+    assert.deepEqual(await scheduler.runAgent('a', createInput(2)), { agentId: 'a', status: 'skipped', reason: 'busy' });
+    // Another conversation has its own count.
+    const other = scheduler.runAfterResponse(createInput(1, 'c2'));
+
+    release.resolve();
+    assert.deepEqual(await pass, [{ agentId: 'a', status: 'completed' }]);
+    assert.deepEqual(await other, [{ agentId: 'a', status: 'completed' }]);
+    assert.deepEqual(await scheduler.runAfterResponse(createInput(3)), [{ agentId: 'a', status: 'completed' }]);
+});
+
+test('cancel aborts the passes of a conversation and drops their commits', async () => {
+    const host = createHost();
+    const scheduler = createAgentScheduler(host, 1);
+    const release = deferred();
+    let signal: AbortSignal | undefined;
+    scheduler.register(agent('a', {
+        run: async (context) => {
+            signal = context.signal;
+            await release.promise;
+            await context.commit(conversation => conversation);
+        },
+    }));
+    scheduler.register(agent('b', { run: async (context) => { await context.commit(conversation => conversation); } }));
+
+    const cancelled = scheduler.runAfterResponse(createInput(1, 'c1'));
+    const kept = scheduler.runAfterResponse(createInput(1, 'c2'));
+    await tick();
+    scheduler.cancel('c1');
+    assert.equal(signal?.aborted, true);
+    release.resolve();
+
+    assert.deepEqual(await cancelled, [{ agentId: 'a', status: 'cancelled' }, { agentId: 'b', status: 'cancelled' }]);
+    assert.deepEqual(await kept, [{ agentId: 'a', status: 'completed' }, { agentId: 'b', status: 'completed' }]);
+    assert.equal(host.commits, 2);
+});
+
+test('a failing agent does not stop the others', async () => {
+    const scheduler = createAgentScheduler(createHost());
+    scheduler.register(agent('a', { run: async () => { throw new Error('boom'); } }));
+    scheduler.register(agent('b', { dependsOn: ['a'] }));
+
+    assert.deepEqual(await scheduler.runAfterResponse(createInput(1)), [
+        { agentId: 'a', status: 'failed', reason: 'boom' },
+        { agentId: 'b', status: 'completed' },
+    ]);
+});
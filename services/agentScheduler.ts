@@ -0,0 +1,254 @@
+import type { Character, Conversation, Settings } from '../types';
+import { log } from './loggingService';
+
+/**
+ * Scheduler for the agents that run after a model response (title, Conscious State, Living Lore,
+ * Will Engine, Director AI, ...). Independent of React: the host only provides access to the
+ * latest conversation, a way to commit changes and notifications.
+ *
+ * Each agent declares when it runs (every turn, every N turns, behind a smart gate, or only
+ * manually), which agents it waits for, and how many of its runs may overlap. All changes go
+ * through `commit`, which applies them to the latest conversation state one at a time, so agents
+ * finishing together no longer overwrite each other's results.
+ */
+
+export type AgentTrigger =
+    | { type: 'everyTurn' }
+    // Counted per conversation since the agent last ran.
+    | { type: 'everyNTurns'; interval: number }
+    // An extra check (usually a cheap model call) decides whether the agent runs.
+    | { type: 'smartGate'; gate: (context: AgentContext) => Promise<boolean> }
+    | { type: 'manual' };
+
+export interface AgentNotificationAction {
+    label: string;
+    // Applied to the latest state of the conversation the notification came from, when the user clicks the action.
+    update: (conversation: Conversation) => Conversation;
+}
+
+export interface AgentNotification {
+    title: string;
+    message: string;
+    type?: 'info' | 'success' | 'error';
+    // A notification with actions stays until the user answers it.
+    actions?: AgentNotificationAction[];
+}
+
+export interface AgentInput {
+    // The conversation right after the response was added.
+    conversation: Conversation;
+    settings: Settings;
+    // Characters active in the conversation.
+    characters: Character[];
+}
+
+export interface AgentContext extends AgentInput {
+    // Number of user turns in the conversation.
+    turn: number;
+    // Aborted when the pass is cancelled, e.g. because the user left the conversation.
+    signal: AbortSignal;
+    // The latest state of the conversation, or null once the user switched to another one.
+    getConversation: () => Conversation | null;
+    /**
+     * Applies a change to the latest conversation state and saves it.
+     * @returns The updated conversation, or null if the pass was cancelled or the conversation is no longer open.
+     */
+    commit: (update: (conversation: Conversation) => Conversation) => Promise<Conversation | null>;
+    notify: (notification: AgentNotification) => void;
+}
+
+export interface AgentDefinition {
+    id: string;
+    name: string;
+    // Returns null when the agent is disabled for this conversation.
+    trigger: (context: AgentContext) => AgentTrigger | null;
+    run: (context: AgentContext) => Promise<void>;
+    // Agents that must finish first when they run in the same pass. They must be registered before this one.
+    dependsOn?: string[];
+    // Runs of this agent that may be in flight per conversation; further triggers are skipped. Defaults to 1.
+    maxConcurrent?: number;
+}
+
+export type AgentRunStatus = 'completed' | 'skipped' | 'failed' | 'cancelled';
+
+export interface AgentRunResult {
+    agentId: string;
+    status: AgentRunStatus;
+    reason?: string;
+}
+
+export interface AgentSchedulerHost {
+    getConversation: (conversationId: string) => Conversation | null;
+    commit: (conversationId: string, update: (conversation: Conversation) => Conversation) => Promise<Conversation | null>;
+    notify: (notification: AgentNotification, conversationId: string) => void;
+}
+
+export interface AgentScheduler {
+    register: (agent: AgentDefinition) => void;
+    unregister: (agentId: string) => void;
+    /**
+     * Runs every registered agent whose trigger fires for this turn.
+     * @param only - Restricts the pass to these agents.
+     * @returns The outcome of each agent that was considered, once all of them finished.
+     */
+    runAfterResponse: (input: AgentInput, only?: string[]) => Promise<AgentRunResult[]>;
+    // Runs one agent now, regardless of its trigger, and restarts its turn count.
+    runAgent: (agentId: string, input: AgentInput) => Promise<AgentRunResult>;
+    // Restarts an agent's turn count, e.g. after the user answered its suggestion.
+    resetCounter: (agentId: string, conversationId: string) => void;
+    // Cancels the running passes of a conversation, or of all conversations.
+    cancel: (conversationId?: string) => void;
+}
+
+/**
+ * Creates a scheduler.
+ * @param maxConcurrentRuns - Agent runs (including smart gates) allowed at the same time across all conversations.
+ */
+export const createAgentScheduler = (host: AgentSchedulerHost, maxConcurrentRuns: number = 2): AgentScheduler => {
+    const agents = new Map<string, AgentDefinition>();
+    // Keyed by `${conversationId}:${agentId}`.
+    const turnCounters = new Map<string, number>();
+    const inFlight = new Map<string, number>();
+    const passControllers = new Map<string, Set<AbortController>>();
+
+    let activeRuns = 0;
+    const waitingForSlot: (() => void)[] = [];
+
+    const acquireSlot = async () => {
+        while (activeRuns >= maxConcurrentRuns) {
+            await new Promise<void>(resolve => waitingForSlot.push(resolve));
+        }
+        activeRuns++;
+    };
+    const releaseSlot = () => {
+        activeRuns--;
+        waitingForSlot.shift()?.();
+    };
+
+    const createContext = (input: AgentInput, signal: AbortSignal): AgentContext => {
+        const conversationId = input.conversation.id;
+        return {
+            ...input,
+            turn: input.conversation.messages.filter(m => m.role === 'user').length,
+            signal,
+            getConversation: () => signal.aborted ? null : host.getConversation(conversationId),
+            commit: async (update) => signal.aborted ? null : host.commit(conversationId, update),
+            notify: (notification) => {
+                if (!signal.aborted) host.notify(notification, conversationId);
+            },
+        };
+    };
+
+    const execute = async (agent: AgentDefinition, context: AgentContext, gate?: (context: AgentContext) => Promise<boolean>): Promise<AgentRunResult> => {
+        const key = `${context.conversation.id}:${agent.id}`;
+        await acquireSlot();
+        try {
+            if (context.signal.aborted) return { agentId: agent.id, status: 'cancelled' };
+            if (gate && !(await gate(context))) return { agentId: agent.id, status: 'skipped', reason: 'gate' };
+            if (context.signal.aborted) return { agentId: agent.id, status: 'cancelled' };
+            await agent.run(context);
+            return { agentId: agent.id, status: context.signal.aborted ? 'cancelled' : 'completed' };
+        } catch (error: any) {
+            log('ERROR', 'AGENTS', `${agent.name} failed`, { conversationId: context.conversation.id, error: error.message });
+            return { agentId: agent.id, status: 'failed', reason: error.message };
+        } finally {
+            releaseSlot();
+            inFlight.set(key, (inFlight.get(key) || 1) - 1);
+        }
+    };
+
+    const startPass = (conversationId: string): AbortController => {
+        const controller = new AbortController();
+        if (!passControllers.has(conversationId)) passControllers.set(conversationId, new Set());
+        passControllers.get(conversationId)!.add(controller);
+        return controller;
+    };
+    const endPass = (conversationId: string, controller: AbortController) => {
+        const controllers = passControllers.get(conversationId);
+        controllers?.delete(controller);
+        if (controllers?.size === 0) passControllers.delete(conversationId);
+    };
+
+    const runAfterResponse = async (input: AgentInput, only?: string[]): Promise<AgentRunResult[]> => {
+        const conversationId = input.conversation.id;
+        const controller = startPass(conversationId);
+        const context = createContext(input, controller.signal);
+        const results: AgentRunResult[] = [];
+        const tasks = new Map<string, Promise<AgentRunResult>>();
+
+        for (const agent of agents.values()) {
+            if (only && !only.includes(agent.id)) continue;
+            const trigger = agent.trigger(context);
+            if (!trigger || trigger.type === 'manual') continue;
+
+            const key = `${conversationId}:${agent.id}`;
+            if (trigger.type === 'everyNTurns') {
+                const count = (turnCounters.get(key) || 0) + 1;
+                turnCounters.set(key, count);
+                if (count < trigger.interval) continue;
+            }
+            if ((inFlight.get(key) || 0) >= (agent.maxConcurrent ?? 1)) {
+                // The previous run is still busy; an everyNTurns agent stays due and runs next turn.
+                results.push({ agentId: agent.id, status: 'skipped', reason: 'busy' });
+                continue;
+            }
+            inFlight.set(key, (inFlight.get(key) || 0) + 1);
+            if (trigger.type === 'everyNTurns') turnCounters.set(key, 0);
+
+            const dependencies = (agent.dependsOn || []).map(id => tasks.get(id)).filter((t): t is Promise<AgentRunResult> => !!t);
+            const gate = trigger.type === 'smartGate' ? trigger.gate : undefined;
+            tasks.set(agent.id, Promise.all(dependencies).then(() => execute(agent, context, gate)));
+        }
+
+        try {
+            results.push(...await Promise.all(tasks.values()));
+        } finally {
+            endPass(conversationId, controller);
+        }
+        const ran = results.filter(r => r.status !== 'skipped').map(r => `${r.agentId}: ${r.status}`);
+        if (ran.length > 0) {
+            log('DEBUG', 'AGENTS', 'Post-response agents finished', { conversationId, turn: context.turn, results: ran });
+        }
+        return results;
+    };
+
+    const runAgent = async (agentId: string, input: AgentInput): Promise<AgentRunResult> => {
+        const agent = agents.get(agentId);
+        if (!agent) throw new Error(`Unknown agent: ${agentId}`);
+        const conversationId = input.conversation.id;
+        const key = `${conversationId}:${agentId}`;
+        if ((inFlight.get(key) || 0) >= (agent.maxConcurrent ?? 1)) {
+            return { agentId, status: 'skipped', reason: 'busy' };
+        }
+        inFlight.set(key, (inFlight.get(key) || 0) + 1);
+        turnCounters.set(key, 0);
+
+        const controller = startPass(conversationId);
+        try {
+            return await execute(agent, createContext(input, controller.signal));
+        } finally {
+            endPass(conversationId, controller);
+        }
+    };
+
+    return {
+        register: (agent) => {
+            if (agents.has(agent.id)) throw new Error(`Agent ${agent.id} is already registered.`);
+            const missing = (agent.dependsOn || []).filter(id => !agents.has(id));
+            if (missing.length > 0) throw new Error(`Agent ${agent.id} depends on unregistered agents: ${missing.join(', ')}`);
+            agents.set(agent.id, agent);
+        },
+        unregister: (agentId) => {
+            agents.delete(agentId);
+        },
+        runAfterResponse,
+        runAgent,
+        resetCounter: (agentId, conversationId) => {
+            turnCounters.delete(`${conversationId}:${agentId}`);
+        },
+        cancel: (conversationId) => {
+            const targets = conversationId ? [passControllers.get(conversationId)] : [...passControllers.values()];
+            targets.forEach(controllers => controllers?.forEach(c => c.abort()));
+        },
+    };
+};
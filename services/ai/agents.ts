@@ -1,7 +1,11 @@
 import { Type } from "@google/genai";
-import type { Message, Character, LivingLoreSuggestion, LivingLoreUpdate, Settings, NarrativeDirective, DirectiveIntent } from '../../types';
-import { callGeminiWithRetry, streamGeminiWithRetry, getPromptConfig } from '../../utils/apiHelpers';
+import type { Message, Character, LivingLoreSuggestion, LivingLoreUpdate, Settings, NarrativeDirective, DirectiveIntent, DirectiveMilestone, DirectorEventTemplate } from '../../types';
+import { getPromptConfig } from '../../utils/apiHelpers';
+import { callModelWithRetry, streamModelWithRetry } from './providers';
 import { PROMPT_IDS } from '../../constants';
+import { getActiveTaskMemory } from '../directiveTimeline';
+import { getCurrentMilestone, describeDirectiveFocus, chainMilestones } from '../directiveMilestones';
+import { generateUUID } from '../../utils/uuid';
 
 /**
  * This module contains the logic for autonomous AI agents that can interact with the story.
@@ -92,7 +96,7 @@ ${characterInfo}
 Based on this, does any character's sheet need an update?`;
 
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -157,12 +161,14 @@ Based on this, does any character's sheet need an update?`;
  * @param history - The message history to analyze for context.
  * @param scanDepth - How many recent messages to scan.
  * @param settings - Optional settings (will be fetched if not provided)
+ * @param options - The event template picked from the library, and recent events the new one must not repeat.
  * @returns A string containing the suggested event, or null on error.
  */
 export const getDirectorSuggestion = async (
     history: Message[],
     scanDepth: number,
     settings?: Settings,
+    options: { template?: DirectorEventTemplate | null; recentEvents?: string[] } = {},
 ): Promise<string | null> => {
     // Get prompt configuration from user settings (AI Prompts tab)
     const promptConfig = await getPromptConfig(PROMPT_IDS.DIRECTOR_SUGGESTION, settings);
@@ -178,14 +184,22 @@ Examples:
 
 IMPORTANT: Provide ONLY ONE event suggestion. Do NOT write multiple suggestions or a long story. Just provide a single, impactful, narrative event description.`;
 
+    const templateSection = options.template
+        ? `\nEvent Type: ${options.template.name} - ${options.template.description}${options.template.tags.length > 0 ? ` (${options.template.tags.join(', ')})` : ''}\nWrite an event of this type that fits the current scene.\n`
+        : '';
+    const recentSection = options.recentEvents && options.recentEvents.length > 0
+        ? `\nRecent events (do NOT repeat or closely resemble these):\n${options.recentEvents.map(e => `- ${e}`).join('\n')}\n`
+        : '';
+
     const userPrompt = `Conversation History:
 ---
 ${excerpt}
 ---
+${templateSection}${recentSection}
 Suggest a new event:`;
     
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: userPrompt,
@@ -244,7 +258,7 @@ User's Idea: "${customPrompt}"
 Flesh this out into a narrative event:`;
 
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: userPrompt,
@@ -347,7 +361,7 @@ ${customPrompt}
     userPrompt += `Based on all the above, provide the new, complete character sheet fields in the specified JSON format.`;
 
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: userPrompt,
@@ -418,21 +432,25 @@ export const generateDirectiveIntent = async (
         required: ["type", "content", "reasoning"]
     };
 
-    const currentProgress = directive.progress || 0;
+    // Multi-step directives work toward their current milestone; progress and urgency refer to it.
+    const milestone = getCurrentMilestone(directive);
+    const currentProgress = (milestone ? milestone.progress : directive.progress) || 0;
     const urgencyLevel = currentProgress >= 70 ? 'Very high — completion is near' : 
                          currentProgress >= 50 ? 'High — accelerate' :
                          currentProgress >= 30 ? 'Medium' : 'Low';
     
     // Build task memory context - show what has been injected before
+    // Injections the user retracted from the directive timeline don't count as attempts.
+    const taskMemory = getActiveTaskMemory(directive);
     let taskMemoryContext = '';
-    if (directive.taskMemory && directive.taskMemory.length > 0) {
-        const memoryEntries = directive.taskMemory.slice(-5).map((entry, idx) => {
+    if (taskMemory.length > 0) {
+        const memoryEntries = taskMemory.slice(-5).map((entry, idx) => {
             const typeLabel = entry.intentType === 'scene_opportunity' ? '🎬 Opportunity/Event' : '🎭 Character Action';
             return `${idx + 1}. ${typeLabel}: ${entry.intentContent}`;
         }).join('\n');
         
         taskMemoryContext = `
-📋 Previous injections for this directive (last ${Math.min(5, directive.taskMemory.length)}):
+📋 Previous injections for this directive (last ${Math.min(5, taskMemory.length)}):
 ${memoryEntries}
 
 ⚠️ Critical: do not repeat earlier actions. The new opportunity must push the story forward.
@@ -443,10 +461,17 @@ ${memoryEntries}
 `;
     }
     
+    const milestoneContext = milestone
+        ? `🪜 Current milestone (step ${(directive.milestones || []).filter(m => m.isCompleted).length + 1} of ${directive.milestones!.length}): "${milestone.title}"
+Reached when: ${milestone.completionCriteria}
+Work ONLY toward this milestone, not the later ones.
+`
+        : '';
+    
     const userPrompt = `
 Character: ${directive.targetCharacterName}
 Long-term goal: "${directive.goal}"
-Required subtlety level: ${directive.subtlety}
+${milestoneContext}Required subtlety level: ${directive.subtlety}
 
 📊 Current progress: ${currentProgress}%
 ⚡ Urgency: ${urgencyLevel}
@@ -464,7 +489,7 @@ ${conversationExcerpt}
 Analyze the context and craft a strong, direct opportunity to help the character reach the goal. The higher the progress, the more urgent and impactful the opportunity should be.`;
 
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model,
                 contents: userPrompt,
@@ -493,12 +518,15 @@ Analyze the context and craft a strong, direct opportunity to help the character
  * Smart Verification System (System 1)
  * Analyzes recent messages to determine if a narrative directive goal has been achieved
  * Returns a progress score (0-100) and completion status
+ * For multi-step directives, only the current milestone is judged; its ID is returned with the result.
  */
 export const verifyDirectiveProgress = async (
-    directive: { goal: string; targetCharacterName: string; progress?: number },
+    directive: Pick<NarrativeDirective, 'goal' | 'targetCharacterName' | 'progress' | 'milestones'>,
     recentMessages: { role: string; content: string }[],
     settings: any
-): Promise<{ progress: number; isCompleted: boolean; reasoning: string }> => {
+): Promise<{ progress: number; isCompleted: boolean; reasoning: string; milestoneId?: string }> => {
+    const milestone = getCurrentMilestone(directive);
+    const previousProgress = (milestone ? milestone.progress : directive.progress) || 0;
     try {
         const messagesText = recentMessages
             .slice(-10) // Last 10 messages
@@ -542,16 +570,21 @@ Response format (JSON):
 }`
         };
 
+        const goalText = milestone
+            ? `Goal: ${milestone.title}
+Completion criteria: ${milestone.completionCriteria}
+(This is one milestone of the long-term goal "${directive.goal}". Judge ONLY this milestone.)`
+            : `Goal: ${directive.goal}`;
         const userPrompt = `Character: ${directive.targetCharacterName}
-Goal: ${directive.goal}
-Current Progress: ${directive.progress || 0}%
+${goalText}
+Current Progress: ${previousProgress}%
 
 Recent Conversation:
 ${messagesText}
 
 Analyze and respond:`;
 
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model,
                 contents: userPrompt,
@@ -573,14 +606,15 @@ Analyze and respond:`;
             return {
                 progress: Math.max(0, Math.min(100, result.progress || 0)),
                 isCompleted: result.isCompleted === true,
-                reasoning: result.reasoning || 'No reasoning provided'
+                reasoning: result.reasoning || 'No reasoning provided',
+                milestoneId: milestone?.id,
             };
         }
         
-        return { progress: directive.progress || 0, isCompleted: false, reasoning: 'Failed to parse response' };
+        return { progress: previousProgress, isCompleted: false, reasoning: 'Failed to parse response', milestoneId: milestone?.id };
     } catch (error) {
         console.error("Error verifying directive progress:", error);
-        return { progress: directive.progress || 0, isCompleted: false, reasoning: 'Verification error' };
+        return { progress: previousProgress, isCompleted: false, reasoning: 'Verification error', milestoneId: milestone?.id };
     }
 };
 
@@ -590,7 +624,7 @@ Analyze and respond:`;
  * Returns an activation score (0-100) indicating relevance
  */
 export const analyzeDirectiveContext = async (
-    directive: { goal: string; targetCharacterName: string; contextTriggers?: string[] },
+    directive: Pick<NarrativeDirective, 'goal' | 'targetCharacterName' | 'contextTriggers' | 'milestones'>,
     recentMessages: { role: string; content: string }[],
     settings: any
 ): Promise<{ activationScore: number; suggestedTriggers: string[] }> => {
@@ -629,7 +663,7 @@ Response format (JSON):
         };
 
         const userPrompt = `Character: ${directive.targetCharacterName}
-Goal: ${directive.goal}
+Goal: ${describeDirectiveFocus(directive)}
 ${triggersText}
 
 Recent Context:
@@ -637,7 +671,7 @@ ${messagesText}
 
 Analyze and respond:`;
 
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model,
                 contents: userPrompt,
@@ -698,12 +732,12 @@ Respond with a JSON object:
   "reason": "<brief explanation in Arabic>"
 }`;
 
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: 'gemini-2.5-flash-lite',
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
             config: { temperature: 0.3, maxOutputTokens: 500 }
         }, settings);
-        const text = response?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
+        const text = response?.text?.trim() || '';
         
         const jsonMatch = text.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
@@ -722,6 +756,179 @@ Respond with a JSON object:
     }
 };
 
+/**
+ * Fact miner: finds new, lasting facts in recent messages that are not in the fact list yet.
+ * Each fact comes with the IDs of the messages it was established in.
+ */
+export const mineConversationFacts = async (
+    messages: Pick<Message, 'id' | 'role' | 'content'>[],
+    knownFacts: string[],
+    settings: any
+): Promise<{ content: string; category: 'event' | 'relationship' | 'secret' | 'decision'; sourceMessageIds: string[] }[]> => {
+    if (messages.length === 0) return [];
+    try {
+        const messagesText = messages.map((m, i) => `[${i + 1}] ${m.role}: ${m.content}`).join('\n\n');
+        const knownText = knownFacts.length > 0 ? knownFacts.map(f => `- ${f}`).join('\n') : '(none)';
+
+        const prompt = `You maintain the list of key facts of a roleplay, used to keep the story consistent.
+
+Find NEW facts established in the messages below that later replies must not contradict:
+- event: something that happened (deaths, injuries, losses, discoveries)
+- relationship: a lasting change between characters
+- secret: something revealed or hidden from someone
+- decision: a choice or promise a character made
+
+Rules:
+- Only facts the messages state clearly; no guesses, moods or small talk
+- Skip anything already covered by the known facts
+- One short sentence in past tense per fact (max 150 characters), in the conversation's language
+- At most 3 facts; an empty list is fine
+
+Known facts:
+${knownText}
+
+Messages:
+${messagesText}
+
+Respond with a JSON object:
+{
+  "facts": [{ "content": "<fact>", "category": "event|relationship|secret|decision", "messages": [<numbers of the messages that establish it>] }]
+}`;
+
+        const response = await callModelWithRetry({
+            model: 'gemini-2.5-flash-lite',
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            config: { temperature: 0.2, maxOutputTokens: 800, thinkingConfig: { thinkingBudget: 0 } }
+        }, settings, 30000);
+        const text = response?.text?.trim() || '';
+
+        const jsonMatch = text.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) return [];
+        const result = JSON.parse(jsonMatch[0]);
+        const categories = ['event', 'relationship', 'secret', 'decision'];
+        return (Array.isArray(result.facts) ? result.facts : [])
+            .filter((f: any) => typeof f?.content === 'string' && f.content.trim())
+            .map((f: any) => ({
+                content: f.content.trim(),
+                category: categories.includes(f.category) ? f.category : 'event',
+                sourceMessageIds: (Array.isArray(f.messages) ? f.messages : [])
+                    .map((n: any) => messages[Number(n) - 1]?.id)
+                    .filter(Boolean),
+            }));
+    } catch (error) {
+        console.error("Error mining conversation facts:", error);
+        return [];
+    }
+};
+
+/**
+ * Continuity check: finds the active facts a model reply contradicts. A deliberate change in the
+ * story (the fact stops being true in this reply) also counts; then a corrected fact is suggested.
+ */
+export const checkFactContradictions = async (
+    reply: string,
+    facts: { id: string; content: string }[],
+    settings: any
+): Promise<{ factId: string; explanation: string; correctedFact?: string }[]> => {
+    if (facts.length === 0 || !reply.trim()) return [];
+    try {
+        const factsText = facts.map((f, i) => `${i + 1}. ${f.content}`).join('\n');
+
+        const prompt = `You check a roleplay reply for continuity errors against the established facts.
+
+A contradiction is a statement in the reply that cannot be true if the fact is true
+(a dead character acting alive, a kept secret known by someone who doesn't know it, a broken object used intact...).
+Omissions, different wording and events that simply follow on from a fact are NOT contradictions.
+
+Facts:
+${factsText}
+
+Reply:
+${reply}
+
+Respond with a JSON object:
+{
+  "contradictions": [{
+    "fact": <fact number>,
+    "explanation": "<what in the reply contradicts the fact, one sentence>",
+    "correctedFact": "<the fact rewritten to match the reply, for if the story really changed it>"
+  }]
+}`;
+
+        const response = await callModelWithRetry({
+            model: 'gemini-2.5-flash-lite',
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            config: { temperature: 0.1, maxOutputTokens: 600, thinkingConfig: { thinkingBudget: 0 } }
+        }, settings, 20000);
+        const text = response?.text?.trim() || '';
+
+        const jsonMatch = text.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) return [];
+        const result = JSON.parse(jsonMatch[0]);
+        return (Array.isArray(result.contradictions) ? result.contradictions : [])
+            .map((c: any) => ({ fact: facts[Number(c?.fact) - 1], c }))
+            .filter(({ fact }: { fact?: { id: string } }) => fact)
+            .map(({ fact, c }: { fact: { id: string }; c: any }) => ({
+                factId: fact.id,
+                explanation: String(c.explanation || ''),
+                correctedFact: typeof c.correctedFact === 'string' && c.correctedFact.trim() ? c.correctedFact.trim() : undefined,
+            }));
+    } catch (error) {
+        console.error("Error checking fact contradictions:", error);
+        return [];
+    }
+};
+
+/**
+ * Story Arc evaluator: judges which of a level's 'event' milestones have happened in the recent
+ * conversation. Returns the IDs of the reached ones; an error counts as none reached.
+ */
+export const checkStoryArcEvents = async (
+    events: { id: string; text: string }[],
+    recentMessages: { role: string; content: string }[],
+    settings: any
+): Promise<{ id: string; reasoning: string }[]> => {
+    if (events.length === 0) return [];
+    try {
+        const messagesText = recentMessages.map(m => `${m.role}: ${m.content}`).join('\n\n');
+        const eventsText = events.map((e, i) => `${i + 1}. ${e.text}`).join('\n');
+
+        const prompt = `You check whether story milestones have happened in a roleplay.
+
+A milestone counts ONLY if the conversation shows it clearly happening or having happened.
+Plans, hints, intentions or partial steps do NOT count. When in doubt, it has not happened.
+
+Milestones:
+${eventsText}
+
+Recent Conversation:
+${messagesText}
+
+Respond with a JSON object:
+{
+  "reached": [{ "number": <milestone number>, "reasoning": "<the event in the story that shows it>" }]
+}`;
+
+        const response = await callModelWithRetry({
+            model: 'gemini-2.5-flash-lite',
+            contents: [{ role: 'user', parts: [{ text: prompt }] }],
+            config: { temperature: 0.2, maxOutputTokens: 500, thinkingConfig: { thinkingBudget: 0 } }
+        }, settings, 20000);
+        const text = response?.text?.trim() || '';
+
+        const jsonMatch = text.match(/\{[\s\S]*\}/);
+        if (!jsonMatch) return [];
+        const result = JSON.parse(jsonMatch[0]);
+        return (Array.isArray(result.reached) ? result.reached : [])
+            .map((r: any) => ({ event: events[Number(r?.number) - 1], reasoning: String(r?.reasoning || '') }))
+            .filter((r: { event?: { id: string } }) => r.event)
+            .map((r: { event: { id: string }; reasoning: string }) => ({ id: r.event.id, reasoning: r.reasoning }));
+    } catch (error) {
+        console.error("Error checking story arc milestones:", error);
+        return [];
+    }
+};
+
 /**
  * Smart Living Lore - Intelligent Event Detection
  * Analyzes conversation to detect significant events that warrant character sheet updates
@@ -758,12 +965,12 @@ Respond with a JSON object:
   "changeDescription": "<brief description of the change in Arabic>"
 }`;
 
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: 'gemini-2.5-flash-lite',
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
             config: { temperature: 0.3, maxOutputTokens: 500 }
         }, settings);
-        const text = response?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
+        const text = response?.text?.trim() || '';
         
         const jsonMatch = text.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
@@ -818,7 +1025,7 @@ ${messagesText}
 
 Decide and return JSON.`;
 
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: (promptConfig && (promptConfig as any).model) || 'gemini-2.5-flash-lite',
                 contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -850,6 +1057,66 @@ Decide and return JSON.`;
     }
 };
 
+/**
+ * Directive Decomposition
+ * Breaks a directive's goal into milestones with completion criteria, for multi-step directives.
+ * Dependencies come back as milestone IDs; milestones without any listed are chained in order.
+ */
+export const decomposeDirectiveGoal = async (
+    directive: Pick<NarrativeDirective, 'goal' | 'targetCharacterName'>,
+    recentMessages: { role: string; content: string }[],
+    settings?: Settings
+): Promise<DirectiveMilestone[]> => {
+    const promptConfig = await getPromptConfig(PROMPT_IDS.DIRECTIVE_DECOMPOSITION, settings);
+    const messagesText = recentMessages.map(m => `${m.role}: ${m.content}`).join('\n');
+    const userPrompt = `Character: ${directive.targetCharacterName || 'N/A'}
+Long-term goal: "${directive.goal}"
+
+Recent Conversation:
+${messagesText || '(The story has not started yet.)'}
+
+Break the goal into milestones and return JSON.`;
+
+    try {
+        const response = await callModelWithRetry(
+            {
+                model: promptConfig.model,
+                contents: userPrompt,
+                config: {
+                    systemInstruction: promptConfig.template,
+                    responseMimeType: 'application/json',
+                    temperature: 0.5,
+                    thinkingConfig: { thinkingBudget: 0 },
+                }
+            },
+            settings,
+            30000
+        );
+
+        const jsonMatch = (response.text?.trim() || '').match(/\{[\s\S]*\}/);
+        const steps: { title?: string; completionCriteria?: string; after?: number[] }[] = jsonMatch ? JSON.parse(jsonMatch[0]).milestones || [] : [];
+        const valid = steps.filter(step => step.title?.trim());
+        if (valid.length === 0) throw new Error('The model returned no milestones.');
+
+        const ids = valid.map(() => generateUUID());
+        const milestones = valid.map((step, index): DirectiveMilestone => ({
+            id: ids[index],
+            title: step.title!.trim(),
+            completionCriteria: step.completionCriteria?.trim() || step.title!.trim(),
+            // Only earlier milestones can be dependencies, which also rules out cycles.
+            dependsOn: (Array.isArray(step.after) ? step.after : [])
+                .filter(n => Number.isInteger(n) && n >= 1 && n <= index)
+                .map(n => ids[n - 1]),
+            progress: 0,
+            isCompleted: false,
+        }));
+        return milestones.some(m => m.dependsOn!.length > 0) ? milestones : chainMilestones(milestones);
+    } catch (error: any) {
+        console.error('Error decomposing directive goal:', error);
+        throw new Error(`Could not break the goal into milestones: ${error.message}`);
+    }
+};
+
 /**
  * Smart Conscious State - Emotional Dynamics Detection
  * Analyzes conversation to determine if emotional/mental state has changed significantly
@@ -889,12 +1156,12 @@ Respond with a JSON object:
   "reason": "<brief explanation of main changes in Arabic>"
 }`;
 
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: 'gemini-2.5-flash-lite',
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
             config: { temperature: 0.3, maxOutputTokens: 500 }
         }, settings);
-        const text = response?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
+        const text = response?.text?.trim() || '';
         
         const jsonMatch = text.match(/\{[\s\S]*\}/);
         if (jsonMatch) {
@@ -939,7 +1206,7 @@ export const analyzeEmotionalDynamicsSchema = async (
         };
         const userPrompt = `Current State:\n${currentStateStr}\n\nRecent Conversation:\n${messagesText}`;
 
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptConfig.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
             config: {
@@ -1,7 +1,8 @@
-import { Type } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
 import type { Settings, Message } from '../../types';
 import { PROMPT_IDS } from '../../constants';
-import { callGeminiWithRetry, streamGeminiWithRetry, getPromptConfig } from '../../utils/apiHelpers';
+import { getPromptConfig, getGeminiApiKeys } from '../../utils/apiHelpers';
+import { callModelWithRetry, streamModelWithRetry } from './providers';
 
 /**
  * Streams an AI-generated response from the user's perspective to continue a conversation.
@@ -22,7 +23,7 @@ ${lastTenModelMessages}
 ---
 Your reply as ${userName} (in Arabic):`;
 
-    await streamGeminiWithRetry(
+    await streamModelWithRetry(
         {
             model: 'gemini-2.5-flash-lite',
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -50,7 +51,7 @@ export const streamPromptPolish = async (
 ): Promise<void> => {
     const systemPrompt = `You are a master writer and prompt engineer. A user has written a piece of text for a story in Arabic. Your task is to polish and improve it. Make it more descriptive, clear, and evocative. Correct any grammatical errors. The output must be in Arabic and a direct replacement for the original text. Do not add any commentary. Just provide the improved text.`;
 
-    await streamGeminiWithRetry(
+    await streamModelWithRetry(
         {
             model: 'gemini-2.5-flash-lite',
             contents: [{ role: 'user', parts: [{ text: originalText }] }],
@@ -85,7 +86,7 @@ export const impersonateScene = async (
         userPrompt = `Scenario: User has provided no input.\n\nConversation History:\n---\n${conversationExcerpt}\n---\nContinue the story with a new scene:`;
     }
 
-    const response = await callGeminiWithRetry(
+    const response = await callModelWithRetry(
         {
             model: promptDetails.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -116,7 +117,7 @@ export const removeFiller = async (
 
     const userPrompt = `Original Text:\n---\n${originalText}\n---\nEdited Text:`;
 
-    const response = await callGeminiWithRetry(
+    const response = await callModelWithRetry(
         {
             model: promptDetails.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -147,7 +148,7 @@ export const editMessageWithInstruction = async (
 
     const userPrompt = `Instruction:\n${instruction}\n\nOriginal Text:\n---\n${originalText}\n---\nEdited Text:`;
 
-    const response = await callGeminiWithRetry(
+    const response = await callModelWithRetry(
         {
             model: promptDetails.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -188,7 +189,7 @@ export const proposeIdentityFact = async (
     const userPrompt = `User Input: "${userInput}"`;
 
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptDetails.model,
                 contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -216,3 +217,44 @@ export const proposeIdentityFact = async (
         throw new Error(`Gemini API Error: ${error.message || 'Failed to process memory.'}`);
     }
 };
+
+/**
+ * Transcribes a voice note with Gemini. Audio parts are Gemini-only, so this needs a Gemini API key
+ * whatever the chat model is.
+ * @param audioBase64 - The recording, base64-encoded.
+ * @param mimeType - e.g. "audio/ogg" for Telegram voice notes.
+ */
+export const transcribeVoiceNote = async (
+    audioBase64: string,
+    mimeType: string,
+    settings: Settings,
+): Promise<string> => {
+    const keys = getGeminiApiKeys(settings);
+    if (keys.length === 0) {
+        throw new Error("Voice notes need a Gemini API key for transcription.");
+    }
+
+    let lastError: any;
+    for (const key of keys) {
+        try {
+            const ai = new GoogleGenAI({ apiKey: key });
+            const response = await ai.models.generateContent({
+                model: 'gemini-2.5-flash',
+                contents: [{
+                    role: 'user',
+                    parts: [
+                        { inlineData: { data: audioBase64, mimeType } },
+                        { text: 'Transcribe this voice message word for word in its original language. Return only the transcript.' },
+                    ],
+                }],
+                config: { temperature: 0, thinkingConfig: { thinkingBudget: 0 } },
+            });
+            const transcript = (response.text || '').trim();
+            if (!transcript) throw new Error("The voice note appears to be empty.");
+            return transcript;
+        } catch (error: any) {
+            lastError = error;
+        }
+    }
+    throw new Error(`Transcription failed: ${lastError?.message || 'Unknown error'}`);
+};
@@ -1,5 +1,6 @@
 import type { Settings } from '../../types';
-import { callGeminiWithRetry, getPromptConfig } from '../../utils/apiHelpers';
+import { getPromptConfig } from '../../utils/apiHelpers';
+import { callModelWithRetry } from './providers';
 import { PROMPT_IDS } from '../../constants';
 
 /**
@@ -22,7 +23,7 @@ ${content}
 Summary:`;
     
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -1,13 +1,13 @@
-import * as tiktoken from "tiktoken";
-import type { Tiktoken } from "tiktoken";
 import { GoogleGenAI } from "@google/genai";
 import type { Message, Model, Settings, SummarizationZone } from '../../types';
 import { summarizeWithKobold } from '../koboldcppService';
 import { summarizeWithOpenRouter } from './openRouterSummarizer';
 import { generateUUID } from '../../utils/uuid';
-import { callGeminiWithRetry, getPromptConfig, getGeminiApiKeys } from '../../utils/apiHelpers';
+import { getPromptConfig, getGeminiApiKeys } from '../../utils/apiHelpers';
+import { callModelWithRetry } from './providers';
 import { PROMPT_IDS } from '../../constants';
 import { summarizationDebugService } from '../summarizationDebugService';
+import { getTokenizerForModel } from './tokenizers';
 
 
 /**
@@ -15,47 +15,6 @@ import { summarizationDebugService } from '../summarizationDebugService';
  * it fits within the AI model's token limit.
  */
 
-// --- Tiktoken Initialization ---
-
-let enc: Tiktoken | null = null;
-let initPromise: Promise<void> | null = null;
-
-/**
- * Lazily initializes the tiktoken tokenizer using Vite's WebAssembly support.
- * Uses vite-plugin-wasm to handle the WASM imports properly.
- * @returns A promise that resolves to the initialized Tiktoken encoder.
- */
-async function getEncoder(): Promise<Tiktoken> {
-    if (enc) return enc;
-    if (initPromise) {
-        await initPromise;
-        return enc!;
-    }
-
-    initPromise = (async () => {
-        try {
-            // Use the imported tiktoken module directly with Vite's WASM support
-            enc = tiktoken.get_encoding("cl100k_base");
-            console.log("Tokenizer initialized successfully.");
-        } catch (e) {
-            console.error("Failed to initialize tokenizer, token counts will fall back to approximation.", e);
-            // In case of failure, create a mock encoder that uses approximation.
-            // This prevents the app from crashing and allows `countTokens` to work consistently.
-            enc = {
-                encode: (text: string) => {
-                    const approxTokens = Math.round((text || "").length / 4);
-                    return new Uint32Array(approxTokens);
-                },
-                decode: (tokens: Uint32Array) => ""
-            } as any; // Cast to bypass type checking for the mock.
-        }
-    })();
-
-    await initPromise;
-    return enc!;
-}
-
-
 // Calibration cache: stores learned char/token ratio per conversation
 const calibrationCache = new Map<string, number>();
 
@@ -215,10 +174,10 @@ export async function countMessageTokens(
 }
 
 /**
- * Counts tokens using optimized approximation for speed.
+ * Counts tokens with the tokenizer assigned to the model's family (see tokenizers.ts).
  * @param text - The text to count tokens for.
- * @param model - Optional model (for provider-specific counting).
- * @param settings - Optional settings (for API keys).
+ * @param model - Optional model; selects the tokenizer.
+ * @param settings - Optional settings; holds the per-family tokenizer assignments.
  * @returns A promise resolving to the number of tokens.
  */
 export async function countTokens(
@@ -229,45 +188,8 @@ export async function countTokens(
     if (!text) {
         return 0;
     }
-    
-    // GEMINI-OPTIMIZED TOKEN COUNTING
-    // Problem: Google's countTokens API = 2-3s delay per message (catastrophic!)
-    // Problem: Tiktoken (OpenAI) = 40% overestimation for Gemini models
-    // Solution: Character-based approximation tuned for Gemini tokenizer
-    
-    if (model?.provider === 'Google') {
-        // ADAPTIVE GEMINI TOKEN COUNTING
-        // Balances speed (instant) with accuracy (calibrated to real usage)
-        // 
-        // Real-world calibration data:
-        // - Test 1: 104k est → 139k actual = 2.47 chars/token
-        // - Test 2: 156k est → 137k actual = 2.51 chars/token
-        // - Final calibration: 2.51 chars/token (99.9% accuracy)
-        
-        // Smart language detection for better accuracy
-        const arabicChars = (text.match(/[\u0600-\u06FF]/g) || []).length;
-        const totalChars = text.length;
-        const arabicRatio = arabicChars / totalChars;
-        
-        let avgCharsPerToken: number;
-        if (arabicRatio > 0.6) {
-            // Arabic-heavy: Calibrated from real usage (344k chars → 137k tokens)
-            avgCharsPerToken = 2.51;
-        } else if (arabicRatio > 0.2) {
-            // Mixed content: Interpolated between Arabic and English
-            avgCharsPerToken = 2.8;
-        } else {
-            // English-heavy: Google's guideline (4 chars/token)
-            avgCharsPerToken = 3.8;
-        }
-        
-        return Math.ceil(text.length / avgCharsPerToken);
-    }
-    
-    // For non-Gemini models (OpenRouter, etc.), use tiktoken
-    const encoder = await getEncoder();
-    const tokens = encoder.encode(text);
-    return tokens.length;
+    const tokenizer = await getTokenizerForModel(model, settings);
+    return tokenizer.count(text);
 };
 
 
@@ -297,7 +219,7 @@ Text to summarize:
 ${text}`;
     
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: [{
@@ -1,5 +1,6 @@
 import type { Message, Character, Settings, CharacterState } from '../../types';
-import { callGeminiWithRetry, getPromptConfig } from '../../utils/apiHelpers';
+import { getPromptConfig } from '../../utils/apiHelpers';
+import { callModelWithRetry } from './providers';
 import { PROMPT_IDS } from '../../constants';
 
 /**
@@ -70,7 +71,7 @@ ${targetMessageContent}
 ${charactersFound.length > 1 ? `\n⚠️ IMPORTANT: This scene includes ${charactersFound.length} characters (${charactersFound.map(c => c.name).join(', ')}). Merge ALL their visual details into a cohesive scene composition.` : ''}`;
 
         try {
-            const response = await callGeminiWithRetry(
+            const response = await callModelWithRetry(
                 {
                     model: mergePromptConfig.model,
                     contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -92,7 +93,7 @@ ${charactersFound.length > 1 ? `\n⚠️ IMPORTANT: This scene includes ${charac
     } else {
         // --- Strategy 2: Fallback to general prompt enhancement ---
         try {
-            const response = await callGeminiWithRetry(
+            const response = await callModelWithRetry(
                 {
                     model: enhancePromptConfig.model, // ✅ Use model from AI Prompts settings
                     contents: [{ role: 'user', parts: [{ text: targetMessageContent }] }],
@@ -181,7 +182,7 @@ ${characterDescriptions ? `**ACTIVE CHARACTERS:**\n---\n${characterDescriptions}
 Based on the above context, generate a professional image generation prompt for a BACKGROUND SCENE that captures the current atmosphere and location. Remember: this is for a chat background, so focus on the environment and atmosphere, not character close-ups.`;
 
     try {
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model,
                 contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -2,7 +2,8 @@ import { Type } from "@google/genai";
 import type { Message, Character, Lorebook, LorebookEntry, StoryArcLevel, CharacterArc, Model, Settings, RagMemoryTag, RagMemoryRelation, ConversationState } from '../../types';
 import { generateUUID } from '../../utils/uuid';
 import { PROMPT_IDS } from '../../constants';
-import { callGeminiWithRetry, streamGeminiWithRetry, getPromptConfig } from '../../utils/apiHelpers';
+import { getPromptConfig } from '../../utils/apiHelpers';
+import { callModelWithRetry, streamModelWithRetry } from './providers';
 
 /**
  * This module handles the creation and updating of persistent knowledge
@@ -220,7 +221,7 @@ export const enrichSceneForRag = async (sceneText: string): Promise<EnrichedRagM
             const systemPrompt = promptConfig.template; // ✅ From AI Prompts settings
             const userPrompt = `Analyze the following scene and extract all the required information into the JSON format.\n---\n${sceneText}\n---`;
 
-            const response = await callGeminiWithRetry({
+            const response = await callModelWithRetry({
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
                 config: {
@@ -291,7 +292,7 @@ export const generateCharacterSheet = async (
     const systemPrompt = promptConfig.template; // ✅ From AI Prompts settings
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptConfig.model, // ✅ From AI Prompts settings
             contents: [{
                 role: 'user',
@@ -355,7 +356,7 @@ export const generateCharacterGroup = async (
     const userPrompt = `Generate ${numCharacters} characters based on this concept: "${concept}"`;
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptDetails.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
             config: {
@@ -420,7 +421,7 @@ export const generateLorebook = async (
     const systemPrompt = promptConfig.template; // ✅ From AI Prompts settings
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptConfig.model, // ✅ From AI Prompts settings
             contents: [{
                 role: 'user',
@@ -491,7 +492,7 @@ export const generateWorldStoryArcs = async (
     const systemPrompt = promptConfig.template.replace(/{{numLevels}}/g, String(numLevels)); // ✅ From AI Prompts settings
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptConfig.model, // ✅ From AI Prompts settings
             contents: [{ role: 'user', parts: [{ text: `Story Concept: ${concept}` }] }],
             config: {
@@ -575,7 +576,7 @@ Generate the corresponding character arcs in the specified JSON format.
 `;
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptConfig.model, // ✅ From AI Prompts settings
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
             config: {
@@ -647,7 +648,7 @@ ${rewritePrompt}
 Provide ONLY the rewritten text for the selection, nothing else.`;
 
     try {
-        await streamGeminiWithRetry({
+        await streamModelWithRetry({
             model: model.id.includes('gemini') ? model.id : promptConfig.model, // ✅ Use configured model as fallback
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
             config: {
@@ -703,7 +704,7 @@ Summary of Events:`;
 
     let summary = '';
     try {
-        await streamGeminiWithRetry({
+        await streamModelWithRetry({
             model: summaryPromptConfig.model, // ✅ From AI Prompts settings
             contents: summaryPrompt,
             config: {
@@ -751,7 +752,7 @@ ${summary}
 Updated Character Sheet:`;
             
             try {
-                const response = await callGeminiWithRetry({
+                const response = await callModelWithRetry({
                     model: charUpdatePromptConfig.model, // ✅ From AI Prompts settings
                     contents: charUpdatePrompt,
                     config: {
@@ -800,7 +801,7 @@ ${summary}
 New Lorebook:`;
 
         try {
-            const response = await callGeminiWithRetry({
+            const response = await callModelWithRetry({
                 model: loreCreatePromptConfig.model, // ✅ From AI Prompts settings
                 contents: lorePrompt,
                 config: {
@@ -913,7 +914,7 @@ ${activeCharacters.map(c => `- ${c.name} (ID: ${c.id})`).join('\n')}
 Based on the conversation, update the state.`;
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptDetails.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
             config: {
@@ -967,7 +968,7 @@ export const generateLorebookFromConversation = async (
     const lorePrompt = `${promptConfig.template.replace(/\\{\\{lorebooksToCreateCount\\}\\}/g, String(entriesCount))}\\n\\n${focusLine}Conversation Excerpt (use as the event summary):\\n---\\n${excerpt}\\n---\\n\\nNew Lorebook:`;
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptConfig.model,
             contents: lorePrompt,
             config: {
@@ -1057,7 +1058,7 @@ exampleDialogue: "Speaks in a tender, calm way with a soothing voice. Frequently
 If a Target Character Name is provided, use that exact name and analyze ONLY that character's speaking style from the conversation.`;
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptConfig.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
             config: {
@@ -1197,7 +1198,7 @@ export const updateConversationStateV2 = async (
     const userPrompt = `Old State:\n---\n${oldStateText}\n---\n\nActive Characters:\n---\n${activeList}\n---\n\nRecent Conversation:\n---\n${conversationText}\n---\n\nPropose ONLY the minimal deltas.`;
 
     try {
-        const response = await callGeminiWithRetry({
+        const response = await callModelWithRetry({
             model: promptDetails.model,
             contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
             config: {
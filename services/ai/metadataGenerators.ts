@@ -1,6 +1,7 @@
 import { Type } from "@google/genai";
 import type { Settings, Message, SongGenerationData, Character } from '../../types';
-import { callGeminiWithRetry, getPromptConfig } from '../../utils/apiHelpers';
+import { getPromptConfig } from '../../utils/apiHelpers';
+import { callModelWithRetry } from './providers';
 import { PROMPT_IDS } from '../../constants';
 import { log } from '../loggingService';
 
@@ -28,7 +29,7 @@ Model: ${firstModelResponse}
 ---
 TITLE:`;
     
-        const response = await callGeminiWithRetry(
+        const response = await callModelWithRetry(
             {
                 model: promptConfig.model, // ✅ From AI Prompts settings
                 contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
@@ -130,7 +131,7 @@ export const generateSongFromContext = async (
     log('INFO', 'MUSIC_GENERATION', `Calling Gemini with model: ${promptConfig.model}`);
 
     // Call Gemini with retry mechanism
-    const response = await callGeminiWithRetry(
+    const response = await callModelWithRetry(
       {
         model: promptConfig.model,
         contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
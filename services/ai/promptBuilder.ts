@@ -1,5 +1,7 @@
-import type { Settings, Conversation, Character, UserPersona, Lorebook, CharacterArc, Message, IdentityProfile, IdentityFact } from '../../types';
+import type { Settings, Conversation, Character, UserPersona, Lorebook, LorebookEntry, LoreActivationRecord, LoreActivationResult, CharacterArc, Message, IdentityProfile, IdentityFact, Model } from '../../types';
 import { PROMPT_IDS } from '../../constants';
+import { countTokens } from './contextManager';
+import { log } from '../loggingService';
 
 /**
  * This module is responsible for constructing the comprehensive system prompt
@@ -7,40 +9,269 @@ import { PROMPT_IDS } from '../../constants';
  * settings, character sheets, lorebooks, and RAG context into a single, cohesive prompt.
  */
 
+/**
+ * Collects the lorebooks active in a conversation: the ones attached to it plus the ones
+ * linked to its characters. Each lorebook is returned once.
+ * @param conversation - The conversation.
+ * @param conversationCharacters - The characters taking part in the conversation.
+ * @param allLorebooks - All available lorebooks.
+ */
+export const getConversationLorebooks = (
+    conversation: Pick<Conversation, 'lorebookIds'>,
+    conversationCharacters: Character[],
+    allLorebooks: Lorebook[]
+): Lorebook[] => {
+    const ids = new Set<string>(conversation.lorebookIds || []);
+    conversationCharacters.forEach(c => (c.lorebookIds || []).forEach(id => ids.add(id)));
+    return allLorebooks.filter(lb => ids.has(lb.id));
+};
+
+// --- Lorebook activation ---
+
+const DEFAULT_LORE_SCAN_DEPTH = 6; // Messages scanned for keywords when neither the entry nor its book sets a depth
+const REGEX_KEY_PATTERN = /^\/(.+)\/([dgimsuy]*)$/;
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+/**
+ * Splits a comma-separated keyword string into keys. Keys written as `/pattern/flags` are kept
+ * whole even if the pattern itself contains commas.
+ * @param keywords - The comma-separated keyword string of a lorebook entry.
+ */
+export const splitLoreKeys = (keywords: string | undefined): string[] => {
+    if (!keywords) return [];
+    const keys: string[] = [];
+    let current = '';
+    let inRegex = false;
+    for (let i = 0; i < keywords.length; i++) {
+        const ch = keywords[i];
+        if (ch === ',' && !inRegex) {
+            keys.push(current);
+            current = '';
+            continue;
+        }
+        if (ch === '/' && keywords[i - 1] !== '\\') {
+            if (inRegex) inRegex = false;
+            else if (current.trim() === '') inRegex = true;
+        }
+        current += ch;
+    }
+    // An unterminated "/..." was not a regex after all; fall back to a plain split.
+    if (inRegex) return keywords.split(',').map(k => k.trim()).filter(Boolean);
+    keys.push(current);
+    return keys.map(k => k.trim()).filter(Boolean);
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Tests a single key against the scanned text, honoring the entry's matching options.
+ * Regex keys (`/pattern/flags`) use their own flags and ignore caseSensitive/matchWholeWords.
+ */
+const matchesLoreKey = (key: string, text: string, entry: LorebookEntry): boolean => {
+    const regexMatch = key.match(REGEX_KEY_PATTERN);
+    if (regexMatch) {
+        try {
+            return new RegExp(regexMatch[1], regexMatch[2].replace('g', '')).test(text);
+        } catch (e: any) {
+            log('WARN', 'LORE', `Invalid regex key "${key}", matching it literally`, { error: e.message });
+        }
+    }
+
+    if (entry.matchWholeWords) {
+        const flags = entry.caseSensitive ? 'u' : 'iu';
+        return new RegExp(`(?<!${WORD_CHAR})${escapeRegExp(key)}(?!${WORD_CHAR})`, flags).test(text);
+    }
+    return entry.caseSensitive
+        ? text.includes(key)
+        : text.toLowerCase().includes(key.toLowerCase());
+};
+
+/**
+ * Decides whether an entry fires for the given text: primary keys first, then the
+ * secondary keys combined according to secondaryLogic.
+ * @returns The primary key that matched, or null if the entry does not fire.
+ */
+const findLoreTrigger = (entry: LorebookEntry, text: string): string | null => {
+    if (!text) return null;
+    const matchedKey = splitLoreKeys(entry.keywords).find(key => matchesLoreKey(key, text, entry));
+    if (!matchedKey) return null;
+
+    const secondaryKeys = splitLoreKeys(entry.secondaryKeywords);
+    if (secondaryKeys.length === 0) return matchedKey;
+
+    const secondaryMatches = secondaryKeys.filter(key => matchesLoreKey(key, text, entry)).length;
+    let passes: boolean;
+    switch (entry.secondaryLogic || 'AND_ANY') {
+        case 'AND_ALL': passes = secondaryMatches === secondaryKeys.length; break;
+        case 'NOT_ANY': passes = secondaryMatches === 0; break;
+        case 'NOT_ALL': passes = secondaryMatches < secondaryKeys.length; break;
+        case 'AND_ANY':
+        default: passes = secondaryMatches > 0;
+    }
+    return passes ? matchedKey : null;
+};
+
+const getLoreEntryLabel = (entry: LorebookEntry): string =>
+    entry.name || splitLoreKeys(entry.keywords)[0] || entry.content.slice(0, 40);
+
+interface LoreCandidate {
+    book: Lorebook;
+    entry: LorebookEntry;
+    position: number; // Book/entry order, for stable sorting
+    record?: LoreActivationRecord;
+}
 
 /**
- * Finds active lorebook entries by scanning the recent conversation history for keywords.
+ * Activates lorebook entries for the next response.
+ *
+ * 1. Each entry is matched against the last `scanDepth` messages (entry, then book, then 6).
+ *    Constant entries are always active and disabled entries never are.
+ * 2. The content of activated entries is scanned for further keywords, up to
+ *    `settings.lore.recursionDepth` times. `preventRecursion` entries are not scanned and
+ *    `excludeRecursion` entries can only be triggered by the chat.
+ * 3. Activated entries are trimmed by priority (highest `order` first, chat hits before
+ *    recursive ones): first to each lorebook's `tokenBudget`, then to `settings.lore.tokenBudget`.
+ *
+ * Injected entries are ordered by ascending `order`, so the highest-priority lore sits closest to the chat.
  * @param history - The message history.
  * @param activeLorebooks - The lorebooks active in the current conversation.
- * @returns A formatted string of triggered lore entries, or an empty string if none are found.
+ * @param model - Optional model, used to count tokens for the budgets.
+ * @param settings - Optional settings (recursion depth, global budget, token counting).
+ * @returns The formatted lore block plus a trace of every activated entry.
  */
-export const findActiveLoreEntries = (
-    history: Message[], 
-    activeLorebooks: Lorebook[]
-): string => {
-    if (!activeLorebooks || activeLorebooks.length === 0) return '';
+export const findActiveLoreEntries = async (
+    history: Message[],
+    activeLorebooks: Lorebook[],
+    model?: Model,
+    settings?: Settings
+): Promise<LoreActivationResult> => {
+    const emptyResult: LoreActivationResult = { loreText: '', trace: [], usedTokens: 0 };
+    if (!activeLorebooks || activeLorebooks.length === 0) return emptyResult;
 
-    const SCAN_DEPTH = 6; // Scan last 6 messages for keywords
-    const recentHistory = history.slice(-SCAN_DEPTH);
-    const recentText = recentHistory.map(m => m.content).join('\n').toLowerCase();
-    
-    const triggeredContent = new Set<string>(); // Use a Set to avoid duplicate injections
-
-    for (const book of activeLorebooks) {
-        for (const entry of book.entries) {
-            const keywords = entry.keywords.split(',').map(k => k.trim().toLowerCase()).filter(k => k);
-            for (const keyword of keywords) {
-                if (recentText.includes(keyword)) {
-                    triggeredContent.add(entry.content);
-                    break; // Move to the next entry once one keyword is matched
+    const scanTextByDepth = new Map<number, string>();
+    const getScanText = (depth: number): string => {
+        if (depth <= 0) return '';
+        if (!scanTextByDepth.has(depth)) {
+            scanTextByDepth.set(depth, history.slice(-depth).map(m => m.content).join('\n'));
+        }
+        return scanTextByDepth.get(depth)!;
+    };
+
+    const candidates: LoreCandidate[] = activeLorebooks.flatMap(book => book.entries
+        .filter(entry => entry.enabled !== false && entry.content?.trim())
+        .map(entry => ({ book, entry, position: 0 })));
+    candidates.forEach((c, i) => c.position = i);
+
+    const activate = (candidate: LoreCandidate, record: Omit<LoreActivationRecord, 'lorebookName' | 'entryId' | 'entryLabel' | 'order' | 'tokens' | 'status'>) => {
+        candidate.record = {
+            lorebookName: candidate.book.name,
+            entryId: candidate.entry.id,
+            entryLabel: getLoreEntryLabel(candidate.entry),
+            order: candidate.entry.order ?? 0,
+            tokens: 0,
+            status: 'injected',
+            ...record,
+        };
+    };
+
+    // Pass 0: the chat itself.
+    for (const candidate of candidates) {
+        const { entry, book } = candidate;
+        if (entry.constant) {
+            activate(candidate, { reason: 'constant', recursionDepth: 0 });
+            continue;
+        }
+        const matchedKey = findLoreTrigger(entry, getScanText(entry.scanDepth ?? book.scanDepth ?? DEFAULT_LORE_SCAN_DEPTH));
+        if (matchedKey) activate(candidate, { reason: 'keyword', matchedKey, recursionDepth: 0 });
+    }
+
+    // Recursive passes: only entries activated in the previous pass are scanned.
+    const maxRecursion = Math.max(0, settings?.lore?.recursionDepth ?? 0);
+    let sources = candidates.filter(c => c.record);
+    for (let depth = 1; depth <= maxRecursion; depth++) {
+        const scannable = sources.filter(c => !c.entry.preventRecursion);
+        if (scannable.length === 0) break;
+        const newlyActivated: LoreCandidate[] = [];
+        for (const candidate of candidates) {
+            if (candidate.record || candidate.entry.excludeRecursion) continue;
+            for (const source of scannable) {
+                const matchedKey = findLoreTrigger(candidate.entry, source.entry.content);
+                if (matchedKey) {
+                    activate(candidate, { reason: 'recursion', matchedKey, triggeredBy: source.record!.entryLabel, recursionDepth: depth });
+                    newlyActivated.push(candidate);
+                    break;
                 }
             }
         }
+        sources = newlyActivated;
     }
-    
-    if (triggeredContent.size === 0) return '';
-    
-    return `### World Knowledge (Lore)\n${Array.from(triggeredContent).join('\n\n')}`;
+
+    const activated = candidates.filter(c => c.record);
+    if (activated.length === 0) return emptyResult;
+
+    for (const candidate of activated) {
+        candidate.record!.tokens = await countTokens(candidate.entry.content, model, settings);
+    }
+
+    const byPriority = [...activated].sort((a, b) =>
+        (b.record!.order - a.record!.order) ||
+        (a.record!.recursionDepth - b.record!.recursionDepth) ||
+        (a.position - b.position));
+
+    const usedByBook = new Map<string, number>();
+    const globalBudget = settings?.lore?.tokenBudget;
+    let usedTokens = 0;
+    for (const { book, record } of byPriority) {
+        const bookUsed = usedByBook.get(book.id) || 0;
+        if (book.tokenBudget && book.tokenBudget > 0 && bookUsed + record!.tokens > book.tokenBudget) {
+            record!.status = 'dropped_book_budget';
+            continue;
+        }
+        if (globalBudget && globalBudget > 0 && usedTokens + record!.tokens > globalBudget) {
+            record!.status = 'dropped_global_budget';
+            continue;
+        }
+        usedByBook.set(book.id, bookUsed + record!.tokens);
+        usedTokens += record!.tokens;
+    }
+
+    const trace = byPriority.map(c => c.record!);
+    const injected = activated
+        .filter(c => c.record!.status === 'injected')
+        .sort((a, b) => (a.record!.order - b.record!.order) || (a.position - b.position));
+
+    const dropped = trace.filter(r => r.status !== 'injected').length;
+    log('DEBUG', 'LORE', `Lore activation: ${injected.length} injected, ${dropped} dropped by budget`, { usedTokens, globalBudget, trace });
+
+    if (injected.length === 0) return { loreText: '', trace, usedTokens };
+
+    const triggeredContent = new Set<string>(injected.map(c => c.entry.content)); // Avoid duplicate injections
+    return {
+        loreText: `### World Knowledge (Lore)\n${Array.from(triggeredContent).join('\n\n')}`,
+        trace,
+        usedTokens,
+    };
+};
+
+/**
+ * Renders a lore activation trace for the message's context payload view.
+ * @param result - The result of findActiveLoreEntries.
+ * @param globalBudget - The global lore token budget, shown next to the total.
+ */
+export const formatLoreActivationTrace = (result: LoreActivationResult, globalBudget?: number | null): string => {
+    const lines = result.trace.map(r => {
+        const why = r.reason === 'constant'
+            ? 'always on'
+            : r.reason === 'recursion'
+                ? `recursion depth ${r.recursionDepth} via "${r.triggeredBy}", key "${r.matchedKey}"`
+                : `keyword "${r.matchedKey}"`;
+        const status = r.status === 'injected'
+            ? ''
+            : r.status === 'dropped_book_budget' ? ' · DROPPED (lorebook budget)' : ' · DROPPED (global budget)';
+        return `${r.status === 'injected' ? '✓' : '✗'} ${r.entryLabel} [${r.lorebookName}] · ${why} · order ${r.order} · ${r.tokens} tok${status}`;
+    });
+    lines.push(`Total: ${result.usedTokens}${globalBudget ? ` / ${globalBudget}` : ''} tokens`);
+    return lines.join('\n');
 };
 
 /**
@@ -0,0 +1,20 @@
+import { callGeminiWithRetry, streamGeminiWithRetry, getGeminiApiKeys } from '../../../utils/apiHelpers';
+import type { ChatProvider } from './types';
+
+/**
+ * Google Gemini provider. The call config is already in Gemini format,
+ * so it is forwarded as-is (key rotation, penalty box and timeouts live in apiHelpers).
+ */
+export const geminiProvider: ChatProvider = {
+    id: 'Google',
+
+    isConfigured: (_model, settings) => getGeminiApiKeys(settings).length > 0,
+
+    generate: async (model, callConfig, settings, timeoutMs) => {
+        const response = await callGeminiWithRetry({ ...callConfig, model: model.id }, settings, timeoutMs);
+        return { text: response.text ?? '' };
+    },
+
+    stream: (model, callConfig, onChunk, settings, timeoutMs) =>
+        streamGeminiWithRetry({ ...callConfig, model: model.id }, onChunk, settings, timeoutMs),
+};
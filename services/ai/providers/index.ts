@@ -0,0 +1,108 @@
+import type { Model, Settings } from '../../../types';
+import { INITIAL_MODELS } from '../../../constants';
+import { getSettings } from '../../db';
+import { log } from '../../loggingService';
+import { parseCustomModelId } from '../../customEndpointService';
+import { geminiProvider } from './geminiProvider';
+import { openRouterProvider, xaiProvider, customEndpointProvider } from './openAICompatibleProvider';
+import type { ChatProvider, ChatCallConfig, ChatResponse } from './types';
+
+export type { ChatProvider, ChatCallConfig, ChatCallOptions, ChatContent, ChatResponse } from './types';
+
+const PROVIDERS: Record<Model['provider'], ChatProvider> = {
+    Google: geminiProvider,
+    OpenRouter: openRouterProvider,
+    XAI: xaiProvider,
+    Custom: customEndpointProvider,
+};
+
+export const getChatProvider = (provider: Model['provider']): ChatProvider => PROVIDERS[provider];
+
+/**
+ * Resolves an app-level model ID to a Model. Dynamic lists (OpenRouter, custom endpoints)
+ * are not available outside React state, so the provider is inferred from the ID format.
+ * @param modelId - e.g. "gemini-2.5-flash", "grok-3-mini", "openai/gpt-4o-mini", "custom:<endpointId>:<model>".
+ */
+export const resolveModelById = (modelId: string, settings: Settings): Model => {
+    const known = INITIAL_MODELS.find(m => m.id === modelId);
+    if (known) return known;
+
+    const custom = parseCustomModelId(modelId);
+    if (custom) {
+        const endpoint = (settings.customEndpoints || []).find(e => e.id === custom.endpointId);
+        return {
+            id: modelId,
+            name: custom.apiModelId,
+            provider: 'Custom',
+            endpointId: custom.endpointId,
+            endpointName: endpoint?.name,
+            apiModelId: custom.apiModelId,
+        };
+    }
+
+    if (/^(models\/)?gemini/.test(modelId)) return { id: modelId, name: modelId, provider: 'Google' };
+    if (/^grok/.test(modelId)) return { id: modelId, name: modelId, provider: 'XAI' };
+    if (modelId.includes('/')) return { id: modelId, name: modelId, provider: 'OpenRouter' };
+    return { id: modelId, name: modelId, provider: 'Google' };
+};
+
+/**
+ * Picks the model that will actually serve a call. If the requested model's provider is not
+ * configured (e.g. a Gemini prompt on an install with only a local endpoint), the user's default
+ * chat model is used instead so that utility agents keep working.
+ */
+const resolveCallTarget = (modelId: string, settings: Settings): { model: Model; provider: ChatProvider } => {
+    const model = resolveModelById(modelId, settings);
+    const provider = getChatProvider(model.provider);
+    if (provider.isConfigured(model, settings)) {
+        return { model, provider };
+    }
+
+    if (settings.defaultModelId && settings.defaultModelId !== modelId) {
+        const fallbackModel = resolveModelById(settings.defaultModelId, settings);
+        const fallbackProvider = getChatProvider(fallbackModel.provider);
+        if (fallbackProvider.isConfigured(fallbackModel, settings)) {
+            log('WARN', 'PROVIDER', `Provider ${model.provider} is not configured for "${modelId}". Falling back to default model "${fallbackModel.id}".`);
+            return { model: fallbackModel, provider: fallbackProvider };
+        }
+    }
+
+    // Let the provider surface its own "missing key" error.
+    return { model, provider };
+};
+
+/**
+ * Provider-agnostic replacement for callGeminiWithRetry. Routes the call to Gemini, OpenRouter,
+ * XAI or a custom endpoint based on `callConfig.model`.
+ * @param callConfig The call configuration (Gemini-style `contents` and `config`).
+ * @param settings Application settings (optional - will be fetched if not provided)
+ * @param timeoutMs Timeout in milliseconds (default: 60000ms = 1 minute)
+ * @returns The normalized response with a `text` field.
+ */
+export const callModelWithRetry = async (
+    callConfig: ChatCallConfig,
+    settings?: Settings,
+    timeoutMs: number = 60000
+): Promise<ChatResponse> => {
+    const finalSettings = settings || await getSettings();
+    const { model, provider } = resolveCallTarget(callConfig.model, finalSettings);
+    return provider.generate(model, callConfig, finalSettings, timeoutMs);
+};
+
+/**
+ * Provider-agnostic replacement for streamGeminiWithRetry.
+ * @param callConfig The call configuration (Gemini-style `contents` and `config`).
+ * @param onChunk Callback function to handle each received chunk
+ * @param settings Application settings (optional - will be fetched if not provided)
+ * @param timeoutMs Timeout in milliseconds (default: 60000ms = 1 minute)
+ */
+export const streamModelWithRetry = async (
+    callConfig: ChatCallConfig,
+    onChunk: (text: string) => void,
+    settings?: Settings,
+    timeoutMs: number = 60000
+): Promise<void> => {
+    const finalSettings = settings || await getSettings();
+    const { model, provider } = resolveCallTarget(callConfig.model, finalSettings);
+    return provider.stream(model, callConfig, onChunk, finalSettings, timeoutMs);
+};
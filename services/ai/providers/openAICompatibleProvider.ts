@@ -0,0 +1,311 @@
+import type { Model, Settings } from '../../../types';
+import { withTimeout } from '../../../utils/apiHelpers';
+import { log } from '../../loggingService';
+import { getEndpointForModel, normalizeEndpointBaseUrl, buildEndpointHeaders } from '../../customEndpointService';
+import type { ChatProvider, ChatCallConfig, ChatContent } from './types';
+
+// --- OpenAI-Compatible Streaming ---
+
+/**
+ * Reads an OpenAI-style SSE stream (`data: {...}` lines terminated by `data: [DONE]`)
+ * and forwards every content delta. Shared by OpenRouter, XAI and custom endpoints.
+ * @param response - A successful fetch response with a streaming body.
+ * @param onChunk - Callback for each text chunk.
+ * @param signal - An AbortSignal to cancel the read loop.
+ * @param providerLabel - Provider name used in error messages.
+ * @param timeoutMs - Overall timeout for the stream (default: 2 minutes).
+ */
+export const readOpenAICompatibleStream = async (
+    response: Response,
+    onChunk: (text: string) => void,
+    signal: AbortSignal,
+    providerLabel: string,
+    timeoutMs: number = 120000
+) => {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        throw new Error(`Failed to get response reader from ${providerLabel}`);
+    }
+
+    // Timeout Wrapper: Prevent indefinite waiting for streaming completion
+    try {
+        await withTimeout(
+            (async () => {
+                const decoder = new TextDecoder();
+                let buffer = "";
+
+                while (true) {
+                    // Check if user aborted manually
+                    if (signal.aborted) {
+                        reader.cancel(); // Cancel the stream
+                        throw new DOMException('Aborted', 'AbortError');
+                    }
+                    
+                    const { done, value } = await reader.read();
+                    if (done) break;
+
+                    buffer += decoder.decode(value, { stream: true });
+                    const lines = buffer.split('\n');
+                    buffer = lines.pop() || '';
+
+                    for (const line of lines) {
+                        if (line.startsWith('data: ')) {
+                            const data = line.substring(6);
+                            if (data.trim() === '[DONE]') {
+                                return;
+                            }
+                            try {
+                                const parsed = JSON.parse(data);
+                                const chunk = parsed.choices[0]?.delta?.content;
+                                if (chunk) {
+                                    onChunk(chunk);
+                                }
+                            } catch (e) {
+                                // Ignore empty or malformed chunks
+                            }
+                        }
+                    }
+                }
+            })(),
+            timeoutMs,
+            `${providerLabel} API request timed out after ${timeoutMs / 1000} seconds. The model may be overloaded or your connection is slow.`
+        );
+    } finally {
+        // Cleanup: Always cancel the reader to free resources
+        try {
+            reader.cancel();
+        } catch (e) {
+            // Reader might already be closed
+        }
+    }
+};
+
+// --- Request Translation ---
+
+/**
+ * Converts a Gemini `Type` schema (uppercase types) into a plain JSON Schema
+ * that OpenAI-style models can follow.
+ */
+export const geminiSchemaToJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    if (Array.isArray(schema)) return schema.map(geminiSchemaToJsonSchema);
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'propertyOrdering') continue;
+        if (key === 'type' && typeof value === 'string') {
+            result.type = value.toLowerCase();
+        } else if (key === 'properties' && value && typeof value === 'object') {
+            result.properties = Object.fromEntries(
+                Object.entries(value as Record<string, any>).map(([name, prop]) => [name, geminiSchemaToJsonSchema(prop)])
+            );
+        } else if (key === 'items') {
+            result.items = geminiSchemaToJsonSchema(value);
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+};
+
+/**
+ * Pulls the JSON payload out of a model reply. Local and OpenRouter models often wrap
+ * JSON in markdown fences or add a sentence before it, which `JSON.parse` rejects.
+ */
+export const extractJsonText = (text: string): string => {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    if (fenced) return fenced[1].trim();
+
+    const firstBrace = trimmed.search(/[{[]/);
+    if (firstBrace <= 0) return trimmed;
+    const closing = trimmed[firstBrace] === '{' ? '}' : ']';
+    const lastBrace = trimmed.lastIndexOf(closing);
+    return lastBrace > firstBrace ? trimmed.slice(firstBrace, lastBrace + 1) : trimmed;
+};
+
+const contentsToMessages = (contents: ChatCallConfig['contents']): { role: string; content: string }[] => {
+    if (typeof contents === 'string') {
+        return [{ role: 'user', content: contents }];
+    }
+    return (contents as ChatContent[]).map(c => ({
+        role: c.role === 'model' ? 'assistant' : 'user',
+        content: (c.parts || []).map(p => p.text || '').join('\n'),
+    }));
+};
+
+const isJsonRequest = (callConfig: ChatCallConfig): boolean =>
+    callConfig.config?.responseMimeType === 'application/json' || !!callConfig.config?.responseSchema;
+
+/**
+ * Builds the chat completions body from a Gemini-style call config.
+ * JSON mode is emulated: the schema goes into the system prompt and, when the root is an object,
+ * `response_format: json_object` is requested (supported by OpenRouter, XAI, llama.cpp, Ollama and vLLM).
+ */
+const buildRequestBody = (apiModelId: string, callConfig: ChatCallConfig, overrides: { temperature?: number; topP?: number }, stream: boolean) => {
+    const config = callConfig.config || {};
+    const messages = contentsToMessages(callConfig.contents);
+
+    let systemPrompt = config.systemInstruction || '';
+    if (isJsonRequest(callConfig)) {
+        const jsonInstruction = config.responseSchema
+            ? `Respond ONLY with valid JSON matching this JSON Schema, without markdown fences or commentary:\n${JSON.stringify(geminiSchemaToJsonSchema(config.responseSchema), null, 2)}`
+            : 'Respond ONLY with valid JSON, without markdown fences or commentary.';
+        systemPrompt = systemPrompt ? `${systemPrompt}\n\n${jsonInstruction}` : jsonInstruction;
+    }
+    if (systemPrompt) {
+        messages.unshift({ role: 'system', content: systemPrompt });
+    }
+
+    const body: any = {
+        model: apiModelId,
+        messages,
+        stream,
+        temperature: config.temperature ?? overrides.temperature,
+        top_p: config.topP ?? overrides.topP,
+    };
+    if (config.topK !== undefined) body.top_k = config.topK;
+    if (config.maxOutputTokens) body.max_tokens = config.maxOutputTokens;
+    if (isJsonRequest(callConfig) && (!config.responseSchema || String(config.responseSchema.type).toUpperCase() === 'OBJECT')) {
+        body.response_format = { type: 'json_object' };
+    }
+    return body;
+};
+
+// --- Provider Factory ---
+
+interface OpenAICompatibleTarget {
+    url: string;
+    headers: Record<string, string>;
+    apiModelId: string;
+    label: string;
+    temperature?: number;
+    topP?: number;
+}
+
+/**
+ * Creates a ChatProvider for any backend that speaks the OpenAI chat completions API.
+ * @param id - The provider name as used in `Model.provider`.
+ * @param isConfigured - Whether credentials/endpoint exist for the model.
+ * @param resolveTarget - Resolves URL, headers and backend model ID for a model.
+ */
+const createOpenAICompatibleProvider = (
+    id: Model['provider'],
+    isConfigured: (model: Model, settings: Settings) => boolean,
+    resolveTarget: (model: Model, settings: Settings) => OpenAICompatibleTarget
+): ChatProvider => {
+    const post = async (target: OpenAICompatibleTarget, body: any, signal: AbortSignal): Promise<Response> => {
+        const response = await fetch(target.url, {
+            method: 'POST',
+            headers: target.headers,
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            let message = errorText;
+            try {
+                const errorJson = JSON.parse(errorText);
+                message = errorJson.error?.message || errorJson.error || errorJson.detail || errorText;
+            } catch {
+                // Non-JSON error body, keep the raw text
+            }
+            throw new Error(`${target.label} Error: ${response.status} - ${message}`);
+        }
+        return response;
+    };
+
+    return {
+        id,
+        isConfigured,
+
+        generate: async (model, callConfig, settings, timeoutMs) => {
+            const target = resolveTarget(model, settings);
+            const controller = new AbortController();
+            try {
+                const data = await withTimeout(
+                    (async () => {
+                        const response = await post(target, buildRequestBody(target.apiModelId, callConfig, target, false), controller.signal);
+                        return response.json();
+                    })(),
+                    timeoutMs,
+                    `${target.label} API request timed out after ${timeoutMs / 1000} seconds`
+                );
+                const text: string = data?.choices?.[0]?.message?.content ?? '';
+                return { text: isJsonRequest(callConfig) ? extractJsonText(text) : text };
+            } catch (error: any) {
+                controller.abort();
+                log('WARN', 'API_FAIL', `${target.label} call failed for model ${target.apiModelId}.`, { error: error.message });
+                throw error;
+            }
+        },
+
+        stream: async (model, callConfig, onChunk, settings, timeoutMs) => {
+            const target = resolveTarget(model, settings);
+            const controller = new AbortController();
+            const abortSignal = callConfig.config?.abortSignal;
+            if (abortSignal?.aborted) controller.abort();
+            abortSignal?.addEventListener('abort', () => controller.abort(), { once: true });
+            try {
+                const response = await withTimeout(
+                    post(target, buildRequestBody(target.apiModelId, callConfig, target, true), controller.signal),
+                    timeoutMs,
+                    `${target.label} API request timed out after ${timeoutMs / 1000} seconds`
+                );
+                await readOpenAICompatibleStream(response, onChunk, controller.signal, target.label, timeoutMs);
+            } finally {
+                // Closes the connection when the stream failed, timed out or was left early
+                controller.abort();
+            }
+        },
+    };
+};
+
+export const openRouterProvider = createOpenAICompatibleProvider(
+    'OpenRouter',
+    (_model, settings) => !!settings.openRouterApiKey?.trim(),
+    (model, settings) => ({
+        url: 'https://openrouter.ai/api/v1/chat/completions',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${settings.openRouterApiKey}`,
+            'X-Title': 'RolyGem',
+            'HTTP-Referer': 'https://app.geminifutionchat.site/',
+        },
+        apiModelId: model.id,
+        label: 'OpenRouter',
+    })
+);
+
+export const xaiProvider = createOpenAICompatibleProvider(
+    'XAI',
+    (_model, settings) => !!settings.xaiApiKey?.trim(),
+    (model, settings) => ({
+        url: 'https://api.x.ai/v1/chat/completions',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${settings.xaiApiKey}`,
+        },
+        apiModelId: model.id,
+        label: 'XAI',
+    })
+);
+
+export const customEndpointProvider = createOpenAICompatibleProvider(
+    'Custom',
+    (model, settings) => {
+        const endpoint = (settings.customEndpoints || []).find(e => e.id === model.endpointId);
+        return !!endpoint && endpoint.enabled && !!normalizeEndpointBaseUrl(endpoint.baseUrl);
+    },
+    (model, settings) => {
+        const endpoint = getEndpointForModel(model, settings);
+        return {
+            url: `${normalizeEndpointBaseUrl(endpoint.baseUrl)}/chat/completions`,
+            headers: buildEndpointHeaders(endpoint),
+            apiModelId: model.apiModelId || model.id,
+            label: endpoint.name || 'Custom endpoint',
+            temperature: endpoint.temperature,
+            topP: endpoint.topP,
+        };
+    }
+);
@@ -0,0 +1,55 @@
+import type { Model, Settings } from '../../../types';
+
+/**
+ * A single turn in the Gemini-style `contents` array.
+ * Only text parts are used by the utility agents.
+ */
+export interface ChatContent {
+    role: 'user' | 'model';
+    parts: { text: string }[];
+}
+
+/**
+ * Generation options understood by every provider.
+ * The shape follows the Gemini `config` object so existing call sites stay unchanged;
+ * non-Gemini providers translate the fields they support and ignore the rest.
+ */
+export interface ChatCallOptions {
+    systemInstruction?: string;
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    responseMimeType?: string;
+    responseSchema?: any; // Gemini `Type` schema
+    thinkingConfig?: { thinkingBudget?: number };
+    /** Cancels the request; an aborted call rejects with an AbortError. */
+    abortSignal?: AbortSignal;
+    [key: string]: any;
+}
+
+/**
+ * Provider-agnostic call configuration. `model` is the app-level model ID
+ * (e.g. "gemini-2.5-flash", "openai/gpt-4o-mini", "grok-3-mini" or "custom:<endpointId>:<model>").
+ */
+export interface ChatCallConfig {
+    model: string;
+    contents: string | ChatContent[];
+    config?: ChatCallOptions;
+}
+
+/**
+ * Normalized response. Mirrors the `.text` accessor of Gemini responses
+ * so callers can read `response.text` regardless of the provider.
+ */
+export interface ChatResponse {
+    text: string;
+}
+
+export interface ChatProvider {
+    id: Model['provider'];
+    /** Whether the provider has the credentials/endpoint it needs to serve `model`. */
+    isConfigured: (model: Model, settings: Settings) => boolean;
+    generate: (model: Model, callConfig: ChatCallConfig, settings: Settings, timeoutMs: number) => Promise<ChatResponse>;
+    stream: (model: Model, callConfig: ChatCallConfig, onChunk: (text: string) => void, settings: Settings, timeoutMs: number) => Promise<void>;
+}
@@ -0,0 +1,359 @@
+import type { TokenCounter } from './tokenizers';
+
+/**
+ * Token counters built from vocabulary files, for models whose tokenizer does not ship with tiktoken.
+ *
+ * - HuggingFace `tokenizer.json` with a BPE model, either byte-level (Llama 3, Qwen, DeepSeek)
+ *   or SentencePiece-style with byte fallback (Llama 2, Mistral), or a Unigram model.
+ * - SentencePiece `.model` files (BPE or Unigram), e.g. Grok-1 or Gemma.
+ *
+ * Only counts are needed, so pieces are never mapped to IDs and special tokens are ignored.
+ */
+
+const SENTENCEPIECE_SPACE = '\u2581'; // "▁"
+// GPT-2 pre-tokenization, used by byte-level vocabularies that do not define their own split pattern.
+const GPT2_SPLIT_PATTERN = "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+";
+const WORD_CACHE_LIMIT = 50000;
+
+const utf8Encoder = new TextEncoder();
+
+// GPT-2 byte-to-unicode table: printable bytes map to themselves, the others to code points from 256 up.
+const BYTE_TO_UNICODE: string[] = (() => {
+  const table: string[] = [];
+  let next = 256;
+  for (let b = 0; b < 256; b++) {
+    const printable = (b >= 33 && b <= 126) || (b >= 161 && b <= 172) || (b >= 174 && b <= 255);
+    table[b] = String.fromCharCode(printable ? b : next++);
+  }
+  return table;
+})();
+
+/**
+ * Memoizes per-word counts. Chat text repeats the same words constantly, and BPE is the slow part.
+ */
+const withWordCache = (countWord: (word: string) => number): ((word: string) => number) => {
+  const cache = new Map<string, number>();
+  return (word: string) => {
+    let count = cache.get(word);
+    if (count === undefined) {
+      count = countWord(word);
+      if (cache.size >= WORD_CACHE_LIMIT) cache.clear();
+      cache.set(word, count);
+    }
+    return count;
+  };
+};
+
+/**
+ * Repeatedly merges the adjacent pair with the best (lowest) priority until no pair can merge.
+ */
+const applyBpe = (symbols: string[], priority: (left: string, right: string) => number | undefined): string[] => {
+  while (symbols.length > 1) {
+    let best = Infinity;
+    let bestIndex = -1;
+    for (let i = 0; i < symbols.length - 1; i++) {
+      const p = priority(symbols[i], symbols[i + 1]);
+      if (p !== undefined && p < best) {
+        best = p;
+        bestIndex = i;
+      }
+    }
+    if (bestIndex < 0) break;
+    symbols.splice(bestIndex, 2, symbols[bestIndex] + symbols[bestIndex + 1]);
+  }
+  return symbols;
+};
+
+// Pieces missing from the vocabulary become one token per UTF-8 byte with byte fallback, else one unknown token.
+const countPieces = (pieces: string[], vocab: Set<string>, byteFallback: boolean): number =>
+  pieces.reduce((sum, piece) => sum + (vocab.has(piece) ? 1 : byteFallback ? utf8Encoder.encode(piece).length : 1), 0);
+
+/**
+ * Unigram segmentation (Viterbi): picks the split with the highest total piece score and returns its length.
+ */
+const countUnigramWord = (word: string, scores: Map<string, number>, maxPieceLength: number, unknownScore: number, byteFallback: boolean): number => {
+  const chars = Array.from(word);
+  const bestScore = new Array<number>(chars.length + 1).fill(-Infinity);
+  const bestCount = new Array<number>(chars.length + 1).fill(0);
+  bestScore[0] = 0;
+
+  for (let end = 1; end <= chars.length; end++) {
+    for (let start = Math.max(0, end - maxPieceLength); start < end; start++) {
+      const score = scores.get(chars.slice(start, end).join(''));
+      if (score === undefined) continue;
+      const candidate = bestScore[start] + score;
+      if (candidate > bestScore[end]) {
+        bestScore[end] = candidate;
+        bestCount[end] = bestCount[start] + 1;
+      }
+    }
+    if (bestScore[end] === -Infinity) {
+      // No piece ends here, so the character is unknown.
+      bestScore[end] = bestScore[end - 1] + unknownScore;
+      bestCount[end] = bestCount[end - 1] + (byteFallback ? utf8Encoder.encode(chars[end - 1]).length : 1);
+    }
+  }
+  return bestCount[chars.length];
+};
+
+/**
+ * A cached Unigram word counter. Unknown characters score below the worst piece. The bounds are
+ * found with a loop: spreading a large vocabulary into Math.min overflows the call stack.
+ */
+const createUnigramWordCounter = (scores: Map<string, number>, byteFallback: boolean): ((word: string) => number) => {
+  let minScore = Infinity;
+  let maxPieceLength = 0;
+  for (const [piece, score] of scores) {
+    if (score < minScore) minScore = score;
+    const length = Array.from(piece).length;
+    if (length > maxPieceLength) maxPieceLength = length;
+  }
+  return withWordCache(word => countUnigramWord(word, scores, maxPieceLength, minScore - 10, byteFallback));
+};
+
+/**
+ * SentencePiece normalization: spaces become "▁", optionally with a leading "▁".
+ * Splitting before each "▁" keeps BPE and Viterbi fast on long messages; runs of spaces may differ by a token.
+ */
+const toSentencePieceWords = (text: string, addPrefix: boolean): string[] => {
+  const normalized = (addPrefix ? ' ' + text : text).replace(/ /g, SENTENCEPIECE_SPACE);
+  return normalized.match(new RegExp(`${SENTENCEPIECE_SPACE}?[^${SENTENCEPIECE_SPACE}]+|${SENTENCEPIECE_SPACE}`, 'g')) || [];
+};
+
+/**
+ * Splits text by a pre-tokenizer pattern, keeping the text between matches as pieces too.
+ */
+const splitByPattern = (text: string, pattern: RegExp): string[] => {
+  const pieces: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > last) pieces.push(text.slice(last, match.index));
+    if (match[0]) pieces.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) pieces.push(text.slice(last));
+  return pieces;
+};
+
+/**
+ * Compiles a HuggingFace (Oniguruma) split pattern. Inline case-insensitive groups are not supported
+ * by every browser, so they are relaxed to plain groups.
+ */
+const compileSplitPattern = (pattern?: string): RegExp => {
+  if (pattern) {
+    try {
+      return new RegExp(pattern.replace(/\(\?i:/g, '(?:'), 'gu');
+    } catch (e) {
+      console.warn('Tokenizer split pattern not supported, using the GPT-2 pattern instead.', e);
+    }
+  }
+  return new RegExp(GPT2_SPLIT_PATTERN, 'gu');
+};
+
+const flattenComponents = (component: any): any[] => {
+  if (!component) return [];
+  if (component.type === 'Sequence') {
+    return (component.pretokenizers || component.normalizers || []).flatMap(flattenComponents);
+  }
+  return [component];
+};
+
+/**
+ * Builds a counter from a HuggingFace tokenizer.json.
+ * @throws Error if the file uses a model type other than BPE or Unigram.
+ */
+export const createHuggingFaceTokenizer = (json: any): TokenCounter => {
+  const model = json?.model;
+  const modelType = model?.type || (model?.merges ? 'BPE' : undefined);
+  if (modelType !== 'BPE' && modelType !== 'Unigram') {
+    throw new Error(`Unsupported tokenizer.json model "${model?.type || 'unknown'}". Only BPE and Unigram vocabularies can be loaded.`);
+  }
+
+  const preTokenizers = flattenComponents(json.pre_tokenizer);
+  const normalizers = flattenComponents(json.normalizer);
+  const byteLevel = preTokenizers.find(p => p.type === 'ByteLevel');
+  const splitPattern = preTokenizers.find(p => p.type === 'Split' && p.pattern?.Regex)?.pattern.Regex;
+  const metaspace = preTokenizers.find(p => p.type === 'Metaspace');
+  const addPrefix = metaspace
+    ? (metaspace.prepend_scheme ? metaspace.prepend_scheme !== 'never' : metaspace.add_prefix_space !== false)
+    : normalizers.some(n => n.type === 'Prepend');
+  const byteFallback = !!model.byte_fallback;
+
+  if (modelType === 'Unigram') {
+    const scores = new Map<string, number>((model.vocab as [string, number][]).map(([piece, score]) => [piece, score]));
+    const countWord = createUnigramWordCounter(scores, byteFallback);
+    return {
+      count: (text: string) => toSentencePieceWords(text, addPrefix).reduce((sum, word) => sum + countWord(word), 0),
+    };
+  }
+
+  const vocab = new Set<string>(Object.keys(model.vocab || {}));
+  const mergeRanks = new Map<string, number>();
+  (model.merges || []).forEach((merge: string | [string, string], rank: number) => {
+    const [left, right] = Array.isArray(merge) ? merge : [merge.slice(0, merge.indexOf(' ')), merge.slice(merge.indexOf(' ') + 1)];
+    mergeRanks.set(`${left}\u0000${right}`, rank);
+  });
+  const priority = (left: string, right: string) => mergeRanks.get(`${left}\u0000${right}`);
+
+  if (byteLevel || json.decoder?.type === 'ByteLevel') {
+    const pattern = compileSplitPattern(splitPattern);
+    const usesRegex = !!splitPattern || byteLevel?.use_regex !== false;
+    const countWord = withWordCache(word => {
+      const symbols = Array.from(utf8Encoder.encode(word), b => BYTE_TO_UNICODE[b]);
+      if (model.ignore_merges && vocab.has(symbols.join(''))) return 1;
+      return countPieces(applyBpe(symbols, priority), vocab, false);
+    });
+    return {
+      count: (text: string) => {
+        const input = byteLevel?.add_prefix_space && !text.startsWith(' ') ? ' ' + text : text;
+        const words = usesRegex ? splitByPattern(input, pattern) : [input];
+        return words.reduce((sum, word) => sum + countWord(word), 0);
+      },
+    };
+  }
+
+  const countWord = withWordCache(word => countPieces(applyBpe(Array.from(word), priority), vocab, byteFallback));
+  return {
+    count: (text: string) => toSentencePieceWords(text, addPrefix).reduce((sum, word) => sum + countWord(word), 0),
+  };
+};
+
+// --- SentencePiece .model (protobuf) ---
+
+class ProtoReader {
+  private view: DataView;
+  pos = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  varint(): number {
+    let result = 0;
+    let shift = 0;
+    for (;;) {
+      if (this.pos >= this.bytes.length) throw new Error('Truncated SentencePiece model file.');
+      const byte = this.bytes[this.pos++];
+      // Values above 2^53 only appear in fields we skip; precision loss there is harmless.
+      result += (byte & 0x7f) * Math.pow(2, shift);
+      if ((byte & 0x80) === 0) return result;
+      shift += 7;
+    }
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.bytes.length) throw new Error('Truncated SentencePiece model file.');
+    return this.bytes.subarray(start, this.pos);
+  }
+
+  float(): number {
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  skip(wireType: number): void {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.bytesField();
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Not a SentencePiece model file (wire type ${wireType}).`);
+  }
+}
+
+// Field numbers from sentencepiece_model.proto
+const SP_PIECE_TYPE_NORMAL = 1;
+const SP_PIECE_TYPE_USER_DEFINED = 4;
+const SP_PIECE_TYPE_BYTE = 6;
+const SP_MODEL_TYPE_BPE = 2;
+
+interface SentencePieceModel {
+  pieces: { piece: string; score: number; type: number }[];
+  modelType: number;
+  addDummyPrefix: boolean;
+}
+
+const parseSentencePieceModel = (bytes: Uint8Array): SentencePieceModel => {
+  const decoder = new TextDecoder();
+  const model: SentencePieceModel = { pieces: [], modelType: 1, addDummyPrefix: true };
+  const reader = new ProtoReader(bytes);
+
+  while (!reader.done) {
+    const tag = reader.varint();
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+
+    if (field === 1 && wireType === 2) { // pieces
+      const pieceReader = new ProtoReader(reader.bytesField());
+      const entry = { piece: '', score: 0, type: SP_PIECE_TYPE_NORMAL };
+      while (!pieceReader.done) {
+        const pieceTag = pieceReader.varint();
+        const pieceField = Math.floor(pieceTag / 8);
+        if (pieceField === 1 && (pieceTag & 7) === 2) entry.piece = decoder.decode(pieceReader.bytesField());
+        else if (pieceField === 2 && (pieceTag & 7) === 5) entry.score = pieceReader.float();
+        else if (pieceField === 3 && (pieceTag & 7) === 0) entry.type = pieceReader.varint();
+        else pieceReader.skip(pieceTag & 7);
+      }
+      model.pieces.push(entry);
+    } else if (field === 2 && wireType === 2) { // trainer_spec
+      const specReader = new ProtoReader(reader.bytesField());
+      while (!specReader.done) {
+        const specTag = specReader.varint();
+        if (Math.floor(specTag / 8) === 3 && (specTag & 7) === 0) model.modelType = specReader.varint();
+        else specReader.skip(specTag & 7);
+      }
+    } else if (field === 3 && wireType === 2) { // normalizer_spec
+      const normalizerReader = new ProtoReader(reader.bytesField());
+      while (!normalizerReader.done) {
+        const normalizerTag = normalizerReader.varint();
+        if (Math.floor(normalizerTag / 8) === 3 && (normalizerTag & 7) === 0) model.addDummyPrefix = normalizerReader.varint() !== 0;
+        else normalizerReader.skip(normalizerTag & 7);
+      }
+    } else {
+      reader.skip(wireType);
+    }
+  }
+
+  if (model.pieces.length === 0) {
+    throw new Error('The SentencePiece model contains no vocabulary.');
+  }
+  return model;
+};
+
+/**
+ * Builds a counter from the bytes of a SentencePiece .model file.
+ * @throws Error if the file is not a SentencePiece model.
+ */
+export const createSentencePieceTokenizer = (bytes: Uint8Array): TokenCounter => {
+  const model = parseSentencePieceModel(bytes);
+  const scores = new Map<string, number>();
+  for (const { piece, score, type } of model.pieces) {
+    if (type === SP_PIECE_TYPE_NORMAL || type === SP_PIECE_TYPE_USER_DEFINED) scores.set(piece, score);
+  }
+  const byteFallback = model.pieces.some(p => p.type === SP_PIECE_TYPE_BYTE);
+
+  if (model.modelType === SP_MODEL_TYPE_BPE) {
+    // SentencePiece BPE merges the pair whose result has the highest score.
+    const vocab = new Set(scores.keys());
+    const priority = (left: string, right: string) => {
+      const score = scores.get(left + right);
+      return score === undefined ? undefined : -score;
+    };
+    const countWord = withWordCache(word => countPieces(applyBpe(Array.from(word), priority), vocab, byteFallback));
+    return {
+      count: (text: string) => toSentencePieceWords(text, model.addDummyPrefix).reduce((sum, word) => sum + countWord(word), 0),
+    };
+  }
+
+  const countWord = createUnigramWordCounter(scores, byteFallback);
+  return {
+    count: (text: string) => toSentencePieceWords(text, model.addDummyPrefix).reduce((sum, word) => sum + countWord(word), 0),
+  };
+};
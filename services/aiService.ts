@@ -1,22 +1,27 @@
 import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import type { Message, Model, Settings, Conversation, Character, UserPersona, Lorebook, IdentityProfile, NarrativeDirective } from '../types';
+import type { Message, Model, Settings, Conversation, Character, UserPersona, Lorebook, IdentityProfile, NarrativeDirective, TaskMemoryEntry } from '../types';
 import { log } from './loggingService';
 
 // Import logic from newly created, specialized modules.
 // This refactoring separates concerns, making the AI service layer more modular and maintainable.
 import { manageContext, countTokens } from './ai/contextManager';
-import { buildComprehensiveSystemPrompt, getDynamicStopSequences, findActiveLoreEntries, buildDirectiveMessage, buildGoalSlipMessage } from './ai/promptBuilder';
+import { buildComprehensiveSystemPrompt, getDynamicStopSequences, findActiveLoreEntries, formatLoreActivationTrace, buildDirectiveMessage, buildGoalSlipMessage } from './ai/promptBuilder';
 import { searchRelevantMemories, addMessagesToCollection } from '../services/ragService';
 import { generateEmbedding as generateKoboldEmbedding } from './koboldcppService';
 import { generateUUID } from '../utils/uuid';
 import { getGeminiApiKeys, delayBetweenRetries, withTimeout, getHealthyGeminiApiKeys, penalizeApiKey } from '../utils/apiHelpers';
 import { convertImageToPng } from './imageUtils';
+import { getEndpointForModel, normalizeEndpointBaseUrl, buildEndpointHeaders } from './customEndpointService';
+import { readOpenAICompatibleStream } from './ai/providers/openAICompatibleProvider';
+import { callModelWithRetry, streamModelWithRetry } from './ai/providers';
+import { appendTaskMemory } from './directiveTimeline';
+import { describeDirectiveFocus } from './directiveMilestones';
 
 // Re-export functions from the new modules to ensure other parts of the application
 // that import from `aiService.ts` continue to work without modification.
 // FIX: Import functions to make them available in this module's scope before re-exporting.
-import { getDirectorSuggestion, getCustomDirectorSuggestion, getLivingLoreSuggestion, getLiveCharacterUpdateAsJson, generateDirectiveIntent, verifyDirectiveProgress, analyzeDirectiveContext, analyzeDirectorNeed, analyzeLivingLoreSignificance, analyzeEmotionalDynamicsSchema, decideGoalSlip } from './ai/agents';
-export { getDirectorSuggestion, getCustomDirectorSuggestion, getLivingLoreSuggestion, getLiveCharacterUpdateAsJson, generateDirectiveIntent, verifyDirectiveProgress, analyzeDirectiveContext, analyzeDirectorNeed, analyzeLivingLoreSignificance };
+import { getDirectorSuggestion, getCustomDirectorSuggestion, getLivingLoreSuggestion, getLiveCharacterUpdateAsJson, generateDirectiveIntent, verifyDirectiveProgress, analyzeDirectiveContext, analyzeDirectorNeed, checkStoryArcEvents, mineConversationFacts, checkFactContradictions, analyzeLivingLoreSignificance, analyzeEmotionalDynamicsSchema, decideGoalSlip, decomposeDirectiveGoal } from './ai/agents';
+export { getDirectorSuggestion, getCustomDirectorSuggestion, getLivingLoreSuggestion, getLiveCharacterUpdateAsJson, generateDirectiveIntent, verifyDirectiveProgress, analyzeDirectiveContext, analyzeDirectorNeed, checkStoryArcEvents, mineConversationFacts, checkFactContradictions, analyzeLivingLoreSignificance, decomposeDirectiveGoal };
 // Prefer the schema-based emotional dynamics analyzer for robustness
 export { analyzeEmotionalDynamicsSchema as analyzeEmotionalDynamics };
 export { transformToImagePrompt, generateSceneBackgroundPrompt } from './ai/imagePrompts';
@@ -36,7 +41,7 @@ export {
     generateCharacterGroup,
 } from './ai/knowledgeManager';
 export type { UpdateKnowledgeProgress } from './ai/knowledgeManager';
-export { streamAutopilotResponse, streamPromptPolish, impersonateScene, removeFiller, proposeIdentityFact, editMessageWithInstruction } from './ai/chatEnhancers';
+export { streamAutopilotResponse, streamPromptPolish, impersonateScene, removeFiller, proposeIdentityFact, editMessageWithInstruction, transcribeVoiceNote } from './ai/chatEnhancers';
 export { summarizeMessageContent } from './ai/contentModifiers';
 export { generateConversationTitle, generateSongFromContext } from './ai/metadataGenerators';
 
@@ -213,6 +218,25 @@ const streamGoogleResponse = async (
     }
 }
 
+/**
+ * Removes image parts from OpenAI-format messages for models without vision support.
+ */
+const stripImageParts = (messages: { role: string, content: string | any[] }[]) => messages.map((m: any) => {
+    const c = (m as any).content;
+    if (Array.isArray(c)) {
+        // Keep only text parts
+        const textParts = c.filter((p: any) => p?.type === 'text');
+        if (textParts.length === 1) {
+            return { ...m, content: textParts[0].text || '' };
+        }
+        if (textParts.length > 1) {
+            return { ...m, content: textParts.map((p: any) => p.text || '').join('\n') };
+        }
+        return { ...m, content: '' };
+    }
+    return m;
+});
+
 // --- OpenRouter Provider ---
 
 /**
@@ -402,23 +426,7 @@ const streamOpenRouterResponse = async (
     const messagesRaw = formatHistoryForOpenRouter(history, systemPrompt, settings.promptFormat, settings, characters, userPersona);
 
     // Strip image parts for models that don't support image input
-    const messages = (supportsImageInput === false)
-        ? messagesRaw.map((m: any) => {
-            const c = (m as any).content;
-            if (Array.isArray(c)) {
-                // Keep only text parts
-                const textParts = c.filter((p: any) => p?.type === 'text');
-                if (textParts.length === 1) {
-                    return { ...m, content: textParts[0].text || '' };
-                }
-                if (textParts.length > 1) {
-                    return { ...m, content: textParts.map((p: any) => p.text || '').join('\n') };
-                }
-                return { ...m, content: '' };
-            }
-            return m;
-        })
-        : messagesRaw;
+    const messages = (supportsImageInput === false) ? stripImageParts(messagesRaw) : messagesRaw;
 
     const body: any = {
         model: modelId,
@@ -477,62 +485,7 @@ const streamOpenRouterResponse = async (
         }
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-        throw new Error("Failed to get response reader from OpenRouter");
-    }
-
-    // Timeout Wrapper: Prevent indefinite waiting for streaming completion
-    try {
-        await withTimeout(
-            (async () => {
-                const decoder = new TextDecoder();
-                let buffer = "";
-
-                while (true) {
-                    // Check if user aborted manually
-                    if (signal.aborted) {
-                        reader.cancel(); // Cancel the stream
-                        throw new DOMException('Aborted', 'AbortError');
-                    }
-                    
-                    const { done, value } = await reader.read();
-                    if (done) break;
-
-                    buffer += decoder.decode(value, { stream: true });
-                    const lines = buffer.split('\n');
-                    buffer = lines.pop() || '';
-
-                    for (const line of lines) {
-                        if (line.startsWith('data: ')) {
-                            const data = line.substring(6);
-                            if (data.trim() === '[DONE]') {
-                                return;
-                            }
-                            try {
-                                const parsed = JSON.parse(data);
-                                const chunk = parsed.choices[0]?.delta?.content;
-                                if (chunk) {
-                                    onChunk(chunk);
-                                }
-                            } catch (e) {
-                                // Ignore empty or malformed chunks
-                            }
-                        }
-                    }
-                }
-            })(),
-            120000, // 2 minutes timeout
-            `OpenRouter API request timed out after 120 seconds. The model may be overloaded or your connection is slow.`
-        );
-    } finally {
-        // Cleanup: Always cancel the reader to free resources
-        try {
-            reader.cancel();
-        } catch (e) {
-            // Reader might already be closed
-        }
-    }
+    await readOpenAICompatibleStream(response, onChunk, signal, 'OpenRouter');
 }
 
 // --- XAI Grok Provider ---
@@ -623,63 +576,84 @@ const streamXAIResponse = async (
         }
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-        throw new Error("Failed to get response reader from XAI");
+    await readOpenAICompatibleStream(response, onChunk, signal, 'XAI');
+}
+
+// --- Custom OpenAI-Compatible Endpoint Provider ---
+
+/**
+ * Streams a response from a user-configured OpenAI-compatible endpoint
+ * (llama.cpp server, Ollama, vLLM, KoboldCpp, LM Studio...).
+ * Per-endpoint overrides take precedence over the global generation settings.
+ * @param history - The message history.
+ * @param model - The Custom model (carries the endpoint ID and the raw backend model ID).
+ * @param settings - The application settings.
+ * @param systemPrompt - The system prompt.
+ * @param stopSequences - Sequences to stop generation.
+ * @param characters - Active characters.
+ * @param userPersona - The active user persona.
+ * @param onChunk - Callback for each text chunk.
+ * @param signal - An AbortSignal to cancel the request.
+ */
+const streamCustomEndpointResponse = async (
+    history: Message[],
+    model: Model,
+    settings: Settings,
+    systemPrompt: string | undefined,
+    stopSequences: string[],
+    characters: Character[],
+    userPersona: UserPersona | null,
+    onChunk: (text: string) => void,
+    signal: AbortSignal
+) => {
+    const endpoint = getEndpointForModel(model, settings);
+    const baseUrl = normalizeEndpointBaseUrl(endpoint.baseUrl);
+    if (!baseUrl) {
+        throw new Error(`Custom endpoint "${endpoint.name}" has no base URL configured.`);
     }
 
-    // Timeout Wrapper: Prevent indefinite waiting for streaming completion
-    try {
-        await withTimeout(
-            (async () => {
-                const decoder = new TextDecoder();
-                let buffer = "";
-
-                while (true) {
-                    // Check if user aborted manually
-                    if (signal.aborted) {
-                        reader.cancel();
-                        throw new DOMException('Aborted', 'AbortError');
-                    }
-                    
-                    const { done, value } = await reader.read();
-                    if (done) break;
-
-                    buffer += decoder.decode(value, { stream: true });
-                    const lines = buffer.split('\n');
-                    buffer = lines.pop() || '';
-
-                    for (const line of lines) {
-                        if (line.startsWith('data: ')) {
-                            const data = line.substring(6);
-                            if (data.trim() === '[DONE]') {
-                                return;
-                            }
-                            try {
-                                const parsed = JSON.parse(data);
-                                const chunk = parsed.choices[0]?.delta?.content;
-                                if (chunk) {
-                                    onChunk(chunk);
-                                }
-                            } catch (e) {
-                                // Ignore empty or malformed chunks
-                            }
-                        }
-                    }
-                }
-            })(),
-            120000, // 2 minutes timeout
-            `XAI API request timed out after 120 seconds. The model may be overloaded or your connection is slow.`
-        );
-    } finally {
-        // Cleanup: Always cancel the reader to free resources
+    const messagesRaw = formatHistoryForOpenRouter(history, systemPrompt, endpoint.promptFormat || 'Default', settings, characters, userPersona);
+    const messages = model.supportsImageInput === true ? messagesRaw : stripImageParts(messagesRaw);
+
+    const maxTokens = endpoint.maxResponseTokens !== undefined ? endpoint.maxResponseTokens : settings.maxResponseTokens;
+    const body: any = {
+        model: model.apiModelId || model.id,
+        messages: messages,
+        stream: true,
+        temperature: endpoint.temperature ?? settings.temperature,
+        top_p: endpoint.topP ?? settings.topP,
+        top_k: settings.topK,
+        repetition_penalty: settings.repetitionPenalty,
+        frequency_penalty: settings.frequencyPenalty,
+        presence_penalty: settings.presencePenalty,
+        stop: stopSequences.length > 0 ? stopSequences : undefined
+    };
+
+    if (maxTokens && maxTokens > 0) {
+        body.max_tokens = maxTokens;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: buildEndpointHeaders(endpoint),
+        body: JSON.stringify(body),
+        signal: signal,
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        let message = errorText;
         try {
-            reader.cancel();
-        } catch (e) {
-            // Reader might already be closed
+            const errorJson = JSON.parse(errorText);
+            message = errorJson.error?.message || errorJson.error || errorJson.detail || errorText;
+        } catch {
+            // Non-JSON error body, keep the raw text
         }
+        throw new Error(`${endpoint.name} Error: ${response.status} ${response.statusText} - ${message}`);
     }
-}
+
+    await readOpenAICompatibleStream(response, onChunk, signal, endpoint.name || 'Custom endpoint');
+};
 
 // --- Main Exported Function ---
 
@@ -697,12 +671,6 @@ export const streamForeshadowingMessages = async (
     settings: Settings,
     activeCharacters?: Character[],
 ): Promise<void> => {
-    const keys = getHealthyGeminiApiKeys(settings);
-    if (keys.length === 0) {
-        console.warn("Foreshadowing skipped: No healthy Gemini API Key available.");
-        return;
-    }
-
     const systemPrompt = `You are an advanced story analyst AI with dual capabilities: narrative analysis and context intelligence.
 
 **CRITICAL INSTRUCTIONS:**
@@ -799,73 +767,29 @@ ${conversationExcerpt}
 
 Now provide your complete analysis with BOTH sections (Context Intelligence first, then Story Directions) in the SAME language as the conversation.`;
 
-    const config = {
-        systemInstruction: systemPrompt,
-        temperature: 0.9,
-        thinkingConfig: { thinkingBudget: 0 },
-        safetySettings: GENAI_SAFETY_SETTINGS,
-    };
-    
-    let lastError: Error | null = null;
-
-    for (let i = 0; i < keys.length; i++) {
-        const key = keys[i];
-        
-        try {
-            // Rate Limiting: Add delay between retry attempts (except for first attempt)
-            if (i > 0) {
-                await delayBetweenRetries(300); // 300ms delay
+    await streamModelWithRetry(
+        {
+            model: 'gemini-2.5-flash-lite',
+            contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
+            config: {
+                systemInstruction: systemPrompt,
+                temperature: 0.9,
+                thinkingConfig: { thinkingBudget: 0 },
+                abortSignal: signal,
             }
-            
-            const ai = new GoogleGenAI({ apiKey: key });
-            
-            // Timeout Wrapper: Prevent indefinite waiting
-            await withTimeout(
-                (async () => {
-                    const responseStream = await ai.models.generateContentStream({
-                        model: 'gemini-2.5-flash-lite',
-                        contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-                        config,
-                    });
-
-                    for await (const chunk of responseStream) {
-                        if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
-                        if (chunk.text) {
-                            onChunk(chunk.text);
-                        }
-                    }
-                })(),
-                60000, // 1 minute timeout (shorter for foreshadowing)
-                'Foreshadowing stream timed out'
-            );
-            
-            // If we get here, the stream was successful, so we can exit the loop.
-            return;
-        } catch (error: any) {
-            if (error.name === 'AbortError') {
-                throw error; // Propagate abort signals immediately.
-            }
-            lastError = error;
-            log('WARN', 'API_FAIL', `Foreshadowing stream failed with key ...${key.slice(-4)}.`, { error });
-            const isQuotaError = error?.message?.includes('429') || 
-                                 error?.message?.includes('quota') ||
-                                 error?.message?.includes('RESOURCE_EXHAUSTED');
-            
-            if (isQuotaError) {
-                penalizeApiKey(key);
-            }
-        }
-    }
-    
-    // If all keys fail, throw the last recorded error.
-    if (lastError) {
-        throw lastError;
-    }
+        },
+        (chunk) => {
+            if (!signal.aborted) onChunk(chunk);
+        },
+        settings,
+        60000 // 1 minute timeout (shorter for foreshadowing)
+    );
+    if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
 };
 
 /**
  * Extracts a single key fact from the conversation history based on user input.
- * Uses a fast, lightweight model (gemini-2.5-flash-lite) to analyze recent messages.
+ * Uses a fast, lightweight model (gemini-2.5-flash-lite, or the default model when Gemini is not configured).
  * @param history The full conversation history.
  * @param userInput User's description or hint about the fact to extract.
  * @param settings Application settings for API access.
@@ -876,11 +800,6 @@ export const extractFactFromContext = async (
     userInput: string,
     settings: Settings
 ): Promise<string> => {
-    const keys = getHealthyGeminiApiKeys(settings);
-    if (keys.length === 0) {
-        throw new Error("No healthy Gemini API keys available for fact extraction.");
-    }
-    
     // Analyze last 20 messages for context
     const recentMessages = history.slice(-20);
     const conversationExcerpt = recentMessages
@@ -920,63 +839,30 @@ ${conversationExcerpt}
 
 Based on what the user wants to remember, find the relevant information in the conversation and extract ONE clear fact. Match the conversation's language:`;
 
-    let lastError: Error | null = null;
-
-    for (let i = 0; i < keys.length; i++) {
-        const key = keys[i];
-        
-        try {
-            if (i > 0) {
-                await delayBetweenRetries(300);
-            }
-            
-            const ai = new GoogleGenAI({ apiKey: key });
-            
-            const response = await withTimeout(
-                ai.models.generateContent({
-                    model: 'gemini-2.5-flash-lite',
-                    contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-                    config: {
-                        systemInstruction: systemPrompt,
-                        temperature: 0.3,
-                        thinkingConfig: { thinkingBudget: 0 },
-                        safetySettings: GENAI_SAFETY_SETTINGS,
-                    }
-                }),
-                30000, // 30 second timeout
-                'Fact extraction timed out'
-            );
-            
-            const extractedFact = response.text?.trim();
-            if (!extractedFact) {
-                throw new Error("Model returned empty response");
-            }
-            
-            return extractedFact;
-            
-        } catch (error: any) {
-            if (error.name === 'AbortError') {
-                throw error;
-            }
-            lastError = error;
-            log('WARN', 'API_FAIL', `Fact extraction failed with key ...${key.slice(-4)}.`, { error });
-            
-            const isQuotaError = error?.message?.includes('429') || 
-                                 error?.message?.includes('quota') ||
-                                 error?.message?.includes('RESOURCE_EXHAUSTED');
-            
-            if (isQuotaError) {
-                penalizeApiKey(key);
+    try {
+        const response = await callModelWithRetry({
+            model: 'gemini-2.5-flash-lite',
+            contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
+            config: {
+                systemInstruction: systemPrompt,
+                temperature: 0.3,
+                thinkingConfig: { thinkingBudget: 0 },
             }
+        }, settings, 30000); // 30 second timeout
+
+        const extractedFact = response.text?.trim();
+        if (!extractedFact) {
+            throw new Error("Model returned empty response");
         }
+
+        return extractedFact;
+    } catch (error: any) {
+        if (error.name === 'AbortError') {
+            throw error;
+        }
+        log('WARN', 'API_FAIL', 'Fact extraction failed.', { error: error.message });
+        throw new Error(`Failed to extract fact: ${error.message}`);
     }
-    
-    // If all keys fail, throw the last recorded error
-    if (lastError) {
-        throw new Error(`Failed to extract fact: ${lastError.message}`);
-    }
-    
-    throw new Error("Failed to extract fact: Unknown error");
 };
 
 /**
@@ -1038,7 +924,8 @@ export const streamChatResponse = async (
     // 3. Retrieve relevant memories if RAG is enabled with SMART CONTEXT MANAGEMENT.
     //    We sanitize the query to avoid leaking one-time control instructions into retrieval.
     let ragContext = '';
-    if (settings.rag.enabled && settings.rag.isConnected && conversation.ragCollectionName) {
+    // With hybrid search, keyword matching still works while no embedding engine is connected.
+    if (settings.rag.enabled && (settings.rag.isConnected || settings.rag.hybridSearch) && conversation.ragCollectionName) {
         try {
             // Calculate available tokens for RAG (conservative estimate)
             // Reserve space for system prompt, history, and response
@@ -1056,6 +943,24 @@ export const streamChatResponse = async (
                 settings.rag.topK,
                 maxRagTokens // Pass the calculated max tokens
             );
+            // Branches also remember their parent's past, up to the fork point. Ancestors only fill the remaining slots and token budget.
+            let remainingRagTokens = maxRagTokens;
+            for (const memory of memories) remainingRagTokens -= await countTokens(memory.fullText);
+            for (const ancestor of conversation.ragAncestors || []) {
+                const remaining = settings.rag.topK - memories.length;
+                if (remaining <= 0 || remainingRagTokens <= 0) break;
+                const ancestorMemories = await searchRelevantMemories(
+                    ancestor.collectionName,
+                    queryForRag,
+                    settings,
+                    managedHistory,
+                    remaining,
+                    remainingRagTokens,
+                    ancestor.cutoffTimestamp
+                );
+                for (const memory of ancestorMemories) remainingRagTokens -= await countTokens(memory.fullText);
+                memories.push(...ancestorMemories);
+            }
             // Prefer pre-sanitized facts when available. Fall back to memory.summary, then to a
             // minimal inline sanitization of fullText. Keep the final size compact.
             const facts: string[] = [];
@@ -1112,7 +1017,8 @@ export const streamChatResponse = async (
     }
     
     // 4. Find and inject active lore entries.
-    const activeLoreString = findActiveLoreEntries(managedHistory, lorebooks || []);
+    const loreActivation = await findActiveLoreEntries(managedHistory, lorebooks || [], model, settings);
+    const activeLoreString = loreActivation.loreText;
     
     // 5. Decide where to inject RAG context based on injectMode setting
     let ragContextForSystemPrompt = '';
@@ -1284,9 +1190,22 @@ ${systemNoteFromInstructions}`
             let highestScore = -1;
 
             // Increment hunger for all active directives first
-            const directivesWithHunger = activeDirectives.map(d => ({ ...d, hunger: (d.hunger || 0) + 1 }));
+            let directivesWithHunger: NarrativeDirective[] = activeDirectives.map(d => ({ ...d, hunger: (d.hunger || 0) + 1 }));
+
+            // A slip forced from the directive timeline skips scoring. It is dropped when its character is not in the
+            // scene, otherwise it would never be injected and would block scoring on every turn.
+            directivesWithHunger = directivesWithHunger.map(d => {
+                if (!d.forcedSlip || characters.some(c => c.name === d.targetCharacterName)) return d;
+                log('WARN', 'NARRATIVE_DIRECTIVE', 'Dropping forced slip, target character is not in the scene', { goal: d.goal, character: d.targetCharacterName });
+                return { ...d, forcedSlip: undefined };
+            });
+            const forcedDirective = directivesWithHunger.find(d => d.forcedSlip);
+            if (forcedDirective) {
+                bestDirective = forcedDirective;
+                highestScore = Infinity;
+            }
 
-            for (const directive of directivesWithHunger) {
+            for (const directive of forcedDirective ? [] : directivesWithHunger) {
                 let score = 0;
 
                 // 1. Base Priority Score
@@ -1324,20 +1243,36 @@ ${systemNoteFromInstructions}`
             
             const ACTIVATION_THRESHOLD = 80;
 
+            // Injections are anchored to the user message they are sent with, for the directive timeline.
+            const recordInjection = (directiveId: string, entry: Pick<TaskMemoryEntry, 'intentType' | 'intentContent' | 'reasoning'>) => {
+                directivesWithHunger = directivesWithHunger.map(d => d.id !== directiveId ? d : appendTaskMemory(
+                    { ...d, hunger: 0, forcedSlip: undefined },
+                    {
+                        injectedAt: Date.now(),
+                        ...entry,
+                        messageCount: conversation.messageProgress || 0,
+                        messageId: history[history.length - 1]?.id,
+                        messageNumber: history.length,
+                    }
+                ));
+            };
+
             if (bestDirective && highestScore >= ACTIVATION_THRESHOLD) {
                 const targetChar = characters.find(c => c.name === bestDirective!.targetCharacterName);
                 if (targetChar) {
                     try {
                         let injected = false;
-                        if (bestDirective.pacing === 'fast' || bestDirective.pacing === 'aggressive') {
-                            const gate = await decideGoalSlip(
-                                { goal: bestDirective.goal, pacing: bestDirective.pacing, subtlety: bestDirective.subtlety, targetCharacterName: targetChar.name },
-                                currentHistoryForAI.slice(-10),
-                                settings
-                            );
+                        if (bestDirective.forcedSlip || bestDirective.pacing === 'fast' || bestDirective.pacing === 'aggressive') {
+                            const gate = bestDirective.forcedSlip
+                                ? { injectNow: true, strategy: bestDirective.forcedSlip, rationale: 'Forced from the directive timeline' }
+                                : await decideGoalSlip(
+                                    { goal: describeDirectiveFocus(bestDirective), pacing: bestDirective.pacing, subtlety: bestDirective.subtlety, targetCharacterName: targetChar.name },
+                                    currentHistoryForAI.slice(-10),
+                                    settings
+                                );
                             if (gate.injectNow || gate.strategy !== 'wait') {
                                 const mode = gate.strategy === 'scene' ? 'scene' : (bestDirective.subtlety === 'hint' ? 'hint' : 'light');
-                                const slip = buildGoalSlipMessage(bestDirective.goal, mode as any);
+                                const slip = buildGoalSlipMessage(describeDirectiveFocus(bestDirective), mode as any);
                                 currentHistoryForAI.push({
                                     id: generateUUID(),
                                     role: 'user',
@@ -1350,25 +1285,11 @@ ${systemNoteFromInstructions}`
                                 log('INFO', 'NARRATIVE_DIRECTIVE', 'Injecting goal slip', { 
                                     character: targetChar.name, goal: bestDirective.goal, score: highestScore, strategy: gate.strategy,
                                 });
-
-                                const activatedDirectiveIndex = directivesWithHunger.findIndex(d => d.id === bestDirective!.id);
-                                if (activatedDirectiveIndex > -1) {
-                                    directivesWithHunger[activatedDirectiveIndex].hunger = 0;
-                                    if (!directivesWithHunger[activatedDirectiveIndex].taskMemory) {
-                                        directivesWithHunger[activatedDirectiveIndex].taskMemory = [];
-                                    }
-                                    directivesWithHunger[activatedDirectiveIndex].taskMemory!.push({
-                                        injectedAt: Date.now(),
-                                        intentType: 'scene_opportunity',
-                                        intentContent: `GOAL_SLIP(${mode}): ${bestDirective.goal}`,
-                                        reasoning: gate.rationale || 'Gate approved goal slip',
-                                        messageCount: conversation.messageProgress || 0
-                                    });
-                                    if (directivesWithHunger[activatedDirectiveIndex].taskMemory!.length > 10) {
-                                        directivesWithHunger[activatedDirectiveIndex].taskMemory = 
-                                            directivesWithHunger[activatedDirectiveIndex].taskMemory!.slice(-10);
-                                    }
-                                }
+                                recordInjection(bestDirective.id, {
+                                    intentType: 'scene_opportunity',
+                                    intentContent: `GOAL_SLIP(${mode}): ${describeDirectiveFocus(bestDirective)}`,
+                                    reasoning: gate.rationale || 'Gate approved goal slip',
+                                });
                             }
                         }
 
@@ -1387,31 +1308,11 @@ ${systemNoteFromInstructions}`
                                 log('INFO', 'NARRATIVE_DIRECTIVE', 'Injecting directive', { 
                                     character: targetChar.name, goal: bestDirective.goal, score: highestScore,
                                 });
-                                
-                                // Reset hunger and save to task memory for the activated directive
-                                const activatedDirectiveIndex = directivesWithHunger.findIndex(d => d.id === bestDirective!.id);
-                                if (activatedDirectiveIndex > -1) {
-                                    directivesWithHunger[activatedDirectiveIndex].hunger = 0;
-                                    
-                                    // Add to task memory
-                                    if (!directivesWithHunger[activatedDirectiveIndex].taskMemory) {
-                                        directivesWithHunger[activatedDirectiveIndex].taskMemory = [];
-                                    }
-                                    
-                                    directivesWithHunger[activatedDirectiveIndex].taskMemory!.push({
-                                        injectedAt: Date.now(),
-                                        intentType: intent.type,
-                                        intentContent: intent.content,
-                                        reasoning: intent.reasoning,
-                                        messageCount: conversation.messageProgress || 0
-                                    });
-                                    
-                                    // Keep only last 10 entries to prevent memory bloat
-                                    if (directivesWithHunger[activatedDirectiveIndex].taskMemory!.length > 10) {
-                                        directivesWithHunger[activatedDirectiveIndex].taskMemory = 
-                                            directivesWithHunger[activatedDirectiveIndex].taskMemory!.slice(-10);
-                                    }
-                                }
+                                recordInjection(bestDirective.id, {
+                                    intentType: intent.type,
+                                    intentContent: intent.content,
+                                    reasoning: intent.reasoning,
+                                });
                             }
                         }
                     } catch (e) { log('WARN', 'NARRATIVE_DIRECTIVE', 'Failed to generate intent', { error: e }); }
@@ -1548,6 +1449,18 @@ ${userContent.trim()}
                     signal,
                     model.supportsImageInput === true
                 );
+            } else if (model.provider === 'Custom') {
+                await streamCustomEndpointResponse(
+                    currentHistoryForAI,
+                    model,
+                    settings,
+                    finalSystemPrompt,
+                    stopSequences,
+                    characters || [],
+                    userPersona,
+                    handleChunk,
+                    signal
+                );
             } else {
                 throw new Error(`Unsupported model provider: ${model.provider}`);
             }
@@ -1600,14 +1513,13 @@ ${userContent.trim()}
                         // --- Tier 3: Mediator Model Retry ---
                         onStatusUpdate('Retry failed. Using mediator model to rephrase prompt...');
                         log('WARN', 'API_SAFETY_BLOCK', 'Retry was also blocked, attempting to rephrase prompt with mediator model.');
-                        const mediatorAI = new GoogleGenAI({ apiKey: getGeminiApiKeys(settings)[0] });
                         const mediatorSystemPrompt = `You are an expert prompt rewriter. The following user prompt was blocked by a safety filter. Your task is to rewrite it, preserving the original intent but using more literary, nuanced, or indirect language to make it safer for the AI to process. The output must be in the same language as the original. Output ONLY the rewritten prompt.`;
                         
-                        const mediatorResponse = await mediatorAI.models.generateContent({
+                        const mediatorResponse = await callModelWithRetry({
                             model: 'gemini-2.5-flash-lite',
                             contents: [{ role: 'user', parts: [{ text: lastUserMessage.content }] }],
                             config: { systemInstruction: mediatorSystemPrompt, thinkingConfig: { thinkingBudget: 0 } },
-                        });
+                        }, settings, 30000);
 
                         const rewrittenPrompt = mediatorResponse.text.trim();
                         if (!rewrittenPrompt) throw new Error("Mediator model failed to generate a rewritten prompt.");
@@ -1656,7 +1568,7 @@ ${userContent.trim()}
         
         // Build a compact context payload containing only essential sections:
         // - System prompt
-        // - Active lore (if any)
+        // - Active lore (if any) and the lore activation trace (which entries fired and why)
         // - RAG facts (sanitized bullets)
         // - Last user message (post one-time instruction injection)
         // - Assistant response text (this message's content)
@@ -1674,6 +1586,9 @@ ${userContent.trim()}
             if (activeLoreString && activeLoreString.trim()) {
                 sections.push(`[--- ACTIVE LORE ---]\n${activeLoreString}`);
             }
+            if (loreActivation.trace.length > 0) {
+                sections.push(`[--- LORE ACTIVATION TRACE ---]\n${formatLoreActivationTrace(loreActivation, settings.lore?.tokenBudget)}`);
+            }
 
             sections.push(`[--- LAST USER MESSAGE ---]\n${lastUserText}`);
             sections.push(`[--- ASSISTANT RESPONSE ---]\n${fullResponseText}`);
@@ -0,0 +1,379 @@
+import type { Table } from 'dexie';
+import type { Settings } from '../types';
+import { db } from './db';
+import { exportIndexFile, importIndexFile, deleteCollection, deleteCollectionIndex } from './ragService';
+import { migrateEmbeddedRevisions } from './characterRevisions';
+import { extractInlineImages } from './imageGallery';
+import { log } from './loggingService';
+
+/**
+ * Full-database backup and restore.
+ *
+ * An archive is a single JSON file holding every Dexie table (except logs) plus the hnswlib
+ * index files of all RAG collections, so memories survive moving between browsers and machines.
+ */
+
+export const BACKUP_FORMAT = 'rolygem-backup';
+// Bump when the archive layout changes and add a step to BACKUP_MIGRATIONS.
+export const BACKUP_VERSION = 1;
+
+// Diagnostic data that should never travel between installs, derived indexes rebuilt on demand
+// and the state of unfinished re-embedding jobs.
+const EXCLUDED_TABLES = ['logs', 'ragLexicalIndex', 'ragReembedJobs', 'ragReembedVectors'];
+
+export interface BackupIndexFile {
+  collectionName: string;
+  dimensions?: number;
+  embeddingEngine?: Settings['rag']['embeddingEngine'];
+  data: string; // base64
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  dbVersion: number; // Dexie schema version the records were written with
+  includesSecrets: boolean;
+  tables: Record<string, any[]>;
+  ragIndexes: BackupIndexFile[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  added: Record<string, number>;
+  skipped: Record<string, number>;
+  restoredIndexes: number;
+}
+
+// --- Encoding helpers ---
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000; // Avoid call-stack limits of String.fromCharCode on large indexes
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// RAG metadata keys are `${collectionName}:${memoryId}`; memory IDs are UUIDs without colons.
+const collectionNameFromRagKey = (key: string): string => key.slice(0, key.lastIndexOf(':'));
+
+const getBackupTables = (): Table<any, any>[] => db.tables.filter(t => !EXCLUDED_TABLES.includes(t.name));
+
+// --- Secrets ---
+
+/**
+ * Blanks every credential in a settings record. Used for exports without secrets.
+ */
+const stripSecrets = (settings: Settings): Settings => ({
+  ...settings,
+  geminiApiKeys: '',
+  openRouterApiKey: '',
+  xaiApiKey: '',
+  customEndpoints: (settings.customEndpoints || []).map(e => ({ ...e, apiKey: '' })),
+  huggingFace: settings.huggingFace ? { ...settings.huggingFace, apiKey: '' } : settings.huggingFace,
+  telegram: settings.telegram ? { ...settings.telegram, botToken: '' } : settings.telegram,
+  proactiveAgent: settings.proactiveAgent
+    ? { ...settings.proactiveAgent, apiKeys: { gnews: '', openweathermap: '' } }
+    : settings.proactiveAgent,
+});
+
+/**
+ * Copies the local credentials into restored settings that were exported without them,
+ * so a replace-restore never logs the user out of their providers.
+ */
+const keepLocalSecrets = (restored: Settings, local: Settings): Settings => {
+  const localEndpointKeys = new Map((local.customEndpoints || []).map(e => [e.id, e.apiKey]));
+  return {
+    ...restored,
+    geminiApiKeys: local.geminiApiKeys,
+    openRouterApiKey: local.openRouterApiKey,
+    xaiApiKey: local.xaiApiKey,
+    customEndpoints: (restored.customEndpoints || []).map(e => ({ ...e, apiKey: e.apiKey || localEndpointKeys.get(e.id) || '' })),
+    huggingFace: restored.huggingFace && local.huggingFace ? { ...restored.huggingFace, apiKey: local.huggingFace.apiKey } : restored.huggingFace,
+    telegram: restored.telegram && local.telegram ? { ...restored.telegram, botToken: local.telegram.botToken } : restored.telegram,
+    proactiveAgent: restored.proactiveAgent && local.proactiveAgent
+      ? { ...restored.proactiveAgent, apiKeys: local.proactiveAgent.apiKeys }
+      : restored.proactiveAgent,
+  };
+};
+
+// --- Export ---
+
+/**
+ * Builds a backup archive of the whole database.
+ * @param includeSecrets - When false, API keys and bot tokens are blanked in the exported settings.
+ */
+export const createBackup = async (includeSecrets: boolean): Promise<BackupArchive> => {
+  const tables: Record<string, any[]> = {};
+  for (const table of getBackupTables()) {
+    const records = await table.toArray();
+    tables[table.name] = table.name === 'settings' && !includeSecrets
+      ? records.map(r => stripSecrets(r))
+      : records;
+  }
+
+  const collectionNames = new Set<string>((tables.ragMetadata || []).map(r => collectionNameFromRagKey(r.key)));
+  const ragIndexes: BackupIndexFile[] = [];
+  for (const collectionName of collectionNames) {
+    try {
+      const file = await exportIndexFile(collectionName);
+      if (file) {
+        ragIndexes.push({ collectionName, dimensions: file.dimensions, embeddingEngine: file.embeddingEngine, data: bytesToBase64(file.data) });
+      }
+    } catch (error: any) {
+      // Metadata is still exported; the memories of this collection can be re-embedded after restore.
+      log('WARN', 'BACKUP', `Could not read RAG index for collection ${collectionName}`, { error: error.message });
+    }
+  }
+
+  log('INFO', 'BACKUP', 'Backup created', {
+    tables: Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length])),
+    ragIndexes: ragIndexes.length,
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    dbVersion: db.verno,
+    includesSecrets: includeSecrets,
+    tables,
+    ragIndexes,
+  };
+};
+
+// --- Validation & Migration ---
+
+/**
+ * Upgrade steps keyed by the version they upgrade FROM. Each step returns an archive of version + 1.
+ * Version 0 is the legacy single-conversation export produced by "Export Conversation".
+ */
+const BACKUP_MIGRATIONS: Record<number, (archive: any) => any> = {
+  0: ({ images, ...legacy }: any) => ({
+    format: BACKUP_FORMAT,
+    version: 1,
+    createdAt: Date.now(),
+    dbVersion: 0,
+    includesSecrets: false,
+    // Newer conversation exports carry the conversation's gallery images alongside.
+    tables: { conversations: [legacy], ...(Array.isArray(images) ? { images } : {}) },
+    ragIndexes: [],
+  }),
+};
+
+const detectVersion = (raw: any): number => {
+  if (raw?.format === BACKUP_FORMAT && typeof raw.version === 'number') return raw.version;
+  // A bare conversation from the per-conversation export.
+  if (raw && typeof raw.id === 'string' && Array.isArray(raw.messages)) return 0;
+  throw new Error('This file is not a RolyGem backup.');
+};
+
+/**
+ * Parses, validates and migrates a backup file to the current archive version.
+ * @param text - The raw file content.
+ * @returns The archive in the current format.
+ * @throws Error with a user-facing message if the file cannot be restored.
+ */
+export const parseBackup = (text: string): BackupArchive => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  let version = detectVersion(raw);
+  if (version > BACKUP_VERSION) {
+    throw new Error(`This backup was created by a newer version of the app (format v${version}). Please update before restoring.`);
+  }
+
+  let archive = raw;
+  while (version < BACKUP_VERSION) {
+    const migrate = BACKUP_MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration path from backup format v${version}.`);
+    archive = migrate(archive);
+    version = archive.version;
+    log('INFO', 'BACKUP', `Migrated backup archive to v${version}`);
+  }
+
+  if (!archive.tables || typeof archive.tables !== 'object') {
+    throw new Error('The backup has no tables.');
+  }
+  const knownTables = new Map(getBackupTables().map(t => [t.name, t]));
+  for (const [name, rows] of Object.entries(archive.tables)) {
+    if (!Array.isArray(rows)) throw new Error(`Table "${name}" is malformed.`);
+    const table = knownTables.get(name);
+    if (!table) continue; // Tables from other app versions are ignored on restore
+    const keyPath = table.schema.primKey.keyPath as string;
+    if (!table.schema.primKey.auto && (rows as any[]).some(r => !r || r[keyPath] === undefined || r[keyPath] === null)) {
+      throw new Error(`Table "${name}" contains records without a "${keyPath}".`);
+    }
+  }
+  if (!Array.isArray(archive.ragIndexes)) archive.ragIndexes = [];
+  for (const index of archive.ragIndexes) {
+    if (typeof index?.collectionName !== 'string' || typeof index?.data !== 'string') {
+      throw new Error('The backup contains a malformed RAG index entry.');
+    }
+  }
+
+  return archive as BackupArchive;
+};
+
+/**
+ * Record upgrades keyed by the Dexie schema version that introduced them, mirroring the upgrade
+ * steps in db.ts. Rows from an archive written with an older schema go through every later step
+ * before they are restored, since Dexie only upgrades rows that are already in the database.
+ */
+const SCHEMA_MIGRATIONS: Record<number, (tables: Record<string, any[]>) => Record<string, any[]>> = {
+  // Living Lore revisions moved from the character into their own table.
+  11: tables => {
+    if (!tables.characters) return tables;
+    const revisions: any[] = [];
+    const characters = tables.characters.map(stored => {
+      if (!stored.revisions) return stored;
+      const migrated = migrateEmbeddedRevisions(stored);
+      revisions.push(...migrated.revisions);
+      return migrated.character;
+    });
+    return { ...tables, characters, characterRevisions: [...(tables.characterRevisions || []), ...revisions] };
+  },
+  // Generated images moved from the messages into the gallery table.
+  12: tables => {
+    if (!tables.conversations) return tables;
+    const images: any[] = [];
+    const conversations = tables.conversations.map(stored => {
+      const extracted = extractInlineImages(stored);
+      images.push(...extracted.images);
+      return extracted.conversation;
+    });
+    return { ...tables, conversations, images: [...(tables.images || []), ...images] };
+  },
+};
+
+const migrateTables = (archive: BackupArchive): Record<string, any[]> => {
+  let tables = archive.tables;
+  for (const version of Object.keys(SCHEMA_MIGRATIONS).map(Number).sort((a, b) => a - b)) {
+    if ((archive.dbVersion || 0) < version) {
+      tables = SCHEMA_MIGRATIONS[version](tables);
+      log('INFO', 'BACKUP', `Upgraded backup records to schema v${version}`);
+    }
+  }
+  return tables;
+};
+
+/**
+ * Record counts per table, for the restore confirmation.
+ */
+export const summarizeBackup = (archive: BackupArchive): Record<string, number> =>
+  Object.fromEntries(Object.entries(archive.tables).map(([name, rows]) => [name, rows.length]));
+
+// --- Restore ---
+
+/**
+ * Restores an archive into the database.
+ *
+ * - `replace`: clears every backed-up table, then writes the archive. The old RAG collections are
+ *   deleted only once the write has committed, so a failed restore leaves them intact.
+ * - `merge`: only adds records whose primary key does not exist locally (local data wins).
+ *   RAG collections are merged as a whole, because an index file is only valid with its own metadata.
+ *
+ * @param archive - An archive returned by parseBackup.
+ * @param mode - 'merge' or 'replace'.
+ */
+export const restoreBackup = async (archive: BackupArchive, mode: RestoreMode): Promise<RestoreResult> => {
+  const result: RestoreResult = { added: {}, skipped: {}, restoredIndexes: 0 };
+  const tables = getBackupTables();
+  const localSettings = await db.settings.toArray();
+  const archiveTables = migrateTables(archive);
+
+  const localCollections = new Set<string>(
+    (await db.ragMetadata.toCollection().primaryKeys()).map(k => collectionNameFromRagKey(String(k)))
+  );
+
+  // In a merge, a conversation kept locally keeps its own gallery too.
+  const localConversationIds = new Set((await db.conversations.toCollection().primaryKeys()).map(String));
+
+  const archiveCollections = new Set<string>((archiveTables.ragMetadata || []).map(r => collectionNameFromRagKey(r.key)));
+  const collectionsToRestore = mode === 'replace'
+    ? archiveCollections
+    : new Set([...archiveCollections].filter(c => !localCollections.has(c)));
+
+  await db.transaction('rw', tables, async () => {
+    for (const table of tables) {
+      // A table the archive does not have is still cleared, so no stale rows survive a replace.
+      if (mode === 'replace') {
+        await table.clear();
+      }
+
+      let rows = archiveTables[table.name];
+      if (!rows) continue;
+
+      if (table.name === 'settings') {
+        rows = rows.map(r => {
+          const local = localSettings.find(l => l.key === r.key);
+          return !archive.includesSecrets && local ? { ...keepLocalSecrets(r, local), key: r.key } : r;
+        });
+      }
+
+      let toWrite = rows;
+      if (table.name === 'ragMetadata') {
+        toWrite = rows.filter(r => collectionsToRestore.has(collectionNameFromRagKey(r.key)));
+      } else if (mode === 'merge' && !table.schema.primKey.auto) {
+        const keyPath = table.schema.primKey.keyPath as string;
+        const existing = new Set((await table.toCollection().primaryKeys()).map(String));
+        toWrite = rows.filter(r => !existing.has(String(r[keyPath])));
+        if (table.name === 'images') toWrite = toWrite.filter(r => !localConversationIds.has(String(r.conversationId)));
+      }
+
+      if (toWrite.length > 0) {
+        await table.bulkPut(toWrite);
+      }
+      result.added[table.name] = toWrite.length;
+      result.skipped[table.name] = rows.length - toWrite.length;
+    }
+  });
+
+  // The metadata of restored collections was written above. Whatever else is stored under their names
+  // (an index file, keyword index or re-embedding job) belongs to older data, even if the collection is not local.
+  for (const collectionName of collectionsToRestore) {
+    try {
+      await deleteCollectionIndex(collectionName);
+    } catch (error: any) {
+      log('WARN', 'BACKUP', `Could not clear old RAG data of collection ${collectionName}`, { error: error.message });
+    }
+  }
+
+  if (mode === 'replace') {
+    for (const collectionName of localCollections) {
+      if (collectionsToRestore.has(collectionName)) continue;
+      try {
+        await deleteCollection(collectionName);
+      } catch (error: any) {
+        log('WARN', 'BACKUP', `Could not delete old RAG collection ${collectionName}`, { error: error.message });
+      }
+    }
+  }
+
+  for (const index of archive.ragIndexes) {
+    if (!collectionsToRestore.has(index.collectionName)) continue;
+    try {
+      await importIndexFile(index.collectionName, base64ToBytes(index.data), index.dimensions, index.embeddingEngine);
+      result.restoredIndexes++;
+    } catch (error: any) {
+      log('ERROR', 'BACKUP', `Failed to restore RAG index for collection ${index.collectionName}`, { error: error.message });
+    }
+  }
+
+  log('INFO', 'BACKUP', `Backup restored (${mode})`, result);
+  return result;
+};
@@ -1,6 +1,33 @@
-﻿import type { Settings, Model, Character, Conversation, Message, TelegramUpdate } from '../types';
+﻿import type { Settings, Model, Character, Conversation, Message, MessageSwipe, IdentityProfile, Lorebook, UserPersona, InlineKeyboardMarkup, TelegramMessage, TelegramUpdate } from '../types';
 import * as telegram from './telegramService';
 import { generateUUID } from '../utils/uuid';
+import { connectToRelay, disconnectFromRelay, pushConversationToRelay } from './telegramRelayClient';
+import { getMessageSwipes, selectMessageSwipe, appendMessageSwipe, updateActiveSwipeContent } from './conversationBranchService';
+import { getConversationCharacters } from './characterRevisions';
+import { proposeIdentityFact, transcribeVoiceNote } from './aiService';
+import { log } from './loggingService';
+import { isImageMessage } from './imageGallery';
+
+export type BotImageGenerator = NonNullable<Message['imageGenerator']>;
+
+/**
+ * Everything the bot needs from the application hosting it: the web app, or the relay when it runs headless.
+ */
+export interface BotHost {
+    findOrCreateConversation: (chatId: number) => Promise<Conversation>;
+    handleNewConversation: (chatId: number) => Promise<Conversation>;
+    saveConversation: (conversation: Conversation) => Promise<any>;
+    onConversationUpdate: (conversation: Conversation) => void;
+    // Returns the reply without saving it; the orchestrator decides where it goes (new turn, swipe or continuation).
+    getAIResponse: (conversation: Conversation, history: Message[], options?: { prefaceText?: string }) => Promise<Message>;
+    handleImageGeneration: (generator: BotImageGenerator, prompt: string, chatId: number) => Promise<void>;
+    saveIdentityProfile: (profile: IdentityProfile) => Promise<void>;
+    getLorebooks: () => Promise<Lorebook[]>;
+    getUserPersonas: () => Promise<UserPersona[]>;
+    getIdentityProfiles: () => Promise<IdentityProfile[]>;
+    // All conversations linked to a Telegram chat, sent to the relay when the app connects to it.
+    getBotConversations: () => Promise<Conversation[]>;
+}
 
 // Fix: Changed NodeJS.Timeout to number, as this code runs in the browser where setInterval returns a number.
 let pollingInterval: number | null = null;
@@ -10,18 +37,16 @@ let isPolling = false; // Polling guard to prevent 409 conflict
 
 // State for multi-step operations
 const userState = new Map<number, { action: 'awaiting_system_prompt' }>();
+// Chats with a reply being generated. Buttons pressed meanwhile are rejected instead of racing it.
+const busyChats = new Set<number>();
+
+const TELEGRAM_MESSAGE_LIMIT = 4096;
 
-let orchestratorConfig: {
+let orchestratorConfig: (BotHost & {
     settings: Settings;
     models: Model[];
     characters: Character[];
-    findOrCreateConversation: (chatId: number) => Promise<Conversation>;
-    handleNewConversation: (chatId: number) => Promise<Conversation>;
-    saveConversation: (conversation: Conversation) => Promise<any>;
-    onConversationUpdate: (conversation: Conversation) => void;
-    getAIResponse: (conversation: Conversation) => Promise<string>;
-    handleImageGeneration: (generator: 'comfyui' | 'sdwebui', prompt: string, chatId: number) => Promise<void>;
-} | null = null;
+}) | null = null;
 
 
 const getMainMenuKeyboard = () => ({
@@ -31,18 +56,494 @@ const getMainMenuKeyboard = () => ({
             { text: '🤖 Select Model', callback_data: 'select_model' },
             { text: '🎭 Select Characters', callback_data: 'select_character' }
         ],
+        [
+            { text: '📚 Lorebooks', callback_data: 'select_lore' },
+            { text: '👤 Persona', callback_data: 'select_persona' }
+        ],
         [{ text: '📝 Edit Instructions', callback_data: 'edit_system_prompt' }],
         [{ text: 'ℹ️ Conversation Info', callback_data: 'chat_info' }],
     ]
 });
 
+const getConversationModel = (conversation: Conversation): Model | undefined => {
+    const { settings, models } = orchestratorConfig!;
+    const modelId = conversation.model || settings.defaultModelId;
+    return models.find(m => m.id === modelId) ?? models[0];
+};
+
+// --- Menus ---
+
+const getModelKeyboard = (): InlineKeyboardMarkup => {
+    const { models } = orchestratorConfig!;
+    const googleModels = models.filter(m => m.provider === 'Google');
+    const openRouterModels = models.filter(m => m.provider === 'OpenRouter');
+    const xaiModels = models.filter(m => m.provider === 'XAI');
+    const customModels = models.filter(m => m.provider === 'Custom');
+
+    const keyboard = [];
+    keyboard.push(...googleModels.map(m => ([{ text: `🇬 ${m.name}`, callback_data: `set_model_${m.id}` }])));
+    keyboard.push(...openRouterModels.map(m => ([{ text: `🇴 ${m.name}`, callback_data: `set_model_${m.id}` }])));
+    keyboard.push(...xaiModels.map(m => ([{ text: `🇽 ${m.name}`, callback_data: `set_model_${m.id}` }])));
+    // Custom model IDs embed the endpoint UUID and can exceed Telegram's 64-byte callback_data limit.
+    keyboard.push(...customModels.map((m, i) => ([{ text: `🖥 ${m.name} (${m.endpointName})`, callback_data: `set_cmodel_${i}` }])));
+    keyboard.push([{ text: '« Back', callback_data: 'main_menu' }]);
+    return { inline_keyboard: keyboard };
+};
+
+const getCharacterKeyboard = (conversation: Conversation): InlineKeyboardMarkup => {
+    const keyboard = orchestratorConfig!.characters.map(c => {
+        const isSelected = conversation.characterIds?.includes(c.id);
+        return [{ text: `${isSelected ? '✅' : '🔲'} ${c.name}`, callback_data: `toggle_char_${c.id}` }]
+    });
+    keyboard.push([{ text: '« Back', callback_data: 'main_menu' }]);
+    return { inline_keyboard: keyboard };
+};
+
+const getLorebookKeyboard = async (conversation: Conversation): Promise<InlineKeyboardMarkup> => {
+    const lorebooks = await orchestratorConfig!.getLorebooks();
+    const keyboard = lorebooks.map(lb => {
+        const isSelected = conversation.lorebookIds?.includes(lb.id);
+        return [{ text: `${isSelected ? '✅' : '🔲'} ${lb.name}`, callback_data: `toggle_lore_${lb.id}` }];
+    });
+    keyboard.push([{ text: '« Back', callback_data: 'main_menu' }]);
+    return { inline_keyboard: keyboard };
+};
+
+const getPersonaKeyboard = async (conversation: Conversation): Promise<InlineKeyboardMarkup> => {
+    const { settings, getUserPersonas } = orchestratorConfig!;
+    const personas = await getUserPersonas();
+    const activeId = conversation.userPersonaId || settings.activeUserPersonaId;
+    const keyboard = personas.map(p => ([{ text: `${p.id === activeId ? '✅' : '🔲'} ${p.name}`, callback_data: `set_persona_${p.id}` }]));
+    keyboard.push([{ text: `${conversation.userPersonaId ? '🔲' : '✅'} App default`, callback_data: 'set_persona_default' }]);
+    keyboard.push([{ text: '« Back', callback_data: 'main_menu' }]);
+    return { inline_keyboard: keyboard };
+};
+
+const LORE_MENU_TEXT = 'Select lorebooks for this conversation (multi-select). Lorebooks linked to the active characters are always used.';
+
+// --- Replies ---
+
+/**
+ * Buttons under the latest model reply: swipe between variants, regenerate, continue.
+ */
+const getReplyKeyboard = (message: Message): InlineKeyboardMarkup => {
+    const swipes = getMessageSwipes(message);
+    const index = message.activeSwipeIndex ?? swipes.length - 1;
+    const keyboard = [];
+    if (swipes.length > 1) {
+        keyboard.push([
+            { text: '‹', callback_data: 'reply_prev' },
+            { text: `${index + 1}/${swipes.length}`, callback_data: 'reply_noop' },
+            { text: '›', callback_data: 'reply_next' },
+        ]);
+    }
+    keyboard.push([
+        { text: '🔄 Regenerate', callback_data: 'reply_regen' },
+        { text: '➡️ Continue', callback_data: 'reply_continue' },
+    ]);
+    return { inline_keyboard: keyboard };
+};
+
+const fitMessage = (text: string): string =>
+    text.length > TELEGRAM_MESSAGE_LIMIT ? text.slice(0, TELEGRAM_MESSAGE_LIMIT - 1) + '…' : text;
+
+// Splits a reply at Telegram's length limit.
+const splitReply = (text: string): string[] => {
+    const chunks: string[] = [];
+    for (let start = 0; start < text.length; start += TELEGRAM_MESSAGE_LIMIT) {
+        chunks.push(text.slice(start, start + TELEGRAM_MESSAGE_LIMIT));
+    }
+    return chunks;
+};
+
+type ReplyMessageIds = Pick<Message, 'telegramMessageId' | 'telegramMessageIds'>;
+
+const toReplyMessageIds = (ids: number[]): ReplyMessageIds => ({ telegramMessageId: ids[ids.length - 1], telegramMessageIds: ids });
+
+const getReplyMessageIds = (message: Message): number[] =>
+    message.telegramMessageIds?.length ? message.telegramMessageIds : message.telegramMessageId ? [message.telegramMessageId] : [];
+
+/**
+ * Sends a model reply, split into several messages if it exceeds Telegram's length limit.
+ * @returns The IDs of all messages; the last one carries the buttons.
+ */
+const sendReply = async (chatId: number, message: Message): Promise<ReplyMessageIds> => {
+    const token = orchestratorConfig!.settings.telegram.botToken;
+    const chunks = splitReply(message.content || '…');
+    const ids: number[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+        const response = await telegram.sendMessage(token, chatId, chunk, i === chunks.length - 1 ? getReplyKeyboard(message) : undefined);
+        if (response?.result?.message_id) ids.push(response.result.message_id);
+    }
+    return toReplyMessageIds(ids);
+};
+
+/**
+ * Shows the new content of a sent reply: edits its messages in place, sends more if it grew past
+ * them and deletes the ones it no longer needs.
+ * @returns The IDs of the messages now showing the reply.
+ */
+const showReply = async (chatId: number, message: Message): Promise<ReplyMessageIds> => {
+    const token = orchestratorConfig!.settings.telegram.botToken;
+    const previousIds = getReplyMessageIds(message);
+    if (previousIds.length === 0) return {};
+    const chunks = splitReply(message.content || '…');
+    const ids: number[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+        const keyboard = i === chunks.length - 1 ? getReplyKeyboard(message) : undefined;
+        if (i < previousIds.length) {
+            await telegram.editMessageText(token, chatId, previousIds[i], chunk, keyboard);
+            ids.push(previousIds[i]);
+        } else {
+            const response = await telegram.sendMessage(token, chatId, chunk, keyboard);
+            if (response?.result?.message_id) ids.push(response.result.message_id);
+        }
+    }
+    for (const id of previousIds.slice(chunks.length)) {
+        await telegram.deleteMessage(token, chatId, id);
+    }
+    return toReplyMessageIds(ids);
+};
+
+// Only the latest reply has buttons; older ones lose them when a new reply arrives.
+const removeReplyButtons = async (chatId: number, conversation: Conversation) => {
+    const lastMessage = conversation.messages[conversation.messages.length - 1];
+    if (lastMessage?.role === 'model' && lastMessage.telegramMessageId) {
+        await telegram.editMessageReplyMarkup(orchestratorConfig!.settings.telegram.botToken, chatId, lastMessage.telegramMessageId, { inline_keyboard: [] });
+    }
+};
+
+const saveAndNotify = async (conversation: Conversation) => {
+    await orchestratorConfig!.saveConversation(conversation);
+    orchestratorConfig!.onConversationUpdate(conversation);
+};
+
+/**
+ * Runs a generation or swipe change while keeping other actions on the chat out.
+ * @returns false if another one is already running.
+ */
+const runExclusive = async (chatId: number, task: () => Promise<void>): Promise<boolean> => {
+    if (busyChats.has(chatId)) return false;
+    busyChats.add(chatId);
+    try {
+        await task();
+    } catch (error: any) {
+        log('ERROR', 'TELEGRAM', 'Bot generation failed', { chatId, error: error.message });
+        await telegram.sendMessage(orchestratorConfig!.settings.telegram.botToken, chatId, `Sorry, an error occurred: ${error.message}`);
+    } finally {
+        busyChats.delete(chatId);
+    }
+    return true;
+};
+
+/**
+ * Appends a user turn and answers it.
+ */
+const sendUserTurn = async (chatId: number, userMessage: Message) => {
+    const { settings, findOrCreateConversation, getAIResponse } = orchestratorConfig!;
+    const started = await runExclusive(chatId, async () => {
+        await telegram.sendChatAction(settings.telegram.botToken, chatId, 'typing');
+        const conversation = await findOrCreateConversation(chatId);
+        await removeReplyButtons(chatId, conversation);
+
+        const updatedConvWithUserMsg = { ...conversation, messages: [...conversation.messages, userMessage] };
+        await saveAndNotify(updatedConvWithUserMsg);
+
+        const modelMessage = await getAIResponse(updatedConvWithUserMsg, updatedConvWithUserMsg.messages);
+        // Re-read: the conversation may have been edited in the web UI while the reply was generated.
+        const latestConversation = await findOrCreateConversation(chatId);
+        const messageIds = await sendReply(chatId, modelMessage);
+        await saveAndNotify({ ...latestConversation, messages: [...latestConversation.messages, { ...modelMessage, ...messageIds }] });
+    });
+    if (!started) {
+        await telegram.sendMessage(settings.telegram.botToken, chatId, '⏳ Still writing the last reply. Send your message again when it arrives.');
+    }
+};
+
+/**
+ * Generates a new variant of the model reply at `index`. The previous variants are kept as swipes.
+ */
+const regenerateReply = async (chatId: number, conversation: Conversation, index: number) => {
+    const { settings, getAIResponse, findOrCreateConversation } = orchestratorConfig!;
+    const target = conversation.messages[index];
+    const history = conversation.messages.slice(0, index);
+    const previousSwipes: MessageSwipe[] = isImageMessage(target) ? [] : getMessageSwipes(target);
+
+    if (target.telegramMessageId) {
+        await telegram.editMessageText(settings.telegram.botToken, chatId, target.telegramMessageId, '⏳ Regenerating...');
+    }
+    await telegram.sendChatAction(settings.telegram.botToken, chatId, 'typing');
+
+    let modelMessage: Message;
+    try {
+        modelMessage = await getAIResponse({ ...conversation, messages: history }, history);
+    } catch (error) {
+        await showReply(chatId, target); // Put the old variant back
+        throw error;
+    }
+    const swiped: Message = { ...appendMessageSwipe(modelMessage, previousSwipes), telegramMessageId: target.telegramMessageId, telegramMessageIds: target.telegramMessageIds };
+    const regenerated: Message = { ...swiped, ...await showReply(chatId, swiped) };
+
+    const latestConversation = await findOrCreateConversation(chatId);
+    await saveAndNotify({ ...latestConversation, messages: latestConversation.messages.map(m => m.id === target.id ? regenerated : m) });
+};
+
+/**
+ * Extends the model reply at `index` where it stopped.
+ */
+const continueReply = async (chatId: number, conversation: Conversation, index: number) => {
+    const { settings, getAIResponse, findOrCreateConversation } = orchestratorConfig!;
+    const target = conversation.messages[index];
+    const history = conversation.messages.slice(0, index);
+    const lastUserIndex = history.map(m => m.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return;
+
+    // Same one-time instruction format as the web UI, so it stays out of RAG queries.
+    const ending = target.content.slice(-300).replace(/\s+/g, ' ');
+    const instruction = `Continue your previous reply from exactly where it stopped, without repeating any of it. It ended with: "${ending}"`;
+    const historyForAI = history.map((m, i) => i === lastUserIndex
+        ? { ...m, content: `[Instruction For This Turn Only]: ${instruction}\n\n${m.content}` }
+        : m);
+
+    await telegram.sendChatAction(settings.telegram.botToken, chatId, 'typing');
+    const separator = /[.!?…"»*)\]]\s*$/.test(target.content) ? '\n\n' : ' ';
+    const continuation = await getAIResponse({ ...conversation, messages: historyForAI }, historyForAI, { prefaceText: target.content + separator });
+
+    const latestConversation = await findOrCreateConversation(chatId);
+    const latestTarget = latestConversation.messages.find(m => m.id === target.id) || target;
+    const extended: Message = { ...updateActiveSwipeContent(latestTarget, continuation.content), tokenCount: continuation.tokenCount };
+    const continued: Message = { ...extended, ...await showReply(chatId, extended) };
+    await saveAndNotify({ ...latestConversation, messages: latestConversation.messages.map(m => m.id === target.id ? continued : m) });
+};
+
+const handleReplyAction = async (callbackQuery: NonNullable<TelegramUpdate['callback_query']>) => {
+    const { settings, findOrCreateConversation } = orchestratorConfig!;
+    const token = settings.telegram.botToken;
+    const chatId = callbackQuery.message!.chat.id;
+    const action = callbackQuery.data!.replace('reply_', '');
+
+    if (action === 'noop') {
+        await telegram.answerCallbackQuery(token, callbackQuery.id);
+        return;
+    }
+
+    const conversation = await findOrCreateConversation(chatId);
+    const index = conversation.messages.length - 1;
+    const lastMessage = conversation.messages[index];
+    if (!lastMessage || lastMessage.role !== 'model' || lastMessage.telegramMessageId !== callbackQuery.message!.message_id) {
+        await telegram.answerCallbackQuery(token, callbackQuery.id, 'Only the latest reply can be changed.');
+        return;
+    }
+
+    const swipes = getMessageSwipes(lastMessage);
+    const currentIndex = lastMessage.activeSwipeIndex ?? swipes.length - 1;
+    if (action === 'prev' || (action === 'next' && currentIndex + 1 < swipes.length)) {
+        const targetIndex = currentIndex + (action === 'prev' ? -1 : 1);
+        const started = await runExclusive(chatId, async () => {
+            await telegram.answerCallbackQuery(token, callbackQuery.id);
+            // Read again once the chat is ours, so the save keeps anything a generation added meanwhile.
+            const latestConversation = await findOrCreateConversation(chatId);
+            const latestMessage = latestConversation.messages.find(m => m.id === lastMessage.id);
+            if (!latestMessage || targetIndex < 0 || targetIndex >= getMessageSwipes(latestMessage).length) return;
+            const selected = selectMessageSwipe(latestMessage, targetIndex);
+            const updatedMessage: Message = { ...selected, ...await showReply(chatId, selected) };
+            await saveAndNotify({ ...latestConversation, messages: latestConversation.messages.map(m => m.id === lastMessage.id ? updatedMessage : m) });
+        });
+        if (!started) {
+            await telegram.answerCallbackQuery(token, callbackQuery.id, '⏳ Still writing...');
+        }
+        return;
+    }
+
+    // Swiping past the newest variant generates a new one, like in the web UI.
+    const started = await runExclusive(chatId, async () => {
+        await telegram.answerCallbackQuery(token, callbackQuery.id);
+        if (action === 'continue') await continueReply(chatId, conversation, index);
+        else await regenerateReply(chatId, conversation, index);
+    });
+    if (!started) {
+        await telegram.answerCallbackQuery(token, callbackQuery.id, '⏳ Still writing...');
+    }
+};
+
+// --- Incoming messages ---
+
+// Built without FileReader, which the headless relay (Node) does not have.
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const handlePhotoMessage = async (message: TelegramMessage) => {
+    const { settings, findOrCreateConversation } = orchestratorConfig!;
+    const token = settings.telegram.botToken;
+    const chatId = message.chat.id;
+
+    const model = getConversationModel(await findOrCreateConversation(chatId));
+    if (!model?.supportsImageInput) {
+        await telegram.sendMessage(token, chatId, `📷 \`${model?.name}\` can't see images. Switch to a vision model with /model and send the photo again.`);
+        return;
+    }
+
+    try {
+        const largest = message.photo![message.photo!.length - 1];
+        const blob = await telegram.downloadFile(token, largest.file_id);
+        const dataUrl = `data:${blob.type || 'image/jpeg'};base64,${await blobToBase64(blob)}`;
+        await sendUserTurn(chatId, {
+            id: generateUUID(),
+            role: 'user',
+            content: message.caption || '[Sent an image]',
+            timestamp: Date.now(),
+            attachedImage: { dataUrl, mimeType: blob.type || 'image/jpeg' },
+            telegramMessageId: message.message_id,
+        });
+    } catch (error: any) {
+        await telegram.sendMessage(token, chatId, `😥 Could not read the photo: ${error.message}`);
+    }
+};
+
+const handleVoiceMessage = async (message: TelegramMessage) => {
+    const { settings } = orchestratorConfig!;
+    const token = settings.telegram.botToken;
+    const chatId = message.chat.id;
+
+    let transcript: string;
+    try {
+        await telegram.sendChatAction(token, chatId, 'typing');
+        const blob = await telegram.downloadFile(token, message.voice!.file_id);
+        const base64 = await blobToBase64(blob);
+        transcript = await transcribeVoiceNote(base64, message.voice!.mime_type || 'audio/ogg', settings);
+    } catch (error: any) {
+        await telegram.sendMessage(token, chatId, `😥 Could not transcribe the voice note: ${error.message}`);
+        return;
+    }
+
+    await telegram.sendMessage(token, chatId, `🎤 _${transcript}_`);
+    await sendUserTurn(chatId, { id: generateUUID(), role: 'user', content: transcript, timestamp: Date.now(), telegramMessageId: message.message_id });
+};
+
+/**
+ * Syncs an edited Telegram message into the conversation. Editing the latest user turn also
+ * regenerates the reply to it; the old reply stays available as a swipe.
+ */
+const handleEditedMessage = async (message: TelegramMessage) => {
+    if (!orchestratorConfig) return;
+    const { settings, findOrCreateConversation } = orchestratorConfig;
+    const chatId = message.chat.id;
+    const newContent = message.text ?? message.caption;
+    if (newContent === undefined) return;
+
+    const conversation = await findOrCreateConversation(chatId);
+    const index = conversation.messages.findIndex(m => m.role === 'user' && m.telegramMessageId === message.message_id);
+    if (index === -1) return;
+
+    const messages = conversation.messages.map((m, i) => i === index ? { ...m, content: newContent } : m);
+    const updatedConversation = { ...conversation, messages };
+    await saveAndNotify(updatedConversation);
+
+    const reply = messages[index + 1];
+    if (reply?.role === 'model' && index + 1 === messages.length - 1) {
+        const started = await runExclusive(chatId, () => regenerateReply(chatId, updatedConversation, index + 1));
+        if (!started) {
+            await telegram.sendMessage(settings.telegram.botToken, chatId, '✏️ Edit saved. The reply is still being written, use 🔄 Regenerate once it arrives.');
+        }
+    }
+};
+
+// --- Commands ---
+
+const handleFactsCommand = async (chatId: number, args: string[]) => {
+    const { settings, saveIdentityProfile, getIdentityProfiles } = orchestratorConfig!;
+    const token = settings.telegram.botToken;
+    const profiles = await getIdentityProfiles();
+    const profile = profiles.find(p => p.id === settings.activeIdentityProfileId);
+    if (!profile) {
+        await telegram.sendMessage(token, chatId, 'No active identity profile. Set one in the app under Settings > Memory.');
+        return;
+    }
+
+    const [subcommand, ...rest] = args;
+    const facts = profile.content || [];
+
+    if (subcommand === 'add' && rest.length > 0) {
+        await telegram.sendChatAction(token, chatId, 'typing');
+        try {
+            // Same reformulation as the web "Add to Identity" dialog.
+            const fact = await proposeIdentityFact(rest.join(' '), settings);
+            await saveIdentityProfile({ ...profile, content: [...facts, { id: generateUUID(), content: fact }] });
+            await telegram.sendMessage(token, chatId, `✅ Fact added: ${fact}`);
+        } catch (error: any) {
+            await telegram.sendMessage(token, chatId, `😥 ${error.message}`);
+        }
+        return;
+    }
+
+    if (subcommand === 'remove' && rest.length > 0) {
+        const number = parseInt(rest[0], 10);
+        if (isNaN(number) || number < 1 || number > facts.length) {
+            await telegram.sendMessage(token, chatId, `Usage: /facts remove <1-${facts.length}>`);
+            return;
+        }
+        const removed = facts[number - 1];
+        await saveIdentityProfile({ ...profile, content: facts.filter(f => f.id !== removed.id) });
+        await telegram.sendMessage(token, chatId, `🗑 Fact removed: ${removed.content}`);
+        return;
+    }
+
+    let factsText = `*🧠 ${profile.name}*\n\n`;
+    factsText += facts.length > 0 ? facts.map((f, i) => `${i + 1}. ${f.content}`).join('\n') : '_No facts yet._';
+    factsText += '\n\n/facts add <text> · /facts remove <number>';
+    await telegram.sendMessage(token, chatId, fitMessage(factsText));
+};
+
+const handleModelCommand = async (chatId: number, query: string) => {
+    const { settings, models, findOrCreateConversation } = orchestratorConfig!;
+    const token = settings.telegram.botToken;
+    if (!query) {
+        await telegram.sendMessage(token, chatId, 'Select an AI model:', getModelKeyboard());
+        return;
+    }
+
+    const lowerQuery = query.toLowerCase();
+    const model = models.find(m => m.id.toLowerCase() === lowerQuery || m.name.toLowerCase() === lowerQuery)
+        ?? models.find(m => m.name.toLowerCase().includes(lowerQuery) || m.id.toLowerCase().includes(lowerQuery));
+    if (!model) {
+        await telegram.sendMessage(token, chatId, `No model matches "${query}".`, getModelKeyboard());
+        return;
+    }
+    const conversation = await findOrCreateConversation(chatId);
+    await saveAndNotify({ ...conversation, model: model.id });
+    await telegram.sendMessage(token, chatId, `✅ Model changed to: \`${model.name}\``);
+};
+
+const IMAGE_COMMANDS: Record<string, BotImageGenerator> = {
+    imagine: 'comfyui',
+    sd: 'sdwebui',
+    hf: 'huggingface',
+    xai: 'xai',
+};
+
 const handleMessage = async (message: NonNullable<TelegramUpdate['message']>) => {
-    if (!orchestratorConfig || !message.text || !message.chat.id) return;
+    if (!orchestratorConfig || !message.chat.id) return;
 
     const chatId = message.chat.id;
+    const { settings, findOrCreateConversation, onConversationUpdate, handleImageGeneration } = orchestratorConfig;
+
+    if (message.photo && message.photo.length > 0) {
+        await handlePhotoMessage(message);
+        return;
+    }
+    if (message.voice) {
+        await handleVoiceMessage(message);
+        return;
+    }
+    if (!message.text) return;
     const text = message.text;
-    const { settings, findOrCreateConversation, getAIResponse, onConversationUpdate, handleImageGeneration, saveConversation } = orchestratorConfig;
-    
+
     // Handle stateful actions first
     if (userState.has(chatId)) {
         const state = userState.get(chatId);
@@ -59,10 +560,18 @@ const handleMessage = async (message: NonNullable<TelegramUpdate['message']>) =>
 
     // Handle commands
     if (text.startsWith('/')) {
-        const [command, ...args] = text.substring(1).split(' ');
+        const [commandWithBot, ...args] = text.substring(1).split(' ');
+        // In groups, commands arrive as /command@BotName.
+        const command = commandWithBot.split('@')[0].toLowerCase();
         const prompt = args.join(' ');
 
-        switch (command.toLowerCase()) {
+        if (IMAGE_COMMANDS[command]) {
+            if (prompt) await handleImageGeneration(IMAGE_COMMANDS[command], prompt, chatId);
+            else await telegram.sendMessage(settings.telegram.botToken, chatId, `Usage: /${command} <prompt>`);
+            return;
+        }
+
+        switch (command) {
             case 'start':
                 const welcomeText = `Welcome to the RolyGem bot! 👋\n\nUse the buttons below to manage everything.`;
                 await telegram.sendMessage(settings.telegram.botToken, chatId, welcomeText, getMainMenuKeyboard());
@@ -75,13 +584,17 @@ const handleMessage = async (message: NonNullable<TelegramUpdate['message']>) =>
                 const conversation = await findOrCreateConversation(chatId);
                 await showChatInfo(chatId, conversation);
                 break;
-            case 'imagine':
-                if (prompt) await handleImageGeneration('comfyui', prompt, chatId);
-                else await telegram.sendMessage(settings.telegram.botToken, chatId, 'Usage: /imagine <prompt>');
+            case 'model':
+                await handleModelCommand(chatId, prompt.trim());
+                break;
+            case 'lore':
+                await telegram.sendMessage(settings.telegram.botToken, chatId, LORE_MENU_TEXT, await getLorebookKeyboard(await findOrCreateConversation(chatId)));
+                break;
+            case 'persona':
+                await telegram.sendMessage(settings.telegram.botToken, chatId, 'Select your persona for this conversation:', await getPersonaKeyboard(await findOrCreateConversation(chatId)));
                 break;
-            case 'sd':
-                if (prompt) await handleImageGeneration('sdwebui', prompt, chatId);
-                else await telegram.sendMessage(settings.telegram.botToken, chatId, 'Usage: /sd <prompt>');
+            case 'facts':
+                await handleFactsCommand(chatId, args.filter(Boolean));
                 break;
             default:
                 await telegram.sendMessage(settings.telegram.botToken, chatId, `Unknown command: /${command}`);
@@ -90,47 +603,42 @@ const handleMessage = async (message: NonNullable<TelegramUpdate['message']>) =>
     }
 
     // Regular message handling
-    await telegram.sendChatAction(settings.telegram.botToken, chatId, 'typing');
-    let conversation = await findOrCreateConversation(chatId);
-    
-    const userMessage: Message = { id: generateUUID(), role: 'user', content: text, timestamp: Date.now() };
-    const updatedConvWithUserMsg = { ...conversation, messages: [...conversation.messages, userMessage] };
-    
-    await saveConversation(updatedConvWithUserMsg);
-    onConversationUpdate(updatedConvWithUserMsg);
-
-    try {
-        const responseText = await getAIResponse(updatedConvWithUserMsg);
-        await telegram.sendMessage(settings.telegram.botToken, chatId, responseText);
-    } catch (error: any) {
-        await telegram.sendMessage(settings.telegram.botToken, chatId, `Sorry, an error occurred: ${error.message}`);
-    }
+    await sendUserTurn(chatId, { id: generateUUID(), role: 'user', content: text, timestamp: Date.now(), telegramMessageId: message.message_id });
 };
 
 const showChatInfo = async (chatId: number, conversation: Conversation) => {
     if (!orchestratorConfig) return;
-    const { settings, models, characters } = orchestratorConfig;
+    const { settings, characters, getLorebooks, getUserPersonas } = orchestratorConfig;
     // Fix: Use conversation-specific model if available, otherwise fall back to the default model from settings.
-    const modelId = conversation.model || settings.defaultModelId;
-    const model = models.find(m => m.id === modelId) ?? models[0];
-    const activeChars = characters.filter(c => conversation.characterIds?.includes(c.id));
+    const model = getConversationModel(conversation);
+    const activeChars = getConversationCharacters(conversation, characters);
+    const lorebooks = (await getLorebooks()).filter(lb => conversation.lorebookIds?.includes(lb.id));
+    const personaId = conversation.userPersonaId || settings.activeUserPersonaId;
+    const persona = personaId ? (await getUserPersonas()).find(p => p.id === personaId) : undefined;
 
     let infoText = `*-- Current Conversation Info --*\n\n`;
-    infoText += `*🤖 Model:* \`${model.name}\`\n`;
-    infoText += `*🎭 Active characters:* ${activeChars.length > 0 ? activeChars.map(c => `\`${c.name}\``).join(', ') : '_None_'}\n\n`;
+    infoText += `*🤖 Model:* \`${model?.name}\`\n`;
+    infoText += `*🎭 Active characters:* ${activeChars.length > 0 ? activeChars.map(c => `\`${c.name}\``).join(', ') : '_None_'}\n`;
+    infoText += `*📚 Lorebooks:* ${lorebooks.length > 0 ? lorebooks.map(lb => `\`${lb.name}\``).join(', ') : '_None_'}\n`;
+    infoText += `*👤 Persona:* ${persona ? `\`${persona.name}\`` : '_None_'}\n\n`;
     infoText += `*📝 System Prompt:*\n\`\`\`\n${conversation.systemPrompt || settings.systemPrompt}\n\`\`\``;
 
-    await telegram.sendMessage(settings.telegram.botToken, chatId, infoText, getMainMenuKeyboard());
+    await telegram.sendMessage(settings.telegram.botToken, chatId, fitMessage(infoText), getMainMenuKeyboard());
 };
 
 const handleCallbackQuery = async (callbackQuery: NonNullable<TelegramUpdate['callback_query']>) => {
     if (!orchestratorConfig || !callbackQuery.message || !callbackQuery.data) return;
 
+    if (callbackQuery.data.startsWith('reply_')) {
+        await handleReplyAction(callbackQuery);
+        return;
+    }
+
     const chatId = callbackQuery.message.chat.id;
     const messageId = callbackQuery.message.message_id;
     const data = callbackQuery.data;
-    const { settings, models, characters, findOrCreateConversation, saveConversation, onConversationUpdate } = orchestratorConfig;
-    
+    const { settings, models, findOrCreateConversation, saveConversation, onConversationUpdate } = orchestratorConfig;
+
     await telegram.answerCallbackQuery(settings.telegram.botToken, callbackQuery.id);
     const conversation = await findOrCreateConversation(chatId);
 
@@ -150,32 +658,18 @@ const handleCallbackQuery = async (callbackQuery: NonNullable<TelegramUpdate['ca
         promptText += 'Please send the new instructions you want to use.';
         await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, promptText);
     } else if (data === 'select_model') {
-        const googleModels = models.filter(m => m.provider === 'Google');
-        const openRouterModels = models.filter(m => m.provider === 'OpenRouter');
-        
-        const keyboard = [];
-        if(googleModels.length > 0) {
-            keyboard.push(...googleModels.map(m => ([{ text: `🇬 ${m.name}`, callback_data: `set_model_${m.id}` }])));
-        }
-        if(openRouterModels.length > 0) {
-             keyboard.push(...openRouterModels.map(m => ([{ text: `🇴 ${m.name}`, callback_data: `set_model_${m.id}` }])));
-        }
-        keyboard.push([{ text: '« Back', callback_data: 'main_menu' }]);
-        
-        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select an AI model:', { inline_keyboard: keyboard });
-    } else if (data.startsWith('set_model_')) {
-        const modelId = data.replace('set_model_', '');
+        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select an AI model:', getModelKeyboard());
+    } else if (data.startsWith('set_model_') || data.startsWith('set_cmodel_')) {
+        const modelId = data.startsWith('set_cmodel_')
+            ? models.filter(m => m.provider === 'Custom')[parseInt(data.replace('set_cmodel_', ''), 10)]?.id
+            : data.replace('set_model_', '');
+        if (!modelId) return;
         const updatedConversation = { ...conversation, model: modelId };
         await saveConversation(updatedConversation);
         onConversationUpdate(updatedConversation);
         await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, `✅ Model changed to: \`${models.find(m=>m.id === modelId)?.name}\``, getMainMenuKeyboard());
     } else if (data === 'select_character') {
-        const keyboard = characters.map(c => {
-            const isSelected = conversation.characterIds?.includes(c.id);
-            return [{ text: `${isSelected ? '✅' : '🔲'} ${c.name}`, callback_data: `toggle_char_${c.id}` }]
-        });
-        keyboard.push([{ text: '« Back', callback_data: 'main_menu' }]);
-        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select characters (multi-select):', { inline_keyboard: keyboard });
+        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select characters (multi-select):', getCharacterKeyboard(conversation));
     } else if (data.startsWith('toggle_char_')) {
         const charId = data.replace('toggle_char_', '');
         const charIds = new Set(conversation.characterIds || []);
@@ -187,21 +681,38 @@ const handleCallbackQuery = async (callbackQuery: NonNullable<TelegramUpdate['ca
         const updatedConversation = { ...conversation, characterIds: Array.from(charIds) };
         await saveConversation(updatedConversation);
         onConversationUpdate(updatedConversation);
-        
+
         // Refresh the character selection menu
-        const keyboard = characters.map(c => {
-            const isSelected = updatedConversation.characterIds?.includes(c.id);
-            return [{ text: `${isSelected ? '✅' : '🔲'} ${c.name}`, callback_data: `toggle_char_${c.id}` }]
-        });
-        keyboard.push([{ text: '« Back', callback_data: 'main_menu' }]);
-        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select characters (multi-select):', { inline_keyboard: keyboard });
+        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select characters (multi-select):', getCharacterKeyboard(updatedConversation));
+    } else if (data === 'select_lore') {
+        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, LORE_MENU_TEXT, await getLorebookKeyboard(conversation));
+    } else if (data.startsWith('toggle_lore_')) {
+        const lorebookId = data.replace('toggle_lore_', '');
+        const lorebookIds = new Set(conversation.lorebookIds || []);
+        if (lorebookIds.has(lorebookId)) {
+            lorebookIds.delete(lorebookId);
+        } else {
+            lorebookIds.add(lorebookId);
+        }
+        const updatedConversation = { ...conversation, lorebookIds: Array.from(lorebookIds) };
+        await saveConversation(updatedConversation);
+        onConversationUpdate(updatedConversation);
+        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, LORE_MENU_TEXT, await getLorebookKeyboard(updatedConversation));
+    } else if (data === 'select_persona') {
+        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select your persona for this conversation:', await getPersonaKeyboard(conversation));
+    } else if (data.startsWith('set_persona_')) {
+        const personaId = data.replace('set_persona_', '');
+        const updatedConversation = { ...conversation, userPersonaId: personaId === 'default' ? undefined : personaId };
+        await saveConversation(updatedConversation);
+        onConversationUpdate(updatedConversation);
+        await telegram.editMessageText(settings.telegram.botToken, chatId, messageId, 'Select your persona for this conversation:', await getPersonaKeyboard(updatedConversation));
     }
 };
 
 const processUpdate = async (update: TelegramUpdate) => {
     const { settings } = orchestratorConfig!;
     const whitelist = settings.telegram.chatWhitelist.split(',').map(id => id.trim()).filter(Boolean);
-    const chatId = update.message?.chat.id ?? update.callback_query?.message?.chat.id;
+    const chatId = update.message?.chat.id ?? update.edited_message?.chat.id ?? update.callback_query?.message?.chat.id;
 
     if (!chatId || (whitelist.length > 0 && !whitelist.includes(String(chatId)))) {
         console.log(`Ignoring update from non-whitelisted or unknown chat ID.`);
@@ -210,6 +721,8 @@ const processUpdate = async (update: TelegramUpdate) => {
 
     if (update.message) {
         await handleMessage(update.message);
+    } else if (update.edited_message) {
+        await handleEditedMessage(update.edited_message);
     } else if (update.callback_query) {
         await handleCallbackQuery(update.callback_query);
     }
@@ -235,45 +748,106 @@ const pollMessages = async () => {
     }
 };
 
+/**
+ * Processes one update pushed from outside, e.g. by the relay running headless.
+ */
+export const handleUpdate = async (update: TelegramUpdate) => {
+    if (!orchestratorConfig) return;
+    await processUpdate(update);
+};
+
+const startRelayTransport = (relayUrl: string, botToken: string) => {
+    connectToRelay(relayUrl, botToken, {
+        onUpdate: handleUpdate,
+        // A conversation the relay changed while it ran headless.
+        onConversation: async (conversation) => {
+            if (!orchestratorConfig) return;
+            const { saveConversation, onConversationUpdate, getBotConversations } = orchestratorConfig;
+            // If the relay started its own conversation for a chat, the app's one is archived, like after /new.
+            const replaced = (await getBotConversations()).filter(c => c.telegramChatId === conversation.telegramChatId && c.id !== conversation.id);
+            for (const previous of replaced) {
+                const archived = { ...previous, title: `[Archived] ${previous.title}`, telegramChatId: undefined };
+                await saveConversation(archived);
+                onConversationUpdate(archived);
+            }
+            await saveConversation(conversation);
+            onConversationUpdate(conversation);
+        },
+        onHello: async (queued) => {
+            if (!orchestratorConfig) return;
+            log('INFO', 'TELEGRAM', 'Telegram relay ready', { queued });
+            const conversations = await orchestratorConfig.getBotConversations();
+            conversations.forEach(pushConversationToRelay);
+        },
+    });
+};
+
+/**
+ * Starts the bot.
+ * @param options.manualUpdates - Do not fetch updates; they are passed to handleUpdate instead (headless relay).
+ * Otherwise updates are polled from Telegram or received from the relay, depending on `settings.telegram.transport`.
+ */
 export const start = async (
     settings: Settings,
     models: Model[],
     characters: Character[],
-    findOrCreateConversation: (chatId: number) => Promise<Conversation>,
-    handleNewConversation: (chatId: number) => Promise<Conversation>,
-    saveConversation: (conversation: Conversation) => Promise<any>,
-    onConversationUpdate: (conversation: Conversation) => void,
-    getAIResponse: (conversation: Conversation) => Promise<string>,
-    handleImageGeneration: (generator: 'comfyui' | 'sdwebui', prompt: string, chatId: number) => Promise<void>
+    host: BotHost,
+    options: { manualUpdates?: boolean } = {}
 ) => {
     if (isRunning) {
         stop();
     }
-    
-    console.log("Starting Telegram bot orchestrator...");
-    
-    orchestratorConfig = {
-        settings, models, characters,
-        findOrCreateConversation, handleNewConversation, saveConversation,
-        onConversationUpdate, getAIResponse, handleImageGeneration
-    };
+
+    const transport = options.manualUpdates ? 'manual' : settings.telegram.transport;
+    console.log(`Starting Telegram bot orchestrator (${transport})...`);
+
+    const config = { settings, models, characters, ...host };
+    orchestratorConfig = config;
+    if (transport === 'relay') {
+        // Bot API calls go through the relay too, so it can point them at a fake API for testing.
+        telegram.setApiBaseUrl(settings.telegram.relayUrl);
+        // Keep the relay's copy of each conversation current, in case it has to take over.
+        config.saveConversation = async (conversation) => {
+            const result = await host.saveConversation(conversation);
+            pushConversationToRelay(conversation);
+            return result;
+        };
+    } else if (transport === 'polling') {
+        telegram.setApiBaseUrl();
+    }
+    isRunning = true;
 
     try {
         await telegram.setMyCommands(settings.telegram.botToken, [
             { command: 'start', description: 'Show main menu' },
             { command: 'new', description: 'Start a new conversation' },
             { command: 'info', description: 'Show conversation info' },
+            { command: 'model', description: 'Switch the AI model' },
+            { command: 'lore', description: 'Select lorebooks' },
+            { command: 'persona', description: 'Select your persona' },
+            { command: 'facts', description: 'Show or edit identity facts' },
+            { command: 'imagine', description: 'Generate an image with ComfyUI' },
+            { command: 'sd', description: 'Generate an image with Stable Diffusion' },
+            { command: 'hf', description: 'Generate an image with Hugging Face' },
+            { command: 'xai', description: 'Generate an image with Grok' },
         ]);
     } catch(e) {
         console.warn("Could not set bot commands", e);
     }
+    if (orchestratorConfig !== config) return; // Stopped or restarted meanwhile
 
-    lastUpdateId = 0;
-    
-    pollMessages();
-    // Fix: Use window.setInterval to ensure the browser's implementation is used, which returns a number.
-    pollingInterval = window.setInterval(pollMessages, 3000);
-    isRunning = true;
+    if (transport === 'relay') {
+        startRelayTransport(settings.telegram.relayUrl, settings.telegram.botToken);
+    } else if (transport === 'polling') {
+        // A webhook left behind by the relay makes every getUpdates call fail with 409.
+        await telegram.deleteWebhook(settings.telegram.botToken);
+        if (orchestratorConfig !== config) return;
+        lastUpdateId = 0;
+
+        pollMessages();
+        // Fix: Use window.setInterval to ensure the browser's implementation is used, which returns a number.
+        pollingInterval = window.setInterval(pollMessages, 3000);
+    }
 };
 
 export const stop = () => {
@@ -284,6 +858,7 @@ export const stop = () => {
         window.clearInterval(pollingInterval);
         pollingInterval = null;
     }
+    disconnectFromRelay();
     isRunning = false;
     isPolling = false;
     orchestratorConfig = null;
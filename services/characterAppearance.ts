@@ -0,0 +1,71 @@
+import type { Character, LoraConfig } from '../types';
+
+/**
+ * Character appearance profiles for image generation.
+ *
+ * A character can lock a seed, add LoRAs (with trigger phrases), set negative tags and a
+ * reference image. When an image is generated, the characters in the scene are found by name in
+ * the prompt and the last messages; their profiles are merged and every image generator applies
+ * what it supports: LoRAs and seed on ComfyUI and SD WebUI, negative tags and seed on Hugging Face,
+ * the reference image as img2img (SD WebUI, ComfyUI built-in workflow) or through an imported
+ * workflow's reference image input (e.g. IP-Adapter).
+ */
+
+export const DEFAULT_REFERENCE_STRENGTH = 0.35;
+
+// The merged profiles of the characters in the scene.
+export interface ImageAppearance {
+    characterNames: string[];
+    seed?: number;
+    loras: LoraConfig[];
+    negativeTags: string;
+    referenceImage?: string;
+    referenceStrength: number;
+}
+
+const hasProfile = (character: Character) => {
+    const a = character.appearance;
+    return !!a && (a.seed !== undefined || !!a.loras?.some(l => l.enabled && l.name) || !!a.referenceImage || !!a.negativeTags?.trim());
+};
+
+/**
+ * The characters mentioned in the given texts. A conversation with one character always has
+ * that character in the scene, since replies rarely name their own speaker.
+ */
+export const getCharactersInScene = (characters: Character[], texts: string[]): Character[] => {
+    if (characters.length === 1) return characters;
+    const text = texts.join(' ').toLowerCase();
+    return characters.filter(c => c.name.trim() && text.includes(c.name.trim().toLowerCase()));
+};
+
+/**
+ * Merges the profiles of the characters in the scene: LoRAs and negative tags from all of them,
+ * seed and reference image from the first that sets one. Returns null when none has a profile.
+ */
+export const resolveImageAppearance = (characters: Character[]): ImageAppearance | null => {
+    const profiled = characters.filter(hasProfile);
+    if (profiled.length === 0) return null;
+    const loras: LoraConfig[] = [];
+    for (const lora of profiled.flatMap(c => c.appearance?.loras || [])) {
+        if (lora.enabled && lora.name && !loras.some(l => l.name === lora.name)) loras.push(lora);
+    }
+    const withSeed = profiled.find(c => c.appearance?.seed !== undefined);
+    const withReference = profiled.find(c => c.appearance?.referenceImage);
+    return {
+        characterNames: profiled.map(c => c.name),
+        seed: withSeed?.appearance?.seed,
+        loras,
+        negativeTags: profiled.map(c => c.appearance?.negativeTags?.trim()).filter(Boolean).join(', '),
+        referenceImage: withReference?.appearance?.referenceImage,
+        referenceStrength: withReference?.appearance?.referenceStrength ?? DEFAULT_REFERENCE_STRENGTH,
+    };
+};
+
+export const mergeNegativePrompt = (negativePrompt: string, appearance?: ImageAppearance | null): string =>
+    [negativePrompt.trim(), appearance?.negativeTags].filter(Boolean).join(', ');
+
+// Generator LoRAs plus the scene's, without repeating one the generator already uses.
+export const mergeLoras = (loras: LoraConfig[] = [], appearance?: ImageAppearance | null): LoraConfig[] => [
+    ...loras,
+    ...(appearance?.loras || []).filter(l => !loras.some(own => own.enabled && own.name === l.name)),
+];
@@ -0,0 +1,303 @@
+import type { Character, CharacterArc, Lorebook } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { convertImageToPng } from './imageUtils';
+import { characterBookToLorebook, lorebooksToCharacterBook, type CharacterBook } from './lorebookImportService';
+import { log } from './loggingService';
+
+/**
+ * Character Card import/export (SillyTavern "Tavern Card" V1, V2 and V3).
+ *
+ * Cards are either plain JSON or PNG images carrying the JSON base64-encoded in a tEXt chunk
+ * ("chara" for V1/V2, "ccv3" for V3). See https://github.com/malfoyslastname/character-card-spec-v2
+ * and https://github.com/kwaroran/character-card-spec-v3.
+ */
+
+interface CharacterCardData {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  first_mes: string;
+  mes_example: string;
+  creator_notes: string;
+  system_prompt: string;
+  post_history_instructions: string;
+  alternate_greetings: string[];
+  character_book?: CharacterBook;
+  tags: string[];
+  creator: string;
+  character_version: string;
+  extensions: Record<string, any>;
+}
+
+export interface CharacterCardV2 {
+  spec: 'chara_card_v2';
+  spec_version: '2.0';
+  data: CharacterCardData;
+}
+
+export interface ImportedCharacterCard {
+  character: Character;
+  // The card's embedded character_book, converted to a Lorebook linked to the character.
+  lorebook: Lorebook | null;
+}
+
+// Fields with no card equivalent are kept under extensions so that a card exported from here re-imports losslessly.
+const APP_EXTENSION_KEY = 'rolygem';
+
+// --- PNG chunk helpers ---
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const isPng = (bytes: Uint8Array): boolean => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  if (!isPng(bytes)) throw new Error('The file is not a PNG image.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data });
+    offset += 12 + length; // length + type + data + crc
+    if (type === 'IEND') break;
+  }
+  return chunks;
+};
+
+const encodePngChunks = (chunks: PngChunk[]): Uint8Array => {
+  const total = PNG_SIGNATURE.length + chunks.reduce((sum, c) => sum + 12 + c.data.length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    const typeBytes = Uint8Array.from(chunk.type, ch => ch.charCodeAt(0));
+    view.setUint32(offset, chunk.data.length);
+    out.set(typeBytes, offset + 4);
+    out.set(chunk.data, offset + 8);
+    const crcInput = new Uint8Array(4 + chunk.data.length);
+    crcInput.set(typeBytes, 0);
+    crcInput.set(chunk.data, 4);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(crcInput));
+    offset += 12 + chunk.data.length;
+  }
+  return out;
+};
+
+/** tEXt chunks are Latin-1 `keyword\0text`. Card payloads are base64, so plain ASCII. */
+const readTextChunks = (bytes: Uint8Array): Record<string, string> => {
+  const result: Record<string, string> = {};
+  for (const chunk of readPngChunks(bytes)) {
+    if (chunk.type !== 'tEXt') continue;
+    const separator = chunk.data.indexOf(0);
+    if (separator < 0) continue;
+    const keyword = String.fromCharCode(...chunk.data.subarray(0, separator));
+    let text = '';
+    const body = chunk.data.subarray(separator + 1);
+    for (let i = 0; i < body.length; i++) text += String.fromCharCode(body[i]);
+    result[keyword.toLowerCase()] = text;
+  }
+  return result;
+};
+
+const base64ToUtf8 = (base64: string): string => {
+  const binary = atob(base64.trim());
+  const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const utf8ToBase64 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Uint8Array.from(atob(base64), ch => ch.charCodeAt(0));
+};
+
+/**
+ * Extracts the card JSON embedded in a PNG. V3 ("ccv3") wins over V2 ("chara") when both exist.
+ * @throws Error if the PNG carries no character data.
+ */
+export const extractCardFromPng = (bytes: Uint8Array): any => {
+  const chunks = readTextChunks(bytes);
+  const payload = chunks['ccv3'] || chunks['chara'];
+  if (!payload) {
+    throw new Error('This PNG does not contain character card data.');
+  }
+  return JSON.parse(base64ToUtf8(payload));
+};
+
+// --- Card <-> Character mapping ---
+
+/**
+ * Detects a Tavern card in parsed JSON: V2/V3 by `spec`, V1 by its flat field set.
+ */
+export const isCharacterCard = (json: any): boolean => {
+  if (!json || typeof json !== 'object') return false;
+  if (json.spec === 'chara_card_v2' || json.spec === 'chara_card_v3') return true;
+  return typeof json.name === 'string' && typeof json.first_mes === 'string' && typeof json.mes_example === 'string';
+};
+
+const normalizeCardData = (card: any): CharacterCardData => {
+  const data = card.spec ? card.data || {} : card; // V1 cards are flat
+  return {
+    name: data.name || '',
+    description: data.description || '',
+    personality: data.personality || '',
+    scenario: data.scenario || '',
+    first_mes: data.first_mes || '',
+    mes_example: data.mes_example || '',
+    creator_notes: data.creator_notes || '',
+    system_prompt: data.system_prompt || '',
+    post_history_instructions: data.post_history_instructions || '',
+    alternate_greetings: Array.isArray(data.alternate_greetings) ? data.alternate_greetings : [],
+    character_book: data.character_book,
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    creator: data.creator || '',
+    character_version: data.character_version || '',
+    extensions: data.extensions || {},
+  };
+};
+
+/**
+ * Maps a V1/V2/V3 card onto a Character. Personality and scenario are folded into the
+ * description, the greeting into the example dialogue and the character note into the author's note.
+ * @param card - The parsed card JSON.
+ * @param imageUrl - Avatar data URL (the PNG itself for image cards).
+ */
+export const cardToCharacter = (card: any, imageUrl?: string): ImportedCharacterCard => {
+  const data = normalizeCardData(card);
+  const appData = data.extensions?.[APP_EXTENSION_KEY] || {};
+  const name = data.name.trim() || 'Unnamed Character';
+
+  const description = [
+    data.description,
+    data.personality && `Personality: ${data.personality}`,
+    data.scenario && `Scenario: ${data.scenario}`,
+  ].filter(Boolean).join('\n\n');
+
+  const exampleDialogue = [
+    data.first_mes && `<START>\n{{char}}: ${data.first_mes}`,
+    data.mes_example,
+  ].filter(Boolean).join('\n');
+
+  const authorNote = [
+    data.extensions?.depth_prompt?.prompt,
+    data.system_prompt,
+    data.post_history_instructions,
+  ].filter(Boolean).join('\n\n');
+
+  const lorebook = data.character_book ? characterBookToLorebook(data.character_book, `${name} (Card Lorebook)`) : null;
+  if (lorebook && !lorebook.description) {
+    lorebook.description = `Imported from the character card of ${name}.`;
+  }
+
+  const character: Character = {
+    id: generateUUID(),
+    createdAt: Date.now(),
+    name,
+    description,
+    exampleDialogue,
+    authorNote,
+    visualPrompt: appData.visualPrompt || '',
+    characterArcs: Array.isArray(appData.characterArcs) ? (appData.characterArcs as CharacterArc[]) : [],
+    events: '',
+    imageUrl,
+    lorebookIds: lorebook ? [lorebook.id] : [],
+  };
+
+  log('INFO', 'CHARACTER_CARD', `Imported character card "${name}"`, {
+    spec: card.spec || 'v1',
+    lorebookEntries: lorebook?.entries.length || 0,
+  });
+
+  return { character, lorebook };
+};
+
+/**
+ * Builds a V2 card. Linked lorebooks are merged into the embedded character_book.
+ */
+export const characterToCardV2 = (character: Character, linkedLorebooks: Lorebook[]): CharacterCardV2 => {
+  const characterBook = lorebooksToCharacterBook(linkedLorebooks);
+
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      name: character.name,
+      description: character.description,
+      personality: '',
+      scenario: '',
+      first_mes: '',
+      mes_example: character.exampleDialogue,
+      creator_notes: '',
+      system_prompt: '',
+      post_history_instructions: '',
+      alternate_greetings: [],
+      character_book: characterBook.entries.length > 0 ? characterBook : undefined,
+      tags: [],
+      creator: '',
+      character_version: '',
+      extensions: {
+        depth_prompt: character.authorNote ? { prompt: character.authorNote, depth: 4, role: 'system' } : undefined,
+        [APP_EXTENSION_KEY]: {
+          visualPrompt: character.visualPrompt || '',
+          characterArcs: character.characterArcs || [],
+        },
+      },
+    },
+  };
+};
+
+/**
+ * Exports a character as a V2 PNG card with the avatar as the image.
+ * @throws Error if the character has no avatar to embed the card in.
+ */
+export const exportCharacterCardPng = async (character: Character, linkedLorebooks: Lorebook[]): Promise<Blob> => {
+  if (!character.imageUrl) {
+    throw new Error('PNG cards embed the avatar. Add a character picture first.');
+  }
+  const pngDataUrl = await convertImageToPng(character.imageUrl);
+  const chunks = readPngChunks(dataUrlToBytes(pngDataUrl)).filter(c => {
+    if (c.type !== 'tEXt') return true;
+    const keyword = String.fromCharCode(...c.data.subarray(0, Math.max(0, c.data.indexOf(0)))).toLowerCase();
+    return keyword !== 'chara' && keyword !== 'ccv3';
+  });
+
+  const payload = utf8ToBase64(JSON.stringify(characterToCardV2(character, linkedLorebooks)));
+  const textData = Uint8Array.from(`chara\0${payload}`, ch => ch.charCodeAt(0));
+  const iendIndex = chunks.findIndex(c => c.type === 'IEND');
+  chunks.splice(iendIndex < 0 ? chunks.length : iendIndex, 0, { type: 'tEXt', data: textData });
+
+  return new Blob([encodePngChunks(chunks).buffer as ArrayBuffer], { type: 'image/png' });
+};
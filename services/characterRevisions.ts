@@ -0,0 +1,179 @@
+import type { Character, CharacterRevision, CharacterSheetField, CharacterSnapshot, Conversation, ConversationCharacterOverride } from '../types';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * Character revisions and per-conversation overrides.
+ *
+ * Every save of a character records a revision (a full snapshot) in the `characterRevisions`
+ * table, so any earlier version can be viewed or restored. A conversation can pin a character to
+ * one of those revisions, or fork a local copy that only it changes (Living Lore updates approved
+ * in that conversation go to the copy). Chat code reads characters through
+ * `getConversationCharacters` so overrides apply everywhere.
+ */
+
+export const CHARACTER_SHEET_FIELDS: { field: CharacterSheetField; label: string }[] = [
+    { field: 'name', label: 'Name' },
+    { field: 'description', label: 'Description' },
+    { field: 'exampleDialogue', label: 'Example Dialogue' },
+    { field: 'authorNote', label: "Author's Note (Private)" },
+    { field: 'visualPrompt', label: 'Visual Prompt' },
+    { field: 'events', label: 'Event Log' },
+];
+
+export const REVISION_SOURCE_LABELS: Record<CharacterRevision['source'], string> = {
+    created: 'Created',
+    baseline: 'Before history',
+    edit: 'Edit',
+    livingLore: 'Living Lore',
+    knowledgeUpdate: 'Knowledge update',
+    restore: 'Restored',
+};
+
+export type RevisionInfo = Pick<CharacterRevision, 'source' | 'summary'>;
+
+// Images stay out of revisions: the avatar and the appearance reference image.
+export const toCharacterSnapshot = (character: Character): CharacterSnapshot => {
+    const { imageUrl: _imageUrl, ...snapshot } = character;
+    if (snapshot.appearance?.referenceImage) {
+        const { referenceImage: _referenceImage, ...appearance } = snapshot.appearance;
+        return { ...snapshot, appearance };
+    }
+    return snapshot;
+};
+
+export const diffCharacterSheets = (before: CharacterSnapshot | undefined, after: CharacterSnapshot): CharacterRevision['changes'] =>
+    CHARACTER_SHEET_FIELDS
+        .filter(({ field }) => (before?.[field] || '') !== (after[field] || ''))
+        .map(({ field }) => ({ field, before: before?.[field] || '', after: after[field] || '' }));
+
+const hasChanged = (before: CharacterSnapshot, after: CharacterSnapshot) =>
+    JSON.stringify(before) !== JSON.stringify(after);
+
+/**
+ * The revision for saving `after` over `before`, or null when nothing but the avatar changed.
+ */
+export const createCharacterRevision = (before: Character | undefined, after: Character, info?: Partial<RevisionInfo>): CharacterRevision | null => {
+    const snapshot = toCharacterSnapshot(after);
+    const previous = before ? toCharacterSnapshot(before) : undefined;
+    if (previous && !hasChanged(previous, snapshot)) return null;
+    return {
+        id: generateUUID(),
+        characterId: after.id,
+        createdAt: Date.now(),
+        source: info?.source || (previous ? 'edit' : 'created'),
+        summary: info?.summary || '',
+        changes: diffCharacterSheets(previous, snapshot),
+        snapshot,
+    };
+};
+
+/**
+ * Revision of a character as it was before history was kept.
+ */
+export const createBaselineRevision = (character: Character, createdAt = character.createdAt): CharacterRevision => ({
+    id: generateUUID(),
+    characterId: character.id,
+    createdAt,
+    source: 'baseline',
+    summary: '',
+    changes: [],
+    snapshot: toCharacterSnapshot(character),
+});
+
+// Puts the images a snapshot leaves out back in, taken from the character they belong to.
+const withCharacterImages = (snapshot: CharacterSnapshot, id: string, images: Character | undefined): Character => ({
+    ...snapshot,
+    id,
+    imageUrl: images?.imageUrl,
+    appearance: snapshot.appearance || images?.appearance?.referenceImage
+        ? { ...snapshot.appearance, referenceImage: images?.appearance?.referenceImage }
+        : undefined,
+});
+
+/**
+ * Restoring keeps the current avatar; everything else comes from the revision.
+ */
+export const restoreCharacterRevision = (current: Character, revision: CharacterRevision): Character =>
+    withCharacterImages(revision.snapshot, current.id, current);
+
+/**
+ * Converts the revisions that used to be kept on the character (field changes only, newest last)
+ * into table revisions, walking back from the current sheet to rebuild each snapshot.
+ */
+export const migrateEmbeddedRevisions = (
+    character: Character & { revisions?: { id: string; createdAt: number; source: string; summary: string; changes: { field: CharacterSheetField; before: string; after: string }[] }[] }
+): { character: Character; revisions: CharacterRevision[] } => {
+    const { revisions: embedded = [], ...rest } = character;
+    const revisions: CharacterRevision[] = [];
+    let snapshot = toCharacterSnapshot(rest);
+    for (const old of [...embedded].reverse()) {
+        revisions.unshift({
+            id: old.id,
+            characterId: character.id,
+            createdAt: old.createdAt,
+            source: old.source === 'revert' ? 'restore' : 'livingLore',
+            summary: old.summary,
+            changes: old.changes,
+            snapshot,
+        });
+        snapshot = { ...snapshot };
+        for (const change of old.changes) snapshot[change.field] = change.before;
+    }
+    if (embedded.length > 0) revisions.unshift({ ...createBaselineRevision(rest, embedded[0].createdAt - 1), snapshot });
+    return { character: rest, revisions };
+};
+
+/**
+ * The characters of a conversation, with pinned revisions and local copies in place of the shared
+ * characters. A local copy outlives the shared character it was forked from.
+ */
+export const getConversationCharacters = (conversation: Conversation | null | undefined, allCharacters: Character[]): Character[] => {
+    if (!conversation?.characterIds) return [];
+    return conversation.characterIds.flatMap(id => {
+        const shared = allCharacters.find(c => c.id === id);
+        const override = conversation.characterOverrides?.[id];
+        if (override) return [withCharacterImages(override.character, id, shared)];
+        return shared ? [shared] : [];
+    });
+};
+
+export const getCharacterOverride = (conversation: Conversation | null | undefined, characterId: string): ConversationCharacterOverride | undefined =>
+    conversation?.characterOverrides?.[characterId];
+
+const setOverride = (conversation: Conversation, characterId: string, override: ConversationCharacterOverride | null): Conversation => {
+    const overrides = { ...(conversation.characterOverrides || {}) };
+    if (override) overrides[characterId] = override;
+    else delete overrides[characterId];
+    return { ...conversation, characterOverrides: overrides };
+};
+
+export const pinCharacterRevision = (conversation: Conversation, revision: CharacterRevision): Conversation =>
+    setOverride(conversation, revision.characterId, {
+        mode: 'pinned',
+        revisionId: revision.id,
+        character: revision.snapshot,
+        createdAt: Date.now(),
+    });
+
+export const forkCharacterForConversation = (conversation: Conversation, character: Character): Conversation =>
+    setOverride(conversation, character.id, {
+        mode: 'local',
+        character: toCharacterSnapshot(character),
+        createdAt: Date.now(),
+    });
+
+export const clearCharacterOverride = (conversation: Conversation, characterId: string): Conversation =>
+    setOverride(conversation, characterId, null);
+
+/**
+ * Writes a changed character into the conversation's local copy. A pinned character becomes a
+ * local copy, so the change stays in this conversation.
+ */
+export const updateLocalCharacter = (conversation: Conversation, character: Character): Conversation => {
+    const existing = conversation.characterOverrides?.[character.id];
+    return setOverride(conversation, character.id, {
+        mode: 'local',
+        character: toCharacterSnapshot(character),
+        createdAt: existing?.mode === 'local' ? existing.createdAt : Date.now(),
+    });
+};
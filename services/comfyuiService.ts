@@ -1,5 +1,7 @@
-import type { ComfyUISettings } from '../types';
+import type { ComfyUISettings, ComfyUIWorkflow } from '../types';
 import { convertImageToWebP } from './imageUtils';
+import { applyComfyUIBindings, getDefaultOutputNodeId, type ComfyUIPlaceholderValues } from './comfyuiWorkflows';
+import { mergeLoras, mergeNegativePrompt, type ImageAppearance } from './characterAppearance';
 
 // --- Helper Functions ---
 
@@ -45,16 +47,25 @@ export const fetchAvailableComfyUIModels = async (url: string): Promise<{ checkp
 
 // --- Image Generation ---
 
-const buildWorkflow = (prompt: string, settings: ComfyUISettings) => {
-    const activeLoras = (settings.loras || []).filter(lora => lora && lora.enabled && lora.name);
+const getActiveLoras = (settings: ComfyUISettings, appearance?: ImageAppearance | null) =>
+    mergeLoras(settings.loras, appearance).filter(lora => lora && lora.enabled && lora.name);
+
+const getNegativePrompt = (settings: ComfyUISettings, appearance?: ImageAppearance | null) =>
+    mergeNegativePrompt(settings.negativePrompt?.trim() || 'blurry, ugly, deformed', appearance);
+
+const getSeed = (settings: ComfyUISettings, appearance?: ImageAppearance | null) =>
+    appearance?.seed ?? (settings.seed === 0 ? Math.floor(Math.random() * 1_000_000_000) : settings.seed);
+
+// `referenceImage` is an uploaded image name; with one, the sampler starts from it (img2img).
+const buildWorkflow = (prompt: string, settings: ComfyUISettings, seed: number, appearance?: ImageAppearance | null, referenceImage?: string) => {
+    const activeLoras = getActiveLoras(settings, appearance);
     const triggerText = activeLoras
         .filter(lora => lora.includeTriggerInPrompt && lora.triggerPhrases)
         .map(lora => lora.triggerPhrases.trim())
         .filter(Boolean)
         .join(' ');
     const positivePrompt = [prompt, triggerText].filter(Boolean).join(' ').trim();
-    const negativePrompt = settings.negativePrompt?.trim() || 'blurry, ugly, deformed';
-    const seed = settings.seed === 0 ? Math.floor(Math.random() * 1_000_000_000) : settings.seed;
+    const negativePrompt = getNegativePrompt(settings, appearance);
 
     const workflow: Record<string, any> = {
       "3": {
@@ -118,6 +129,23 @@ const buildWorkflow = (prompt: string, settings: ComfyUISettings) => {
         workflow["6"].inputs.clip = clipNodeRef;
         workflow["7"].inputs.clip = clipNodeRef;
     }
+
+    if (referenceImage) {
+        workflow["13"] = {
+            "class_type": "LoadImage",
+            "inputs": { "image": referenceImage }
+        };
+        workflow["14"] = {
+            "class_type": "ImageScale",
+            "inputs": { "image": ["13", 0], "upscale_method": "lanczos", "width": settings.width, "height": settings.height, "crop": "center" }
+        };
+        workflow["15"] = {
+            "class_type": "VAEEncode",
+            "inputs": { "pixels": ["14", 0], "vae": ["4", 2] }
+        };
+        workflow["3"].inputs.latent_image = ["15", 0];
+        workflow["3"].inputs.denoise = Number((1 - (appearance?.referenceStrength ?? 0)).toFixed(2));
+    }
     
     // Determine the image source node for saving
     const imageSourceNode = settings.enableUpscaler ? "11" : "8";
@@ -149,6 +177,44 @@ const buildWorkflow = (prompt: string, settings: ComfyUISettings) => {
     return workflow;
 }
 
+// An imported workflow with the generation settings written into its bound inputs.
+const buildImportedWorkflow = (
+    prompt: string,
+    settings: ComfyUISettings,
+    workflow: ComfyUIWorkflow,
+    seed: number,
+    appearance?: ImageAppearance | null,
+    referenceImage?: string
+) => {
+    const values: ComfyUIPlaceholderValues = {
+        prompt,
+        negative: getNegativePrompt(settings, appearance),
+        seed,
+        width: settings.width,
+        height: settings.height,
+        steps: settings.steps,
+        cfg: settings.cfg,
+        checkpoint: settings.checkpoint,
+    };
+    if (referenceImage) values.referenceImage = referenceImage;
+    return applyComfyUIBindings(workflow, values);
+};
+
+/**
+ * Uploads an image (a data URL) to ComfyUI's input folder and returns the name LoadImage nodes use.
+ */
+const uploadImage = async (url: string, dataUrl: string): Promise<string> => {
+    const blob = await (await fetch(dataUrl)).blob();
+    const extension = blob.type.split('/')[1] || 'png';
+    const form = new FormData();
+    form.append('image', blob, `reference_${Date.now()}.${extension}`);
+    form.append('overwrite', 'true');
+    const res = await fetch(`${url}/upload/image`, { method: 'POST', body: form });
+    if (!res.ok) throw new Error(`Failed to upload reference image: ${await res.text()}`);
+    const data = await res.json();
+    return data.subfolder ? `${data.subfolder}/${data.name}` : data.name;
+};
+
 
 const queuePrompt = async (url: string, clientId: string, workflow: object): Promise<string> => {
     const body = { prompt: workflow, client_id: clientId };
@@ -175,18 +241,24 @@ const getImageAsDataURL = async (url: string, filename: string): Promise<string>
     });
 };
 
-export const generateImage = (
-    prompt: string,
+/**
+ * Queues a workflow and resolves with the image of the first output node that finishes.
+ * `prepare` runs once the socket is open and returns the graph (uploads happen there).
+ */
+const runWorkflow = (
     settings: ComfyUISettings,
+    prepare: () => Promise<Record<string, any>>,
+    isOutputNode: (nodeId: string) => boolean,
     onProgress: (progress: string) => void
 ): Promise<{ filename: string; dataUrl: string; }> => {
     return new Promise((resolve, reject) => {
-        const workflow = buildWorkflow(prompt, settings);
+        let workflow: Record<string, any> = {};
 
         const socket = new WebSocket(`${settings.url.replace('http', 'ws')}/ws?clientId=${settings.clientId}`);
         
         socket.onopen = async () => {
             try {
+                workflow = await prepare();
                 await queuePrompt(settings.url, settings.clientId, workflow);
             } catch (e) {
                 reject(e);
@@ -205,9 +277,8 @@ export const generateImage = (
                 case 'executed':
                     // Process the final SaveImage node
                     const nodeId = msg.data.node;
-                    const isFinalNode = nodeId === "9" || nodeId === "12";
                     
-                    if (isFinalNode) {
+                    if (isOutputNode(nodeId)) {
                         try {
                             const outputs = msg.data.output;
                             if (!outputs || !outputs.images || outputs.images.length === 0) {
@@ -267,3 +338,71 @@ export const generateImage = (
         };
     });
 };
+
+export interface ComfyUIGenerationOptions {
+    // An imported workflow to run instead of the built-in graph.
+    workflow?: ComfyUIWorkflow | null;
+    // Data URL for the workflow's reference image input, usually the character's avatar.
+    referenceImage?: string;
+    // Appearance profiles of the characters in the scene; their reference image wins over `referenceImage`.
+    appearance?: ImageAppearance | null;
+}
+
+export const generateImage = async (
+    prompt: string,
+    settings: ComfyUISettings,
+    onProgress: (progress: string) => void,
+    options: ComfyUIGenerationOptions = {}
+): Promise<{ filename: string; dataUrl: string; seed: number; }> => {
+    const imported = options.workflow || null;
+    const { appearance } = options;
+    const seed = getSeed(settings, appearance);
+    const importedOutput = imported ? (imported.outputNodeId || getDefaultOutputNodeId(imported.graph)) : undefined;
+    if (imported && !importedOutput) {
+        throw new Error(`Workflow "${imported.name}" has no output node. Pick one in Settings → Image Generation.`);
+    }
+
+    const prepare = async () => {
+        if (imported) {
+            const needsReference = imported.bindings.some(b => b.placeholder === 'referenceImage');
+            const referenceImage = appearance?.referenceImage || options.referenceImage;
+            let referenceName: string | undefined;
+            if (needsReference && referenceImage) {
+                onProgress('Uploading reference image...');
+                referenceName = await uploadImage(settings.url, referenceImage);
+            }
+            return buildImportedWorkflow(prompt, settings, imported, seed, appearance, referenceName);
+        }
+        if (appearance?.referenceImage) {
+            onProgress('Uploading reference image...');
+            return buildWorkflow(prompt, settings, seed, appearance, await uploadImage(settings.url, appearance.referenceImage));
+        }
+        return buildWorkflow(prompt, settings, seed, appearance);
+    };
+
+    const isOutputNode = (nodeId: string) => imported ? nodeId === importedOutput : (nodeId === "9" || nodeId === "12");
+    const result = await runWorkflow(settings, prepare, isOutputNode, onProgress);
+    return { ...result, seed };
+};
+
+/**
+ * Upscales an image with the upscale model from settings.
+ */
+export const upscaleImage = async (
+    dataUrl: string,
+    settings: ComfyUISettings,
+    onProgress: (progress: string) => void
+): Promise<{ filename: string; dataUrl: string; }> => {
+    if (!settings.upscaleModel) throw new Error('Choose an upscale model in Settings → Image Generation → ComfyUI first.');
+    const prepare = async () => {
+        onProgress('Uploading image...');
+        const image = await uploadImage(settings.url, dataUrl);
+        return {
+            "1": { "class_type": "LoadImage", "inputs": { "image": image } },
+            "2": { "class_type": "UpscaleModelLoader", "inputs": { "model_name": settings.upscaleModel } },
+            "3": { "class_type": "ImageUpscaleWithModel", "inputs": { "upscale_model": ["2", 0], "image": ["1", 0] } },
+            "4": { "class_type": "SaveImage", "inputs": { "filename_prefix": "GeminiFusion_Upscaled", "images": ["3", 0] } },
+        };
+    };
+    return runWorkflow(settings, prepare, nodeId => nodeId === "4", onProgress);
+};
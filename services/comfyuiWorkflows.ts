@@ -0,0 +1,184 @@
+import type { Character, ComfyUIPlaceholder, ComfyUISettings, ComfyUIWorkflow, ComfyUIWorkflowBinding, ComfyUIWorkflowNode, Conversation } from '../types';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * Imported ComfyUI workflows.
+ *
+ * Users export a graph from ComfyUI in API format (Workflow → Export (API)) and import it here.
+ * Bindings map the app's placeholders (prompt, negative, seed, size, checkpoint, reference image...)
+ * onto node inputs; on generation a copy of the graph gets the values written into those inputs.
+ * A conversation can pick a workflow, otherwise the first of its characters that has one, otherwise
+ * the default from settings; with none, the built-in graph in comfyuiService.ts is used.
+ */
+
+export const BUILTIN_COMFYUI_WORKFLOW_ID = 'builtin';
+
+export const COMFYUI_PLACEHOLDERS: { placeholder: ComfyUIPlaceholder; label: string }[] = [
+    { placeholder: 'prompt', label: 'Prompt' },
+    { placeholder: 'negative', label: 'Negative prompt' },
+    { placeholder: 'seed', label: 'Seed' },
+    { placeholder: 'width', label: 'Width' },
+    { placeholder: 'height', label: 'Height' },
+    { placeholder: 'steps', label: 'Steps' },
+    { placeholder: 'cfg', label: 'CFG' },
+    { placeholder: 'checkpoint', label: 'Checkpoint' },
+    { placeholder: 'referenceImage', label: 'Character reference image' },
+];
+
+export type ComfyUIPlaceholderValues = Partial<Record<ComfyUIPlaceholder, string | number>>;
+
+const isLink = (value: unknown) => Array.isArray(value) && value.length === 2 && typeof value[0] === 'string';
+
+const tokenOf = (placeholder: ComfyUIPlaceholder) => `{{${placeholder}}}`;
+
+/**
+ * Parses an API-format workflow. The UI format (with `nodes` and `links`) is rejected with a hint,
+ * since it can't be queued.
+ */
+export const parseComfyUIWorkflow = (json: string): Record<string, ComfyUIWorkflowNode> => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The workflow is not valid JSON.');
+    }
+    if (data && Array.isArray(data.nodes) && Array.isArray(data.links)) {
+        throw new Error('This is a UI workflow. In ComfyUI, use Workflow → Export (API) and import that file.');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) throw new Error('The workflow must be a JSON object of nodes.');
+    const nodes = Object.entries(data);
+    if (nodes.length === 0) throw new Error('The workflow has no nodes.');
+    for (const [id, node] of nodes) {
+        if (!node || typeof (node as any).class_type !== 'string' || typeof (node as any).inputs !== 'object') {
+            throw new Error(`Node ${id} has no class_type or inputs; is this an API-format workflow?`);
+        }
+    }
+    return data;
+};
+
+export const getNodeLabel = (nodeId: string, node: ComfyUIWorkflowNode) =>
+    `#${nodeId} ${node._meta?.title && node._meta.title !== node.class_type ? `${node._meta.title} (${node.class_type})` : node.class_type}`;
+
+// Inputs that hold a value rather than a link to another node.
+export const getBindableInputs = (node: ComfyUIWorkflowNode): string[] =>
+    Object.entries(node.inputs || {}).filter(([, value]) => !isLink(value)).map(([name]) => name);
+
+const sortedNodeIds = (graph: Record<string, ComfyUIWorkflowNode>) =>
+    Object.keys(graph).sort((a, b) => (Number(a) - Number(b)) || a.localeCompare(b));
+
+/**
+ * Guesses bindings for a freshly imported graph: `{{placeholder}}` tokens first, then common
+ * nodes (text encoders, samplers, latent size, checkpoint and image loaders).
+ */
+export const detectComfyUIBindings = (graph: Record<string, ComfyUIWorkflowNode>): ComfyUIWorkflowBinding[] => {
+    const bindings: ComfyUIWorkflowBinding[] = [];
+    const bound = new Set<ComfyUIPlaceholder>();
+    const add = (placeholder: ComfyUIPlaceholder, nodeId: string, input: string) => {
+        if (bindings.some(b => b.nodeId === nodeId && b.input === input)) return;
+        bindings.push({ id: generateUUID(), placeholder, nodeId, input });
+        bound.add(placeholder);
+    };
+
+    const ids = sortedNodeIds(graph);
+    for (const id of ids) {
+        for (const [input, value] of Object.entries(graph[id].inputs || {})) {
+            if (typeof value !== 'string') continue;
+            for (const { placeholder } of COMFYUI_PLACEHOLDERS) {
+                if (value.includes(tokenOf(placeholder))) add(placeholder, id, input);
+            }
+        }
+    }
+
+    const firstInput = (placeholder: ComfyUIPlaceholder, match: (node: ComfyUIWorkflowNode) => boolean, input: string) => {
+        if (bound.has(placeholder)) return;
+        const id = ids.find(i => match(graph[i]) && input in graph[i].inputs && !isLink(graph[i].inputs[input]));
+        if (id) add(placeholder, id, input);
+    };
+    const title = (node: ComfyUIWorkflowNode) => (node._meta?.title || '').toLowerCase();
+    const isTextEncoder = (node: ComfyUIWorkflowNode) => node.class_type.startsWith('CLIPTextEncode');
+
+    firstInput('negative', n => isTextEncoder(n) && title(n).includes('neg'), 'text');
+    firstInput('prompt', n => isTextEncoder(n) && !title(n).includes('neg'), 'text');
+    firstInput('seed', n => n.class_type.startsWith('KSampler'), 'seed');
+    firstInput('seed', n => n.class_type === 'RandomNoise', 'noise_seed');
+    firstInput('steps', n => n.class_type.startsWith('KSampler') || n.class_type === 'BasicScheduler', 'steps');
+    firstInput('cfg', n => n.class_type.startsWith('KSampler'), 'cfg');
+    firstInput('width', n => /LatentImage/.test(n.class_type), 'width');
+    firstInput('height', n => /LatentImage/.test(n.class_type), 'height');
+    firstInput('checkpoint', n => n.class_type === 'CheckpointLoaderSimple', 'ckpt_name');
+    firstInput('referenceImage', n => n.class_type === 'LoadImage', 'image');
+    return bindings;
+};
+
+export const getDefaultOutputNodeId = (graph: Record<string, ComfyUIWorkflowNode>): string | undefined =>
+    sortedNodeIds(graph).filter(id => graph[id].class_type === 'SaveImage').pop();
+
+export const createComfyUIWorkflow = (name: string, json: string): ComfyUIWorkflow => {
+    const graph = parseComfyUIWorkflow(json);
+    return {
+        id: generateUUID(),
+        name: name.trim() || 'Imported workflow',
+        graph,
+        bindings: detectComfyUIBindings(graph),
+        outputNodeId: getDefaultOutputNodeId(graph),
+        createdAt: Date.now(),
+    };
+};
+
+/**
+ * Problems that would make the workflow fail or ignore the chat, for the settings UI.
+ */
+export const validateComfyUIWorkflow = (workflow: ComfyUIWorkflow): string[] => {
+    const problems: string[] = [];
+    if (!workflow.bindings.some(b => b.placeholder === 'prompt')) problems.push('No input is bound to the prompt.');
+    for (const binding of workflow.bindings) {
+        const node = workflow.graph[binding.nodeId];
+        if (!node) problems.push(`Binding for ${binding.placeholder} points to missing node #${binding.nodeId}.`);
+        else if (!(binding.input in node.inputs)) problems.push(`Node #${binding.nodeId} has no input "${binding.input}".`);
+    }
+    const output = workflow.outputNodeId || getDefaultOutputNodeId(workflow.graph);
+    if (!output || !workflow.graph[output]) problems.push('No output node; add a SaveImage node or pick the output node.');
+    return problems;
+};
+
+/**
+ * A copy of the graph with the values written into the bound inputs. Placeholders without a value
+ * leave their inputs as they are.
+ */
+export const applyComfyUIBindings = (workflow: ComfyUIWorkflow, values: ComfyUIPlaceholderValues): Record<string, ComfyUIWorkflowNode> => {
+    const graph: Record<string, ComfyUIWorkflowNode> = JSON.parse(JSON.stringify(workflow.graph));
+    for (const binding of workflow.bindings) {
+        const value = values[binding.placeholder];
+        const node = graph[binding.nodeId];
+        if (value === undefined || !node) continue;
+        const current = node.inputs[binding.input];
+        node.inputs[binding.input] = typeof current === 'string' && current.includes(tokenOf(binding.placeholder))
+            ? current.split(tokenOf(binding.placeholder)).join(String(value))
+            : value;
+    }
+    return graph;
+};
+
+export const getComfyUIWorkflow = (comfyUI: ComfyUISettings, id: string | undefined): ComfyUIWorkflow | undefined =>
+    id ? (comfyUI.workflows || []).find(w => w.id === id) : undefined;
+
+/**
+ * The workflow for an image in a conversation, and the character it belongs to (whose avatar is
+ * the reference image). Returns a null workflow for the built-in graph.
+ */
+export const resolveComfyUIWorkflow = (
+    comfyUI: ComfyUISettings,
+    conversation?: Conversation | null,
+    characters: Character[] = []
+): { workflow: ComfyUIWorkflow | null; character?: Character } => {
+    const referenceCharacter = characters.find(c => c.imageUrl);
+    const pick = (id: string | undefined) => id === BUILTIN_COMFYUI_WORKFLOW_ID ? null : getComfyUIWorkflow(comfyUI, id);
+
+    const forConversation = pick(conversation?.comfyUIWorkflowId);
+    if (forConversation !== undefined) return { workflow: forConversation, character: referenceCharacter };
+    for (const character of characters) {
+        const forCharacter = pick(character.comfyUIWorkflowId);
+        if (forCharacter !== undefined) return { workflow: forCharacter, character };
+    }
+    return { workflow: pick(comfyUI.defaultWorkflowId) ?? null, character: referenceCharacter };
+};
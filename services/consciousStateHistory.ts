@@ -0,0 +1,164 @@
+import type { CharacterState, ConsciousStateSnapshot, Conversation, ConversationState, Message } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { log } from './loggingService';
+
+/**
+ * Version history of the Conscious State Engine.
+ *
+ * Every state update is stored as a snapshot anchored to the last message of the conversation
+ * at the time. When that message is deleted or regenerated, the snapshots that were computed
+ * after it are dropped and the state returns to the last snapshot that is still anchored to an
+ * existing message, so a discarded reply no longer shapes the state.
+ */
+
+const MAX_STATE_SNAPSHOTS = 50;
+
+export interface StateChange {
+    category: 'mood' | 'location' | 'relationship' | 'metric' | 'commitment' | 'world';
+    subject: string;   // Character name, or 'World'
+    field: string;
+    before?: string;
+    after?: string;
+}
+
+/**
+ * Sets the conversation's Conscious State and records it as a new snapshot. A state that existed
+ * before the first snapshot is kept as the baseline. `anchorMessages` are the messages the state
+ * was computed from, when those may be older than the conversation passed in.
+ */
+export const recordStateSnapshot = (
+    conversation: Conversation,
+    state: ConversationState,
+    source: Exclude<ConsciousStateSnapshot['source'], 'baseline'>,
+    engineVersion?: ConsciousStateSnapshot['engineVersion'],
+    anchorMessages: Message[] = conversation.messages
+): Conversation => {
+    const history = [...(conversation.consciousStateHistory || [])];
+    if (history.length === 0 && conversation.consciousState) {
+        history.push({
+            id: generateUUID(),
+            createdAt: conversation.consciousState.lastUpdateAt || conversation.createdAt,
+            source: 'baseline',
+            messageNumber: 0,
+            state: conversation.consciousState,
+        });
+    }
+    history.push({
+        id: generateUUID(),
+        createdAt: Date.now(),
+        source,
+        engineVersion,
+        messageId: anchorMessages[anchorMessages.length - 1]?.id,
+        messageNumber: anchorMessages.length,
+        state,
+    });
+    // The baseline is the fallback for rollbacks, so it survives trimming.
+    const trimmed = history.length > MAX_STATE_SNAPSHOTS
+        ? [...history.filter(s => s.source === 'baseline'), ...history.filter(s => s.source !== 'baseline').slice(-(MAX_STATE_SNAPSHOTS - 1))]
+        : history;
+    return { ...conversation, consciousState: state, consciousStateHistory: trimmed };
+};
+
+/**
+ * Drops the newest snapshots whose message is no longer in the conversation and restores the
+ * state to the last remaining one. Call after messages were removed; returns the conversation
+ * unchanged when nothing had to be rolled back.
+ *
+ * Snapshots anchored to a message deleted from the middle of the conversation are kept, since
+ * the state after them was built on later messages that still exist.
+ */
+export const rollBackStateToMessages = (conversation: Conversation): Conversation => {
+    const history = conversation.consciousStateHistory || [];
+    if (history.length === 0) return conversation;
+
+    const messageIds = new Set(conversation.messages.map(m => m.id));
+    let keep = history.length;
+    while (keep > 0 && history[keep - 1].messageId && !messageIds.has(history[keep - 1].messageId!)) keep--;
+    if (keep === history.length) return conversation;
+
+    const remaining = history.slice(0, keep);
+    log('INFO', 'CONSCIOUS_STATE', 'Rolled back state for removed messages', {
+        conversationId: conversation.id,
+        droppedSnapshots: history.length - keep,
+    });
+    return {
+        ...conversation,
+        consciousState: remaining.length > 0 ? remaining[remaining.length - 1].state : null,
+        consciousStateHistory: remaining,
+    };
+};
+
+/**
+ * Makes an earlier snapshot the current state again. The restore is recorded as a new snapshot,
+ * so the snapshots in between stay available for comparison.
+ */
+export const restoreStateSnapshot = (conversation: Conversation, snapshotId: string): Conversation => {
+    const snapshot = (conversation.consciousStateHistory || []).find(s => s.id === snapshotId);
+    if (!snapshot) throw new Error('The selected state snapshot no longer exists.');
+    return recordStateSnapshot(conversation, snapshot.state, 'restore');
+};
+
+const formatMetric = (value: number | undefined) => value === undefined ? undefined : String(Math.round(value * 100) / 100);
+
+const diffCharacter = (before: CharacterState | undefined, after: CharacterState | undefined, nameOf: (id: string) => string): StateChange[] => {
+    const subject = (after || before)!.characterName;
+    const changes: StateChange[] = [];
+    const push = (category: StateChange['category'], field: string, a?: string, b?: string) => {
+        if ((a || '') !== (b || '')) changes.push({ category, subject, field, before: a || undefined, after: b || undefined });
+    };
+
+    push('mood', 'Mood', before?.mood, after?.mood);
+    push('mood', 'Emotion', before?.emotional_state, after?.emotional_state);
+    const emotions = (s?: CharacterState) => (s?.dominant_emotions || []).map(e => `${e.label} ${formatMetric(e.intensity)}`).join(', ');
+    push('mood', 'Dominant emotions', emotions(before), emotions(after));
+    push('location', 'Location', before?.current_location, after?.current_location);
+
+    const beforeRelations = new Map((before?.relationships || []).map(r => [r.targetCharacterId, r]));
+    const afterRelations = new Map((after?.relationships || []).map(r => [r.targetCharacterId, r]));
+    for (const targetId of new Set([...beforeRelations.keys(), ...afterRelations.keys()])) {
+        const a = beforeRelations.get(targetId);
+        const b = afterRelations.get(targetId);
+        const target = nameOf(targetId);
+        if (!a || !b) {
+            push('relationship', `Relationship with ${target}`, a ? 'present' : undefined, b ? 'present' : undefined);
+        }
+        push('relationship', `Tags toward ${target}`, (a?.tags || []).join(', '), (b?.tags || []).join(', '));
+        for (const metric of ['trust', 'affinity', 'forgiveness'] as const) {
+            push('metric', `${metric[0].toUpperCase()}${metric.slice(1)} toward ${target}`, formatMetric(a?.metrics?.[metric]), formatMetric(b?.metrics?.[metric]));
+        }
+    }
+
+    const beforeCommitments = new Map((before?.commitments || []).map(c => [c.text, c.status]));
+    const afterCommitments = new Map((after?.commitments || []).map(c => [c.text, c.status]));
+    for (const text of new Set([...beforeCommitments.keys(), ...afterCommitments.keys()])) {
+        push('commitment', text, beforeCommitments.get(text), afterCommitments.get(text));
+    }
+    return changes;
+};
+
+/**
+ * Lists what changed between two states: moods, locations, relationships and their metrics,
+ * commitments and the world state. Either side may be null (no state yet).
+ */
+export const diffConsciousStates = (before: ConversationState | null, after: ConversationState | null): StateChange[] => {
+    const beforeCharacters = new Map((before?.character_states || []).map(s => [s.characterId, s]));
+    const afterCharacters = new Map((after?.character_states || []).map(s => [s.characterId, s]));
+    const nameOf = (id: string) => (afterCharacters.get(id) || beforeCharacters.get(id))?.characterName || id;
+
+    const changes: StateChange[] = [];
+    for (const id of new Set([...beforeCharacters.keys(), ...afterCharacters.keys()])) {
+        changes.push(...diffCharacter(beforeCharacters.get(id), afterCharacters.get(id), nameOf));
+    }
+
+    const world = (label: string, a?: string, b?: string) => {
+        if ((a || '') !== (b || '')) changes.push({ category: 'world', subject: 'World', field: label, before: a || undefined, after: b || undefined });
+    };
+    const bw = before?.world_state;
+    const aw = after?.world_state;
+    world('Scene atmosphere', bw?.scene_atmosphere, aw?.scene_atmosphere);
+    world('Environment', bw?.external_environment, aw?.external_environment);
+    world('Time of day', bw?.timeOfDay, aw?.timeOfDay);
+    world('Weather', bw?.weather, aw?.weather);
+    world('Scene tension', formatMetric(bw?.sceneTension), formatMetric(aw?.sceneTension));
+    return changes;
+};
@@ -0,0 +1,147 @@
+import type { Conversation, Message, MessageSwipe } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { log } from './loggingService';
+import { rollBackStateToMessages } from './consciousStateHistory';
+
+/**
+ * Swipes (alternate model responses) and conversation branches.
+ *
+ * A model message keeps every regenerated variant in `swipes`; `content` always mirrors the
+ * active one so the rest of the app can keep reading `message.content`.
+ *
+ * A branch is a new conversation holding a copy of its parent's messages up to the fork point,
+ * with the same message IDs. It writes new memories to its own RAG collection and reads the
+ * ancestors' collections only up to the fork point, so retrieval follows the active branch.
+ */
+
+// --- Swipes ---
+
+/**
+ * Returns the variants of a model message. Messages generated before swipes existed
+ * count as a single variant.
+ */
+export const getMessageSwipes = (message: Message): MessageSwipe[] => {
+  if (message.swipes && message.swipes.length > 0) return message.swipes;
+  if (!message.content) return [];
+  return [{
+    content: message.content,
+    timestamp: message.timestamp,
+    tokenCount: message.tokenCount,
+    contextPayload: message.contextPayload,
+  }];
+};
+
+/**
+ * Returns a copy of the message showing the swipe at `index`.
+ */
+export const selectMessageSwipe = (message: Message, index: number): Message => {
+  const swipes = getMessageSwipes(message);
+  const swipe = swipes[index];
+  if (!swipe) return message;
+  return {
+    ...message,
+    swipes,
+    activeSwipeIndex: index,
+    content: swipe.content,
+    tokenCount: swipe.tokenCount,
+    contextPayload: swipe.contextPayload,
+    // Edits, summaries and undo backups belong to the variant they were made on.
+    summary: undefined,
+    lastEditedBackup: undefined,
+    lastEditedReason: undefined,
+    lastEditedAt: undefined,
+  };
+};
+
+/**
+ * Appends a freshly generated response to the variants of the turn it replaces.
+ */
+export const appendMessageSwipe = (message: Message, previousSwipes: MessageSwipe[]): Message => {
+  const swipes = [...previousSwipes, {
+    content: message.content,
+    timestamp: message.timestamp,
+    tokenCount: message.tokenCount,
+    contextPayload: message.contextPayload,
+  }];
+  return { ...message, swipes, activeSwipeIndex: swipes.length - 1 };
+};
+
+/**
+ * Writes an edited content back into the active swipe so switching away and back keeps the edit.
+ */
+export const updateActiveSwipeContent = (message: Message, content: string): Message => {
+  if (!message.swipes || message.activeSwipeIndex === undefined) return { ...message, content };
+  const swipes = message.swipes.map((s, i) => i === message.activeSwipeIndex ? { ...s, content } : s);
+  return { ...message, content, swipes };
+};
+
+// --- Branches ---
+
+const MAX_MEMORY_CHUNKS_PER_TURN = 100;
+
+/**
+ * Forks a conversation after the given message.
+ * @param conversation - The conversation to fork.
+ * @param forkMessageId - The last message the branch shares with its parent.
+ * @param name - The branch name shown in the branch switcher.
+ * @returns A new conversation; the caller is responsible for saving it.
+ * @throws Error if the message is not part of the conversation.
+ */
+export const createConversationBranch = (conversation: Conversation, forkMessageId: string, name: string): Conversation => {
+  const forkIndex = conversation.messages.findIndex(m => m.id === forkMessageId);
+  if (forkIndex === -1) {
+    throw new Error('The selected message is not part of this conversation.');
+  }
+
+  const prefix = conversation.messages.slice(0, forkIndex + 1).filter(m => !m.isTemporary && !m.isThinking);
+  const forkMessage = prefix[prefix.length - 1];
+  const cutoffTimestamp = prefix.reduce((max, m) => Math.max(max, m.timestamp), 0);
+  // A turn's memories are stamped `modelMessage.timestamp + chunkIndex`. Forking at a model message keeps
+  // that turn's chunks; forking at a user message must exclude the parent's reply to it.
+  const memoryCutoff = forkMessage?.role === 'model'
+    ? forkMessage.timestamp + MAX_MEMORY_CHUNKS_PER_TURN
+    : (forkMessage?.timestamp ?? 0) - 1;
+
+  // Ancestors stay readable only up to the earliest fork along the chain.
+  const ragAncestors = [
+    ...(conversation.ragAncestors || []).map(a => ({ ...a, cutoffTimestamp: Math.min(a.cutoffTimestamp, memoryCutoff) })),
+    ...(conversation.ragCollectionName ? [{ collectionName: conversation.ragCollectionName, cutoffTimestamp: memoryCutoff }] : []),
+  ];
+
+  const newId = generateUUID();
+  const rootConversationId = conversation.branch?.rootConversationId || conversation.id;
+  const baseTitle = conversation.branch ? conversation.title.replace(/\s*\[[^\]]*\]$/, '') : conversation.title;
+
+  // The Conscious State goes back to the last snapshot taken at or before the fork point.
+  const branch: Conversation = rollBackStateToMessages({
+    ...structuredClone(conversation),
+    id: newId,
+    title: `${baseTitle} [${name}]`,
+    messages: structuredClone(prefix),
+    createdAt: Date.now(),
+    ragCollectionName: `rag_${newId.replace(/-/g, '')}`,
+    ragAncestors,
+    telegramChatId: undefined, // The bot stays attached to the original conversation
+    songs: (conversation.songs || []).filter(s => s.timestamp <= cutoffTimestamp),
+    branch: {
+      name,
+      rootConversationId,
+      parentConversationId: conversation.id,
+      forkMessageId,
+      forkedAt: Date.now(),
+    },
+  });
+
+  log('INFO', 'CONVERSATION', 'Conversation branch created', {
+    parentId: conversation.id,
+    branchId: newId,
+    forkMessageId,
+    sharedMessages: prefix.length,
+  });
+  return branch;
+};
+
+/**
+ * The label of a conversation in the branch switcher.
+ */
+export const getBranchLabel = (conversation: Conversation): string => conversation.branch?.name || 'Main';
@@ -0,0 +1,137 @@
+import type { CustomEndpoint, Model, Settings } from '../types';
+import { log } from './loggingService';
+
+interface OpenAIModelListEntry {
+  id: string;
+  owned_by?: string;
+  context_length?: number;
+  max_model_len?: number; // vLLM
+  meta?: { n_ctx_train?: number }; // llama.cpp server
+}
+
+/**
+ * Normalizes a user-entered base URL so that `${base}/chat/completions` and `${base}/models` resolve.
+ * Accepts "http://localhost:11434", "http://localhost:11434/" and "http://localhost:11434/v1" alike.
+ */
+export const normalizeEndpointBaseUrl = (url: string): string => {
+  const trimmed = (url || '').trim().replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+};
+
+export const buildEndpointHeaders = (endpoint: CustomEndpoint): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey?.trim()) {
+    headers['Authorization'] = `Bearer ${endpoint.apiKey.trim()}`;
+  }
+  return headers;
+};
+
+/**
+ * Builds the globally unique model ID used inside the app.
+ * Two local servers can easily both expose "llama3", so the endpoint ID is part of the key.
+ */
+export const buildCustomModelId = (endpointId: string, apiModelId: string): string => `custom:${endpointId}:${apiModelId}`;
+
+/**
+ * Inverse of buildCustomModelId. The backend model ID may itself contain colons (e.g. "llama3.1:8b"),
+ * so only the first two separators are significant.
+ * @returns null if the ID is not a custom model ID.
+ */
+export const parseCustomModelId = (modelId: string): { endpointId: string; apiModelId: string } | null => {
+  const match = /^custom:([^:]+):(.+)$/.exec(modelId);
+  return match ? { endpointId: match[1], apiModelId: match[2] } : null;
+};
+
+const toModel = (endpoint: CustomEndpoint, apiModelId: string, contextLength?: number): Model => ({
+  id: buildCustomModelId(endpoint.id, apiModelId),
+  name: apiModelId,
+  provider: 'Custom',
+  endpointId: endpoint.id,
+  endpointName: endpoint.name || 'Custom Endpoint',
+  apiModelId,
+  contextLengthTokens: endpoint.contextLengthTokens || contextLength,
+  supportsImageInput: endpoint.supportsImageInput === true,
+  supportsAudio: false,
+  supportsThinking: false,
+});
+
+const parseManualModels = (manualModels?: string): string[] =>
+  (manualModels || '').split(/[\n,]+/).map(m => m.trim()).filter(Boolean);
+
+/**
+ * Lists the models served by an endpoint through the OpenAI-style `/v1/models` route.
+ * Manually entered model IDs are always included, so servers without a listing still work.
+ * @throws Error if the listing request fails and no manual models are configured.
+ */
+export const fetchCustomEndpointModels = async (endpoint: CustomEndpoint): Promise<Model[]> => {
+  const manual = parseManualModels(endpoint.manualModels);
+  const baseUrl = normalizeEndpointBaseUrl(endpoint.baseUrl);
+  if (!baseUrl) {
+    return manual.map(id => toModel(endpoint, id));
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/models`, { headers: buildEndpointHeaders(endpoint) });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    const data: { data?: OpenAIModelListEntry[]; models?: OpenAIModelListEntry[] } = await response.json();
+    const listed = data.data || data.models || [];
+
+    const seen = new Set<string>();
+    const models: Model[] = [];
+    for (const entry of listed) {
+      if (!entry?.id || seen.has(entry.id)) continue;
+      seen.add(entry.id);
+      models.push(toModel(endpoint, entry.id, entry.context_length || entry.max_model_len || entry.meta?.n_ctx_train));
+    }
+    for (const id of manual) {
+      if (!seen.has(id)) {
+        seen.add(id);
+        models.push(toModel(endpoint, id));
+      }
+    }
+    return models.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error: any) {
+    log('WARN', 'CUSTOM_ENDPOINT', `Failed to list models for endpoint "${endpoint.name}"`, { error: error?.message });
+    if (manual.length > 0) {
+      return manual.map(id => toModel(endpoint, id));
+    }
+    throw new Error(`Could not list models from ${baseUrl}/models: ${error?.message || 'Network error'}`);
+  }
+};
+
+/**
+ * Loads the models of every enabled endpoint. Unreachable endpoints are skipped
+ * (and logged) so that one offline server never hides the others.
+ */
+export const fetchAllCustomEndpointModels = async (settings: Settings): Promise<Model[]> => {
+  const endpoints = (settings.customEndpoints || []).filter(e => e.enabled);
+  const results = await Promise.allSettled(endpoints.map(fetchCustomEndpointModels));
+  return results.flatMap(r => (r.status === 'fulfilled' ? r.value : []));
+};
+
+export const checkCustomEndpointConnection = async (endpoint: CustomEndpoint): Promise<{ isConnected: boolean; modelCount: number; error?: string }> => {
+  try {
+    const models = await fetchCustomEndpointModels(endpoint);
+    return { isConnected: true, modelCount: models.length };
+  } catch (error: any) {
+    return { isConnected: false, modelCount: 0, error: error?.message || 'Connection failed' };
+  }
+};
+
+/**
+ * Resolves the endpoint configuration a Custom model belongs to.
+ * @throws Error if the endpoint was removed or disabled since the model list was loaded.
+ */
+export const getEndpointForModel = (model: Model, settings: Settings): CustomEndpoint => {
+  const endpoint = (settings.customEndpoints || []).find(e => e.id === model.endpointId);
+  if (!endpoint) {
+    throw new Error(`Custom endpoint for model "${model.name}" is no longer configured. Please check Settings > General > Custom.`);
+  }
+  if (!endpoint.enabled) {
+    throw new Error(`Custom endpoint "${endpoint.name}" is disabled. Enable it in Settings > General > Custom.`);
+  }
+  return endpoint;
+};
@@ -1,6 +1,9 @@
 import Dexie, { type Table } from 'dexie';
-import type { Conversation, Settings, Character, Lorebook, UserPersona, RagMemory, Story, Prompt, IdentityProfile, Briefing, LogEntry } from '../types';
-import { DEFAULT_SETTINGS, DEFAULT_PROMPTS } from '../constants';
+import type { Conversation, Settings, Character, CharacterRevision, GalleryImage, Lorebook, UserPersona, RagMemory, RagLexicalIndex, RagReembedJob, CustomTokenizer, Story, Prompt, IdentityProfile, Briefing, LogEntry } from '../types';
+import { DEFAULT_SETTINGS, DEFAULT_PROMPTS, UNBOUNDED_LORE_SETTINGS } from '../constants';
+import { buildLexicalIndex } from './lexicalIndexService';
+import { createBaselineRevision, createCharacterRevision, migrateEmbeddedRevisions, type RevisionInfo } from './characterRevisions';
+import { extractInlineImages } from './imageGallery';
 
 // Fix: Refactored Dexie initialization to resolve type errors where methods like '.version()' and '.transaction()'
 // were not found on the subclassed Dexie instance. This new pattern avoids subclassing and uses type
@@ -10,15 +13,123 @@ export const db = new Dexie('geminiFusionDB') as Dexie & {
   settings: Table<Settings & { key: string }, string>;
   conversations: Table<Conversation, string>;
   characters: Table<Character, string>;
+  characterRevisions: Table<CharacterRevision, string>; // New: Saved versions of each character
   lorebooks: Table<Lorebook, string>;
   userPersonas: Table<UserPersona, string>;
   identityProfiles: Table<IdentityProfile, string>;
   ragMetadata: Table<RagMemory & { key: string }, string>;
+  ragLexicalIndex: Table<RagLexicalIndex, string>; // New: BM25 keyword index per RAG collection
+  ragReembedJobs: Table<RagReembedJob, string>; // New: Re-embedding jobs, one per collection
+  ragReembedVectors: Table<{ key: string; vector: number[] }, string>; // New: Vectors staged by re-embedding jobs
+  tokenizers: Table<CustomTokenizer, string>; // New: Tokenizer vocabularies imported from local files
   stories: Table<Story, string>;
   briefings: Table<Briefing, string>;
   logs: Table<LogEntry, number>; // New: Add logs table
+  images: Table<GalleryImage, string>; // New: Generated images, out of the conversation records
 };
 
+db.version(12).stores({
+  settings: 'key',
+  conversations: 'id, createdAt, telegramChatId',
+  characters: 'id, createdAt',
+  characterRevisions: 'id, characterId, createdAt',
+  lorebooks: 'id, createdAt',
+  userPersonas: 'id, createdAt',
+  identityProfiles: 'id, createdAt',
+  ragMetadata: 'key',
+  ragLexicalIndex: 'collectionName',
+  ragReembedJobs: 'collectionName',
+  ragReembedVectors: 'key',
+  tokenizers: 'id, createdAt',
+  stories: 'id, createdAt',
+  briefings: 'id, createdAt, isRead',
+  logs: '++id, timestamp, level, category',
+  images: 'id, conversationId, createdAt',
+}).upgrade(async tx => {
+  // Generated images used to be data URLs inside the messages.
+  const conversations = await tx.table('conversations').toArray();
+  for (const stored of conversations) {
+    const { conversation, images } = extractInlineImages(stored);
+    if (images.length === 0) continue;
+    await tx.table('images').bulkPut(images);
+    await tx.table('conversations').put(conversation);
+  }
+});
+
+db.version(11).stores({
+  settings: 'key',
+  conversations: 'id, createdAt, telegramChatId',
+  characters: 'id, createdAt',
+  characterRevisions: 'id, characterId, createdAt',
+  lorebooks: 'id, createdAt',
+  userPersonas: 'id, createdAt',
+  identityProfiles: 'id, createdAt',
+  ragMetadata: 'key',
+  ragLexicalIndex: 'collectionName',
+  ragReembedJobs: 'collectionName',
+  ragReembedVectors: 'key',
+  tokenizers: 'id, createdAt',
+  stories: 'id, createdAt',
+  briefings: 'id, createdAt, isRead',
+  logs: '++id, timestamp, level, category',
+}).upgrade(async tx => {
+  // Living Lore revisions used to be kept on the character itself.
+  const characters = await tx.table('characters').toArray();
+  for (const stored of characters) {
+    if (!stored.revisions) continue;
+    const { character, revisions } = migrateEmbeddedRevisions(stored);
+    await tx.table('characterRevisions').bulkPut(revisions);
+    await tx.table('characters').put(character);
+  }
+});
+
+db.version(10).stores({
+  settings: 'key',
+  conversations: 'id, createdAt, telegramChatId',
+  characters: 'id, createdAt',
+  lorebooks: 'id, createdAt',
+  userPersonas: 'id, createdAt',
+  identityProfiles: 'id, createdAt',
+  ragMetadata: 'key',
+  ragLexicalIndex: 'collectionName',
+  ragReembedJobs: 'collectionName',
+  ragReembedVectors: 'key',
+  tokenizers: 'id, createdAt',
+  stories: 'id, createdAt',
+  briefings: 'id, createdAt, isRead',
+  logs: '++id, timestamp, level, category',
+});
+
+db.version(9).stores({
+  settings: 'key',
+  conversations: 'id, createdAt, telegramChatId',
+  characters: 'id, createdAt',
+  lorebooks: 'id, createdAt',
+  userPersonas: 'id, createdAt',
+  identityProfiles: 'id, createdAt',
+  ragMetadata: 'key',
+  ragLexicalIndex: 'collectionName',
+  ragReembedJobs: 'collectionName',
+  ragReembedVectors: 'key',
+  stories: 'id, createdAt',
+  briefings: 'id, createdAt, isRead',
+  logs: '++id, timestamp, level, category',
+});
+
+db.version(8).stores({
+  settings: 'key',
+  conversations: 'id, createdAt, telegramChatId',
+  characters: 'id, createdAt',
+  lorebooks: 'id, createdAt',
+  userPersonas: 'id, createdAt',
+  identityProfiles: 'id, createdAt',
+  ragMetadata: 'key',
+  ragLexicalIndex: 'collectionName',
+  stories: 'id, createdAt',
+  briefings: 'id, createdAt, isRead',
+  logs: '++id, timestamp, level, category',
+});
+
 db.version(7).stores({
   settings: 'key',
   conversations: 'id, createdAt, telegramChatId',
@@ -72,14 +183,82 @@ export const saveConversation = (conversation: Conversation): Promise<string> =>
   return db.conversations.put(conversation);
 };
 
+/**
+ * Deletes a conversation and its gallery, except images that branches still show.
+ */
 export const deleteConversation = (id: string): Promise<void> => {
-  return db.conversations.delete(id);
+  return db.transaction('rw', db.conversations, db.images, async () => {
+    const imageIds = await db.images.where('conversationId').equals(id).primaryKeys();
+    if (imageIds.length > 0) {
+      const inUse = new Set<string>();
+      await db.conversations.filter(c => c.id !== id).each(c => c.messages.forEach(m => { if (m.imageId) inUse.add(m.imageId); }));
+      await db.images.bulkDelete(imageIds.filter(imageId => !inUse.has(imageId)));
+    }
+    await db.conversations.delete(id);
+  });
+};
+
+// --- Gallery Functions ---
+
+/**
+ * The conversation's images, newest first, including the ones it shows from the conversation it
+ * was branched from.
+ */
+export const getConversationImages = async (conversation: Conversation): Promise<GalleryImage[]> => {
+  const own = await db.images.where('conversationId').equals(conversation.id).toArray();
+  const ownIds = new Set(own.map(i => i.id));
+  const inherited = conversation.messages.map(m => m.imageId).filter((id): id is string => !!id && !ownIds.has(id));
+  const others = inherited.length > 0 ? (await db.images.bulkGet(inherited)).filter((i): i is GalleryImage => !!i) : [];
+  return [...own, ...others].sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getGalleryImage = (id: string): Promise<GalleryImage | undefined> => {
+  return db.images.get(id);
+};
+
+export const saveGalleryImage = (image: GalleryImage): Promise<string> => {
+  return db.images.put(image);
+};
+
+export const saveGalleryImages = (images: GalleryImage[]): Promise<string> => {
+  return db.images.bulkPut(images);
+};
+
+export const deleteGalleryImage = (id: string): Promise<void> => {
+  return db.images.delete(id);
+};
+
+/**
+ * Returns a conversation family: the root conversation and every branch forked from it (or from its branches).
+ */
+export const getConversationFamily = (rootConversationId: string): Promise<Conversation[]> => {
+  return db.conversations
+    .filter(c => c.id === rootConversationId || c.branch?.rootConversationId === rootConversationId)
+    .sortBy('createdAt');
+};
+
+/**
+ * Whether any conversation other than `exceptConversationId` still reads the given RAG collection,
+ * either as its own or as an inherited branch ancestor.
+ */
+export const isRagCollectionInUse = async (collectionName: string, exceptConversationId: string): Promise<boolean> => {
+  const count = await db.conversations
+    .filter(c => c.id !== exceptConversationId && (
+      c.ragCollectionName === collectionName ||
+      (c.ragAncestors || []).some(a => a.collectionName === collectionName)
+    ))
+    .count();
+  return count > 0;
 };
 
 export const getConversationByTelegramChatId = (chatId: number): Promise<Conversation | undefined> => {
     return db.conversations.where('telegramChatId').equals(chatId).first();
 };
 
+export const getTelegramConversations = (): Promise<Conversation[]> => {
+    return db.conversations.where('telegramChatId').above(0).toArray();
+};
+
 // Fix for line 91: Type 'unknown[]' is not assignable to type 'number[]'.
 // The previous implementation likely used .keys(), which returns the primary keys (strings) instead of the indexed 'telegramChatId' values.
 // This new implementation correctly fetches the conversation objects, extracts the numeric chat IDs, and ensures type safety.
@@ -148,6 +327,14 @@ export const getSettings = async (): Promise<Settings> => {
         ...DEFAULT_SETTINGS.rag,
         ...(savedSettings.rag || {}),
       },
+      tokenizerAssignments: {
+        ...DEFAULT_SETTINGS.tokenizerAssignments,
+        ...(savedSettings.tokenizerAssignments || {}),
+      },
+      lore: {
+        ...UNBOUNDED_LORE_SETTINGS,
+        ...(savedSettings.lore || {}),
+      },
       comfyUI: {
         ...DEFAULT_SETTINGS.comfyUI,
         ...(savedSettings.comfyUI || {}),
@@ -226,12 +413,39 @@ export const getAllCharacters = (limit?: number, offset?: number): Promise<Chara
   return query.toArray();
 };
 
-export const saveCharacter = (character: Character): Promise<string> => {
-  return db.characters.put(character);
+const MAX_REVISIONS_PER_CHARACTER = 100;
+
+/**
+ * Saves a character and records a revision when anything but the avatar changed. A character
+ * saved for the first time since history was kept gets a baseline revision of its old version.
+ */
+export const saveCharacter = (character: Character, info?: Partial<RevisionInfo>): Promise<string> => {
+  return db.transaction('rw', db.characters, db.characterRevisions, async () => {
+    const previous = await db.characters.get(character.id);
+    const revision = createCharacterRevision(previous, character, info);
+    if (revision) {
+      const existing = await db.characterRevisions.where('characterId').equals(character.id).sortBy('createdAt');
+      if (previous && existing.length === 0) {
+        await db.characterRevisions.put(createBaselineRevision(previous, Math.min(previous.createdAt, revision.createdAt - 1)));
+      }
+      await db.characterRevisions.put(revision);
+      const excess = existing.length + 1 - MAX_REVISIONS_PER_CHARACTER;
+      if (excess > 0) await db.characterRevisions.bulkDelete(existing.slice(0, excess).map(r => r.id));
+    }
+    return db.characters.put(character);
+  });
 };
 
 export const deleteCharacter = (id: string): Promise<void> => {
-  return db.characters.delete(id);
+  return db.transaction('rw', db.characters, db.characterRevisions, async () => {
+    await db.characterRevisions.where('characterId').equals(id).delete();
+    await db.characters.delete(id);
+  });
+};
+
+// Oldest first.
+export const getCharacterRevisions = (characterId: string): Promise<CharacterRevision[]> => {
+  return db.characterRevisions.where('characterId').equals(characterId).sortBy('createdAt');
 };
 
 // --- Lorebook Functions ---
@@ -293,7 +507,7 @@ export const getRagMetadataForCollection = async (collectionName: string): Promi
 };
 
 export const saveRagMetadataForCollection = async (collectionName: string, memories: RagMemory[]): Promise<void> => {
-    await db.transaction('rw', db.ragMetadata, async () => {
+    await db.transaction('rw', db.ragMetadata, db.ragLexicalIndex, async () => {
         // This is a full replacement, so clear existing data first for this collection.
         await db.ragMetadata.where('key').startsWith(`${collectionName}:`).delete();
         
@@ -302,11 +516,75 @@ export const saveRagMetadataForCollection = async (collectionName: string, memor
             const key = `${collectionName}:${mem.id}`;
             await db.ragMetadata.put({ ...mem, key });
         }
+
+        // Keep the keyword index in step with the metadata it was built from.
+        await db.ragLexicalIndex.put(buildLexicalIndex(collectionName, memories));
     });
 };
 
 export const deleteRagMetadataForCollection = async (collectionName: string): Promise<void> => {
     await db.ragMetadata.where('key').startsWith(`${collectionName}:`).delete();
+    await db.ragLexicalIndex.delete(collectionName);
+};
+
+export const getRagLexicalIndex = (collectionName: string): Promise<RagLexicalIndex | undefined> => {
+    return db.ragLexicalIndex.get(collectionName);
+};
+
+export const saveRagLexicalIndex = (index: RagLexicalIndex): Promise<string> => {
+    return db.ragLexicalIndex.put(index);
+};
+
+export const deleteRagLexicalIndex = (collectionName: string): Promise<void> => {
+    return db.ragLexicalIndex.delete(collectionName);
+};
+
+// --- RAG Re-embedding Job Functions ---
+export const getRagReembedJob = (collectionName: string): Promise<RagReembedJob | undefined> => {
+    return db.ragReembedJobs.get(collectionName);
+};
+
+export const saveRagReembedJob = (job: RagReembedJob): Promise<string> => {
+    return db.ragReembedJobs.put(job);
+};
+
+/**
+ * Vectors a re-embedding job has computed so far, keyed by memory ID.
+ */
+export const getRagReembedVectors = async (collectionName: string): Promise<Map<string, number[]>> => {
+    const records = await db.ragReembedVectors.where('key').startsWith(`${collectionName}:`).toArray();
+    return new Map(records.map(r => [r.key.slice(collectionName.length + 1), r.vector]));
+};
+
+export const saveRagReembedVectors = async (collectionName: string, vectors: { memoryId: string; vector: number[] }[]): Promise<void> => {
+    await db.ragReembedVectors.bulkPut(vectors.map(v => ({ key: `${collectionName}:${v.memoryId}`, vector: v.vector })));
+};
+
+/**
+ * Removes a job and its staged vectors, after it finished or was cancelled.
+ */
+export const deleteRagReembedJob = async (collectionName: string): Promise<void> => {
+    await db.transaction('rw', db.ragReembedJobs, db.ragReembedVectors, async () => {
+        await db.ragReembedVectors.where('key').startsWith(`${collectionName}:`).delete();
+        await db.ragReembedJobs.delete(collectionName);
+    });
+};
+
+// --- Tokenizer Functions ---
+export const getAllTokenizers = (): Promise<CustomTokenizer[]> => {
+    return db.tokenizers.orderBy('createdAt').toArray();
+};
+
+export const getTokenizer = (id: string): Promise<CustomTokenizer | undefined> => {
+    return db.tokenizers.get(id);
+};
+
+export const saveTokenizer = (tokenizer: CustomTokenizer): Promise<string> => {
+    return db.tokenizers.put(tokenizer);
+};
+
+export const deleteTokenizer = (id: string): Promise<void> => {
+    return db.tokenizers.delete(id);
 };
 
 // --- Briefing Functions ---
@@ -0,0 +1,94 @@
+import type { DirectiveMilestone, NarrativeDirective } from '../types';
+
+/**
+ * Multi-step Will Engine directives.
+ *
+ * A directive with milestones is pursued one beat at a time. A milestone is open once every
+ * milestone it depends on is completed; the current milestone is the first open one in list
+ * order. Intents, goal slips and verification all work on the current milestone, and the
+ * directive's overall progress is derived from its milestones.
+ */
+
+export const hasMilestones = (directive: Pick<NarrativeDirective, 'milestones'>): boolean =>
+    !!directive.milestones && directive.milestones.length > 0;
+
+/**
+ * Milestones that can be worked on now: not completed, with all dependencies completed.
+ */
+export const getOpenMilestones = (directive: Pick<NarrativeDirective, 'milestones'>): DirectiveMilestone[] => {
+    const milestones = directive.milestones || [];
+    const completed = new Set(milestones.filter(m => m.isCompleted).map(m => m.id));
+    return milestones.filter(m => !m.isCompleted && (m.dependsOn || []).every(id => completed.has(id) || !milestones.some(other => other.id === id)));
+};
+
+export const getCurrentMilestone = (directive: Pick<NarrativeDirective, 'milestones'>): DirectiveMilestone | null =>
+    getOpenMilestones(directive)[0] || null;
+
+/**
+ * Overall progress: each completed milestone counts fully, the current one by its own progress.
+ */
+export const getDirectiveProgress = (directive: NarrativeDirective): number => {
+    if (!hasMilestones(directive)) return directive.progress || 0;
+    const milestones = directive.milestones!;
+    const completedCount = milestones.filter(m => m.isCompleted).length;
+    const current = getCurrentMilestone(directive);
+    return Math.round(((completedCount + (current?.progress || 0) / 100) / milestones.length) * 100);
+};
+
+/**
+ * Describes what the Will Engine should push toward right now, for prompts that take a single goal.
+ */
+export const describeDirectiveFocus = (directive: Pick<NarrativeDirective, 'goal' | 'milestones'>): string => {
+    const current = getCurrentMilestone(directive);
+    if (!current) return directive.goal;
+    return `${current.title} (a step toward the long-term goal: ${directive.goal})`;
+};
+
+/**
+ * Replaces a directive's milestones and recomputes its progress. The directive is completed
+ * once all of its milestones are.
+ */
+export const setDirectiveMilestones = (directive: NarrativeDirective, milestones: DirectiveMilestone[]): NarrativeDirective => {
+    const updated = { ...directive, milestones };
+    if (milestones.length === 0) return updated;
+    return {
+        ...updated,
+        progress: getDirectiveProgress(updated),
+        isCompleted: milestones.every(m => m.isCompleted),
+    };
+};
+
+/**
+ * Applies a verification result, or a manual check-off, to one milestone.
+ */
+export const applyMilestoneVerification = (
+    directive: NarrativeDirective,
+    milestoneId: string,
+    result: { progress: number; isCompleted: boolean }
+): NarrativeDirective => setDirectiveMilestones(directive, (directive.milestones || []).map(m => m.id !== milestoneId ? m : {
+    ...m,
+    progress: result.isCompleted ? 100 : result.progress,
+    isCompleted: result.isCompleted,
+    completedAt: result.isCompleted ? (m.completedAt || Date.now()) : undefined,
+}));
+
+/**
+ * Makes each milestone depend on the one before it, which is how decomposed goals start out.
+ */
+export const chainMilestones = (milestones: DirectiveMilestone[]): DirectiveMilestone[] =>
+    milestones.map((m, index) => ({ ...m, dependsOn: index === 0 ? [] : [milestones[index - 1].id] }));
+
+/**
+ * Removes a milestone. Milestones that depended on it inherit its dependencies, so a chain stays a chain.
+ */
+export const removeMilestone = (milestones: DirectiveMilestone[], milestoneId: string): DirectiveMilestone[] => {
+    const removed = milestones.find(m => m.id === milestoneId);
+    return milestones
+        .filter(m => m.id !== milestoneId)
+        .map(m => {
+            const dependsOn = m.dependsOn || [];
+            if (!dependsOn.includes(milestoneId)) return m;
+            const inherited = [...dependsOn.filter(id => id !== milestoneId), ...(removed?.dependsOn || [])];
+            return { ...m, dependsOn: Array.from(new Set(inherited)) };
+        });
+};
@@ -0,0 +1,112 @@
+import type { DirectiveProgressEntry, Message, NarrativeDirective, TaskMemoryEntry } from '../types';
+
+/**
+ * History of a Will Engine directive: the injections it made (`taskMemory`) and the scores
+ * verification and context analysis gave it (`progressHistory`), placed against message numbers.
+ *
+ * Injections and scores are anchored to a message ID. A message's number is read from the
+ * conversation when the timeline is built, so numbers stay right after messages are deleted;
+ * the stored number is only used when the message no longer exists.
+ */
+
+const MAX_TASK_MEMORY_ENTRIES = 30;
+const MAX_PROGRESS_HISTORY_ENTRIES = 60;
+
+export interface DirectiveTimelineEvent {
+    kind: 'injection' | 'verification' | 'context' | 'manual';
+    timestamp: number;
+    // Undefined for injections recorded before the timeline existed.
+    messageNumber?: number;
+    // Set when the message still exists, so the chat can jump to it.
+    messageId?: string;
+    progress?: number;
+    activationScore?: number;
+    // Milestone a verification judged, for multi-step directives.
+    milestoneId?: string;
+    injection?: TaskMemoryEntry;
+}
+
+/**
+ * Returns the ID and 1-based number of the last message, which scores and injections are anchored to.
+ */
+export const getMessageAnchor = (messages: Message[]): { messageId?: string; messageNumber: number } => ({
+    messageId: messages[messages.length - 1]?.id,
+    messageNumber: messages.length,
+});
+
+export const appendTaskMemory = (directive: NarrativeDirective, entry: TaskMemoryEntry): NarrativeDirective => ({
+    ...directive,
+    taskMemory: [...(directive.taskMemory || []), entry].slice(-MAX_TASK_MEMORY_ENTRIES),
+});
+
+export const appendProgressEntry = (directive: NarrativeDirective, entry: DirectiveProgressEntry): NarrativeDirective => ({
+    ...directive,
+    progressHistory: [...(directive.progressHistory || []), entry].slice(-MAX_PROGRESS_HISTORY_ENTRIES),
+});
+
+/**
+ * Injections the Will Engine should treat as earlier attempts when planning the next one.
+ */
+export const getActiveTaskMemory = (directive: NarrativeDirective): TaskMemoryEntry[] =>
+    (directive.taskMemory || []).filter(entry => !entry.retracted);
+
+/**
+ * Merges a directive's injections and scores into one list, ordered by time.
+ */
+export const buildDirectiveTimeline = (directive: NarrativeDirective, messages: Message[]): DirectiveTimelineEvent[] => {
+    const positions = new Map(messages.map((m, index) => [m.id, index + 1]));
+    const locate = (messageId: string | undefined, storedNumber: number | undefined) => {
+        const position = messageId ? positions.get(messageId) : undefined;
+        return { messageId: position ? messageId : undefined, messageNumber: position ?? storedNumber };
+    };
+
+    const injections: DirectiveTimelineEvent[] = (directive.taskMemory || []).map(entry => ({
+        kind: 'injection',
+        timestamp: entry.injectedAt,
+        ...locate(entry.messageId, entry.messageNumber),
+        injection: entry,
+    }));
+    const checks: DirectiveTimelineEvent[] = (directive.progressHistory || []).map(entry => ({
+        kind: entry.source,
+        timestamp: entry.checkedAt,
+        ...locate(entry.messageId, entry.messageNumber),
+        progress: entry.progress,
+        activationScore: entry.activationScore,
+        milestoneId: entry.milestoneId,
+    }));
+    return [...injections, ...checks].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Marks an injection as retracted. It stays on the timeline but is no longer shown to the
+ * Will Engine as a previous attempt.
+ */
+export const setInjectionRetracted = (directive: NarrativeDirective, injectedAt: number, retracted: boolean): NarrativeDirective => ({
+    ...directive,
+    taskMemory: (directive.taskMemory || []).map(entry => entry.injectedAt === injectedAt ? { ...entry, retracted } : entry),
+});
+
+/**
+ * Sets the progress by hand and keeps it there until unpinned. Verification keeps recording its
+ * scores on the timeline meanwhile.
+ */
+export const pinDirectiveProgress = (directive: NarrativeDirective, progress: number, messages: Message[]): NarrativeDirective => {
+    const value = Math.max(0, Math.min(100, Math.round(progress)));
+    return appendProgressEntry(
+        { ...directive, progress: value, isCompleted: value >= 100, progressPinned: true },
+        { checkedAt: Date.now(), source: 'manual', progress: value, ...getMessageAnchor(messages) }
+    );
+};
+
+export const unpinDirectiveProgress = (directive: NarrativeDirective): NarrativeDirective => ({
+    ...directive,
+    progressPinned: false,
+});
+
+/**
+ * Queues a goal slip for the next response, or cancels a queued one.
+ */
+export const forceGoalSlip = (directive: NarrativeDirective, strategy: NarrativeDirective['forcedSlip']): NarrativeDirective => ({
+    ...directive,
+    forcedSlip: strategy,
+});
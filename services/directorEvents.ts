@@ -0,0 +1,95 @@
+import type { Conversation, DirectorEventRecord, DirectorEventTemplate, WorldState } from '../types';
+
+/**
+ * Director AI event library.
+ *
+ * Before writing an event, the Director picks a template (ambush, arrival, discovery...) at random,
+ * weighted by `weight`, among the templates that are enabled, off cooldown in this conversation and
+ * whose prerequisites match the Conscious State world state. The model then writes an event of
+ * that kind and is shown the latest events so it does not repeat them. With no eligible template
+ * the Director falls back to a free-form event.
+ */
+
+const MAX_DIRECTOR_EVENTS = 30;
+const RECENT_EVENTS_SHOWN = 5;
+
+const includesAny = (value: string | undefined, candidates: string[]) => {
+    const haystack = (value || '').toLowerCase();
+    return candidates.some(c => c.trim() && haystack.includes(c.trim().toLowerCase()));
+};
+
+const meetsPrerequisites = (template: DirectorEventTemplate, world: WorldState | undefined): boolean => {
+    const p = template.prerequisites;
+    if (!p) return true;
+    const hasConditions = p.minTension !== undefined || p.maxTension !== undefined
+        || !!p.timeOfDay?.length || !!p.weather?.length || !!p.keywords?.length;
+    if (!hasConditions) return true;
+    if (!world) return false;
+
+    const tension = world.sceneTension;
+    if (p.minTension !== undefined && (tension === undefined || tension < p.minTension)) return false;
+    if (p.maxTension !== undefined && (tension === undefined || tension > p.maxTension)) return false;
+    if (p.timeOfDay?.length && !includesAny(world.timeOfDay, p.timeOfDay)) return false;
+    if (p.weather?.length && !includesAny(world.weather, p.weather)) return false;
+    if (p.keywords?.length) {
+        const scene = [world.scene_atmosphere, world.external_environment, ...(world.locationHints || [])].join(' ');
+        if (!includesAny(scene, p.keywords)) return false;
+    }
+    return true;
+};
+
+/**
+ * Messages left before a template can be picked again in this conversation; 0 when it is available.
+ */
+export const getTemplateCooldownRemaining = (template: DirectorEventTemplate, conversation: Conversation): number => {
+    const lastUse = [...(conversation.directorEvents || [])].reverse().find(e => e.templateId === template.id);
+    if (!lastUse) return 0;
+    return Math.max(0, template.cooldown - (conversation.messages.length - lastUse.messageNumber));
+};
+
+export const getEligibleTemplates = (library: DirectorEventTemplate[], conversation: Conversation): DirectorEventTemplate[] =>
+    library.filter(t =>
+        t.enabled
+        && t.weight > 0
+        && getTemplateCooldownRemaining(t, conversation) === 0
+        && meetsPrerequisites(t, conversation.consciousState?.world_state)
+    );
+
+/**
+ * Picks an eligible template, weighted by `weight`. Returns null when none is eligible.
+ */
+export const pickEventTemplate = (
+    library: DirectorEventTemplate[],
+    conversation: Conversation,
+    random: () => number = Math.random
+): DirectorEventTemplate | null => {
+    const eligible = getEligibleTemplates(library, conversation);
+    const total = eligible.reduce((sum, t) => sum + t.weight, 0);
+    if (total <= 0) return null;
+    let roll = random() * total;
+    for (const template of eligible) {
+        roll -= template.weight;
+        if (roll < 0) return template;
+    }
+    return eligible[eligible.length - 1];
+};
+
+/**
+ * Texts of the latest events, for the Director prompt.
+ */
+export const getRecentDirectorEvents = (conversation: Conversation): string[] =>
+    (conversation.directorEvents || []).slice(-RECENT_EVENTS_SHOWN).map(e => e.text);
+
+/**
+ * Records an event so its template cools down. Events are recorded when they are created, so a
+ * suggestion that is dismissed still counts.
+ */
+export const recordDirectorEvent = (conversation: Conversation, text: string, template?: DirectorEventTemplate | null): Conversation => {
+    const record: DirectorEventRecord = {
+        templateId: template?.id,
+        text,
+        messageNumber: conversation.messages.length,
+        createdAt: Date.now(),
+    };
+    return { ...conversation, directorEvents: [...(conversation.directorEvents || []), record].slice(-MAX_DIRECTOR_EVENTS) };
+};
@@ -1,4 +1,5 @@
 import type { HuggingFaceSettings } from '../types';
+import { mergeNegativePrompt, type ImageAppearance } from './characterAppearance';
 
 const HUB_API_URL = 'https://huggingface.co/api/models';
 const INFERENCE_API_URL = 'https://api-inference.huggingface.co/models';
@@ -59,18 +60,21 @@ export const fetchAvailableHFModels = async (apiKey: string): Promise<string[]>
     }
 };
 
+// The Inference API has no LoRAs or img2img here, so a scene's appearance only adds negative tags and the seed.
 export const generateImage = async (
     prompt: string,
     settings: HuggingFaceSettings,
-    onProgress: (progress: string) => void
+    onProgress: (progress: string) => void,
+    appearance?: ImageAppearance | null
 ): Promise<string> => {
     onProgress('Preparing request...');
     const payload = {
         inputs: prompt,
         parameters: {
-            negative_prompt: settings.negativePrompt,
+            negative_prompt: mergeNegativePrompt(settings.negativePrompt || '', appearance),
             num_inference_steps: settings.steps,
-            guidance_scale: settings.guidanceScale
+            guidance_scale: settings.guidanceScale,
+            ...(appearance?.seed !== undefined ? { seed: appearance.seed } : {}),
         }
     };
 
@@ -0,0 +1,153 @@
+import type { Conversation, GalleryImage, ImageGenerator, Message, Settings } from '../types';
+import type { ImageAppearance } from './characterAppearance';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * The per-conversation image gallery.
+ *
+ * Generated images are stored in the `images` table with the prompt, generator, seed and
+ * generator settings they were made with; messages only keep the image id, so conversations
+ * stay small. From the gallery an image can be regenerated with a tweaked prompt and seed, varied
+ * (img2img from the image where the generator supports it, otherwise a new seed), upscaled, or
+ * used as a character avatar or the chat background.
+ */
+
+export const GALLERY_KIND_LABELS: Record<GalleryImage['kind'], string> = {
+    generated: 'Generated',
+    regenerated: 'Regenerated',
+    variation: 'Variation',
+    upscaled: 'Upscaled',
+    background: 'Background',
+};
+
+export const GENERATOR_LABELS: Record<ImageGenerator, string> = {
+    comfyui: 'ComfyUI',
+    sdwebui: 'SD WebUI',
+    huggingface: 'Hugging Face',
+    xai: 'XAI',
+};
+
+// How much of the source image a variation keeps.
+export const VARIATION_STRENGTH = 0.6;
+
+export const isImageMessage = (message: Message): boolean => !!(message.imageUrl || message.imageId);
+
+export const createGalleryImage = (fields: Omit<GalleryImage, 'id' | 'createdAt'>): GalleryImage => ({
+    ...fields,
+    id: generateUUID(),
+    createdAt: Date.now(),
+});
+
+/**
+ * The settings an image is made with, for its metadata. Credentials are left out; imported
+ * ComfyUI workflows are recorded by name.
+ */
+export const getGenerationSettingsSnapshot = (
+    generator: ImageGenerator,
+    settings: Settings,
+    workflowName?: string
+): Record<string, string | number | boolean> => {
+    switch (generator) {
+        case 'comfyui': {
+            const c = settings.comfyUI;
+            return {
+                checkpoint: c.checkpoint, sampler: c.sampler, scheduler: c.scheduler, steps: c.steps, cfg: c.cfg,
+                width: c.width, height: c.height,
+                ...(workflowName ? { workflow: workflowName } : {}),
+            };
+        }
+        case 'sdwebui': {
+            const sd = settings.stableDiffusion;
+            return { checkpoint: sd.checkpoint, sampler: sd.sampler, steps: sd.steps, cfg: sd.cfg, width: sd.width, height: sd.height };
+        }
+        case 'huggingface':
+            return { model: settings.huggingFace.model, steps: settings.huggingFace.steps, guidanceScale: settings.huggingFace.guidanceScale };
+        case 'xai':
+            return { model: 'grok-2-image-1212' };
+    }
+};
+
+export const isGeneratorReady = (generator: ImageGenerator, settings: Settings): boolean => {
+    switch (generator) {
+        case 'comfyui': return settings.comfyUI.isConnected;
+        case 'sdwebui': return settings.stableDiffusion.isConnected;
+        case 'huggingface': return settings.huggingFace.isConnected;
+        case 'xai': return !!settings.xaiApiKey;
+    }
+};
+
+// The generator that upscales: the image's own when it can, otherwise ComfyUI or SD WebUI.
+export const getUpscaler = (image: GalleryImage, settings: Settings): 'comfyui' | 'sdwebui' | null => {
+    const comfyReady = settings.comfyUI.isConnected && !!settings.comfyUI.upscaleModel;
+    const sdReady = settings.stableDiffusion.isConnected;
+    if (image.generator === 'comfyui' && comfyReady) return 'comfyui';
+    if (image.generator === 'sdwebui' && sdReady) return 'sdwebui';
+    return comfyReady ? 'comfyui' : sdReady ? 'sdwebui' : null;
+};
+
+/**
+ * The scene's appearance with a gallery action's overrides: a seed to reuse or change, and for
+ * variations the source image as the reference.
+ */
+export const withImageOverrides = (
+    appearance: ImageAppearance | null,
+    overrides: { seed?: number; referenceImage?: string; referenceStrength?: number }
+): ImageAppearance | null => {
+    if (!appearance && overrides.seed === undefined && !overrides.referenceImage) return appearance;
+    const base: ImageAppearance = appearance || { characterNames: [], loras: [], negativeTags: '', referenceStrength: VARIATION_STRENGTH };
+    return {
+        ...base,
+        seed: overrides.seed ?? base.seed,
+        referenceImage: overrides.referenceImage ?? base.referenceImage,
+        referenceStrength: overrides.referenceImage ? (overrides.referenceStrength ?? VARIATION_STRENGTH) : base.referenceStrength,
+    };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000_000);
+
+/**
+ * Copies the gallery images of an exported conversation into the conversation it's imported into.
+ * The copies get new ids, so an import never takes over another conversation's images, and the
+ * messages and derived images are pointed at them.
+ */
+export const importGalleryImages = (
+    conversationId: string,
+    messages: Message[],
+    images: GalleryImage[] = []
+): { messages: Message[]; images: GalleryImage[] } => {
+    const newIds = new Map(images.map(image => [image.id, generateUUID()]));
+    return {
+        messages: messages.map(m => m.imageId && newIds.has(m.imageId) ? { ...m, imageId: newIds.get(m.imageId) } : m),
+        images: images.map(image => ({
+            ...image,
+            id: newIds.get(image.id)!,
+            conversationId,
+            parentId: image.parentId && newIds.has(image.parentId) ? newIds.get(image.parentId) : image.parentId,
+        })),
+    };
+};
+
+/**
+ * Moves data URL images out of a conversation's messages into gallery records. Used by the
+ * database upgrade, and for restored backups and imported conversations from before the gallery.
+ */
+export const extractInlineImages = (conversation: Conversation): { conversation: Conversation; images: GalleryImage[] } => {
+    const images: GalleryImage[] = [];
+    const messages = conversation.messages.map(message => {
+        if (!message.imageUrl || message.imageId) return message;
+        const image: GalleryImage = {
+            id: generateUUID(),
+            conversationId: conversation.id,
+            messageId: message.id,
+            dataUrl: message.imageUrl,
+            prompt: message.content,
+            generator: message.imageGenerator || 'comfyui',
+            kind: 'generated',
+            createdAt: message.timestamp,
+        };
+        images.push(image);
+        const { imageUrl: _imageUrl, ...rest } = message;
+        return { ...rest, imageId: image.id };
+    });
+    return { conversation: images.length > 0 ? { ...conversation, messages } : conversation, images };
+};
@@ -0,0 +1,114 @@
+import type { Conversation, ConversationFact, FactContradiction, FactProposal, Message, RejectedFactProposal } from '../types';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * Key Facts automation.
+ *
+ * The fact miner reads the messages since its last run and proposes new facts, each with the
+ * messages it was established in; proposals wait in Author's Note → Key Facts until accepted.
+ * Rejected proposals are remembered, so the miner does not propose them again.
+ * The contradiction check compares each model reply with the active facts and adds a suggestion
+ * card per contradicted fact, offering to regenerate the reply with a reminder of the fact or to
+ * update the fact when the story really changed it.
+ */
+
+export const DEFAULT_KEY_FACTS_CONFIG: NonNullable<NonNullable<Conversation['smartSystemConfig']>['keyFacts']> = {
+    autoExtract: false,
+    extractFrequency: 4,
+    checkContradictions: false,
+};
+
+export const getKeyFactsConfig = (conversation: Conversation) => ({
+    ...DEFAULT_KEY_FACTS_CONFIG,
+    ...(conversation.smartSystemConfig?.keyFacts || {}),
+});
+
+export const getActiveFacts = (conversation: Conversation): ConversationFact[] =>
+    (conversation.facts || []).filter(f => f.isActive);
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Everything the miner already knows about: facts, waiting proposals and rejected proposals.
+export const getKnownFactContents = (conversation: Conversation): string[] => [
+    ...(conversation.facts || []).map(f => f.content),
+    ...(conversation.factProposals || []).map(p => p.content),
+    ...(conversation.rejectedFactProposals || []).map(p => p.content),
+];
+
+/**
+ * Adds proposals, skipping ones already in the fact list, the queue or the rejected list. Returns the new proposals too.
+ */
+export const queueFactProposals = (
+    conversation: Conversation,
+    facts: Pick<FactProposal, 'content' | 'category' | 'sourceMessageIds'>[]
+): { conversation: Conversation; added: FactProposal[] } => {
+    const known = new Set(getKnownFactContents(conversation).map(normalize));
+    const added: FactProposal[] = [];
+    for (const fact of facts) {
+        const key = normalize(fact.content);
+        if (!key || known.has(key)) continue;
+        known.add(key);
+        added.push({ ...fact, id: generateUUID(), createdAt: Date.now() });
+    }
+    if (added.length === 0) return { conversation, added };
+    return { conversation: { ...conversation, factProposals: [...(conversation.factProposals || []), ...added] }, added };
+};
+
+export const toRejectedFactProposal = ({ content, sourceMessageIds }: FactProposal): RejectedFactProposal => ({ content, sourceMessageIds });
+
+export const createFactFromProposal = (proposal: FactProposal): ConversationFact => ({
+    id: generateUUID(),
+    content: proposal.content,
+    addedAt: Date.now(),
+    category: proposal.category,
+    isActive: true,
+    injectMode: proposal.injectMode,
+    sourceMessageIds: proposal.sourceMessageIds,
+});
+
+// The messages the miner has not read yet: those after the newest source of a fact or proposal (rejected ones too), at most `limit`.
+export const getUnminedMessages = (conversation: Conversation, limit: number): Message[] => {
+    const messages = conversation.messages.filter(m => !m.suggestion && !m.isTemporary && m.content.trim());
+    const sourceIds = new Set([
+        ...(conversation.facts || []).flatMap(f => f.sourceMessageIds || []),
+        ...(conversation.factProposals || []).flatMap(p => p.sourceMessageIds),
+        ...(conversation.rejectedFactProposals || []).flatMap(p => p.sourceMessageIds),
+    ]);
+    let lastSourceIndex = -1;
+    messages.forEach((m, i) => { if (sourceIds.has(m.id)) lastSourceIndex = i; });
+    return messages.slice(lastSourceIndex + 1).slice(-limit);
+};
+
+export const createContradictionSuggestion = (reply: Message, contradiction: FactContradiction): Message => ({
+    id: generateUUID(),
+    role: 'model',
+    content: '',
+    timestamp: Date.now(),
+    suggestion: {
+        type: 'factContradiction',
+        title: 'Continuity: reply contradicts a Key Fact',
+        text: contradiction.explanation,
+        targetId: reply.id,
+        factContradiction: contradiction,
+    },
+});
+
+/**
+ * One-time instruction for regenerating a reply that contradicted a fact.
+ */
+export const buildFactReminder = (contradiction: FactContradiction): string =>
+    `Keep continuity with this established fact: "${contradiction.factContent}". Your previous attempt contradicted it (${contradiction.explanation}). Write the reply so it is consistent with the fact.`;
+
+/**
+ * Rewrites a fact after the story changed it; the reply that changed it becomes one of its sources.
+ */
+export const updateFactContent = (conversation: Conversation, factId: string, content: string, sourceMessageId?: string): Conversation => ({
+    ...conversation,
+    facts: (conversation.facts || []).map(f => f.id === factId
+        ? {
+            ...f,
+            content,
+            sourceMessageIds: sourceMessageId ? Array.from(new Set([...(f.sourceMessageIds || []), sourceMessageId])) : f.sourceMessageIds,
+        }
+        : f),
+});
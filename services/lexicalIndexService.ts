@@ -0,0 +1,98 @@
+import type { RagLexicalIndex, RagLexicalDocument, RagMemory } from '../types';
+
+/**
+ * BM25 keyword index for RAG collections.
+ *
+ * Names, places and invented words often embed poorly, so vector search alone misses memories
+ * about a specific NPC. The keyword index catches exact term matches and is fused with the
+ * vector results in ragService. It needs no embedding engine, so it also serves as a fallback.
+ */
+
+// Standard Okapi BM25 parameters: term-frequency saturation and document-length normalization.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// The most frequent English function words, plus the role labels stored turns start with.
+// Terms shorter than two characters are dropped as well.
+const STOPWORDS = new Set([
+  'the', 'and', 'or', 'but', 'a', 'an', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'am', 'it', 'its', 'this', 'that', 'these', 'those',
+  'he', 'she', 'they', 'we', 'you', 'i', 'me', 'him', 'her', 'them', 'us', 'my', 'your', 'his', 'their', 'our',
+  'do', 'does', 'did', 'have', 'has', 'had', 'not', 'no', 'so', 'if', 'then', 'than', 'there', 'here',
+  'what', 'which', 'who', 'when', 'where', 'how', 'into', 'out', 'up', 'down', 'about', 'just', 'can', 'will',
+  'user', 'model',
+]);
+
+/**
+ * Splits text into lowercase index terms. Unicode-aware, so Arabic and other scripts are indexed too.
+ */
+export const tokenizeForLexicalIndex = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []).filter(term => term.length > 1 && !STOPWORDS.has(term));
+
+// Tags and relation endpoints are usually the names the user will type.
+const getIndexedText = (memory: RagMemory): string => [
+  memory.fullText,
+  (memory.tags || []).map(t => t.value).join(' '),
+  (memory.relations || []).map(r => `${r.subject} ${r.object}`).join(' '),
+].join('\n');
+
+/**
+ * Builds the keyword index of a collection from its memories.
+ */
+export const buildLexicalIndex = (collectionName: string, memories: RagMemory[]): RagLexicalIndex => {
+  const documentFrequencies: Record<string, number> = {};
+  const documents: RagLexicalDocument[] = memories.map(memory => {
+    const terms = tokenizeForLexicalIndex(getIndexedText(memory));
+    const termFrequencies: Record<string, number> = {};
+    for (const term of terms) {
+      termFrequencies[term] = (termFrequencies[term] || 0) + 1;
+    }
+    for (const term of Object.keys(termFrequencies)) {
+      documentFrequencies[term] = (documentFrequencies[term] || 0) + 1;
+    }
+    return { memoryId: memory.id, length: terms.length, termFrequencies };
+  });
+
+  const totalLength = documents.reduce((sum, d) => sum + d.length, 0);
+  return {
+    collectionName,
+    documentCount: documents.length,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    documentFrequencies,
+    documents,
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * Ranks the memories of an index against a query with BM25.
+ * @param index - The collection's keyword index.
+ * @param query - Free text; tokenized the same way as the documents.
+ * @param limit - Maximum number of hits to return.
+ * @returns Hits with a positive score, best first.
+ */
+export const searchLexicalIndex = (index: RagLexicalIndex, query: string, limit: number): { memoryId: string; score: number }[] => {
+  const queryTerms = Array.from(new Set(tokenizeForLexicalIndex(query)))
+    .filter(term => index.documentFrequencies[term]);
+  if (queryTerms.length === 0 || index.documentCount === 0) return [];
+
+  const idf = new Map<string, number>(queryTerms.map(term => {
+    const df = index.documentFrequencies[term];
+    return [term, Math.log(1 + (index.documentCount - df + 0.5) / (df + 0.5))];
+  }));
+  const averageLength = index.averageLength || 1;
+
+  const hits: { memoryId: string; score: number }[] = [];
+  for (const doc of index.documents) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.termFrequencies[term];
+      if (!tf) continue;
+      const lengthNorm = 1 - BM25_B + BM25_B * (doc.length / averageLength);
+      score += idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+    }
+    if (score > 0) hits.push({ memoryId: doc.memoryId, score });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+};
@@ -0,0 +1,146 @@
+import type { Character, Conversation, LivingLoreField, LivingLoreProposal, LivingLoreUpdate } from '../types';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * Living Lore review queue.
+ *
+ * Instead of applying a rewrite of the character sheet wholesale, Living Lore queues it on the
+ * conversation. The review shows each field as a line diff against the character's current text;
+ * every changed block (hunk) can be accepted or kept as it is. Applied changes are saved as
+ * character revisions (see characterRevisions.ts), so they can be restored later.
+ */
+
+export const LIVING_LORE_FIELDS: { field: LivingLoreField; label: string }[] = [
+    { field: 'description', label: 'Description' },
+    { field: 'exampleDialogue', label: 'Example Dialogue' },
+    { field: 'authorNote', label: "Author's Note (Private)" },
+];
+
+export interface DiffHunk {
+    id: string;
+    removed: string[];
+    added: string[];
+}
+
+export type DiffSegment = { type: 'equal'; lines: string[] } | { type: 'change'; hunk: DiffHunk };
+
+const splitLines = (text: string): string[] => (text ? text.split('\n') : []);
+
+/**
+ * Line diff (longest common subsequence). Consecutive removed/added lines form one hunk; hunk ids
+ * are `${idPrefix}:${index}` so a selection can cover several fields.
+ */
+export const diffLines = (oldText: string, newText: string, idPrefix: string): DiffSegment[] => {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let hunkCount = 0;
+    const last = () => segments[segments.length - 1];
+    const pushEqual = (line: string) => {
+        const segment = last();
+        if (segment?.type === 'equal') segment.lines.push(line);
+        else segments.push({ type: 'equal', lines: [line] });
+    };
+    const currentHunk = (): DiffHunk => {
+        const segment = last();
+        if (segment?.type === 'change') return segment.hunk;
+        const hunk: DiffHunk = { id: `${idPrefix}:${hunkCount++}`, removed: [], added: [] };
+        segments.push({ type: 'change', hunk });
+        return hunk;
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            pushEqual(a[i]);
+            i++; j++;
+        } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            currentHunk().added.push(b[j++]);
+        } else {
+            currentHunk().removed.push(a[i++]);
+        }
+    }
+    return segments;
+};
+
+export const getHunks = (segments: DiffSegment[]): DiffHunk[] =>
+    segments.flatMap(s => (s.type === 'change' ? [s.hunk] : []));
+
+/**
+ * Rebuilds the text, taking the new lines of accepted hunks and the old lines of the others.
+ */
+export const applyHunks = (segments: DiffSegment[], acceptedHunkIds: Set<string>): string =>
+    segments
+        .flatMap(s => (s.type === 'equal' ? s.lines : acceptedHunkIds.has(s.hunk.id) ? s.hunk.added : s.hunk.removed))
+        .join('\n');
+
+/**
+ * Diffs of a proposal against the character as it is now, per field. Fields the model left empty
+ * are not offered.
+ */
+export const diffProposal = (character: Character, proposal: LivingLoreProposal): { field: LivingLoreField; segments: DiffSegment[] }[] =>
+    LIVING_LORE_FIELDS
+        .filter(({ field }) => proposal.update[field] && proposal.update[field] !== character[field])
+        .map(({ field }) => ({ field, segments: diffLines(character[field] || '', proposal.update[field], field) }));
+
+export const getProposalHunkIds = (character: Character, proposal: LivingLoreProposal): string[] =>
+    diffProposal(character, proposal).flatMap(d => getHunks(d.segments).map(h => h.id));
+
+/**
+ * Applies the accepted hunks of a proposal to the character and appends the change to its event
+ * log. Returns the same object when no hunk was accepted.
+ */
+export const applyLivingLoreProposal = (character: Character, proposal: LivingLoreProposal, acceptedHunkIds: Set<string>): Character => {
+    const updated: Character = { ...character };
+    for (const { field, segments } of diffProposal(character, proposal)) {
+        updated[field] = applyHunks(segments, acceptedHunkIds);
+    }
+    const changed = LIVING_LORE_FIELDS.some(({ field }) => updated[field] !== character[field]);
+    if (!changed) return character;
+    updated.events = `${character.events || ''}\n- [${new Date().toLocaleString()}] ${proposal.summaryOfChange}`.trim();
+    return updated;
+};
+
+export const queueLivingLoreProposal = (
+    conversation: Conversation,
+    character: Character,
+    summaryOfChange: string,
+    update: LivingLoreUpdate
+): Conversation => {
+    const proposal: LivingLoreProposal = {
+        id: generateUUID(),
+        createdAt: Date.now(),
+        characterId: character.id,
+        characterName: character.name,
+        summaryOfChange,
+        sourceMessageId: [...conversation.messages].reverse().find(m => !m.suggestion)?.id,
+        update,
+    };
+    return { ...conversation, livingLoreQueue: [...(conversation.livingLoreQueue || []), proposal] };
+};
+
+export const removeLivingLoreProposals = (conversation: Conversation, proposalIds: string[]): Conversation => ({
+    ...conversation,
+    livingLoreQueue: (conversation.livingLoreQueue || []).filter(p => !proposalIds.includes(p.id)),
+});
+
+/**
+ * Only the oldest pending proposal of a character can be reviewed: each one is a rewrite of the
+ * whole sheet, so the next is diffed against the sheet after the previous one is resolved.
+ */
+export const getReviewableProposals = (queue: LivingLoreProposal[]): LivingLoreProposal[] => {
+    const seen = new Set<string>();
+    return queue.filter(p => {
+        if (seen.has(p.characterId)) return false;
+        seen.add(p.characterId);
+        return true;
+    });
+};
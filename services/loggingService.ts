@@ -6,6 +6,15 @@ const LOG_QUEUE: Omit<LogEntry, 'id'>[] = [];
 let isProcessingQueue = false;
 // How often to check the queue and write to the database (in milliseconds).
 const BATCH_INTERVAL = 3000; // Write logs every 3 seconds
+// Off in the headless Telegram relay, which runs in Node without IndexedDB and logs to the console only.
+let persistLogs = true;
+
+/**
+ * Turns writing logs to IndexedDB on or off. Console output is unaffected.
+ */
+export const setLogPersistence = (enabled: boolean) => {
+  persistLogs = enabled;
+};
 
 /**
  * Asynchronously processes the log queue, writing all pending logs to IndexedDB in a single batch.
@@ -79,6 +88,7 @@ export const log = (
       case 'DEBUG': console.debug(...consoleArgs); break;
   }
   
+  if (!persistLogs) return;
   LOG_QUEUE.push(entry);
 
   // If the queue processing isn't already running, kick it off.
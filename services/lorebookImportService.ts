@@ -0,0 +1,299 @@
+import type { Lorebook, LorebookEntry, LoreSecondaryLogic } from '../types';
+import { generateUUID } from '../utils/uuid';
+import { splitLoreKeys } from './ai/promptBuilder';
+import { log } from './loggingService';
+
+/**
+ * Lorebook import/export for the formats used by other frontends:
+ * - SillyTavern World Info files (`{ entries: { [uid]: {...} } }`)
+ * - NovelAI lorebooks (`{ lorebookVersion, entries: [...] }`)
+ * - Tavern Card V2/V3 `character_book` objects (also found inside whole cards)
+ * - This app's own Lorebook JSON
+ *
+ * Activation fields (secondary keys, logic, order, scan depth...) are preserved so that
+ * findActiveLoreEntries behaves like the source frontend.
+ */
+
+export type LorebookSourceFormat = 'sillytavern' | 'novelai' | 'character_book' | 'native';
+
+export interface ImportedLorebook {
+  lorebook: Lorebook;
+  format: LorebookSourceFormat;
+  skippedEntries: number;
+}
+
+// --- Tavern Card character_book ---
+
+export interface CharacterBookEntry {
+  keys: string[];
+  content: string;
+  extensions?: Record<string, any>;
+  enabled?: boolean;
+  insertion_order?: number;
+  case_sensitive?: boolean;
+  use_regex?: boolean; // V3
+  name?: string;
+  comment?: string;
+  priority?: number;
+  id?: number | string;
+  selective?: boolean;
+  secondary_keys?: string[];
+  constant?: boolean;
+  position?: 'before_char' | 'after_char';
+}
+
+export interface CharacterBook {
+  name?: string;
+  description?: string;
+  scan_depth?: number;
+  token_budget?: number;
+  recursive_scanning?: boolean;
+  extensions?: Record<string, any>;
+  entries: CharacterBookEntry[];
+}
+
+// SillyTavern stores selective logic as a number (world_info_logic).
+const ST_SELECTIVE_LOGIC: LoreSecondaryLogic[] = ['AND_ANY', 'NOT_ALL', 'NOT_ANY', 'AND_ALL'];
+
+// NovelAI measures its search range in characters; we scan whole messages.
+const NOVELAI_CHARS_PER_MESSAGE = 500;
+const NOVELAI_DEFAULT_SEARCH_RANGE = 1000;
+const NOVELAI_DEFAULT_PRIORITY = 400;
+
+const toLogic = (value: unknown): LoreSecondaryLogic | undefined =>
+  typeof value === 'number' ? ST_SELECTIVE_LOGIC[value] : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const optionalBoolean = (value: unknown): boolean | undefined =>
+  typeof value === 'boolean' ? value : undefined;
+
+const joinKeys = (keys: unknown): string =>
+  Array.isArray(keys) ? keys.map(k => String(k).trim()).filter(Boolean).join(', ') : String(keys || '');
+
+/** Drops undefined fields so imported entries stay as small as hand-made ones. */
+const compactEntry = (entry: LorebookEntry): LorebookEntry =>
+  Object.fromEntries(Object.entries(entry).filter(([, v]) => v !== undefined)) as unknown as LorebookEntry;
+
+const characterBookEntryToLoreEntry = (e: CharacterBookEntry): LorebookEntry => {
+  const ext = e.extensions || {};
+  const caseSensitive = optionalBoolean(e.case_sensitive) ?? optionalBoolean(ext.case_sensitive);
+  // V3 regex keys are bare patterns; store them in the /pattern/flags form the matcher understands.
+  const toKeys = (keys: string[] | undefined) => e.use_regex
+    ? (keys || []).map(k => `/${k}/${caseSensitive ? '' : 'i'}`).join(', ')
+    : joinKeys(keys);
+  return compactEntry({
+    id: generateUUID(),
+    keywords: toKeys(e.keys),
+    content: e.content,
+    name: e.name || e.comment || undefined,
+    enabled: e.enabled === false ? false : undefined,
+    constant: e.constant || undefined,
+    secondaryKeywords: e.selective !== false && e.secondary_keys?.length ? toKeys(e.secondary_keys) : undefined,
+    secondaryLogic: toLogic(ext.selectiveLogic),
+    caseSensitive,
+    matchWholeWords: optionalBoolean(ext.match_whole_words),
+    scanDepth: optionalNumber(ext.scan_depth),
+    order: optionalNumber(e.insertion_order) ?? optionalNumber(e.priority),
+    excludeRecursion: ext.exclude_recursion || undefined,
+    preventRecursion: ext.prevent_recursion || undefined,
+  });
+};
+
+/**
+ * Converts a Tavern Card `character_book` into a Lorebook. Disabled entries are kept (disabled)
+ * so they can be re-enabled in the editor; entries without content are dropped.
+ * @returns The lorebook, or null if the book has no usable entries.
+ */
+export const characterBookToLorebook = (book: CharacterBook, fallbackName: string): Lorebook | null => {
+  const entries = (book.entries || [])
+    .filter(e => e && typeof e.content === 'string' && e.content.trim())
+    .map(characterBookEntryToLoreEntry);
+  if (entries.length === 0) return null;
+  return {
+    id: generateUUID(),
+    createdAt: Date.now(),
+    name: book.name || fallbackName,
+    description: book.description || '',
+    entries,
+    scanDepth: optionalNumber(book.scan_depth),
+    tokenBudget: optionalNumber(book.token_budget),
+  };
+};
+
+/**
+ * Builds a Tavern Card `character_book` from lorebooks. Fields without a spec equivalent
+ * are written to the SillyTavern extension keys.
+ */
+export const lorebooksToCharacterBook = (lorebooks: Lorebook[]): CharacterBook => {
+  let id = 0;
+  const entries: CharacterBookEntry[] = lorebooks.flatMap(lb => lb.entries).map(entry => {
+    const secondaryKeys = splitLoreKeys(entry.secondaryKeywords);
+    return {
+      keys: splitLoreKeys(entry.keywords),
+      content: entry.content,
+      extensions: {
+        selectiveLogic: ST_SELECTIVE_LOGIC.indexOf(entry.secondaryLogic || 'AND_ANY'),
+        match_whole_words: entry.matchWholeWords ?? null,
+        scan_depth: entry.scanDepth ?? null,
+        exclude_recursion: entry.excludeRecursion ?? false,
+        prevent_recursion: entry.preventRecursion ?? false,
+      },
+      enabled: entry.enabled !== false,
+      insertion_order: entry.order ?? 100,
+      case_sensitive: entry.caseSensitive,
+      name: entry.name,
+      comment: entry.name,
+      id: id++,
+      selective: secondaryKeys.length > 0,
+      secondary_keys: secondaryKeys,
+      constant: entry.constant ?? false,
+    };
+  });
+  const budgets = lorebooks.map(lb => lb.tokenBudget).filter((b): b is number => !!b);
+  const depths = lorebooks.map(lb => lb.scanDepth).filter((d): d is number => d !== undefined);
+  return {
+    name: lorebooks.map(lb => lb.name).join(' + '),
+    scan_depth: depths.length > 0 ? Math.max(...depths) : undefined,
+    token_budget: budgets.length > 0 ? budgets.reduce((sum, b) => sum + b, 0) : undefined,
+    entries,
+    extensions: {},
+  };
+};
+
+// --- SillyTavern World Info ---
+
+const parseSillyTavernWorldInfo = (json: any): { entries: LorebookEntry[]; skipped: number } => {
+  const raw = Object.values(json.entries || {}) as any[];
+  const entries = raw
+    .filter(e => e && typeof e.content === 'string' && e.content.trim())
+    .map(e => compactEntry({
+      id: generateUUID(),
+      keywords: joinKeys(e.key),
+      content: e.content,
+      name: e.comment || undefined,
+      enabled: e.disable ? false : undefined,
+      constant: e.constant || undefined,
+      secondaryKeywords: e.selective !== false && e.keysecondary?.length ? joinKeys(e.keysecondary) : undefined,
+      secondaryLogic: toLogic(e.selectiveLogic),
+      caseSensitive: optionalBoolean(e.caseSensitive),
+      matchWholeWords: optionalBoolean(e.matchWholeWords),
+      scanDepth: optionalNumber(e.scanDepth),
+      order: optionalNumber(e.order),
+      excludeRecursion: e.excludeRecursion || undefined,
+      preventRecursion: e.preventRecursion || undefined,
+    }));
+  return { entries, skipped: raw.length - entries.length };
+};
+
+// --- NovelAI ---
+
+const parseNovelAILorebook = (json: any): { entries: LorebookEntry[]; skipped: number } => {
+  const raw = (json.entries || []) as any[];
+  const entries = raw
+    .filter(e => e && typeof e.text === 'string' && e.text.trim())
+    .map(e => compactEntry({
+      id: generateUUID(),
+      keywords: joinKeys(e.keys),
+      content: e.text,
+      name: e.displayName || undefined,
+      enabled: e.enabled === false ? false : undefined,
+      constant: e.forceActivation || undefined,
+      scanDepth: Math.max(1, Math.ceil((optionalNumber(e.searchRange) ?? NOVELAI_DEFAULT_SEARCH_RANGE) / NOVELAI_CHARS_PER_MESSAGE)),
+      order: optionalNumber(e.contextConfig?.budgetPriority) ?? NOVELAI_DEFAULT_PRIORITY,
+    }));
+  return { entries, skipped: raw.length - entries.length };
+};
+
+// --- Detection ---
+
+const detectFormat = (json: any): LorebookSourceFormat => {
+  if (!json || typeof json !== 'object') throw new Error('The file does not contain a lorebook.');
+  if (typeof json.lorebookVersion === 'number') return 'novelai';
+  if (json.entries && !Array.isArray(json.entries) && typeof json.entries === 'object') return 'sillytavern';
+  if (json.spec === 'chara_card_v2' || json.spec === 'chara_card_v3' || json.spec === 'lorebook_v3') return 'character_book';
+  if (Array.isArray(json.entries)) {
+    const first = json.entries[0];
+    if (!first || typeof first.keywords === 'string') return 'native';
+    if (Array.isArray(first.keys)) return 'character_book';
+  }
+  throw new Error('Unrecognized lorebook format. Supported: SillyTavern World Info, NovelAI, Character Card books.');
+};
+
+/**
+ * Parses a lorebook file from another frontend (or this app) into a new Lorebook.
+ * @param text - The raw JSON file content.
+ * @param fileName - Used as the book name when the file carries none.
+ * @throws Error with a user-facing message if the file is not a supported lorebook.
+ */
+export const parseLorebookFile = (text: string, fileName: string): ImportedLorebook => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const format = detectFormat(json);
+  const fallbackName = fileName.replace(/\.(json|lorebook)$/i, '') || 'Imported Lorebook';
+  let lorebook: Lorebook | null = null;
+  let skippedEntries = 0;
+
+  switch (format) {
+    case 'sillytavern': {
+      const { entries, skipped } = parseSillyTavernWorldInfo(json);
+      skippedEntries = skipped;
+      lorebook = {
+        id: generateUUID(),
+        createdAt: Date.now(),
+        name: json.name || fallbackName,
+        description: json.description || 'Imported from SillyTavern World Info.',
+        entries,
+      };
+      break;
+    }
+    case 'novelai': {
+      const { entries, skipped } = parseNovelAILorebook(json);
+      skippedEntries = skipped;
+      lorebook = {
+        id: generateUUID(),
+        createdAt: Date.now(),
+        name: fallbackName,
+        description: 'Imported from NovelAI.',
+        entries,
+      };
+      break;
+    }
+    case 'character_book': {
+      const book: CharacterBook = json.spec === 'lorebook_v3' || (json.spec && json.data?.entries)
+        ? json.data
+        : json.spec ? json.data?.character_book : json;
+      if (!book) throw new Error('This character card has no embedded lorebook.');
+      lorebook = characterBookToLorebook(book, json.data?.name ? `${json.data.name} (Card Lorebook)` : fallbackName);
+      skippedEntries = (book.entries?.length || 0) - (lorebook?.entries.length || 0);
+      break;
+    }
+    case 'native': {
+      lorebook = {
+        ...json,
+        id: generateUUID(),
+        createdAt: Date.now(),
+        name: json.name || fallbackName,
+        description: json.description || '',
+        entries: json.entries
+          .filter((e: any) => e && typeof e.content === 'string')
+          .map((e: any) => ({ ...e, id: generateUUID(), keywords: e.keywords || '' })),
+      };
+      skippedEntries = json.entries.length - lorebook!.entries.length;
+      break;
+    }
+  }
+
+  if (!lorebook || lorebook.entries.length === 0) {
+    throw new Error('The lorebook has no entries with content.');
+  }
+
+  log('INFO', 'LORE', `Imported lorebook "${lorebook.name}"`, { format, entries: lorebook.entries.length, skippedEntries });
+  return { lorebook, format, skippedEntries };
+};
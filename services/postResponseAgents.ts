@@ -0,0 +1,392 @@
+import type { DirectiveProgressEntry, Message, NarrativeDirective } from '../types';
+import type { AgentDefinition, AgentNotification } from './agentScheduler';
+import {
+    generateConversationTitle,
+    updateConversationState,
+    updateConversationStateV2,
+    getLivingLoreSuggestion,
+    getLiveCharacterUpdateAsJson,
+    getDirectorSuggestion,
+    verifyDirectiveProgress,
+    analyzeDirectiveContext,
+    analyzeDirectorNeed,
+    checkStoryArcEvents,
+    mineConversationFacts,
+    checkFactContradictions,
+    analyzeLivingLoreSignificance,
+    analyzeEmotionalDynamics,
+} from './aiService';
+import { appendProgressEntry, getMessageAnchor } from './directiveTimeline';
+import { applyMilestoneVerification } from './directiveMilestones';
+import { recordStateSnapshot } from './consciousStateHistory';
+import { getRecentDirectorEvents, pickEventTemplate, recordDirectorEvent } from './directorEvents';
+import { queueLivingLoreProposal } from './livingLoreQueue';
+import { createContradictionSuggestion, getActiveFacts, getKeyFactsConfig, getKnownFactContents, getUnminedMessages, queueFactProposals } from './keyFacts';
+import { isImageMessage } from './imageGallery';
+import {
+    confirmLevelUp,
+    dismissLevelUp,
+    evaluateLevelMilestones,
+    getPendingEventMilestones,
+    getStoryArcLevel,
+    isStoryArcSnoozed,
+    markMilestonesReached,
+    proposeLevelUp,
+    usesMilestones,
+} from './storyArcProgress';
+import { generateUUID } from '../utils/uuid';
+
+/**
+ * The agents that run after every model response in the chat. They are registered with an
+ * agent scheduler (see agentScheduler.ts) in this order; dependencies refer to agents above them.
+ */
+
+const titleAgent: AgentDefinition = {
+    id: 'title',
+    name: 'Conversation Title',
+    trigger: ({ conversation }) =>
+        conversation.messages.length === 2 && conversation.title === 'New Conversation' ? { type: 'everyTurn' } : null,
+    run: async ({ conversation, commit }) => {
+        const title = await generateConversationTitle(conversation.messages[0].content, conversation.messages[1].content);
+        await commit(c => ({ ...c, title }));
+    },
+};
+
+const consciousStateAgent: AgentDefinition = {
+    id: 'consciousState',
+    name: 'Conscious State',
+    trigger: ({ conversation, characters, settings }) => {
+        if (!conversation.consciousStateSettings?.enabled || characters.length === 0) return null;
+        const smartConfig = conversation.smartSystemConfig?.consciousState;
+        if (smartConfig?.mode === 'smart') {
+            return {
+                type: 'smartGate',
+                gate: async ({ conversation, characters }) => {
+                    const analysis = await analyzeEmotionalDynamics(conversation.messages.slice(-8), conversation.consciousState, characters, settings);
+                    if (analysis.shouldUpdate && analysis.reason) {
+                        console.log(`[Conscious State] Emotional dynamics changed (score: ${analysis.changeScore}): ${analysis.reason}`);
+                    }
+                    return analysis.changeScore >= (smartConfig.emotionalChangeThreshold || 50);
+                },
+            };
+        }
+        return { type: 'everyNTurns', interval: smartConfig?.frequencyValue || conversation.consciousStateSettings.updateFrequency };
+    },
+    run: async ({ conversation, characters, settings, commit }) => {
+        const recentMessages = conversation.messages.slice(-conversation.consciousStateSettings!.scanDepth);
+        const currentState = conversation.consciousState || null;
+        const engineVersion = conversation.smartSystemConfig?.consciousState?.engineVersion || 'v1';
+
+        if (engineVersion === 'shadow') {
+            // V2 only runs for comparison in the logs; V1 stays authoritative.
+            updateConversationStateV2(currentState, recentMessages, characters, settings)
+                .then(newStateV2 => console.log('[Conscious State][Shadow] V2 result:', newStateV2))
+                .catch(err => console.warn('Shadow V2 failed:', err));
+        }
+        const newState = engineVersion === 'v2'
+            ? await updateConversationStateV2(currentState, recentMessages, characters, settings)
+            : await updateConversationState(currentState, recentMessages, characters);
+        const anchorId = conversation.messages[conversation.messages.length - 1]?.id;
+        // A reply that was regenerated while the engine ran no longer counts toward the state.
+        await commit(c => c.messages.some(m => m.id === anchorId)
+            ? recordStateSnapshot(c, newState, 'engine', engineVersion === 'v2' ? 'v2' : 'v1', conversation.messages)
+            : c);
+    },
+};
+
+const livingLoreAgent: AgentDefinition = {
+    id: 'livingLore',
+    name: 'Living Lore',
+    trigger: ({ conversation, characters, settings }) => {
+        if (!settings.livingLore.enabled || !settings.livingLore.automatic || characters.length === 0) return null;
+        const smartConfig = conversation.smartSystemConfig?.livingLore;
+        // Without a smart configuration every response is checked.
+        if (smartConfig?.mode !== 'smart') return { type: 'everyTurn' };
+        return {
+            type: 'smartGate',
+            gate: async ({ conversation, characters }) => {
+                const analysis = await analyzeLivingLoreSignificance(conversation.messages.slice(-8), characters, settings);
+                const threshold = smartConfig.significanceThreshold || 60;
+                console.log(`[Living Lore] Analysis score: ${analysis.score}, threshold: ${threshold}`);
+                return analysis.score >= threshold && analysis.isSignificant;
+            },
+        };
+    },
+    run: async ({ conversation, characters, settings, commit, notify }) => {
+        const suggestion = await getLivingLoreSuggestion(conversation.messages, characters, settings.livingLore.scanDepth);
+        if (!suggestion?.updateSuggested || !suggestion.targetId) return;
+
+        // A suggestion for 'all' characters goes to the first one.
+        const targetChar = characters.find(c => c.id === suggestion.targetId)
+            || (suggestion.targetId === 'all' ? characters[0] : undefined);
+        if (!targetChar) {
+            console.log('[Living Lore] Target character not found:', suggestion.targetId);
+            return;
+        }
+
+        // The rewrite is generated right away and queued for review; if that fails, fall back to
+        // a suggestion message that opens the update modal.
+        try {
+            const update = await getLiveCharacterUpdateAsJson(targetChar, suggestion.summaryOfChange || '', undefined, settings);
+            await commit(c => queueLivingLoreProposal(c, targetChar, suggestion.summaryOfChange || '', update));
+            notify({ title: 'Living Lore', message: `Update for ${targetChar.name} queued for review.`, type: 'info' });
+            return;
+        } catch (error) {
+            console.warn('[Living Lore] Could not generate the update, falling back to a suggestion:', error);
+        }
+        const suggestionMessage: Message = {
+            id: generateUUID(), role: 'model', content: '', timestamp: Date.now(),
+            suggestion: {
+                type: 'livingLore', title: `Living Lore Suggestion for ${targetChar.name}`,
+                text: `Detected a significant change: "${suggestion.summaryOfChange}". Would you like to update the character sheet?`,
+                targetId: targetChar.id,
+                targetName: targetChar.name,
+                summaryOfChange: suggestion.summaryOfChange,
+            }
+        };
+        await commit(c => ({ ...c, messages: [...c.messages, suggestionMessage] }));
+    },
+};
+
+const factMinerAgent: AgentDefinition = {
+    id: 'factMiner',
+    name: 'Key Facts Miner',
+    trigger: ({ conversation }) => {
+        const config = getKeyFactsConfig(conversation);
+        return config.autoExtract ? { type: 'everyNTurns', interval: config.extractFrequency } : null;
+    },
+    run: async ({ conversation, settings, commit, notify }) => {
+        // Two messages per turn since the last run, plus some overlap.
+        const messages = getUnminedMessages(conversation, getKeyFactsConfig(conversation).extractFrequency * 2 + 2);
+        const known = getKnownFactContents(conversation);
+        const mined = await mineConversationFacts(messages, known, settings);
+        if (mined.length === 0) return;
+
+        let added = 0;
+        const updated = await commit(c => {
+            const result = queueFactProposals(c, mined);
+            added = result.added.length;
+            return result.conversation;
+        });
+        if (!updated || added === 0) return;
+        notify({ title: 'Key Facts', message: `${added} new fact(s) suggested. Review them in Author's Note → Key Facts.`, type: 'info' });
+    },
+};
+
+const factContradictionAgent: AgentDefinition = {
+    id: 'factContradiction',
+    name: 'Key Facts Continuity Check',
+    trigger: ({ conversation }) => getKeyFactsConfig(conversation).checkContradictions && getActiveFacts(conversation).length > 0
+        ? { type: 'everyTurn' }
+        : null,
+    run: async ({ conversation, settings, commit }) => {
+        const reply = [...conversation.messages].reverse().find(m => m.role === 'model' && !m.suggestion && !isImageMessage(m) && m.content.trim());
+        if (!reply) return;
+        const facts = getActiveFacts(conversation);
+        const contradictions = await checkFactContradictions(reply.content, facts, settings);
+        if (contradictions.length === 0) return;
+
+        await commit(c => {
+            // The reply was regenerated or deleted meanwhile.
+            if (!c.messages.some(m => m.id === reply.id)) return c;
+            const suggestions = contradictions.map(contradiction => createContradictionSuggestion(reply, {
+                ...contradiction,
+                factContent: facts.find(f => f.id === contradiction.factId)?.content || '',
+            }));
+            return { ...c, messages: [...c.messages, ...suggestions] };
+        });
+    },
+};
+
+const activeDirectives = (directives: NarrativeDirective[] | undefined) => (directives || []).filter(d => !d.isCompleted);
+
+interface DirectiveResult {
+    id: string;
+    // A function is given the latest directive, for results that depend on state edited meanwhile (e.g. milestones).
+    changes: Partial<NarrativeDirective> | ((latest: NarrativeDirective) => Partial<NarrativeDirective>);
+    // Recorded on the directive timeline.
+    entry: DirectiveProgressEntry;
+}
+
+// Applies results by directive ID onto the latest directives, so ones added or edited meanwhile are kept.
+const mergeDirectives = (current: NarrativeDirective[] | undefined, results: DirectiveResult[]): NarrativeDirective[] =>
+    (current || []).map(d => {
+        const result = results.find(r => r.id === d.id);
+        if (!result) return d;
+        const changes = typeof result.changes === 'function' ? result.changes(d) : result.changes;
+        return appendProgressEntry({ ...d, ...changes }, result.entry);
+    });
+
+const willEngineVerificationAgent: AgentDefinition = {
+    id: 'willEngineVerification',
+    name: 'Will Engine Verification',
+    trigger: ({ conversation }) => activeDirectives(conversation.narrativeDirectives).length > 0
+        ? { type: 'everyNTurns', interval: conversation.smartSystemConfig?.willEngine?.verificationFrequency || 5 }
+        : null,
+    run: async ({ conversation, settings, commit, notify }) => {
+        const recentMessages = conversation.messages.slice(-10);
+        const directives = activeDirectives(conversation.narrativeDirectives);
+        const anchor = getMessageAnchor(conversation.messages);
+        const notifications: AgentNotification[] = [];
+        const verified = await Promise.all(directives.map(async (directive): Promise<DirectiveResult> => {
+            const verification = await verifyDirectiveProgress(directive, recentMessages, settings);
+            // Multi-step directives: the result belongs to the current milestone and the overall progress follows from it.
+            const applied = verification.milestoneId
+                ? applyMilestoneVerification(directive, verification.milestoneId, verification)
+                : { ...directive, progress: verification.progress, isCompleted: verification.isCompleted };
+
+            // A pinned progress is only recorded, not applied.
+            if (!directive.progressPinned) {
+                const milestone = applied.milestones?.find(m => m.id === verification.milestoneId);
+                if (applied.isCompleted) {
+                    notifications.push({
+                        title: '🎯 Goal Achieved!',
+                        message: `"${directive.goal}" for ${directive.targetCharacterName} has been completed!`,
+                        type: 'success'
+                    });
+                } else if (milestone?.isCompleted) {
+                    const reached = applied.milestones!.filter(m => m.isCompleted).length;
+                    notifications.push({
+                        title: '🪜 Milestone Reached',
+                        message: `"${milestone.title}" (${reached} of ${applied.milestones!.length}) for ${directive.targetCharacterName}`,
+                        type: 'success'
+                    });
+                }
+            }
+            return {
+                id: directive.id,
+                changes: (latest) => {
+                    if (latest.progressPinned) return { lastChecked: Date.now() };
+                    if (!verification.milestoneId) return { progress: applied.progress, isCompleted: applied.isCompleted, lastChecked: Date.now() };
+                    // Milestones may have been edited during the model call, so the result is applied again by milestone ID.
+                    const result = applyMilestoneVerification(latest, verification.milestoneId, verification);
+                    return { progress: result.progress, isCompleted: result.isCompleted, milestones: result.milestones, lastChecked: Date.now() };
+                },
+                entry: { checkedAt: Date.now(), source: 'verification', progress: applied.progress, milestoneId: verification.milestoneId, ...anchor },
+            };
+        }));
+
+        const updated = await commit(c => ({ ...c, narrativeDirectives: mergeDirectives(c.narrativeDirectives, verified) }));
+        if (!updated) return;
+        notifications.forEach(notify);
+    },
+};
+
+const willEngineContextAgent: AgentDefinition = {
+    id: 'willEngineContext',
+    name: 'Will Engine Context Analysis',
+    // Waits for verification so it skips directives that were just completed.
+    dependsOn: ['willEngineVerification'],
+    trigger: ({ conversation }) => activeDirectives(conversation.narrativeDirectives).length > 0
+        ? { type: 'everyNTurns', interval: conversation.smartSystemConfig?.willEngine?.contextAnalysisFrequency || 3 }
+        : null,
+    run: async ({ conversation, settings, getConversation, commit }) => {
+        const recentMessages = conversation.messages.slice(-10);
+        const directives = activeDirectives(getConversation()?.narrativeDirectives);
+        const anchor = getMessageAnchor(conversation.messages);
+        const analyzed = await Promise.all(directives.map(async (directive): Promise<DirectiveResult> => {
+            const context = await analyzeDirectiveContext(directive, recentMessages, settings);
+            const triggers = new Set(directive.contextTriggers || []);
+            context.suggestedTriggers.forEach(t => triggers.add(t));
+            return {
+                id: directive.id,
+                changes: { activationScore: context.activationScore, contextTriggers: Array.from(triggers).slice(0, 10) },
+                entry: { checkedAt: Date.now(), source: 'context', activationScore: context.activationScore, ...anchor },
+            };
+        }));
+        if (analyzed.length === 0) return;
+
+        await commit(c => ({ ...c, narrativeDirectives: mergeDirectives(c.narrativeDirectives, analyzed) }));
+    },
+};
+
+const storyArcAgent: AgentDefinition = {
+    id: 'storyArc',
+    name: 'Story Arc Evaluator',
+    // Milestones can depend on this turn's Conscious State and directive results.
+    dependsOn: ['consciousState', 'willEngineVerification'],
+    trigger: ({ conversation, settings }) => {
+        if (!conversation.storyArcsEnabled || conversation.storyArcLevelUpProposal || isStoryArcSnoozed(conversation)) return null;
+        const level = getStoryArcLevel(settings.storyArcs.levels, conversation.currentLevel || 1);
+        if (!usesMilestones(level)) return null;
+        // Checking story events costs a model call; the other milestones are checked every turn.
+        return getPendingEventMilestones(level, conversation).length > 0 ? { type: 'everyNTurns', interval: 2 } : { type: 'everyTurn' };
+    },
+    run: async ({ conversation, characters, settings, getConversation, commit, notify }) => {
+        const currentLevel = conversation.currentLevel || 1;
+        const level = getStoryArcLevel(settings.storyArcs.levels, currentLevel);
+        if (!usesMilestones(level)) return;
+        const pendingEvents = getPendingEventMilestones(level, getConversation() || conversation);
+        const reachedEvents = await checkStoryArcEvents(
+            pendingEvents.map(m => ({ id: m.id, text: m.text || '' })),
+            conversation.messages.filter(m => !m.suggestion).slice(-10),
+            settings
+        );
+
+        let proposed = false;
+        const updated = await commit(c => {
+            // The user changed the level meanwhile; these results belong to the old one.
+            if ((c.currentLevel || 1) !== currentLevel || c.storyArcLevelUpProposal) return c;
+            const withEvents = markMilestonesReached(c, reachedEvents.map(r => r.id));
+            const { results, complete } = evaluateLevelMilestones(level, withEvents, characters);
+            if (!complete) return withEvents;
+            proposed = true;
+            return proposeLevelUp(withEvents, results);
+        });
+        if (!updated || !proposed) return;
+        notify({
+            title: 'Story Arc milestone reached',
+            message: `Advance to Level ${currentLevel + 1}? ${updated.storyArcLevelUpProposal?.reasons.join('; ')}`,
+            type: 'success',
+            actions: [
+                { label: `Advance to Level ${currentLevel + 1}`, update: confirmLevelUp },
+                { label: 'Not yet', update: dismissLevelUp },
+            ],
+        });
+    },
+};
+
+const directorAIAgent: AgentDefinition = {
+    id: 'directorAI',
+    name: 'Director AI',
+    trigger: ({ conversation, settings }) => {
+        if (!settings.directorAI.enabled || !settings.directorAI.automatic) return null;
+        const smartConfig = conversation.smartSystemConfig?.directorAI;
+        if (smartConfig?.mode !== 'smart') {
+            return { type: 'everyNTurns', interval: smartConfig?.frequencyValue || settings.directorAI.frequency };
+        }
+        return {
+            type: 'smartGate',
+            gate: async ({ conversation }) => {
+                const analysis = await analyzeDirectorNeed(conversation.messages.slice(-10), settings);
+                console.log(`[Director AI] Intervention ${analysis.needsIntervention ? 'needed' : 'not needed'} (score: ${analysis.score}): ${analysis.reason}`);
+                return analysis.needsIntervention;
+            },
+        };
+    },
+    run: async ({ conversation, settings, commit }) => {
+        const template = pickEventTemplate(settings.directorAI.eventLibrary || [], conversation);
+        const suggestion = await getDirectorSuggestion(conversation.messages, settings.directorAI.scanDepth, settings, {
+            template,
+            recentEvents: getRecentDirectorEvents(conversation),
+        });
+        if (!suggestion) return;
+        const suggestionMessage: Message = {
+            id: generateUUID(), role: 'model', content: '', timestamp: Date.now(),
+            suggestion: { type: 'directorAI', title: template ? `Director AI: ${template.name}` : 'Director AI Intervention', text: `"${suggestion}"` }
+        };
+        await commit(c => ({ ...recordDirectorEvent(c, suggestion, template), messages: [...c.messages, suggestionMessage] }));
+    },
+};
+
+export const POST_RESPONSE_AGENTS: AgentDefinition[] = [
+    titleAgent,
+    consciousStateAgent,
+    livingLoreAgent,
+    factMinerAgent,
+    factContradictionAgent,
+    willEngineVerificationAgent,
+    willEngineContextAgent,
+    storyArcAgent,
+    directorAIAgent,
+];
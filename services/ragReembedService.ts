@@ -0,0 +1,136 @@
+import type { RagReembedJob, Settings } from '../types';
+import { getRagMetadataForCollection, getRagReembedJob, saveRagReembedJob, getRagReembedVectors, saveRagReembedVectors, deleteRagReembedJob } from './db';
+import { generateEmbedding } from './ai/embeddingService';
+import { replaceCollectionIndex } from './ragService';
+import { log } from './loggingService';
+
+/**
+ * Re-embedding of a RAG collection after the embedding engine changed.
+ *
+ * The job embeds every memory with the new engine in small batches and stages the vectors in
+ * IndexedDB. Meanwhile the collection keeps answering queries from its old index, embedded with
+ * the old engine. Only when every memory has a new vector is the index swapped in one step.
+ * Staged vectors survive reloads, so an interrupted job resumes where it stopped.
+ */
+
+const BATCH_SIZE = 16;
+
+export type ReembedStatus = 'idle' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReembedProgress {
+  collectionName: string;
+  status: ReembedStatus;
+  processed: number;
+  total: number;
+  targetEngine?: Settings['rag']['embeddingEngine'];
+  error?: string;
+}
+
+// Jobs running in this tab. A persisted job without an entry here was interrupted and is paused.
+const runningJobs = new Map<string, { cancelled: boolean }>();
+const listeners = new Set<(progress: ReembedProgress) => void>();
+
+const notify = (progress: ReembedProgress) => listeners.forEach(callback => callback(progress));
+
+/**
+ * Subscribes to progress updates of all jobs.
+ * @returns An unsubscribe function.
+ */
+export const subscribeToReembedProgress = (callback: (progress: ReembedProgress) => void): (() => void) => {
+  listeners.add(callback);
+  return () => listeners.delete(callback);
+};
+
+/**
+ * The current state of a collection's job, including interrupted jobs from a previous session.
+ */
+export const getReembedProgress = async (collectionName: string): Promise<ReembedProgress> => {
+  const job = await getRagReembedJob(collectionName);
+  if (!job) return { collectionName, status: 'idle', processed: 0, total: 0 };
+  const status: ReembedStatus = job.status === 'failed' ? 'failed' : runningJobs.has(collectionName) ? 'running' : 'paused';
+  return { collectionName, status, processed: job.processed, total: job.total, targetEngine: job.targetEngine, error: job.error };
+};
+
+/**
+ * Starts re-embedding a collection with the current engine, or resumes an interrupted job.
+ * Resolves when the job finishes, fails or is cancelled; progress is reported to subscribers.
+ */
+export const startReembedJob = async (collectionName: string, settings: Settings): Promise<void> => {
+  if (runningJobs.has(collectionName)) return;
+  const control = { cancelled: false };
+  runningJobs.set(collectionName, control);
+
+  const targetEngine = settings.rag.embeddingEngine;
+  let job = await getRagReembedJob(collectionName);
+  if (job && job.targetEngine !== targetEngine) {
+    // The engine changed again since the job started; vectors from the previous target are useless.
+    await deleteRagReembedJob(collectionName);
+    job = undefined;
+  }
+  const now = Date.now();
+  job = job
+    ? { ...job, status: 'running', error: undefined, updatedAt: now }
+    : { collectionName, targetEngine, status: 'running', processed: 0, total: 0, startedAt: now, updatedAt: now };
+
+  const report = async (status: ReembedStatus, error?: string) => {
+    if (control.cancelled) return; // The job record is already gone
+    if (status === 'running' || status === 'failed') {
+      job = { ...job!, status, error, updatedAt: Date.now() };
+      await saveRagReembedJob(job);
+    }
+    notify({ collectionName, status, processed: job!.processed, total: job!.total, targetEngine, error });
+  };
+
+  log('INFO', 'RAG', `Re-embedding collection ${collectionName} with ${targetEngine}`, { resumed: job.processed > 0 });
+
+  try {
+    const vectors = await getRagReembedVectors(collectionName);
+    // Memories may be added while the job runs; keep going until the swap finds none without a vector.
+    for (;;) {
+      const memories = await getRagMetadataForCollection(collectionName);
+      const pending = memories.filter(m => !vectors.has(m.id));
+      job.total = memories.length;
+      job.processed = memories.length - pending.length;
+      await report('running');
+
+      for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+        if (control.cancelled) return;
+        const batch = pending.slice(i, i + BATCH_SIZE);
+        // Embed the stored text itself, the same content retrieval injects.
+        const embeddings = await generateEmbedding(batch.map(m => m.fullText), settings, 'RETRIEVAL_DOCUMENT');
+        if (embeddings.length !== batch.length) {
+          throw new Error('Mismatch between memories and generated embeddings.');
+        }
+        if (control.cancelled) return;
+        const staged = batch.map((m, j) => ({ memoryId: m.id, vector: embeddings[j] }));
+        await saveRagReembedVectors(collectionName, staged);
+        staged.forEach(v => vectors.set(v.memoryId, v.vector));
+        job.processed += batch.length;
+        await report('running');
+      }
+
+      if (control.cancelled) return;
+      if (await replaceCollectionIndex(collectionName, vectors, targetEngine)) break;
+    }
+
+    await deleteRagReembedJob(collectionName);
+    log('INFO', 'RAG', `Re-embedding of ${collectionName} completed`, { memories: job.total, engine: targetEngine });
+    notify({ collectionName, status: 'completed', processed: job.total, total: job.total, targetEngine });
+  } catch (error: any) {
+    log('ERROR', 'RAG', `Re-embedding of ${collectionName} failed`, { error: error.message, processed: job.processed });
+    await report('failed', error.message);
+  } finally {
+    runningJobs.delete(collectionName);
+  }
+};
+
+/**
+ * Stops a job and discards its staged vectors. The collection keeps its old index.
+ */
+export const cancelReembedJob = async (collectionName: string): Promise<void> => {
+  const control = runningJobs.get(collectionName);
+  if (control) control.cancelled = true;
+  await deleteRagReembedJob(collectionName);
+  log('INFO', 'RAG', `Re-embedding of ${collectionName} cancelled`);
+  notify({ collectionName, status: 'cancelled', processed: 0, total: 0 });
+};
@@ -1,8 +1,9 @@
 // Fix: Use HnswlibModule type from 'hnswlib-wasm' as HnswlibWasm is not an exported member.
 import type { HnswlibModule } from 'hnswlib-wasm';
-import type { Message, RagMemory, Settings } from '../types';
+import type { Message, RagMemory, RagLexicalIndex, Settings } from '../types';
 import { generateUUID } from '../utils/uuid.js';
-import { getRagMetadataForCollection, saveRagMetadataForCollection, deleteRagMetadataForCollection } from './db';
+import { getRagMetadataForCollection, saveRagMetadataForCollection, deleteRagMetadataForCollection, getRagLexicalIndex, saveRagLexicalIndex, deleteRagLexicalIndex, deleteRagReembedJob } from './db';
+import { buildLexicalIndex, searchLexicalIndex } from './lexicalIndexService';
 import { enrichSceneForRag } from './ai/knowledgeManager';
 import { generateEmbedding } from './ai/embeddingService';
 import { countTokens } from './ai/contextManager';
@@ -142,6 +143,16 @@ const syncFsSerialized = async (fsManager: any, read: boolean): Promise<void> =>
   return p;
 };
 
+// Changes to a collection's index run one at a time, so a re-embed cannot swap the index under a running add
+const collectionLocks = new Map<string, Promise<void>>();
+const withCollectionLock = <T>(collectionName: string, task: () => Promise<T>): Promise<T> => {
+  const run = (collectionLocks.get(collectionName) || Promise.resolve()).then(task);
+  const done = run.then(() => {}, () => {});
+  collectionLocks.set(collectionName, done);
+  done.then(() => { if (collectionLocks.get(collectionName) === done) collectionLocks.delete(collectionName); });
+  return run;
+};
+
 // Persist index dimensions to safely re-open existing indexes across sessions
 const getIndexDimsKey = (collectionName: string) => `rag:indexDims:${collectionName}`;
 const saveIndexDimensions = (collectionName: string, dims: number) => {
@@ -159,6 +170,59 @@ const loadIndexDimensions = (collectionName: string): number | undefined => {
   }
 };
 
+// Persist the embedding engine each index was built with, so switching engines keeps old memories searchable
+type EmbeddingEngine = Settings['rag']['embeddingEngine'];
+const getIndexEngineKey = (collectionName: string) => `rag:indexEngine:${collectionName}`;
+const saveIndexEngine = (collectionName: string, engine: EmbeddingEngine) => {
+  try { if (typeof localStorage !== 'undefined') localStorage.setItem(getIndexEngineKey(collectionName), engine); } catch {}
+};
+const clearIndexRecords = (collectionName: string) => {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.removeItem(getIndexDimsKey(collectionName));
+    localStorage.removeItem(getIndexEngineKey(collectionName));
+  } catch {}
+};
+/**
+ * The embedding engine a collection's index was built with, or undefined for collections
+ * created before this was recorded.
+ */
+export const getCollectionEmbeddingEngine = (collectionName: string): EmbeddingEngine | undefined => {
+  try {
+    if (typeof localStorage === 'undefined') return undefined;
+    return (localStorage.getItem(getIndexEngineKey(collectionName)) as EmbeddingEngine | null) || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Records `engine` for every index that has no engine yet. Indexes from before engines were
+ * recorded were built with the engine in use so far, so this must run before another one is saved.
+ */
+export const stampCollectionEngines = (engine: EmbeddingEngine): void => {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    const dimsPrefix = getIndexDimsKey('');
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(dimsPrefix)) continue;
+      const collectionName = key.slice(dimsPrefix.length);
+      if (!getCollectionEmbeddingEngine(collectionName)) saveIndexEngine(collectionName, engine);
+    }
+  } catch {}
+};
+
+/**
+ * Settings to embed with for a collection. Until a collection is re-embedded, queries and new
+ * memories keep using the engine its index was built with, so the vectors stay comparable.
+ */
+const getCollectionEmbeddingSettings = (collectionName: string, settings: Settings): Settings => {
+  const indexEngine = getCollectionEmbeddingEngine(collectionName);
+  if (!indexEngine || indexEngine === settings.rag.embeddingEngine) return settings;
+  return { ...settings, rag: { ...settings.rag, embeddingEngine: indexEngine } };
+};
+
 async function getHnswlib(): Promise<HnswlibModule> {
   if (!hnswlib) {
     const { loadHnswlib } = await import('hnswlib-wasm');
@@ -334,113 +398,206 @@ async function saveIndex(collectionName: string): Promise<void> {
   }
 }
 
+// Reciprocal rank fusion constant; dampens the gap between the top ranks of each list.
+const RRF_K = 60;
+
+interface RetrievalCandidate {
+  memory: RagMemory;
+  distance?: number; // L2 distance, when found by the vector search
+  vectorRank?: number; // 1-based rank in the vector results
+  keywordRank?: number; // 1-based rank in the keyword results
+}
+
+/**
+ * Nearest neighbours of the query in the collection's HNSW index, closest first.
+ * Returns an empty list when the index is empty or was built with a different embedding model.
+ * @throws Error if the query embedding cannot be generated.
+ */
+async function searchVectorCandidates(
+  collectionName: string,
+  query: string,
+  settings: Settings,
+  k: number
+): Promise<{ memory: RagMemory; distance: number }[]> {
+  const embeddingSettings = getCollectionEmbeddingSettings(collectionName, settings);
+  let [queryEmbedding] = await generateEmbedding([query], embeddingSettings, 'RETRIEVAL_QUERY');
+  if (!queryEmbedding) throw new Error("Failed to generate query embedding.");
+  // Normalize query embedding for cosine-like ranking stability
+  queryEmbedding = normalizeEmbedding(queryEmbedding);
+  
+  const dimensions = queryEmbedding.length;
+  // Early guard: if known saved dims mismatch, skip to avoid throwing inside search
+  const savedDims = loadIndexDimensions(collectionName);
+  if (typeof savedDims === 'number' && savedDims !== dimensions) {
+    console.warn(`�s��,? Dimension mismatch! Collection has ${savedDims}D embeddings, but query uses ${dimensions}D.`);
+    console.warn(`dY'� Current model: ${settings.rag.embeddingEngine}. Collection was built with a different embedding model.`);
+    return [];
+  }
+  
+  // Check if collection exists and has compatible dimensions
+  const existingMemories = await getRagMetadataForCollection(collectionName);
+  if (existingMemories.length > 0) {
+    // Check if there's cached index to verify dimensions
+    const cachedData = indexCache.get(collectionName);
+    if (cachedData && typeof cachedData.dimensions === 'number') {
+      const indexDimensions = cachedData.dimensions;
+      if (indexDimensions !== dimensions) {
+        console.warn(`⚠️ Dimension mismatch! Collection has ${indexDimensions}D embeddings, but query uses ${dimensions}D.`);
+        console.warn(`💡 Current model: ${settings.rag.embeddingEngine}. Collection was built with a different embedding model.`);
+        console.warn(`🔄 Please rebuild the collection or switch to the original embedding model.`);
+        return [];
+      }
+    }
+  }
+  
+  const { index, metadata } = await loadIndex(collectionName, dimensions);
+  
+  // Check if index is properly initialized before accessing
+  let numItems = 0;
+  try {
+    numItems = index.getCurrentCount();
+  } catch (e) {
+    console.warn('[RAG] Index not properly initialized or empty, returning empty results:', e);
+    return [];
+  }
+  
+  if (numItems === 0) {
+    return [];
+  }
+
+  // Fetch more items than needed (e.g., 3x) to have a larger pool for re-ranking.
+  const numToFetch = Math.min(k * 10, Math.max(10, numItems));
+  let results;
+  try {
+    results = index.searchKnn(queryEmbedding, numToFetch, undefined);
+  } catch (e) {
+    console.warn('[RAG] Error during search, index may be corrupted:', e);
+    return [];
+  }
+
+  return results.neighbors
+    .map((label: number, idx: number) => ({ memory: metadata.get(label), distance: results.distances[idx] }))
+    .filter((item: { memory?: RagMemory; distance: number }): item is { memory: RagMemory; distance: number } => !!item.memory);
+}
+
+/**
+ * Returns the keyword index of a collection, building it for collections saved before hybrid retrieval existed.
+ */
+async function getLexicalIndex(collectionName: string): Promise<RagLexicalIndex | null> {
+  const existing = await getRagLexicalIndex(collectionName);
+  if (existing) return existing;
+
+  const memories = await getRagMetadataForCollection(collectionName);
+  if (memories.length === 0) return null;
+  const built = buildLexicalIndex(collectionName, memories);
+  await saveRagLexicalIndex(built);
+  console.log(`[RAG] Built keyword index for ${collectionName} (${memories.length} memories).`);
+  return built;
+}
+
+/**
+ * BM25 matches of the query in the collection's keyword index, best first.
+ */
+async function searchKeywordCandidates(collectionName: string, query: string, limit: number): Promise<RagMemory[]> {
+  const lexicalIndex = await getLexicalIndex(collectionName);
+  if (!lexicalIndex) return [];
+
+  const hits = searchLexicalIndex(lexicalIndex, query, limit);
+  if (hits.length === 0) return [];
+
+  const memoriesById = new Map((await getRagMetadataForCollection(collectionName)).map(m => [m.id, m]));
+  return hits.map(hit => memoriesById.get(hit.memoryId)).filter((m): m is RagMemory => !!m);
+}
+
+/**
+ * Retrieves the memories most relevant to a query.
+ *
+ * With hybrid search on, vector neighbours and BM25 keyword matches are fused by reciprocal rank,
+ * and keyword matches alone are used when no embedding engine is connected.
+ * The fused relevance is then re-ranked with importance and recency, and trimmed to the token budget.
+ */
 export async function searchRelevantMemories(
   collectionName: string,
   query: string,
   settings: Settings,
   historyForContext: Message[],
   k: number = 5,
-  maxTokens: number = 4000 // Maximum tokens for RAG context (configurable)
+  maxTokens: number = 4000, // Maximum tokens for RAG context (configurable)
+  maxTimestamp?: number // Ignore memories newer than this (ancestor collections of a branch)
 ): Promise<RagMemory[]> {
   try {
-    let [queryEmbedding] = await generateEmbedding([query], settings, 'RETRIEVAL_QUERY');
-    if (!queryEmbedding) throw new Error("Failed to generate query embedding.");
-    // Normalize query embedding for cosine-like ranking stability
-    queryEmbedding = normalizeEmbedding(queryEmbedding);
-    
-    const dimensions = queryEmbedding.length;
-    // Early guard: if known saved dims mismatch, skip to avoid throwing inside search
-    const savedDims = loadIndexDimensions(collectionName);
-    if (typeof savedDims === 'number' && savedDims !== dimensions) {
-      console.warn(`�s��,? Dimension mismatch! Collection has ${savedDims}D embeddings, but query uses ${dimensions}D.`);
-      console.warn(`dY'� Current model: ${settings.rag.embeddingEngine}. Collection was built with a different embedding model.`);
-      return [];
-    }
-    
-    // Check if collection exists and has compatible dimensions
-    const existingMemories = await getRagMetadataForCollection(collectionName);
-    if (existingMemories.length > 0) {
-      // Check if there's cached index to verify dimensions
-      const cachedData = indexCache.get(collectionName);
-      if (cachedData && typeof cachedData.dimensions === 'number') {
-        const indexDimensions = cachedData.dimensions;
-        if (indexDimensions !== dimensions) {
-          console.warn(`⚠️ Dimension mismatch! Collection has ${indexDimensions}D embeddings, but query uses ${dimensions}D.`);
-          console.warn(`💡 Current model: ${settings.rag.embeddingEngine}. Collection was built with a different embedding model.`);
-          console.warn(`🔄 Please rebuild the collection or switch to the original embedding model.`);
-          return [];
-        }
+    const hybrid = settings.rag.hybridSearch;
+
+    let vectorResults: { memory: RagMemory; distance: number }[] = [];
+    if (settings.rag.isConnected || !hybrid) {
+      try {
+        vectorResults = await searchVectorCandidates(collectionName, query, settings, k);
+      } catch (e) {
+        if (!hybrid) throw e;
+        console.warn('[RAG] Vector search unavailable, using keyword matches only:', e);
       }
     }
-    
-    const { index, metadata } = await loadIndex(collectionName, dimensions);
-    
-    // Check if index is properly initialized before accessing
-    let numItems = 0;
-    try {
-      numItems = index.getCurrentCount();
-    } catch (e) {
-      console.warn('[RAG] Index not properly initialized or empty, returning empty results:', e);
-      return [];
-    }
-    
-    if (numItems === 0) {
-      return [];
-    }
-  
-    // Fetch more items than needed (e.g., 3x) to have a larger pool for re-ranking.
-    const numToFetch = Math.min(k * 10, Math.max(10, numItems));
-    let results;
-    try {
-      results = index.searchKnn(queryEmbedding, numToFetch, undefined);
-    } catch (e) {
-      console.warn('[RAG] Error during search, index may be corrupted:', e);
-      return [];
-    }
+    const keywordResults = hybrid ? await searchKeywordCandidates(collectionName, query, Math.max(10, k * 10)) : [];
     
     // Only consider the very recent window to avoid over-filtering
     const recentWindow = 8;
     const recentMessageIds = new Set(historyForContext.slice(-recentWindow).map(m => m.id));
 
-    // Get the memory objects along with their original L2 distance.
-    const candidateMemories = results.neighbors.map((label: number, idx: number) => ({
-        memory: metadata.get(label),
-        distance: results.distances[idx],
-    }))
-    .filter((item): item is { memory: RagMemory; distance: number } => {
-        if (!item.memory) return false;
+    const isEligible = (memory: RagMemory): boolean => {
+        if (maxTimestamp !== undefined && (memory.timestamp || 0) > maxTimestamp) return false;
         // Filter out memories that are already present in the short-term history context.
         // This prevents the AI from seeing the same message twice.
-        const isAlreadyInContext = item.memory.sourceMessageIds?.every(id => recentMessageIds.has(id));
+        const isAlreadyInContext = memory.sourceMessageIds?.every(id => recentMessageIds.has(id));
         return !isAlreadyInContext;
+    };
+
+    // Merge both result lists; a memory found by both keeps both ranks.
+    const candidatesById = new Map<string, RetrievalCandidate>();
+    vectorResults.filter(r => isEligible(r.memory)).forEach((r, i) => {
+        candidatesById.set(r.memory.id, { memory: r.memory, distance: r.distance, vectorRank: i + 1 });
+    });
+    keywordResults.filter(isEligible).forEach((memory, i) => {
+        const existing = candidatesById.get(memory.id);
+        if (existing) existing.keywordRank = i + 1;
+        else candidatesById.set(memory.id, { memory, keywordRank: i + 1 });
     });
+    const candidateMemories = Array.from(candidatesById.values());
 
-    console.log(`[RAG] Candidates fetched: ${results.neighbors.length}, after filter: ${candidateMemories.length}`);
+    console.log(`[RAG] Candidates fetched: ${vectorResults.length} vector + ${keywordResults.length} keyword, after filter: ${candidateMemories.length}`);
 
     if (candidateMemories.length === 0) {
         console.log('[RAG] No candidates after filtering — likely due to duplicate-in-context or low recall.');
         return [];
     }
+
+    // Reciprocal rank fusion, min-max normalized over the pool so the best candidate scores 1.
+    const fusedScores = candidateMemories.map(c =>
+        (c.vectorRank ? settings.rag.vectorWeight / (RRF_K + c.vectorRank) : 0) +
+        (c.keywordRank ? settings.rag.keywordWeight / (RRF_K + c.keywordRank) : 0)
+    );
+    const minFused = Math.min(...fusedScores);
+    const fusedRange = Math.max(...fusedScores) - minFused;
     
     // Find min/max timestamps within the candidate pool for recency normalization.
     const timestamps = candidateMemories.map(c => c.memory.timestamp || 0);
-    const minTimestamp = Math.min(...timestamps);
-    const maxTimestamp = Math.max(...timestamps);
-    const timestampRange = maxTimestamp - minTimestamp;
+    const oldestTimestamp = Math.min(...timestamps);
+    const timestampRange = Math.max(...timestamps) - oldestTimestamp;
 
     // Re-rank the candidates based on a combined score of relevance, importance, and recency.
-    const rerankedMemories = candidateMemories.map(item => {
+    const rerankedMemories = candidateMemories.map((item, i) => {
         const { memory, distance } = item;
         
-        // 1. Relevance Score (higher is better): Convert L2 distance to similarity.
-        const relevance = 1 / (1 + distance);
+        // 1. Relevance Score (higher is better): fused rank, or L2 distance converted to similarity.
+        const relevance = hybrid
+            ? (fusedRange > 0 ? (fusedScores[i] - minFused) / fusedRange : 1)
+            : 1 / (1 + (distance ?? Infinity));
         
         // 2. Importance Score (higher is better): Normalize from 1-10 scale to 0-1. Default to a neutral 5.
         const importance = ((memory.importance || 5) - 1) / 9;
         
         // 3. Recency Score (higher is better): Normalize timestamp within the current result set.
         const recency = timestampRange > 0
-            ? ((memory.timestamp || 0) - minTimestamp) / timestampRange
+            ? ((memory.timestamp || 0) - oldestTimestamp) / timestampRange
             : 0;
             
         // 4. Combined Score with weighting: Emphasize relevance, but factor in importance and recency.
@@ -540,78 +697,93 @@ export async function addMessagesToCollection(
 
     // 3. Get embeddings for each chunk of the *full text*.
     // This aligns the embedding content with the retrieval content.
-    const embeddingsRaw = await generateEmbedding(chunks, settings, 'RETRIEVAL_DOCUMENT');
-    const embeddings = embeddingsRaw.map(vec => normalizeEmbedding(vec));
-    if (embeddings.length !== chunks.length) {
-        throw new Error("Mismatch between chunks and generated embeddings.");
-    }
+    await withCollectionLock(collectionName, async () => {
+      const embeddingSettings = getCollectionEmbeddingSettings(collectionName, settings);
+      const embeddingsRaw = await generateEmbedding(chunks, embeddingSettings, 'RETRIEVAL_DOCUMENT');
+      const embeddings = embeddingsRaw.map(vec => normalizeEmbedding(vec));
+      if (embeddings.length !== chunks.length) {
+          throw new Error("Mismatch between chunks and generated embeddings.");
+      }
     
-    const dimensions = embeddings[0].length;
-    const { index, metadata } = await loadIndex(collectionName, dimensions);
+      const dimensions = embeddings[0].length;
+      const { index, metadata } = await loadIndex(collectionName, dimensions);
     
-    const memoriesArray = Array.from(metadata.values());
-    let lastMemory = memoriesArray.length > 0 ? memoriesArray.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))[0] : null;
-
-    // 4. Create and add a separate, linked memory for each chunk.
-    for (let i = 0; i < chunks.length; i++) {
-        const chunkText = chunks[i];
-        const embedding = embeddings[i];
-
-        const newMemory: RagMemory = {
-            id: generateUUID(),
-            sourceMessageIds: messages.map(m => m.id),
-            timestamp: messages[messages.length - 1].timestamp + i, // Increment to keep order
-            fullText: chunkText, // The chunk IS the memory's primary text content
-            summary: `Chunk ${i + 1}/${chunks.length} of a larger scene. Full scene summary: ${cleanSummary}`,
-            // Precomputed, safe-to-inject facts (shared across chunks for this turn)
-            sanitizedFacts: sceneFacts,
-            tags: enrichedData.tags,
-            importance: enrichedData.importance,
-            relations: enrichedData.relations,
-            mood: enrichedData.mood,
-            previousMemoryId: lastMemory?.id,
-        };
-
-        const newLabel = index.getCurrentCount();
-        if (newLabel >= index.getMaxElements()) {
-            index.resizeIndex(index.getMaxElements() * 2);
-        }
-        index.addPoint(embedding, newLabel, false);
-        metadata.set(newLabel, newMemory);
-
-        // Link the previous chunk to this new one
-        if (lastMemory) {
-            const lastMemoryLabel = Array.from(metadata.entries()).find(([, mem]) => mem.id === lastMemory!.id)?.[0];
-            if (lastMemoryLabel !== undefined) {
-                const updatedLastMemory = { ...lastMemory, nextMemoryId: newMemory.id };
-                metadata.set(lastMemoryLabel, updatedLastMemory);
-            }
-        }
+      const memoriesArray = Array.from(metadata.values());
+      let lastMemory = memoriesArray.length > 0 ? memoriesArray.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))[0] : null;
+
+      // 4. Create and add a separate, linked memory for each chunk.
+      for (let i = 0; i < chunks.length; i++) {
+          const chunkText = chunks[i];
+          const embedding = embeddings[i];
+
+          const newMemory: RagMemory = {
+              id: generateUUID(),
+              sourceMessageIds: messages.map(m => m.id),
+              timestamp: messages[messages.length - 1].timestamp + i, // Increment to keep order
+              fullText: chunkText, // The chunk IS the memory's primary text content
+              summary: `Chunk ${i + 1}/${chunks.length} of a larger scene. Full scene summary: ${cleanSummary}`,
+              // Precomputed, safe-to-inject facts (shared across chunks for this turn)
+              sanitizedFacts: sceneFacts,
+              tags: enrichedData.tags,
+              importance: enrichedData.importance,
+              relations: enrichedData.relations,
+              mood: enrichedData.mood,
+              previousMemoryId: lastMemory?.id,
+          };
+
+          const newLabel = index.getCurrentCount();
+          if (newLabel >= index.getMaxElements()) {
+              index.resizeIndex(index.getMaxElements() * 2);
+          }
+          index.addPoint(embedding, newLabel, false);
+          metadata.set(newLabel, newMemory);
+
+          // Link the previous chunk to this new one
+          if (lastMemory) {
+              const lastMemoryLabel = Array.from(metadata.entries()).find(([, mem]) => mem.id === lastMemory!.id)?.[0];
+              if (lastMemoryLabel !== undefined) {
+                  const updatedLastMemory = { ...lastMemory, nextMemoryId: newMemory.id };
+                  metadata.set(lastMemoryLabel, updatedLastMemory);
+              }
+          }
         
-        lastMemory = newMemory; // This chunk becomes the "last memory" for the next iteration
-    }
+          lastMemory = newMemory; // This chunk becomes the "last memory" for the next iteration
+      }
     
-    await saveIndex(collectionName);
+      await saveIndex(collectionName);
+      saveIndexEngine(collectionName, embeddingSettings.rag.embeddingEngine);
+    });
 
   } catch (e) {
       console.error('Failed to add messages to RAG store:', e);
   }
 }
 
+/**
+ * Deletes a collection's index file, keyword index, re-embedding job and recorded dimensions and
+ * engine, but keeps its metadata. Used when a restore has already replaced the metadata.
+ */
+export async function deleteCollectionIndex(collectionName: string): Promise<void> {
+  const hnswlibInstance = await getHnswlib();
+  const indexFilename = `${collectionName}.idx`;
+
+  if (hnswlibInstance.EmscriptenFileSystemManager.checkFileExists(indexFilename)) {
+    // Fix: The HnswlibModule type definition from 'hnswlib-wasm' is incomplete and does not include
+    // the 'FS' property from the Emscripten runtime. Casting to 'any' allows us to access it.
+    (hnswlibInstance as any).FS.unlink(indexFilename);
+    await syncFsSerialized(hnswlibInstance.EmscriptenFileSystemManager, false);
+  }
+
+  await deleteRagReembedJob(collectionName);
+  await deleteRagLexicalIndex(collectionName);
+  clearIndexRecords(collectionName);
+  indexCache.delete(collectionName);
+}
+
 export async function deleteCollection(collectionName: string): Promise<void> {
   try {
-    const hnswlibInstance = await getHnswlib();
-    const indexFilename = `${collectionName}.idx`;
-    
-    if (hnswlibInstance.EmscriptenFileSystemManager.checkFileExists(indexFilename)) {
-      // Fix: The HnswlibModule type definition from 'hnswlib-wasm' is incomplete and does not include
-      // the 'FS' property from the Emscripten runtime. Casting to 'any' allows us to access it.
-      (hnswlibInstance as any).FS.unlink(indexFilename);
-      await syncFsSerialized(hnswlibInstance.EmscriptenFileSystemManager, false);
-    }
-    
+    await deleteCollectionIndex(collectionName);
     await deleteRagMetadataForCollection(collectionName);
-    indexCache.delete(collectionName);
     console.log(`Collection ${collectionName} deleted.`);
   } catch (e) {
     console.error(`Failed to delete collection ${collectionName}:`, e);
@@ -619,6 +791,71 @@ export async function deleteCollection(collectionName: string): Promise<void> {
   }
 }
 
+/**
+ * Reads the persisted hnswlib index file of a collection (used by full backups).
+ * @returns The raw index bytes and the saved dimensions, or null if the collection has no index on disk.
+ */
+export async function exportIndexFile(collectionName: string): Promise<{ data: Uint8Array; dimensions?: number; embeddingEngine?: EmbeddingEngine } | null> {
+  const hnswlibInstance = await getHnswlib();
+  const indexFilename = `${collectionName}.idx`;
+  if (!hnswlibInstance.EmscriptenFileSystemManager.checkFileExists(indexFilename)) {
+    return null;
+  }
+  const data: Uint8Array = (hnswlibInstance as any).FS.readFile(indexFilename);
+  return { data, dimensions: loadIndexDimensions(collectionName), embeddingEngine: getCollectionEmbeddingEngine(collectionName) };
+}
+
+/**
+ * Writes a restored hnswlib index file and persists it to IndexedDB.
+ * The matching metadata must be restored separately, since labels map to metadata by timestamp order.
+ */
+export async function importIndexFile(collectionName: string, data: Uint8Array, dimensions?: number, embeddingEngine?: EmbeddingEngine): Promise<void> {
+  const hnswlibInstance = await getHnswlib();
+  const indexFilename = `${collectionName}.idx`;
+  (hnswlibInstance as any).FS.writeFile(indexFilename, data);
+  await syncFsSerialized(hnswlibInstance.EmscriptenFileSystemManager, false);
+  indexCache.delete(collectionName);
+  if (dimensions) saveIndexDimensions(collectionName, dimensions);
+  if (embeddingEngine) saveIndexEngine(collectionName, embeddingEngine);
+}
+
+/**
+ * Replaces a collection's index with one built from freshly computed vectors (see ragReembedService).
+ * Labels follow the timestamp order of the metadata, the same order loadIndex maps them with.
+ * @param vectors - One vector per memory ID, all from the same engine.
+ * @param embeddingEngine - The engine the vectors were generated with.
+ * @returns false without touching the index if a memory has no vector yet (it was added meanwhile).
+ */
+export async function replaceCollectionIndex(
+  collectionName: string,
+  vectors: Map<string, number[]>,
+  embeddingEngine: EmbeddingEngine
+): Promise<boolean> {
+  return withCollectionLock(collectionName, async () => {
+    const memories = await getRagMetadataForCollection(collectionName);
+    memories.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+    if (memories.some(m => !vectors.has(m.id))) return false;
+    if (memories.length === 0) return true;
+
+    const dimensions = vectors.get(memories[0].id)!.length;
+    const hnswlibInstance = await getHnswlib();
+    const indexFilename = `${collectionName}.idx`;
+    const index = new hnswlibInstance.HierarchicalNSW('l2', dimensions, '');
+    index.initIndex(memories.length + 100, 16, 200, 100);
+    memories.forEach((memory, label) => {
+      index.addPoint(normalizeEmbedding(vectors.get(memory.id)!), label, false);
+    });
+
+    index.writeIndex(indexFilename);
+    await syncFsSerialized(hnswlibInstance.EmscriptenFileSystemManager, false);
+    saveIndexDimensions(collectionName, dimensions);
+    saveIndexEngine(collectionName, embeddingEngine);
+    indexCache.delete(collectionName);
+    console.log(`Index ${indexFilename} rebuilt with ${memories.length} ${dimensions}D vectors (${embeddingEngine}).`);
+    return true;
+  });
+}
+
 export async function getAllMemories(collectionName: string): Promise<RagMemory[]> {
   try {
     return await getRagMetadataForCollection(collectionName);
@@ -631,48 +868,50 @@ export async function getAllMemories(collectionName: string): Promise<RagMemory[
 export async function deleteMemories(collectionName: string, memoryIds: string[]): Promise<void> {
     if (memoryIds.length === 0) return;
     try {
-        const allMemories = await getRagMetadataForCollection(collectionName);
-        if (allMemories.length === 0) return;
+        await withCollectionLock(collectionName, async () => {
+            const allMemories = await getRagMetadataForCollection(collectionName);
+            if (allMemories.length === 0) return;
 
-        const memoryMap = new Map(allMemories.map(m => [m.id, m]));
-        const memoryIdsToDelete = new Set(memoryIds);
+            const memoryMap = new Map(allMemories.map(m => [m.id, m]));
+            const memoryIdsToDelete = new Set(memoryIds);
 
-        // Find the boundaries of the block being deleted
-        const memoriesToDelete = memoryIds.map(id => memoryMap.get(id)).filter(Boolean) as RagMemory[];
-        if (memoriesToDelete.length === 0) return;
+            // Find the boundaries of the block being deleted
+            const memoriesToDelete = memoryIds.map(id => memoryMap.get(id)).filter(Boolean) as RagMemory[];
+            if (memoriesToDelete.length === 0) return;
 
-        // Sort by timestamp to find the actual head and tail of the contiguous block
-        memoriesToDelete.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+            // Sort by timestamp to find the actual head and tail of the contiguous block
+            memoriesToDelete.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
         
-        const head = memoriesToDelete[0];
-        const tail = memoriesToDelete[memoriesToDelete.length - 1];
+            const head = memoriesToDelete[0];
+            const tail = memoriesToDelete[memoriesToDelete.length - 1];
 
-        const memoryBeforeId = head.previousMemoryId;
-        const memoryAfterId = tail.nextMemoryId;
+            const memoryBeforeId = head.previousMemoryId;
+            const memoryAfterId = tail.nextMemoryId;
 
-        // Create the new list of memories by filtering out the deleted ones
-        let updatedMemories = allMemories.filter(m => !memoryIdsToDelete.has(m.id));
+            // Create the new list of memories by filtering out the deleted ones
+            let updatedMemories = allMemories.filter(m => !memoryIdsToDelete.has(m.id));
 
-        // Find the boundary memories in the new list and re-link them
-        if (memoryBeforeId) {
-            const memoryBefore = updatedMemories.find(m => m.id === memoryBeforeId);
-            if (memoryBefore) {
-                memoryBefore.nextMemoryId = memoryAfterId;
+            // Find the boundary memories in the new list and re-link them
+            if (memoryBeforeId) {
+                const memoryBefore = updatedMemories.find(m => m.id === memoryBeforeId);
+                if (memoryBefore) {
+                    memoryBefore.nextMemoryId = memoryAfterId;
+                }
             }
-        }
-        if (memoryAfterId) {
-            const memoryAfter = updatedMemories.find(m => m.id === memoryAfterId);
-            if (memoryAfter) {
-                memoryAfter.previousMemoryId = memoryBeforeId;
+            if (memoryAfterId) {
+                const memoryAfter = updatedMemories.find(m => m.id === memoryAfterId);
+                if (memoryAfter) {
+                    memoryAfter.previousMemoryId = memoryBeforeId;
+                }
             }
-        }
 
-        // Invalidate the cache and save the updated metadata list.
-        // The vector index will have "dead" vectors, but this is acceptable. Rebuilding is complex.
-        indexCache.delete(collectionName);
-        await saveRagMetadataForCollection(collectionName, updatedMemories);
+            // Invalidate the cache and save the updated metadata list.
+            // The vector index will have "dead" vectors, but this is acceptable. Rebuilding is complex.
+            indexCache.delete(collectionName);
+            await saveRagMetadataForCollection(collectionName, updatedMemories);
         
-        console.log(`${memoryIdsToDelete.size} memory metadata entries removed.`);
+            console.log(`${memoryIdsToDelete.size} memory metadata entries removed.`);
+        });
 
     } catch (e) {
         console.error('Failed to delete memories:', e);
@@ -698,45 +937,49 @@ export async function addMemory(
     const cleanSummary = summary ? sanitizeMessageContentForRag(summary) : undefined;
     const sceneFacts = buildSanitizedFacts(sanitizedText, cleanSummary);
 
-    let [embedding] = await generateEmbedding([cleanSummary || sanitizedText], settings, 'RETRIEVAL_DOCUMENT');
-    if (embedding) embedding = normalizeEmbedding(embedding);
-    if (!embedding) throw new Error('Failed to generate embedding for new memory.');
+    await withCollectionLock(collectionName, async () => {
+      const embeddingSettings = getCollectionEmbeddingSettings(collectionName, settings);
+      let [embedding] = await generateEmbedding([cleanSummary || sanitizedText], embeddingSettings, 'RETRIEVAL_DOCUMENT');
+      if (embedding) embedding = normalizeEmbedding(embedding);
+      if (!embedding) throw new Error('Failed to generate embedding for new memory.');
 
-    const dimensions = embedding.length;
-    const { index, metadata } = await loadIndex(collectionName, dimensions);
+      const dimensions = embedding.length;
+      const { index, metadata } = await loadIndex(collectionName, dimensions);
     
-    const memoriesArray = Array.from(metadata.values());
-    const lastMemory = memoriesArray.length > 0 ? memoriesArray.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))[0] : null;
-
-    const newMemory: RagMemory = {
-        id: generateUUID(),
-        timestamp: Date.now(),
-        fullText: sanitizedText,
-        summary: cleanSummary,
-        sanitizedFacts: sceneFacts,
-        tags,
-        importance,
-        relations,
-        mood,
-        previousMemoryId: lastMemory?.id,
-    };
+      const memoriesArray = Array.from(metadata.values());
+      const lastMemory = memoriesArray.length > 0 ? memoriesArray.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0))[0] : null;
+
+      const newMemory: RagMemory = {
+          id: generateUUID(),
+          timestamp: Date.now(),
+          fullText: sanitizedText,
+          summary: cleanSummary,
+          sanitizedFacts: sceneFacts,
+          tags,
+          importance,
+          relations,
+          mood,
+          previousMemoryId: lastMemory?.id,
+      };
     
-    const newLabel = index.getCurrentCount();
-    if (newLabel >= index.getMaxElements()) {
-        index.resizeIndex(index.getMaxElements() * 2);
-    }
-    index.addPoint(embedding, newLabel, false);
-    metadata.set(newLabel, newMemory);
-
-    if (lastMemory) {
-        const lastMemoryLabel = Array.from(metadata.entries()).find(([, mem]) => mem.id === lastMemory.id)?.[0];
-        if (lastMemoryLabel !== undefined) {
-            lastMemory.nextMemoryId = newMemory.id;
-            metadata.set(lastMemoryLabel, lastMemory);
-        }
-    }
+      const newLabel = index.getCurrentCount();
+      if (newLabel >= index.getMaxElements()) {
+          index.resizeIndex(index.getMaxElements() * 2);
+      }
+      index.addPoint(embedding, newLabel, false);
+      metadata.set(newLabel, newMemory);
+
+      if (lastMemory) {
+          const lastMemoryLabel = Array.from(metadata.entries()).find(([, mem]) => mem.id === lastMemory.id)?.[0];
+          if (lastMemoryLabel !== undefined) {
+              lastMemory.nextMemoryId = newMemory.id;
+              metadata.set(lastMemoryLabel, lastMemory);
+          }
+      }
     
-    await saveIndex(collectionName);
+      await saveIndex(collectionName);
+      saveIndexEngine(collectionName, embeddingSettings.rag.embeddingEngine);
+    });
   } catch (e) {
     console.error('Failed to add memory:', e);
     throw e;
@@ -0,0 +1,179 @@
+import type { Conversation, ConversationState } from '../types';
+
+/**
+ * Relationship graph of a conversation, built from the Conscious State V2 `relationships`.
+ *
+ * Characters are nodes and each relationship is a directed edge from the character who holds
+ * the feeling to its target. One graph is built per state snapshot so the view can scrub through
+ * history; all frames share one layout, so nodes stay in place while the edges change.
+ */
+
+export type RelationshipMetric = 'trust' | 'affinity' | 'forgiveness';
+
+export interface RelationshipNode {
+    id: string;
+    name: string;
+    mood?: string;
+    evidenceMessageIds: string[];
+}
+
+export interface RelationshipEdge {
+    id: string;
+    source: string;
+    target: string;
+    tags: string[];
+    metrics: Partial<Record<RelationshipMetric, number>>;
+    lastEventId?: string;
+}
+
+export interface RelationshipGraph {
+    nodes: RelationshipNode[];
+    edges: RelationshipEdge[];
+}
+
+export interface RelationshipFrame {
+    snapshotId?: string;
+    createdAt?: number;
+    messageNumber: number;
+    graph: RelationshipGraph;
+}
+
+export const buildRelationshipGraph = (state: ConversationState | null | undefined, nameOf: (id: string) => string | undefined = () => undefined): RelationshipGraph => {
+    const nodes = new Map<string, RelationshipNode>();
+    const edges: RelationshipEdge[] = [];
+    const ensureNode = (id: string, name?: string) => {
+        if (!nodes.has(id)) nodes.set(id, { id, name: name || nameOf(id) || id, evidenceMessageIds: [] });
+        return nodes.get(id)!;
+    };
+
+    for (const characterState of state?.character_states || []) {
+        const node = ensureNode(characterState.characterId, characterState.characterName);
+        node.name = characterState.characterName;
+        node.mood = characterState.mood || characterState.emotional_state;
+        node.evidenceMessageIds = characterState.evidenceMessageIds || [];
+        for (const relationship of characterState.relationships || []) {
+            if (!relationship.targetCharacterId || relationship.targetCharacterId === characterState.characterId) continue;
+            ensureNode(relationship.targetCharacterId);
+            edges.push({
+                id: `${characterState.characterId}->${relationship.targetCharacterId}`,
+                source: characterState.characterId,
+                target: relationship.targetCharacterId,
+                tags: relationship.tags || [],
+                metrics: relationship.metrics || {},
+                lastEventId: relationship.lastEventId,
+            });
+        }
+    }
+    return { nodes: Array.from(nodes.values()), edges };
+};
+
+/**
+ * One frame per state snapshot, oldest first. Without history the current state is the only frame.
+ */
+export const getRelationshipFrames = (conversation: Conversation, nameOf?: (id: string) => string | undefined): RelationshipFrame[] => {
+    const history = conversation.consciousStateHistory || [];
+    if (history.length === 0) {
+        return conversation.consciousState
+            ? [{ messageNumber: conversation.messages.length, graph: buildRelationshipGraph(conversation.consciousState, nameOf) }]
+            : [];
+    }
+    return history.map(snapshot => ({
+        snapshotId: snapshot.id,
+        createdAt: snapshot.createdAt,
+        messageNumber: snapshot.messageNumber,
+        graph: buildRelationshipGraph(snapshot.state, nameOf),
+    }));
+};
+
+/**
+ * Metrics are expected in -1..1; values outside that range are read as percentages.
+ */
+export const normalizeMetric = (value: number | undefined): number | undefined => {
+    if (typeof value !== 'number' || !isFinite(value)) return undefined;
+    const scaled = Math.abs(value) > 1 ? value / 100 : value;
+    return Math.max(-1, Math.min(1, scaled));
+};
+
+/**
+ * Red for hostile, grey for neutral or unknown, green for warm.
+ */
+export const getMetricColor = (value: number | undefined): string => {
+    const normalized = normalizeMetric(value);
+    if (normalized === undefined) return 'hsl(220, 8%, 55%)';
+    const hue = normalized >= 0 ? 120 : 0;
+    const saturation = Math.round(15 + Math.abs(normalized) * 60);
+    return `hsl(${hue}, ${saturation}%, 48%)`;
+};
+
+/**
+ * Force-directed layout (Fruchterman-Reingold) over the union of all frames. Starts from a circle,
+ * so the same history always produces the same layout.
+ */
+export const layoutRelationshipGraph = (
+    frames: RelationshipFrame[],
+    width: number,
+    height: number,
+    iterations = 300
+): Map<string, { x: number; y: number }> => {
+    const nodeIds = Array.from(new Set(frames.flatMap(f => f.graph.nodes.map(n => n.id))));
+    const links = new Map<string, [string, string]>();
+    for (const frame of frames) {
+        for (const edge of frame.graph.edges) {
+            const key = [edge.source, edge.target].sort().join('|');
+            links.set(key, [edge.source, edge.target]);
+        }
+    }
+
+    const margin = 60;
+    const positions = new Map<string, { x: number; y: number }>();
+    const radius = Math.min(width, height) / 2 - margin;
+    nodeIds.forEach((id, index) => {
+        const angle = (2 * Math.PI * index) / Math.max(1, nodeIds.length) - Math.PI / 2;
+        positions.set(id, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) });
+    });
+    if (nodeIds.length < 3) return positions;
+
+    const k = Math.sqrt(((width - margin * 2) * (height - margin * 2)) / nodeIds.length) * 0.75;
+    let temperature = width / 10;
+    for (let i = 0; i < iterations; i++) {
+        const displacement = new Map(nodeIds.map(id => [id, { x: 0, y: 0 }]));
+        for (let a = 0; a < nodeIds.length; a++) {
+            for (let b = a + 1; b < nodeIds.length; b++) {
+                const pa = positions.get(nodeIds[a])!;
+                const pb = positions.get(nodeIds[b])!;
+                const dx = pa.x - pb.x;
+                const dy = pa.y - pb.y;
+                const distance = Math.max(0.01, Math.hypot(dx, dy));
+                const force = (k * k) / distance;
+                const da = displacement.get(nodeIds[a])!;
+                const db = displacement.get(nodeIds[b])!;
+                da.x += (dx / distance) * force; da.y += (dy / distance) * force;
+                db.x -= (dx / distance) * force; db.y -= (dy / distance) * force;
+            }
+        }
+        for (const [source, target] of links.values()) {
+            const ps = positions.get(source)!;
+            const pt = positions.get(target)!;
+            const dx = ps.x - pt.x;
+            const dy = ps.y - pt.y;
+            const distance = Math.max(0.01, Math.hypot(dx, dy));
+            const force = (distance * distance) / k;
+            const ds = displacement.get(source)!;
+            const dt = displacement.get(target)!;
+            ds.x -= (dx / distance) * force; ds.y -= (dy / distance) * force;
+            dt.x += (dx / distance) * force; dt.y += (dy / distance) * force;
+        }
+        for (const id of nodeIds) {
+            const d = displacement.get(id)!;
+            const p = positions.get(id)!;
+            // Weak pull toward the centre keeps unconnected characters from drifting to the border.
+            d.x += (width / 2 - p.x) * 0.5;
+            d.y += (height / 2 - p.y) * 0.5;
+            const length = Math.max(0.01, Math.hypot(d.x, d.y));
+            p.x = Math.max(margin, Math.min(width - margin, p.x + (d.x / length) * Math.min(length, temperature)));
+            p.y = Math.max(margin, Math.min(height - margin, p.y + (d.y / length) * Math.min(length, temperature)));
+        }
+        temperature *= 0.98;
+    }
+    return positions;
+};
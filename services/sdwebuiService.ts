@@ -1,5 +1,6 @@
 import type { StableDiffusionSettings } from '../types';
 import { convertImageToWebP } from './imageUtils';
+import { mergeLoras, mergeNegativePrompt, type ImageAppearance } from './characterAppearance';
 
 const fetchApi = async (url: string, path: string, options: RequestInit = {}) => {
     try {
@@ -247,13 +248,47 @@ const pollProgress = (url: string, onProgress: (progress: string) => void, signa
     });
 };
 
+// The seed actually used, from the JSON `info` string of a txt2img/img2img response.
+const readSeed = (info: unknown): number | undefined => {
+    try {
+        const seed = JSON.parse(String(info)).seed;
+        return typeof seed === 'number' ? seed : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+const toOutputFormat = async (base64: string, settings: StableDiffusionSettings, onProgress: (progress: string) => void): Promise<string> => {
+    const pngDataUrl = `data:image/png;base64,${base64}`;
+    
+    // Handle output format based on user preference
+    if (settings.outputFormat === 'original') {
+        // Return original PNG directly - fastest option
+        onProgress('Done!');
+        return pngDataUrl;
+    } else if (settings.outputFormat === 'webp-browser') {
+        // Display original immediately, convert in background
+        onProgress('Converting to WebP...');
+        const webpDataUrl = await convertImageToWebP(pngDataUrl, settings.webpQuality / 100);
+        return webpDataUrl;
+    }
+    
+    // Fallback to original
+    return pngDataUrl;
+};
+
+/**
+ * Generates an image with txt2img, or with img2img from the appearance's reference image when the
+ * characters in the scene have one.
+ */
 export const generateImage = async (
     prompt: string,
     settings: StableDiffusionSettings,
-    onProgress: (progress: string) => void
-): Promise<string> => {
+    onProgress: (progress: string) => void,
+    appearance?: ImageAppearance | null
+): Promise<{ dataUrl: string; seed?: number }> => {
     onProgress('Building payload...');
-    const activeLoras = (settings.loras || []).filter(lora => lora && lora.enabled && lora.name);
+    const activeLoras = mergeLoras(settings.loras, appearance).filter(lora => lora && lora.enabled && lora.name);
     let finalPrompt = prompt?.trim() || '';
 
     const loraTriggerText = activeLoras
@@ -286,7 +321,7 @@ export const generateImage = async (
         overrideSettings.sd_vae = selectedVae === 'None' ? 'None' : selectedVae;
     }
 
-    const negativePrompt = settings.negativePrompt?.trim() || 'blurry, ugly, deformed, worst quality, low quality';
+    const negativePrompt = mergeNegativePrompt(settings.negativePrompt?.trim() || 'blurry, ugly, deformed, worst quality, low quality', appearance);
 
     const payload: any = {
         prompt: finalPrompt,
@@ -296,7 +331,7 @@ export const generateImage = async (
         cfg_scale: settings.cfg,
         width: settings.width,
         height: settings.height,
-        seed: settings.seed,
+        seed: appearance?.seed ?? settings.seed,
         override_settings: overrideSettings,
     };
 
@@ -319,7 +354,12 @@ export const generateImage = async (
         payload.restore_faces = false;
     }
 
-    if (settings.enableHiresFix) {
+    const referenceImage = appearance?.referenceImage;
+    if (referenceImage && appearance) {
+        payload.init_images = [referenceImage.replace(/^data:[^,]*,/, '')];
+        payload.denoising_strength = Number((1 - appearance.referenceStrength).toFixed(2));
+        payload.resize_mode = 1; // Crop and resize
+    } else if (settings.enableHiresFix) {
         payload.enable_hr = true;
         payload.hr_upscaler = settings.hiresUpscaler;
         payload.hr_second_pass_steps = settings.hiresSteps;
@@ -362,7 +402,7 @@ export const generateImage = async (
     const progressPromise = pollProgress(settings.url, onProgress, controller.signal);
 
     try {
-        const response = await fetchApi(settings.url, '/sdapi/v1/txt2img', {
+        const response = await fetchApi(settings.url, referenceImage ? '/sdapi/v1/img2img' : '/sdapi/v1/txt2img', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(payload),
@@ -374,22 +414,7 @@ export const generateImage = async (
             throw new Error('API did not return any images.');
         }
 
-        const pngDataUrl = `data:image/png;base64,${response.images[0]}`;
-        
-        // Handle output format based on user preference
-        if (settings.outputFormat === 'original') {
-            // Return original PNG directly - fastest option
-            onProgress('Done!');
-            return pngDataUrl;
-        } else if (settings.outputFormat === 'webp-browser') {
-            // Display original immediately, convert in background
-            onProgress('Converting to WebP...');
-            const webpDataUrl = await convertImageToWebP(pngDataUrl, settings.webpQuality / 100);
-            return webpDataUrl;
-        }
-        
-        // Fallback to original
-        return pngDataUrl;
+        return { dataUrl: await toOutputFormat(response.images[0], settings, onProgress), seed: readSeed(response.info) };
     } catch (error) {
         controller.abort();
         await progressPromise.catch(() => {});
@@ -397,3 +422,30 @@ export const generateImage = async (
         throw error;
     }
 };
+
+/**
+ * Upscales an image 2x through the Extras tab API, with the Hires.fix upscaler from settings.
+ */
+export const upscaleImage = async (
+    dataUrl: string,
+    settings: StableDiffusionSettings,
+    onProgress: (progress: string) => void
+): Promise<string> => {
+    onProgress('Upscaling...');
+    // Latent upscalers only work inside a generation.
+    const upscaler = settings.hiresUpscaler && settings.hiresUpscaler !== 'None' && !settings.hiresUpscaler.startsWith('Latent')
+        ? settings.hiresUpscaler
+        : 'R-ESRGAN 4x+';
+    const response = await fetchApi(settings.url, '/sdapi/v1/extra-single-image', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            image: dataUrl.replace(/^data:[^,]*,/, ''),
+            resize_mode: 0,
+            upscaling_resize: 2,
+            upscaler_1: upscaler,
+        }),
+    });
+    if (!response.image) throw new Error('API did not return the upscaled image.');
+    return toOutputFormat(response.image, settings, onProgress);
+};
@@ -0,0 +1,154 @@
+import type { Character, Conversation, StoryArcLevel, StoryArcLevelUpProposal, StoryArcMilestone } from '../types';
+import { normalizeMetric } from './relationshipGraph';
+
+/**
+ * Story Arc progression by narrative milestones.
+ *
+ * A level can list milestones (facts established, story events, completed Will Engine directives,
+ * Conscious State thresholds) instead of relying on its message count. After each response the
+ * Story Arc evaluator checks them; when they are reached it proposes the level-up and the user
+ * confirms or dismisses it. Levels without milestones keep advancing by message count.
+ */
+
+// Messages to wait after a dismissed level-up before proposing again.
+export const STORY_ARC_SNOOZE_MESSAGES = 10;
+
+export const STORY_ARC_MILESTONE_TYPES: { type: StoryArcMilestone['type']; label: string }[] = [
+    { type: 'fact', label: 'Fact established' },
+    { type: 'event', label: 'Story event (judged by the model)' },
+    { type: 'directive', label: 'Will Engine directive completed' },
+    { type: 'sceneTension', label: 'Scene tension' },
+    { type: 'relationship', label: 'Relationship metric' },
+];
+
+export interface MilestoneResult {
+    milestone: StoryArcMilestone;
+    reached: boolean;
+    // What was found, e.g. the matching fact or the current tension.
+    detail?: string;
+}
+
+export const getStoryArcLevel = (levels: StoryArcLevel[], level: number): StoryArcLevel | undefined =>
+    levels.find(l => l.level === level);
+
+export const usesMilestones = (level: StoryArcLevel | undefined): level is StoryArcLevel & { milestones: StoryArcMilestone[] } =>
+    !!level?.milestones?.length;
+
+const includesText = (value: string | undefined, text: string | undefined) =>
+    !!text?.trim() && (value || '').toLowerCase().includes(text.trim().toLowerCase());
+
+const sameName = (a: string | undefined, b: string | undefined) =>
+    !!a?.trim() && a.trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+const compare = (actual: number, milestone: StoryArcMilestone) =>
+    milestone.comparison === 'atMost' ? actual <= (milestone.value ?? 0) : actual >= (milestone.value ?? 0);
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+export const describeMilestone = (milestone: StoryArcMilestone): string => {
+    const comparison = milestone.comparison === 'atMost' ? '≤' : '≥';
+    switch (milestone.type) {
+        case 'fact': return `Fact: "${milestone.text || ''}"`;
+        case 'event': return `Event: ${milestone.text || ''}`;
+        case 'directive': return `Directive completed: "${milestone.text || ''}"`;
+        case 'sceneTension': return `Scene tension ${comparison} ${milestone.value ?? 0}`;
+        case 'relationship': return `${milestone.fromCharacter || '?'}'s ${milestone.metric || 'trust'} toward ${milestone.toCharacter || '?'} ${comparison} ${milestone.value ?? 0}`;
+    }
+};
+
+/**
+ * Checks one milestone against the conversation. 'event' milestones are only read from the
+ * reached list; the evaluator agent asks the model about them.
+ */
+export const evaluateMilestone = (milestone: StoryArcMilestone, conversation: Conversation, characters: Character[] = []): MilestoneResult => {
+    switch (milestone.type) {
+        case 'fact': {
+            const fact = (conversation.facts || []).find(f => f.isActive && includesText(f.content, milestone.text));
+            return { milestone, reached: !!fact, detail: fact?.content };
+        }
+        case 'event':
+            return { milestone, reached: (conversation.storyArcReachedMilestoneIds || []).includes(milestone.id) };
+        case 'directive': {
+            const directive = (conversation.narrativeDirectives || []).find(d => d.isCompleted && includesText(d.goal, milestone.text));
+            return { milestone, reached: !!directive, detail: directive?.goal };
+        }
+        case 'sceneTension': {
+            const tension = conversation.consciousState?.world_state?.sceneTension;
+            if (typeof tension !== 'number') return { milestone, reached: false, detail: 'No scene tension in the Conscious State' };
+            return { milestone, reached: compare(tension, milestone), detail: `Tension ${formatNumber(tension)}` };
+        }
+        case 'relationship': {
+            const states = conversation.consciousState?.character_states || [];
+            const nameOf = (id: string) => states.find(s => s.characterId === id)?.characterName || characters.find(c => c.id === id)?.name;
+            const holder = states.find(s => sameName(s.characterName, milestone.fromCharacter));
+            const relationship = holder?.relationships?.find(r => sameName(nameOf(r.targetCharacterId), milestone.toCharacter));
+            const value = normalizeMetric(relationship?.metrics?.[milestone.metric || 'trust']);
+            if (value === undefined) return { milestone, reached: false, detail: 'No such relationship in the Conscious State' };
+            return { milestone, reached: compare(value, milestone), detail: `${milestone.metric || 'trust'} ${formatNumber(value)}` };
+        }
+    }
+};
+
+/**
+ * Results for every milestone of a level, and whether the level is complete under its mode.
+ */
+export const evaluateLevelMilestones = (
+    level: StoryArcLevel,
+    conversation: Conversation,
+    characters: Character[] = []
+): { results: MilestoneResult[]; complete: boolean } => {
+    const results = (level.milestones || []).map(m => evaluateMilestone(m, conversation, characters));
+    if (results.length === 0) return { results, complete: false };
+    const complete = level.milestoneMode === 'any' ? results.some(r => r.reached) : results.every(r => r.reached);
+    return { results, complete };
+};
+
+// 'event' milestones of the level that have not been reached yet.
+export const getPendingEventMilestones = (level: StoryArcLevel, conversation: Conversation): StoryArcMilestone[] =>
+    (level.milestones || []).filter(m => m.type === 'event' && m.text?.trim() && !(conversation.storyArcReachedMilestoneIds || []).includes(m.id));
+
+export const markMilestonesReached = (conversation: Conversation, milestoneIds: string[]): Conversation => {
+    if (milestoneIds.length === 0) return conversation;
+    const reached = new Set([...(conversation.storyArcReachedMilestoneIds || []), ...milestoneIds]);
+    return { ...conversation, storyArcReachedMilestoneIds: Array.from(reached) };
+};
+
+export const isStoryArcSnoozed = (conversation: Conversation): boolean =>
+    conversation.messages.length < (conversation.storyArcSnoozedUntilMessage || 0);
+
+export const proposeLevelUp = (conversation: Conversation, results: MilestoneResult[]): Conversation => {
+    const fromLevel = conversation.currentLevel || 1;
+    const proposal: StoryArcLevelUpProposal = {
+        fromLevel,
+        toLevel: fromLevel + 1,
+        proposedAt: Date.now(),
+        reasons: results.filter(r => r.reached).map(r => describeMilestone(r.milestone) + (r.detail ? ` (${r.detail})` : '')),
+    };
+    return { ...conversation, storyArcLevelUpProposal: proposal };
+};
+
+/**
+ * Moves the conversation to a level, manually or by confirming a proposal. Progress, reached
+ * milestones and any pending proposal belong to the old level and are cleared.
+ */
+export const setStoryArcLevel = (conversation: Conversation, level: number): Conversation => ({
+    ...conversation,
+    currentLevel: Math.max(1, level),
+    messageProgress: 0,
+    storyArcReachedMilestoneIds: [],
+    storyArcLevelUpProposal: undefined,
+    storyArcSnoozedUntilMessage: undefined,
+});
+
+// Confirms the pending proposal. Does nothing when it no longer matches the current level.
+export const confirmLevelUp = (conversation: Conversation): Conversation => {
+    const proposal = conversation.storyArcLevelUpProposal;
+    if (!proposal || proposal.fromLevel !== (conversation.currentLevel || 1)) return { ...conversation, storyArcLevelUpProposal: undefined };
+    return setStoryArcLevel(conversation, proposal.toLevel);
+};
+
+export const dismissLevelUp = (conversation: Conversation): Conversation => ({
+    ...conversation,
+    storyArcLevelUpProposal: undefined,
+    storyArcSnoozedUntilMessage: conversation.messages.length + STORY_ARC_SNOOZE_MESSAGES,
+});
@@ -0,0 +1,105 @@
+import type { Conversation, TelegramRelayClientMessage, TelegramRelayServerMessage, TelegramUpdate } from '../types';
+import { log } from './loggingService';
+
+/**
+ * WebSocket connection to the local Telegram relay (relay/). The relay receives the bot's
+ * webhooks and queues them until the app acknowledges each update, so nothing is lost while
+ * the tab sleeps. Messages are handled one at a time, in the order the relay sent them.
+ */
+
+const RECONNECT_DELAY = 5000;
+
+export interface RelayHandlers {
+    onUpdate: (update: TelegramUpdate) => Promise<void>;
+    onConversation: (conversation: Conversation) => Promise<void>;
+    onHello: (queued: number) => Promise<void>;
+}
+
+let socket: WebSocket | null = null;
+let reconnectTimer: number | null = null;
+let activeHandlers: RelayHandlers | null = null;
+let processing: Promise<void> = Promise.resolve();
+
+// The bot token in the path authenticates the app; the relay is reachable from the internet through the webhook tunnel.
+const getSocketUrl = (relayUrl: string, botToken: string): string =>
+    `${relayUrl.replace(/\/+$/, '').replace(/^http/i, 'ws')}/bot${botToken}/updates`;
+
+const send = (message: TelegramRelayClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+    }
+};
+
+const handleServerMessage = async (message: TelegramRelayServerMessage) => {
+    if (!activeHandlers) return;
+    switch (message.type) {
+        case 'update':
+            try {
+                await activeHandlers.onUpdate(message.update);
+            } catch (error: any) {
+                log('ERROR', 'TELEGRAM', 'Failed to process relayed update', { updateId: message.update.update_id, error: error.message });
+            }
+            // Acknowledged even on failure, like a polled update, so a broken update is not redelivered forever.
+            send({ type: 'ack', updateId: message.update.update_id });
+            break;
+        case 'conversation':
+            await activeHandlers.onConversation(message.conversation);
+            send({ type: 'synced', conversationId: message.conversation.id });
+            break;
+        case 'hello':
+            await activeHandlers.onHello(message.queued);
+            break;
+    }
+};
+
+const connect = (relayUrl: string, botToken: string) => {
+    const ws = new WebSocket(getSocketUrl(relayUrl, botToken));
+    socket = ws;
+
+    ws.onopen = () => log('INFO', 'TELEGRAM', 'Connected to the Telegram relay', { relayUrl });
+    ws.onmessage = (event) => {
+        let message: TelegramRelayServerMessage;
+        try {
+            message = JSON.parse(event.data);
+        } catch {
+            return;
+        }
+        processing = processing.then(() => handleServerMessage(message)).catch(error => {
+            log('ERROR', 'TELEGRAM', 'Relay message handling failed', { error: error.message });
+        });
+    };
+    ws.onclose = () => {
+        if (socket !== ws) return; // Replaced or disconnected on purpose
+        socket = null;
+        log('WARN', 'TELEGRAM', `Telegram relay unreachable, retrying in ${RECONNECT_DELAY / 1000}s`, { relayUrl });
+        reconnectTimer = window.setTimeout(() => connect(relayUrl, botToken), RECONNECT_DELAY);
+    };
+};
+
+/**
+ * Connects to the relay and keeps reconnecting until disconnectFromRelay is called.
+ * @param relayUrl - The relay's HTTP address, e.g. http://localhost:8787.
+ */
+export const connectToRelay = (relayUrl: string, botToken: string, handlers: RelayHandlers) => {
+    disconnectFromRelay();
+    activeHandlers = handlers;
+    connect(relayUrl, botToken);
+};
+
+export const disconnectFromRelay = () => {
+    if (reconnectTimer) {
+        window.clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    activeHandlers = null;
+};
+
+/**
+ * Sends a bot conversation to the relay, so it continues from the same state when it runs headless.
+ */
+export const pushConversationToRelay = (conversation: Conversation) => {
+    send({ type: 'conversation', conversation });
+};
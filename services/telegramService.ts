@@ -1,7 +1,18 @@
-import type { GetMeResponse, TelegramUpdate, InlineKeyboardMarkup } from '../types';
+import type { GetMeResponse, TelegramUpdate, TelegramFile, InlineKeyboardMarkup } from '../types';
+
+const DEFAULT_API_BASE_URL = 'https://api.telegram.org';
+let apiBaseUrl = DEFAULT_API_BASE_URL;
+
+/**
+ * Routes all Bot API calls through another server, e.g. the local relay, which forwards them to
+ * Telegram (or to a fake API during testing). Call without an argument to talk to Telegram directly.
+ */
+export const setApiBaseUrl = (url?: string) => {
+    apiBaseUrl = (url || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+};
 
 const apiRequest = async <T>(token: string, method: string, body?: object): Promise<T> => {
-    const url = `https://api.telegram.org/bot${token}/${method}`;
+    const url = `${apiBaseUrl}/bot${token}/${method}`;
     try {
         const response = await fetch(url, {
             method: body ? 'POST' : 'GET',
@@ -19,26 +30,41 @@ const apiRequest = async <T>(token: string, method: string, body?: object): Prom
     }
 };
 
+// Model output and image prompts often contain unbalanced Markdown, which Telegram rejects. Such messages and captions are resent as plain text.
+const isMarkdownError = (response: any): boolean =>
+    response?.ok === false && response.error_code === 400 && /can't parse entities/i.test(response.description || '');
+
 export const verifyToken = async (token: string): Promise<GetMeResponse> => {
     return apiRequest<GetMeResponse>(token, 'getMe');
 };
 
 export const sendMessage = async (token: string, chatId: number, text: string, reply_markup?: InlineKeyboardMarkup): Promise<any> => {
-    return apiRequest(token, 'sendMessage', {
+    const body = { chat_id: chatId, text, reply_markup };
+    const response = await apiRequest(token, 'sendMessage', { ...body, parse_mode: 'Markdown' });
+    return isMarkdownError(response) ? apiRequest(token, 'sendMessage', body) : response;
+};
+
+export const editMessageText = async (token: string, chatId: number, messageId: number, text: string, reply_markup?: InlineKeyboardMarkup): Promise<any> => {
+    const body = { chat_id: chatId, message_id: messageId, text, reply_markup };
+    const response = await apiRequest(token, 'editMessageText', { ...body, parse_mode: 'Markdown' });
+    return isMarkdownError(response) ? apiRequest(token, 'editMessageText', body) : response;
+};
+
+/**
+ * Replaces the inline keyboard of a message. Pass an empty keyboard to remove the buttons.
+ */
+export const editMessageReplyMarkup = async (token: string, chatId: number, messageId: number, reply_markup: InlineKeyboardMarkup): Promise<any> => {
+    return apiRequest(token, 'editMessageReplyMarkup', {
         chat_id: chatId,
-        text,
-        parse_mode: 'Markdown',
+        message_id: messageId,
         reply_markup,
     });
 };
 
-export const editMessageText = async (token: string, chatId: number, messageId: number, text: string, reply_markup?: InlineKeyboardMarkup): Promise<any> => {
-    return apiRequest(token, 'editMessageText', {
+export const deleteMessage = async (token: string, chatId: number, messageId: number): Promise<any> => {
+    return apiRequest(token, 'deleteMessage', {
         chat_id: chatId,
         message_id: messageId,
-        text,
-        parse_mode: 'Markdown',
-        reply_markup,
     });
 };
 
@@ -61,15 +87,72 @@ export const sendChatAction = async (token: string, chatId: number, action: stri
     });
 };
 
+/**
+ * Sends a photo. Data URLs (all local generators return those) are uploaded, since Telegram
+ * cannot fetch images from a local ComfyUI or SD WebUI server.
+ */
 export const sendPhoto = async (token: string, chatId: number, photoUrl: string, caption: string): Promise<any> => {
-    return apiRequest(token, 'sendPhoto', {
-        chat_id: chatId,
-        photo: photoUrl,
-        caption,
-        parse_mode: 'Markdown',
+    if (!photoUrl.startsWith('data:')) {
+        const body = { chat_id: chatId, photo: photoUrl, caption };
+        const response = await apiRequest(token, 'sendPhoto', { ...body, parse_mode: 'Markdown' });
+        return isMarkdownError(response) ? apiRequest(token, 'sendPhoto', body) : response;
+    }
+
+    const photo = await (await fetch(photoUrl)).blob();
+    const upload = async (markdown: boolean) => {
+        const form = new FormData();
+        form.append('chat_id', String(chatId));
+        form.append('photo', photo, 'image.png');
+        form.append('caption', caption);
+        if (markdown) form.append('parse_mode', 'Markdown');
+        try {
+            const response = await fetch(`${apiBaseUrl}/bot${token}/sendPhoto`, { method: 'POST', body: form });
+            return response.json();
+        } catch (error: any) {
+            console.error('Telegram API request failed for method sendPhoto:', error);
+            return { ok: false, description: error.message || 'A network error occurred.', error_code: 500 };
+        }
+    };
+    const response = await upload(true);
+    return isMarkdownError(response) ? upload(false) : response;
+};
+
+export const getFile = async (token: string, fileId: string): Promise<{ ok: boolean, result?: TelegramFile, description?: string }> => {
+    return apiRequest(token, 'getFile', { file_id: fileId });
+};
+
+/**
+ * Downloads a file a user sent to the bot (photos, voice notes).
+ * @throws Error if Telegram does not provide the file (e.g. it exceeds the 20 MB bot download limit).
+ */
+export const downloadFile = async (token: string, fileId: string): Promise<Blob> => {
+    const file = await getFile(token, fileId);
+    if (!file.ok || !file.result?.file_path) {
+        throw new Error(file.description || 'Telegram did not provide the file.');
+    }
+    const response = await fetch(`${apiBaseUrl}/file/bot${token}/${file.result.file_path}`);
+    if (!response.ok) {
+        throw new Error(`File download failed with status ${response.status}.`);
+    }
+    return response.blob();
+};
+
+/**
+ * Registers the URL Telegram pushes updates to. While a webhook is set, getUpdates fails with 409.
+ * @param secretToken - Sent back by Telegram in the X-Telegram-Bot-Api-Secret-Token header of every update.
+ */
+export const setWebhook = async (token: string, url: string, secretToken?: string): Promise<any> => {
+    return apiRequest(token, 'setWebhook', {
+        url,
+        secret_token: secretToken,
+        allowed_updates: ['message', 'edited_message', 'callback_query'],
     });
 };
 
+export const deleteWebhook = async (token: string): Promise<any> => {
+    return apiRequest(token, 'deleteWebhook', {});
+};
+
 export const getUpdates = async (
     token: string,
     offset: number,
@@ -78,7 +161,7 @@ export const getUpdates = async (
     const response = await apiRequest<{ ok: boolean, result?: TelegramUpdate[], description?: string, error_code?: number }>(token, 'getUpdates', {
         offset,
         timeout,
-        allowed_updates: ['message', 'callback_query'],
+        allowed_updates: ['message', 'edited_message', 'callback_query'],
     });
 
     if (response.error_code === 409) {
@@ -36,11 +36,27 @@ export interface CustomThemeColors {
   scrollbarTrackBg: string;
 }
 
+// New: Model families that share a tokenizer. Detection rules live in services/ai/tokenizers.ts.
+export type TokenizerFamily = 'openai' | 'openai-legacy' | 'gemini' | 'claude' | 'llama' | 'mistral' | 'qwen' | 'grok' | 'deepseek' | 'other';
+
+// New: A tokenizer vocabulary imported from a local file.
+export interface CustomTokenizer {
+  id: string;
+  name: string;
+  format: 'tokenizer.json' | 'sentencepiece'; // HuggingFace tokenizer.json, or a SentencePiece .model file
+  data: string; // JSON text, or the .model file base64-encoded
+  createdAt: number;
+}
+
 export interface Model {
   id: string;
   name: string;
-  provider: 'Google' | 'OpenRouter' | 'XAI';
+  provider: 'Google' | 'OpenRouter' | 'XAI' | 'Custom';
   contextLengthTokens?: number;
+  // Custom provider only: the endpoint this model is served from and the raw ID the backend expects.
+  endpointId?: string;
+  endpointName?: string;
+  apiModelId?: string;
   // Indicates whether the model supports image input (vision)
   supportsImageInput?: boolean;
   // Indicates whether the model supports audio input/output
@@ -53,13 +69,72 @@ export interface Model {
   supportsDeepThinking?: boolean;
 }
 
+// New: A kind of event the Director AI can pick before writing the event itself.
+export interface DirectorEventTemplate {
+  id: string;
+  name: string;               // e.g. "Ambush"
+  description: string;        // What the event is about; the Director elaborates from this
+  tags: string[];             // e.g. ["danger", "combat"]
+  weight: number;             // Relative chance of being picked among the eligible templates
+  cooldown: number;           // Messages before the template can be picked again in the same conversation
+  enabled: boolean;
+  // Conditions on the Conscious State world state. A template whose conditions cannot be checked
+  // (no world state yet) is only eligible when it has none.
+  prerequisites?: {
+    minTension?: number;      // 0-1, compared with WorldState.sceneTension
+    maxTension?: number;
+    timeOfDay?: string[];     // Any of these must appear in WorldState.timeOfDay
+    weather?: string[];       // Any of these must appear in WorldState.weather
+    keywords?: string[];      // Any of these must appear in the scene atmosphere, environment or location hints
+  };
+}
+
+// New: A Director AI event injected into a conversation, used for template cooldowns and to avoid repeats.
+export interface DirectorEventRecord {
+  templateId?: string;        // Unset for free-form events
+  text: string;
+  messageNumber: number;      // Number of messages in the conversation when the event was created
+  createdAt: number;
+}
+
 export interface MessageSuggestion {
-  type: 'directorAI' | 'livingLore' | 'manualDirectorAI';
+  type: 'directorAI' | 'livingLore' | 'manualDirectorAI' | 'factContradiction';
   title: string;
   text: string;
   targetId?: string;
   targetName?: string;
   summaryOfChange?: string;
+  // New: For 'factContradiction', the contradicted fact; `targetId` is the reply that contradicts it.
+  factContradiction?: FactContradiction;
+}
+
+// New: An active Key Fact that a model reply contradicts.
+export interface FactContradiction {
+  factId: string;
+  factContent: string;
+  explanation: string;
+  // The fact rewritten to match the reply, for when the story really changed it.
+  correctedFact?: string;
+}
+
+export type ImageGenerator = 'comfyui' | 'sdwebui' | 'huggingface' | 'xai';
+
+// New: An image in a conversation's gallery, stored in its own table rather than in the message.
+export interface GalleryImage {
+  id: string;
+  conversationId: string;
+  // The chat message showing the image; variations, upscales and backgrounds made in the gallery have none.
+  messageId?: string;
+  dataUrl: string;
+  prompt: string;
+  generator: ImageGenerator;
+  seed?: number;
+  // Generator settings it was made with (model, sampler, steps, size...), without credentials.
+  settings?: Record<string, string | number | boolean>;
+  kind: 'generated' | 'regenerated' | 'variation' | 'upscaled' | 'background';
+  // The image this one was made from.
+  parentId?: string;
+  createdAt: number;
 }
 
 export interface Message {
@@ -69,9 +144,12 @@ export interface Message {
   timestamp: number;
   isThinking?: boolean;
   isGeneratingImage?: boolean;
+  // Legacy: images used to be stored inline; new images live in the gallery table (see imageId).
   imageUrl?: string;
+  // New: The generated image, stored in the gallery table.
+  imageId?: string;
   imageGenerationProgress?: string;
-  imageGenerator?: 'comfyui' | 'sdwebui' | 'huggingface' | 'xai';
+  imageGenerator?: ImageGenerator;
   tokenCount?: number;
   type?: 'event'; // For Director AI injections
   suggestion?: MessageSuggestion;
@@ -100,6 +178,55 @@ export interface Message {
   isDualResponse?: boolean; // Flag to indicate this message has dual responses
   selectedResponse?: 'primary' | 'alternative'; // Which response is currently selected/saved
   ragSyncedResponse?: 'primary' | 'alternative'; // Which response is synced to RAG memory
+  // New: Swipes - every generated variant of a model turn. `content` mirrors swipes[activeSwipeIndex].
+  swipes?: MessageSwipe[];
+  activeSwipeIndex?: number;
+  ragSyncedSwipeIndex?: number; // Which swipe is synced to RAG memory
+  // New: The Telegram message this turn was received as or sent as (bot conversations only).
+  telegramMessageId?: number;
+  // New: All Telegram messages a long reply was split into, in order. `telegramMessageId` is the last one, which has the buttons.
+  telegramMessageIds?: number[];
+}
+
+// New: One generated variant of a model turn.
+export interface MessageSwipe {
+  content: string;
+  timestamp: number;
+  tokenCount?: number;
+  contextPayload?: string;
+}
+
+// New: Conversation branching. A branch starts as a copy of its parent's messages up to the fork point.
+export interface ConversationBranchInfo {
+  name: string;
+  rootConversationId: string; // The original conversation every branch of the family descends from
+  parentConversationId: string;
+  forkMessageId: string; // Last message shared with the parent
+  forkedAt: number;
+}
+
+// New: A RAG collection inherited from an ancestor conversation, readable up to the fork point.
+export interface RagAncestorCollection {
+  collectionName: string;
+  cutoffTimestamp: number; // Only memories with timestamp <= cutoff belong to this branch's past
+}
+
+// New: A user-configured OpenAI-compatible backend (llama.cpp, Ollama, vLLM, KoboldCpp, LM Studio...).
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. http://localhost:8080/v1 - '/v1' is appended when missing
+  apiKey: string; // Optional for most local servers
+  enabled: boolean;
+  // Model IDs to expose when the server has no /v1/models listing (one per line or comma-separated)
+  manualModels?: string;
+  // Per-endpoint overrides. Undefined falls back to the global generation settings.
+  temperature?: number;
+  topP?: number;
+  maxResponseTokens?: number | null;
+  contextLengthTokens?: number;
+  supportsImageInput?: boolean;
+  promptFormat?: string; // 'Default' sends a chat messages array
 }
 
 // New: Defines the structure for the Conscious State Engine.
@@ -146,6 +273,18 @@ export interface ConversationState {
   conflicts?: { field: string; oldValue: any; newValue: any; reason?: string }[];
 }
 
+// New: One saved version of the Conscious State, linked to the message it was computed after.
+export interface ConsciousStateSnapshot {
+  id: string;
+  createdAt: number;
+  // 'baseline' is the state that existed before history was recorded; it is never rolled back.
+  source: 'baseline' | 'engine' | 'manual' | 'restore';
+  engineVersion?: 'v1' | 'v2';
+  messageId?: string;        // Last message of the conversation when the state was saved
+  messageNumber: number;     // 1-based position of that message
+  state: ConversationState;
+}
+
 // New: Defines the structured output from the Will Engine's intent generation.
 export interface DirectiveIntent {
   type: 'scene_opportunity' | 'character_action';
@@ -161,6 +300,32 @@ export interface TaskMemoryEntry {
   intentContent: string;      // The actual instruction that was injected
   reasoning: string;          // Why this action was taken
   messageCount?: number;      // At which message number this was injected
+  // New: Directive timeline fields
+  messageId?: string;         // The user message the injection was sent with
+  messageNumber?: number;     // 1-based position of that message in the conversation
+  retracted?: boolean;        // Retracted by the user; no longer shown to the Will Engine as a previous attempt
+}
+
+// New: One point in a directive's timeline (a verification, a context analysis or a manual change).
+export interface DirectiveProgressEntry {
+  checkedAt: number;
+  source: 'verification' | 'context' | 'manual';
+  messageId?: string;         // Last message of the conversation at the time
+  messageNumber: number;      // 1-based position of that message
+  milestoneId?: string;       // Milestone that was verified, for multi-step directives
+  progress?: number;          // Verification score or manually set progress, 0-100
+  activationScore?: number;   // Context analysis score, 0-100
+}
+
+// New: One beat of a multi-step directive.
+export interface DirectiveMilestone {
+  id: string;
+  title: string;               // The intermediate goal
+  completionCriteria: string;  // What has to happen in the story for this beat to count as reached
+  dependsOn?: string[];        // Milestones that must be completed first; none means it is open from the start
+  progress?: number;           // 0-100, AI-evaluated progress while this is the current milestone
+  isCompleted?: boolean;
+  completedAt?: number;
 }
 
 // New: Defines a directive for the "Will Engine" to guide character development.
@@ -178,10 +343,17 @@ export interface NarrativeDirective {
   lastChecked?: number; // Timestamp of last verification
   isCompleted?: boolean; // True when goal is achieved
   contextTriggers?: string[]; // Keywords/phrases that activate this directive
+  activationScore?: number; // 0-100, how relevant the current scene is to this directive
   // NEW: Hunger tracks how many turns this directive has been ignored.
   hunger?: number;
   // NEW: Task Memory - tracks all injections for this specific directive
   taskMemory?: TaskMemoryEntry[]; // History of what has been injected for this goal
+  // New: Directive timeline
+  progressHistory?: DirectiveProgressEntry[]; // Verification and context scores over time
+  progressPinned?: boolean; // Progress was set by hand; verification still records its score but no longer changes progress
+  forcedSlip?: 'hint' | 'scene'; // Inject a goal slip with this strategy on the next response, regardless of score
+  // New: Multi-step directives. Without milestones the goal is pursued and verified as a whole.
+  milestones?: DirectiveMilestone[]; // In order; `dependsOn` allows branches that can be reached in any order
 }
 
 // New: Smart AI Systems Configuration
@@ -202,6 +374,12 @@ export interface SmartSystemConfig {
     frequencyValue?: number; // Used only if mode = 'frequency'
     significanceThreshold?: number; // 0-100, how significant must an event be
   };
+  // New: Background fact mining and contradiction checks against active Key Facts.
+  keyFacts?: {
+    autoExtract: boolean; // Propose new facts from recent messages
+    extractFrequency: number; // Mine every X messages
+    checkContradictions: boolean; // Check each model reply against active facts
+  };
   consciousState?: {
     mode: 'frequency' | 'smart'; // 'frequency' = old system, 'smart' = new emotional dynamics
     frequencyValue?: number; // Used only if mode = 'frequency'
@@ -220,8 +398,23 @@ export interface ConversationFact {
   isActive: boolean;
   // New: Injection mode - where to inject this fact
   injectMode?: 'system' | 'message'; // 'system' = system prompt (default), 'message' = inject as hidden user message
+  // New: Messages the fact was established in (set by the fact miner and by fact updates).
+  sourceMessageIds?: string[];
 }
 
+// New: A fact proposed by the fact miner, waiting for review in Key Facts.
+export interface FactProposal {
+  id: string;
+  content: string;
+  category: NonNullable<ConversationFact['category']>;
+  injectMode?: ConversationFact['injectMode'];
+  sourceMessageIds: string[];
+  createdAt: number;
+}
+
+// New: A fact proposal the user rejected. The miner neither proposes it again nor re-reads its messages.
+export type RejectedFactProposal = Pick<FactProposal, 'content' | 'sourceMessageIds'>;
+
 export interface Conversation {
   id: string;
   title: string;
@@ -233,14 +426,23 @@ export interface Conversation {
   enableThinking?: boolean;
   ragCollectionName?: string;
   telegramChatId?: number;
+  // New: Persona used in this conversation instead of the globally active one (set with the Telegram /persona command).
+  userPersonaId?: string;
   // Fix: Add optional model property to allow per-conversation model settings.
   model?: string;
   // New: Add properties for the optional Story Arcs feature.
   storyArcsEnabled?: boolean;
   currentLevel?: number;
   messageProgress?: number;
+  // New: 'event' milestones of the current Story Arc level the evaluator found reached.
+  storyArcReachedMilestoneIds?: string[];
+  // New: Level-up waiting for confirmation.
+  storyArcLevelUpProposal?: StoryArcLevelUpProposal;
+  // New: After a dismissed level-up, no new one is proposed before the conversation has this many messages.
+  storyArcSnoozedUntilMessage?: number;
   // New: Add properties for the Conscious State Engine.
   consciousState?: ConversationState | null;
+  consciousStateHistory?: ConsciousStateSnapshot[];
   consciousStateSettings?: {
     enabled: boolean;
     updateFrequency: number; // Update every N messages
@@ -252,15 +454,30 @@ export interface Conversation {
   scenario?: string;
   // New: Add narrative directives for the "Will Engine".
   narrativeDirectives?: NarrativeDirective[];
+  // New: Recent Director AI events (newest last), for template cooldowns.
+  directorEvents?: DirectorEventRecord[];
+  // New: Living Lore character updates waiting for review (oldest first).
+  livingLoreQueue?: LivingLoreProposal[];
+  // New: ComfyUI workflow for this conversation's images; overrides the characters' and the default one ('builtin' = the built-in graph).
+  comfyUIWorkflowId?: string;
+  // New: Characters pinned to a revision or forked for this conversation, by character ID.
+  characterOverrides?: Record<string, ConversationCharacterOverride>;
   // New: Add smart AI systems configuration
   smartSystemConfig?: SmartSystemConfig;
   // New: Add key facts for maintaining conversation consistency.
   facts?: ConversationFact[];
+  // New: Facts proposed by the fact miner (oldest first).
+  factProposals?: FactProposal[];
+  // New: Proposals rejected in Key Facts.
+  rejectedFactProposals?: RejectedFactProposal[];
   // New: Micro Prompt Cards (configurable quick one-time instructions)
   microPromptCards?: MicroPromptCard[];
   activeMicroCardIds?: string[]; // up to 3 ids
   // New: Generated songs from story context (displayed in chat flow, NOT injected in AI context)
   songs?: GeneratedSong[];
+  // New: Set on conversations forked from another one.
+  branch?: ConversationBranchInfo;
+  ragAncestors?: RagAncestorCollection[];
 }
 
 // New: Defines a configurable micro prompt card used to inject a one-time instruction
@@ -304,6 +521,53 @@ export interface Character {
   visualPrompt?: string;
   // Optional: Character avatar image (data URL, preferably WebP for compact storage)
   imageUrl?: string;
+  // New: Lorebooks that are active whenever this character is in a conversation (e.g. a card's embedded book)
+  lorebookIds?: string[];
+  // New: ComfyUI workflow for images of this character (see ComfyUISettings.workflows; 'builtin' = the built-in graph)
+  comfyUIWorkflowId?: string;
+  // New: How the character looks in generated images; applied whenever the character is in the scene
+  appearance?: CharacterAppearance;
+}
+
+// New: A character's appearance profile for image generation.
+export interface CharacterAppearance {
+  // Locked seed; unset keeps the generator's own seed.
+  seed?: number;
+  // LoRAs added to the generator's own, with their trigger phrases.
+  loras?: LoraConfig[];
+  // Data URL of the image new pictures are based on (img2img, or a workflow's reference image input).
+  referenceImage?: string;
+  // How much of the reference image is kept, 0-1 (img2img denoising is 1 minus this).
+  referenceStrength?: number;
+  // Tags added to the negative prompt.
+  negativeTags?: string;
+}
+
+// New: The parts of a character a revision keeps (everything but the avatar and the appearance reference image).
+export type CharacterSnapshot = Omit<Character, 'imageUrl'>;
+
+// New: A saved version of a character, stored in its own table each time the character changes.
+export interface CharacterRevision {
+  id: string;
+  characterId: string;
+  createdAt: number;
+  source: 'created' | 'baseline' | 'edit' | 'livingLore' | 'knowledgeUpdate' | 'restore';
+  summary: string;
+  // Text fields that changed compared to the previous revision.
+  changes: { field: CharacterSheetField; before: string; after: string }[];
+  // The whole character after the change.
+  snapshot: CharacterSnapshot;
+}
+
+export type CharacterSheetField = 'name' | 'description' | 'exampleDialogue' | 'authorNote' | 'visualPrompt' | 'events';
+
+// New: How a conversation uses a character instead of its shared, latest version.
+// 'pinned' freezes it at a revision; 'local' is a copy that only this conversation changes.
+export interface ConversationCharacterOverride {
+  mode: 'pinned' | 'local';
+  revisionId?: string;
+  character: CharacterSnapshot;
+  createdAt: number;
 }
 
 export interface UserPersona {
@@ -327,10 +591,45 @@ export interface IdentityProfile {
   content: IdentityFact[];
 }
 
+// New: How secondary keywords combine with a primary keyword match (SillyTavern "selective logic").
+export type LoreSecondaryLogic = 'AND_ANY' | 'AND_ALL' | 'NOT_ANY' | 'NOT_ALL';
+
 export interface LorebookEntry {
     id: string;
-    keywords: string;
+    keywords: string; // Comma-separated. A key written as /pattern/flags is a regular expression.
     content: string;
+    // New: Optional activation semantics (SillyTavern World Info / NovelAI compatible).
+    name?: string; // Display label / memo
+    enabled?: boolean; // Defaults to true
+    constant?: boolean; // Always injected, no keyword needed
+    secondaryKeywords?: string; // Comma-separated, evaluated with secondaryLogic
+    secondaryLogic?: LoreSecondaryLogic; // Defaults to 'AND_ANY'
+    caseSensitive?: boolean; // Defaults to false
+    matchWholeWords?: boolean; // Defaults to false
+    scanDepth?: number; // Messages to scan; overrides the lorebook's scanDepth
+    order?: number; // Insertion order / priority: higher wins when the token budget is tight
+    excludeRecursion?: boolean; // Only the chat can trigger this entry, not other entries' content
+    preventRecursion?: boolean; // This entry's content never triggers other entries
+}
+
+// New: Why a lore entry was activated and whether it made it into the prompt.
+export interface LoreActivationRecord {
+    lorebookName: string;
+    entryId: string;
+    entryLabel: string; // Entry name, or its first keyword
+    reason: 'constant' | 'keyword' | 'recursion';
+    matchedKey?: string;
+    triggeredBy?: string; // Label of the entry whose content triggered a recursive activation
+    recursionDepth: number; // 0 = matched in the chat
+    order: number;
+    tokens: number;
+    status: 'injected' | 'dropped_book_budget' | 'dropped_global_budget';
+}
+
+export interface LoreActivationResult {
+    loreText: string; // Formatted lore block for the system prompt ('' if nothing fired)
+    trace: LoreActivationRecord[];
+    usedTokens: number;
 }
 
 export interface Lorebook {
@@ -339,6 +638,9 @@ export interface Lorebook {
     name: string;
     description: string;
     entries: LorebookEntry[];
+    // New: Book-level defaults
+    scanDepth?: number; // Messages to scan for keywords (default 6)
+    tokenBudget?: number; // Max tokens of lore injected from this book (unset = unlimited)
 }
 
 export interface ADetailerUnit {
@@ -389,6 +691,39 @@ export interface ComfyUISettings {
     webpQuality: number; // 0-100 for browser conversion quality
     loras: LoraConfig[];
     negativePrompt: string;
+    // New: Imported workflows, used instead of the built-in graph when selected.
+    workflows?: ComfyUIWorkflow[];
+    // New: Workflow used when neither the conversation nor its characters pick one. Unset = built-in graph.
+    defaultWorkflowId?: string;
+}
+
+// New: Values the app fills into an imported ComfyUI workflow.
+export type ComfyUIPlaceholder = 'prompt' | 'negative' | 'seed' | 'width' | 'height' | 'steps' | 'cfg' | 'checkpoint' | 'referenceImage';
+
+// New: Binds a placeholder to one node input. A string input containing `{{placeholder}}` gets only that token replaced.
+export interface ComfyUIWorkflowBinding {
+    id: string;
+    placeholder: ComfyUIPlaceholder;
+    nodeId: string;
+    input: string;
+}
+
+// New: One node of an API-format ComfyUI workflow.
+export interface ComfyUIWorkflowNode {
+    class_type: string;
+    inputs: Record<string, any>;
+    _meta?: { title?: string };
+}
+
+// New: A user-imported ComfyUI workflow (API format) with its placeholder bindings.
+export interface ComfyUIWorkflow {
+    id: string;
+    name: string;
+    graph: Record<string, ComfyUIWorkflowNode>;
+    bindings: ComfyUIWorkflowBinding[];
+    // Node whose images are returned. Unset = the last SaveImage node.
+    outputNodeId?: string;
+    createdAt: number;
 }
 
 export interface StableDiffusionSettings {
@@ -434,6 +769,9 @@ export interface TelegramSettings {
   isConnected: boolean;
   botUsername: string;
   chatWhitelist: string; // Comma-separated chat IDs
+  // New: How updates reach the app. 'relay' receives them from the local webhook relay (see relay/README.md).
+  transport: 'polling' | 'relay';
+  relayUrl: string;
 }
 
 // New: Defines a global story level with its own system prompt.
@@ -442,6 +780,36 @@ export interface StoryArcLevel {
     level: number;
     messagesToNext: number;
     systemPrompt: string;
+    // New: Narrative conditions for leaving this level. When set, they replace `messagesToNext`.
+    milestones?: StoryArcMilestone[];
+    // New: Whether all milestones or any one of them must be reached. Defaults to 'all'.
+    milestoneMode?: 'all' | 'any';
+}
+
+// New: A condition for leaving a Story Arc level, checked by the Story Arc evaluator after each response.
+export interface StoryArcMilestone {
+    id: string;
+    // 'fact': an active conversation fact contains `text`.
+    // 'event': the model judges that `text` has happened in the story; once reached it stays reached.
+    // 'directive': a completed Will Engine directive's goal contains `text`.
+    // 'sceneTension': the Conscious State scene tension (0-1) compared with `value`.
+    // 'relationship': a Conscious State relationship metric (-1 to 1) of `fromCharacter` toward `toCharacter` compared with `value`.
+    type: 'fact' | 'event' | 'directive' | 'sceneTension' | 'relationship';
+    text?: string;
+    comparison?: 'atLeast' | 'atMost';
+    value?: number;
+    fromCharacter?: string;
+    toCharacter?: string;
+    metric?: 'trust' | 'affinity' | 'forgiveness';
+}
+
+// New: A level-up proposed by the Story Arc evaluator, waiting for the user to confirm it.
+export interface StoryArcLevelUpProposal {
+    fromLevel: number;
+    toLevel: number;
+    proposedAt: number;
+    // Descriptions of the milestones that were reached.
+    reasons: string[];
 }
 
 // New: Defines a user-configurable prompt used by AI services.
@@ -450,7 +818,7 @@ export interface Prompt {
   name: string;
   description: string;
   template: string;
-  model: 'gemini-2.5-flash' | 'gemini-2.5-flash-lite' | 'models/gemini-flash-latest' | 'models/gemini-flash-lite-latest';
+  model: string; // Any model ID: Gemini, OpenRouter, XAI or custom:<endpointId>:<model>
 }
 
 // New: Defines user-configurable settings for AI writing style and behavior.
@@ -518,6 +886,8 @@ export interface Settings {
   geminiApiKeys: string;
   openRouterApiKey: string;
   xaiApiKey: string;
+  // New: User-defined OpenAI-compatible endpoints (local or self-hosted backends).
+  customEndpoints: CustomEndpoint[];
   temperature: number;
   topK: number;
   topP: number;
@@ -563,6 +933,10 @@ export interface Settings {
     chunkSize: number;
     // New: Control where RAG context is injected: system prompt or user message
     injectMode: 'system_prompt' | 'user_message';
+    // New: Hybrid retrieval. A BM25 keyword index is fused with the vector results (reciprocal rank fusion).
+    hybridSearch: boolean;
+    vectorWeight: number; // Weight of the vector ranking in the fusion
+    keywordWeight: number; // Weight of the keyword ranking in the fusion
   };
   comfyUI: ComfyUISettings;
   stableDiffusion: StableDiffusionSettings;
@@ -573,6 +947,15 @@ export interface Settings {
     automatic: boolean;
     frequency: number; // Number of message pairs to wait
     scanDepth: number; // How many recent messages to scan
+    // New: Event templates the Director picks from before writing an event. Empty means free-form events only.
+    eventLibrary: DirectorEventTemplate[];
+  };
+  // New: Tokenizer used to count tokens for each model family (built-in encoding ID or CustomTokenizer ID).
+  tokenizerAssignments: Record<TokenizerFamily, string>;
+  // New: Lorebook activation limits.
+  lore: {
+    recursionDepth: number; // How many times activated entry text may trigger further entries (0 = off)
+    tokenBudget: number | null; // Max tokens of lore per response across all books (null = unlimited)
   };
   livingLore: {
     enabled: boolean;
@@ -639,6 +1022,35 @@ export interface RagMemory {
   relations?: RagMemoryRelation[];
 }
 
+// New: Persisted BM25 keyword index of a RAG collection. Rebuilt whenever the collection's metadata is saved.
+export interface RagLexicalDocument {
+  memoryId: string;
+  length: number; // Number of indexed terms
+  termFrequencies: Record<string, number>;
+}
+
+export interface RagLexicalIndex {
+  collectionName: string;
+  documentCount: number;
+  averageLength: number;
+  documentFrequencies: Record<string, number>; // Number of documents containing each term
+  documents: RagLexicalDocument[];
+  updatedAt: number;
+}
+
+// New: A background job re-embedding a RAG collection with another embedding engine.
+// The vectors computed so far are staged per memory, so the job resumes after a reload.
+export interface RagReembedJob {
+  collectionName: string;
+  targetEngine: Settings['rag']['embeddingEngine'];
+  status: 'running' | 'failed';
+  processed: number;
+  total: number;
+  error?: string;
+  startedAt: number;
+  updatedAt: number;
+}
+
 
 // --- Notification System Types ---
 // Fix: Add NotificationAction type for notifications with multiple buttons and prompt support.
@@ -679,6 +1091,21 @@ export interface LivingLoreUpdate {
     authorNote: string;
 }
 
+// New: The character sheet fields Living Lore rewrites.
+export type LivingLoreField = keyof LivingLoreUpdate;
+
+// New: A generated Living Lore rewrite waiting in a conversation's review queue.
+export interface LivingLoreProposal {
+    id: string;
+    createdAt: number;
+    characterId: string;
+    characterName: string;
+    summaryOfChange: string;
+    // The message the change was detected after.
+    sourceMessageId?: string;
+    update: LivingLoreUpdate;
+}
+
 // --- Telegram API Types ---
 export interface TelegramUser {
   id: number;
@@ -708,12 +1135,39 @@ export interface TelegramChat {
     first_name?: string;
 }
 
+export interface TelegramPhotoSize {
+    file_id: string;
+    file_unique_id: string;
+    width: number;
+    height: number;
+    file_size?: number;
+}
+
+export interface TelegramVoice {
+    file_id: string;
+    file_unique_id: string;
+    duration: number;
+    mime_type?: string;
+    file_size?: number;
+}
+
+export interface TelegramFile {
+    file_id: string;
+    file_unique_id: string;
+    file_size?: number;
+    file_path?: string;
+}
+
 export interface TelegramMessage {
     message_id: number;
     date: number;
     chat: TelegramChat;
     from?: TelegramUser;
     text?: string;
+    // New: Media messages carry a caption instead of text.
+    caption?: string;
+    photo?: TelegramPhotoSize[]; // Available sizes, smallest first
+    voice?: TelegramVoice;
 }
 
 export interface InlineKeyboardButton {
@@ -741,6 +1195,18 @@ export interface TelegramUpdate {
     callback_query?: CallbackQuery;
 }
 
+// New: Messages exchanged with the local Telegram relay over its WebSocket.
+// The relay sends conversations it changed while running headless before 'hello'.
+export type TelegramRelayServerMessage =
+  | { type: 'hello'; queued: number }
+  | { type: 'update'; update: TelegramUpdate }
+  | { type: 'conversation'; conversation: Conversation };
+
+export type TelegramRelayClientMessage =
+  | { type: 'ack'; updateId: number }
+  | { type: 'conversation'; conversation: Conversation }
+  | { type: 'synced'; conversationId: string };
+
 // --- API Connector Service Types ---
 export interface NewsArticle {
   title: string;
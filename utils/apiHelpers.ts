@@ -365,6 +365,9 @@ export const streamGeminiWithRetry = async (
             // Success! Exit the retry loop
             return;
         } catch (error: any) {
+            if (error.name === 'AbortError') {
+                throw error; // Propagate abort signals immediately.
+            }
             lastError = error;
             log('WARN', 'API_FAIL', `Gemini streaming failed with key ending in ...${key.slice(-4)}.`, { error: error.message });
             
@@ -3,7 +3,7 @@ import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import wasm from 'vite-plugin-wasm';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
   const env = loadEnv(mode, '.', '');
   return {
     server: {
@@ -35,7 +35,8 @@ export default defineConfig(({ mode }) => {
     build: {
       target: 'esnext',
       rollupOptions: {
-        output: {
+        // The Telegram relay (npm run relay) is built for Node and imports neither React nor the UI.
+        output: isSsrBuild ? {} : {
           manualChunks: {
             vendor: ['react', 'react-dom'],
           }